@@ -0,0 +1,27 @@
+-- Create admin_audit_log table to record every action taken through the admin console
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  admin_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  action VARCHAR(100) NOT NULL,
+  target_type VARCHAR(50),
+  target_id TEXT,
+  details JSONB,
+  ip_address INET,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for filtering the audit log
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_admin_id ON admin_audit_log(admin_id);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_action ON admin_audit_log(action);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_type, target_id);
+
+-- Flag set by admins to force a user to choose a new password before logging in again
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS password_reset_required BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON TABLE admin_audit_log IS 'Audit trail of admin console actions';
+COMMENT ON COLUMN admin_audit_log.action IS 'Action name, e.g. user.unlock, user.set_admin, relevance_weights.update';
+COMMENT ON COLUMN admin_audit_log.details IS 'Action-specific data (previous/new values, counts, etc.)';
+COMMENT ON COLUMN users.password_reset_required IS 'Set by an admin to block login until the password is reset';
@@ -0,0 +1,320 @@
+-- Denormalised engagement counters
+-- videos.likes_count / comments_count / shares_count and comments.comment_likes_count are kept
+-- current by triggers, so reads and engagement sorting no longer count rows. shares_count is
+-- total share-link clicks (SUM of shareable_urls.click_count), as in the relevance engagement score.
+-- Drift (e.g. rows changed with triggers disabled) is repaired by reconcile_engagement_counts(),
+-- also available as `npm run reconcile-counts`.
+-- Run after add-shareable-urls.sql, add-search-explain.sql and add-video-engagement.sql
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS likes_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS comments_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS shares_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS comment_likes_count INTEGER NOT NULL DEFAULT 0;
+
+-- Browsing sorted by engagement
+CREATE INDEX IF NOT EXISTS idx_videos_engagement ON videos((likes_count + comments_count + shares_count) DESC, created_at DESC) WHERE is_hidden = FALSE;
+
+-- ============================================================
+-- Triggers
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION update_video_likes_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE videos SET likes_count = likes_count + 1 WHERE id = NEW.video_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE videos SET likes_count = GREATEST(likes_count - 1, 0) WHERE id = OLD.video_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_video_likes_count ON video_likes;
+CREATE TRIGGER trg_video_likes_count
+  AFTER INSERT OR DELETE ON video_likes
+  FOR EACH ROW EXECUTE FUNCTION update_video_likes_count();
+
+CREATE OR REPLACE FUNCTION update_video_comments_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE videos SET comments_count = comments_count + 1 WHERE id = NEW.video_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE videos SET comments_count = GREATEST(comments_count - 1, 0) WHERE id = OLD.video_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_video_comments_count ON comments;
+CREATE TRIGGER trg_video_comments_count
+  AFTER INSERT OR DELETE ON comments
+  FOR EACH ROW EXECUTE FUNCTION update_video_comments_count();
+
+CREATE OR REPLACE FUNCTION update_comment_likes_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE comments SET comment_likes_count = comment_likes_count + 1 WHERE id = NEW.comment_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE comments SET comment_likes_count = GREATEST(comment_likes_count - 1, 0) WHERE id = OLD.comment_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_comment_likes_count ON comment_likes;
+CREATE TRIGGER trg_comment_likes_count
+  AFTER INSERT OR DELETE ON comment_likes
+  FOR EACH ROW EXECUTE FUNCTION update_comment_likes_count();
+
+-- Share links are created once and then clicked (click_count incremented), so updates count too
+CREATE OR REPLACE FUNCTION update_video_shares_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE videos SET shares_count = shares_count + COALESCE(NEW.click_count, 0) WHERE id = NEW.video_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE videos SET shares_count = GREATEST(shares_count - COALESCE(OLD.click_count, 0), 0) WHERE id = OLD.video_id;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.video_id IS DISTINCT FROM OLD.video_id THEN
+      UPDATE videos SET shares_count = GREATEST(shares_count - COALESCE(OLD.click_count, 0), 0) WHERE id = OLD.video_id;
+      UPDATE videos SET shares_count = shares_count + COALESCE(NEW.click_count, 0) WHERE id = NEW.video_id;
+    ELSIF COALESCE(NEW.click_count, 0) <> COALESCE(OLD.click_count, 0) THEN
+      UPDATE videos
+      SET shares_count = GREATEST(shares_count + COALESCE(NEW.click_count, 0) - COALESCE(OLD.click_count, 0), 0)
+      WHERE id = NEW.video_id;
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_video_shares_count ON shareable_urls;
+CREATE TRIGGER trg_video_shares_count
+  AFTER INSERT OR DELETE OR UPDATE OF click_count, video_id ON shareable_urls
+  FOR EACH ROW EXECUTE FUNCTION update_video_shares_count();
+
+-- ============================================================
+-- Reconciliation
+-- ============================================================
+
+-- Recount every counter from the source tables and fix rows that drifted.
+-- dry_run only reports how many rows are wrong.
+-- The source tables are locked against writes until the transaction ends, so a like or comment
+-- can't land between the recount and the fix (its trigger would then be overwritten).
+CREATE OR REPLACE FUNCTION reconcile_engagement_counts(dry_run BOOLEAN DEFAULT FALSE)
+RETURNS TABLE (counter TEXT, rows_fixed BIGINT) AS $$
+#variable_conflict use_column
+DECLARE
+  fixed BIGINT;
+BEGIN
+  LOCK TABLE video_likes, comments, comment_likes, shareable_urls IN SHARE MODE;
+
+  -- videos counters
+  CREATE TEMP TABLE video_actual ON COMMIT DROP AS
+  SELECT
+    v.id,
+    (SELECT COUNT(*) FROM video_likes vl WHERE vl.video_id = v.id)::INTEGER AS likes,
+    (SELECT COUNT(*) FROM comments c WHERE c.video_id = v.id)::INTEGER AS comments,
+    (SELECT COALESCE(SUM(su.click_count), 0) FROM shareable_urls su WHERE su.video_id = v.id)::INTEGER AS shares
+  FROM videos v;
+
+  IF dry_run THEN
+    SELECT COUNT(*) INTO fixed FROM videos v JOIN video_actual a ON a.id = v.id WHERE v.likes_count <> a.likes;
+  ELSE
+    UPDATE videos v SET likes_count = a.likes FROM video_actual a WHERE a.id = v.id AND v.likes_count <> a.likes;
+    GET DIAGNOSTICS fixed = ROW_COUNT;
+  END IF;
+  counter := 'videos.likes_count'; rows_fixed := fixed; RETURN NEXT;
+
+  IF dry_run THEN
+    SELECT COUNT(*) INTO fixed FROM videos v JOIN video_actual a ON a.id = v.id WHERE v.comments_count <> a.comments;
+  ELSE
+    UPDATE videos v SET comments_count = a.comments FROM video_actual a WHERE a.id = v.id AND v.comments_count <> a.comments;
+    GET DIAGNOSTICS fixed = ROW_COUNT;
+  END IF;
+  counter := 'videos.comments_count'; rows_fixed := fixed; RETURN NEXT;
+
+  IF dry_run THEN
+    SELECT COUNT(*) INTO fixed FROM videos v JOIN video_actual a ON a.id = v.id WHERE v.shares_count <> a.shares;
+  ELSE
+    UPDATE videos v SET shares_count = a.shares FROM video_actual a WHERE a.id = v.id AND v.shares_count <> a.shares;
+    GET DIAGNOSTICS fixed = ROW_COUNT;
+  END IF;
+  counter := 'videos.shares_count'; rows_fixed := fixed; RETURN NEXT;
+
+  -- comments.comment_likes_count
+  CREATE TEMP TABLE comment_actual ON COMMIT DROP AS
+  SELECT c.id, (SELECT COUNT(*) FROM comment_likes cl WHERE cl.comment_id = c.id)::INTEGER AS likes
+  FROM comments c;
+
+  IF dry_run THEN
+    SELECT COUNT(*) INTO fixed FROM comments c JOIN comment_actual a ON a.id = c.id WHERE c.comment_likes_count <> a.likes;
+  ELSE
+    UPDATE comments c SET comment_likes_count = a.likes FROM comment_actual a WHERE a.id = c.id AND c.comment_likes_count <> a.likes;
+    GET DIAGNOSTICS fixed = ROW_COUNT;
+  END IF;
+  counter := 'comments.comment_likes_count'; rows_fixed := fixed; RETURN NEXT;
+
+  DROP TABLE video_actual;
+  DROP TABLE comment_actual;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill existing rows. Writes committed before the recount are in it; later ones wait for the
+-- lock and are then added by the triggers.
+SELECT * FROM reconcile_engagement_counts();
+
+-- ============================================================
+-- Readers: use the counters instead of counting rows
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION video_engagement_counts(
+  video_ids UUID[],
+  views_since TIMESTAMP DEFAULT NULL
+)
+RETURNS TABLE (
+  video_id UUID,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  shares_count BIGINT,
+  recent_views BIGINT
+) AS $$
+  SELECT
+    v.id,
+    v.likes_count::BIGINT,
+    v.comments_count::BIGINT,
+    v.shares_count::BIGINT,
+    CASE
+      WHEN views_since IS NULL THEN 0
+      ELSE (SELECT COUNT(*) FROM video_views vv WHERE vv.video_id = v.id AND vv.viewed_at >= views_since)
+    END
+  FROM videos v
+  WHERE v.id = ANY(COALESCE(video_ids, '{}'));
+$$ LANGUAGE sql STABLE;
+
+-- Same as add-search-explain.sql, reading the counters (engagement sort is a plain ORDER BY)
+CREATE OR REPLACE FUNCTION search_videos(
+  search_query TEXT DEFAULT NULL,
+  sort_option TEXT DEFAULT 'relevance',
+  include_unavailable BOOLEAN DEFAULT FALSE,
+  excluded_user_ids UUID[] DEFAULT '{}',
+  extra_video_ids UUID[] DEFAULT '{}',
+  filter_species TEXT DEFAULT NULL,
+  filter_breed TEXT DEFAULT NULL,
+  filter_uploader UUID DEFAULT NULL,
+  filter_from TIMESTAMP DEFAULT NULL,
+  filter_to TIMESTAMP DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0,
+  override_weights JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  video_id UUID,
+  relevance_score DOUBLE PRECISION,
+  keyword_score DOUBLE PRECISION,
+  view_count_score DOUBLE PRECISION,
+  like_ratio_score DOUBLE PRECISION,
+  recency_score DOUBLE PRECISION,
+  engagement_score DOUBLE PRECISION,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  shares_count BIGINT,
+  total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  weights relevance_weights%ROWTYPE;
+BEGIN
+  SELECT * INTO weights FROM relevance_weights ORDER BY updated_at DESC LIMIT 1;
+  IF NOT FOUND THEN
+    -- Same defaults as relevanceAlgorithm.ts
+    weights.keyword_match := 0.40;
+    weights.view_count := 0.15;
+    weights.like_ratio := 0.15;
+    weights.recency := 0.15;
+    weights.engagement := 0.15;
+  END IF;
+
+  IF override_weights IS NOT NULL THEN
+    weights.keyword_match := COALESCE((override_weights->>'keyword_match')::NUMERIC, weights.keyword_match);
+    weights.view_count := COALESCE((override_weights->>'view_count')::NUMERIC, weights.view_count);
+    weights.like_ratio := COALESCE((override_weights->>'like_ratio')::NUMERIC, weights.like_ratio);
+    weights.recency := COALESCE((override_weights->>'recency')::NUMERIC, weights.recency);
+    weights.engagement := COALESCE((override_weights->>'engagement')::NUMERIC, weights.engagement);
+  END IF;
+
+  RETURN QUERY
+  WITH scored AS (
+    SELECT
+      m.video_id,
+      COALESCE(v.view_count, 0)::BIGINT AS views,
+      v.created_at,
+      v.likes_count::BIGINT AS likes,
+      v.comments_count::BIGINT AS comments,
+      v.shares_count::BIGINT AS shares,
+      CASE
+        -- Browsing, or matched only through extra_video_ids: neutral keyword score
+        WHEN NOT m.text_match THEN 0.5
+        ELSE m.text_rank / NULLIF(MAX(m.text_rank) OVER (), 0)
+      END AS keyword_score
+    FROM match_videos(search_query, include_unavailable, excluded_user_ids, extra_video_ids) m
+    JOIN videos v ON v.id = m.video_id
+    WHERE (filter_species IS NULL OR v.species = filter_species)
+      AND (filter_breed IS NULL OR v.breed = filter_breed)
+      AND (filter_uploader IS NULL OR v.user_id = filter_uploader)
+      AND (filter_from IS NULL OR v.created_at >= filter_from)
+      AND (filter_to IS NULL OR v.created_at <= filter_to)
+  ),
+  ranked AS (
+    SELECT
+      scored.*,
+      c.view_count AS view_component,
+      c.like_ratio AS like_ratio_component,
+      c.recency AS recency_component,
+      c.engagement_score AS engagement_component,
+      c.keyword_match * weights.keyword_match
+        + c.view_count * weights.view_count
+        + c.like_ratio * weights.like_ratio
+        + c.recency * weights.recency
+        + c.engagement_score * weights.engagement AS relevance
+    FROM scored
+    CROSS JOIN LATERAL video_relevance_components(
+      COALESCE(scored.keyword_score, 0), scored.views, scored.likes,
+      scored.likes + scored.comments + scored.shares, scored.created_at
+    ) AS c
+  )
+  SELECT
+    ranked.video_id,
+    ranked.relevance,
+    COALESCE(ranked.keyword_score, 0)::DOUBLE PRECISION,
+    ranked.view_component,
+    ranked.like_ratio_component,
+    ranked.recency_component,
+    ranked.engagement_component,
+    ranked.likes,
+    ranked.comments,
+    ranked.shares,
+    COUNT(*) OVER ()
+  FROM ranked
+  ORDER BY
+    CASE sort_option
+      WHEN 'recency' THEN EXTRACT(EPOCH FROM ranked.created_at)::DOUBLE PRECISION
+      WHEN 'view_count' THEN ranked.views::DOUBLE PRECISION
+      WHEN 'engagement' THEN (ranked.likes + ranked.comments + ranked.shares)::DOUBLE PRECISION
+      ELSE ranked.relevance
+    END DESC,
+    ranked.created_at DESC,
+    ranked.video_id
+  LIMIT result_limit
+  OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON COLUMN videos.likes_count IS 'Maintained by trg_video_likes_count';
+COMMENT ON COLUMN videos.comments_count IS 'Maintained by trg_video_comments_count';
+COMMENT ON COLUMN videos.shares_count IS 'Share-link clicks; maintained by trg_video_shares_count';
+COMMENT ON COLUMN comments.comment_likes_count IS 'Maintained by trg_comment_likes_count';
+COMMENT ON FUNCTION reconcile_engagement_counts IS 'Recount engagement counters and repair drift (dry_run to only report)';
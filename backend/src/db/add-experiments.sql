@@ -0,0 +1,95 @@
+-- A/B experiments for ranking and feed algorithms
+-- An experiment targets one surface (search or trending) and splits traffic between variants by
+-- percentage. Subjects (user ID, or an anonymous visitor cookie ID) are assigned by hashing, so
+-- the same subject always sees the same variant; see services/experiments.ts.
+
+CREATE TABLE IF NOT EXISTS experiments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  key VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  surface VARCHAR(20) NOT NULL CHECK (surface IN ('search', 'trending')),
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP,
+  stopped_at TIMESTAMP
+);
+
+-- At most one running experiment per surface, so a request never has to pick between two
+CREATE UNIQUE INDEX IF NOT EXISTS idx_experiments_running_surface ON experiments(surface) WHERE status = 'running';
+
+CREATE TABLE IF NOT EXISTS experiment_variants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  experiment_id UUID NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+  key VARCHAR(50) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  allocation INTEGER NOT NULL CHECK (allocation BETWEEN 0 AND 100),
+  config JSONB NOT NULL DEFAULT '{}',
+  position INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (experiment_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiment_variants_experiment ON experiment_variants(experiment_id, position);
+
+CREATE TABLE IF NOT EXISTS experiment_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  experiment_id UUID NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+  variant_key VARCHAR(50) NOT NULL,
+  subject_id TEXT NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('exposure', 'click', 'like', 'watch_start')),
+  video_id UUID REFERENCES videos(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiment_events_subject ON experiment_events(experiment_id, subject_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_experiment_events_type ON experiment_events(experiment_id, event_type, variant_key);
+
+-- Per-variant metrics. Outcomes only count for subjects that were exposed to the variant,
+-- from their first exposure on.
+CREATE OR REPLACE FUNCTION experiment_report(target_experiment UUID)
+RETURNS TABLE (
+  variant_key VARCHAR,
+  subjects BIGINT,
+  exposures BIGINT,
+  clicks BIGINT,
+  likes BIGINT,
+  watch_starts BIGINT,
+  clicking_subjects BIGINT,
+  liking_subjects BIGINT,
+  watching_subjects BIGINT
+) AS $$
+  WITH exposed AS (
+    SELECT e.variant_key, e.subject_id, MIN(e.created_at) AS first_exposed_at
+    FROM experiment_events e
+    WHERE e.experiment_id = target_experiment
+      AND e.event_type = 'exposure'
+    GROUP BY e.variant_key, e.subject_id
+  ),
+  attributed AS (
+    SELECT e.variant_key, e.subject_id, e.event_type
+    FROM experiment_events e
+    JOIN exposed x ON x.variant_key = e.variant_key AND x.subject_id = e.subject_id
+    WHERE e.experiment_id = target_experiment
+      AND e.created_at >= x.first_exposed_at
+  )
+  SELECT
+    a.variant_key,
+    COUNT(DISTINCT a.subject_id),
+    COUNT(*) FILTER (WHERE a.event_type = 'exposure'),
+    COUNT(*) FILTER (WHERE a.event_type = 'click'),
+    COUNT(*) FILTER (WHERE a.event_type = 'like'),
+    COUNT(*) FILTER (WHERE a.event_type = 'watch_start'),
+    COUNT(DISTINCT a.subject_id) FILTER (WHERE a.event_type = 'click'),
+    COUNT(DISTINCT a.subject_id) FILTER (WHERE a.event_type = 'like'),
+    COUNT(DISTINCT a.subject_id) FILTER (WHERE a.event_type = 'watch_start')
+  FROM attributed a
+  GROUP BY a.variant_key;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE experiments IS 'A/B experiments on a ranking surface (search, trending)';
+COMMENT ON COLUMN experiments.key IS 'Stable identifier; part of the assignment hash, so never reuse one';
+COMMENT ON COLUMN experiment_variants.allocation IS 'Percentage of subjects assigned to this variant (an experiment''s variants sum to 100)';
+COMMENT ON COLUMN experiment_variants.config IS 'Surface-specific overrides: search {"weights": {...}}, trending {"viewVelocityWeight", "engagementWeight"}; {} = control';
+COMMENT ON COLUMN experiment_events.subject_id IS 'User ID when signed in, otherwise the anonymous visitor cookie ID';
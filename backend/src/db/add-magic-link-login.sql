@@ -0,0 +1,34 @@
+-- Add passwordless magic-link login and an audit trail for authentication events
+
+CREATE TABLE IF NOT EXISTS magic_link_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  requested_ip INET,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP
+);
+
+-- Per-user throttling looks at recent requests
+CREATE INDEX IF NOT EXISTS idx_magic_link_tokens_user_created ON magic_link_tokens(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS auth_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  event VARCHAR(100) NOT NULL,
+  email VARCHAR(255),
+  ip_address INET,
+  user_agent TEXT,
+  details JSONB,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_audit_log_created_at ON auth_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_auth_audit_log_user_id ON auth_audit_log(user_id);
+CREATE INDEX IF NOT EXISTS idx_auth_audit_log_event ON auth_audit_log(event);
+
+COMMENT ON TABLE magic_link_tokens IS 'Single-use, short-lived passwordless login links';
+COMMENT ON COLUMN magic_link_tokens.token_hash IS 'SHA-256 of the emailed token - the raw token is never stored';
+COMMENT ON TABLE auth_audit_log IS 'Audit trail of authentication events (magic links, etc.)';
+COMMENT ON COLUMN auth_audit_log.event IS 'Event name, e.g. magic_link.requested, magic_link.verified, magic_link.failed';
@@ -0,0 +1,35 @@
+-- Add "Sign in with ..." through a configurable OpenID Connect provider
+-- Accounts created through OIDC have no password, so password_hash becomes optional
+
+ALTER TABLE users
+ALTER COLUMN password_hash DROP NOT NULL;
+
+-- External identities linked to a user (one row per provider account)
+CREATE TABLE IF NOT EXISTS user_identities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider VARCHAR(100) NOT NULL,
+  subject VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_login_at TIMESTAMP,
+  UNIQUE (provider, subject)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_identities_user_id ON user_identities(user_id);
+
+-- In-flight authorization requests (state, nonce and PKCE verifier never leave the server)
+CREATE TABLE IF NOT EXISTS oidc_auth_requests (
+  state VARCHAR(64) PRIMARY KEY,
+  code_verifier VARCHAR(128) NOT NULL,
+  nonce VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_oidc_auth_requests_expires_at ON oidc_auth_requests(expires_at);
+
+COMMENT ON COLUMN users.password_hash IS 'bcrypt hash; NULL for accounts that only sign in through an identity provider';
+COMMENT ON TABLE user_identities IS 'Identity provider accounts linked to a user (issuer + subject)';
+COMMENT ON COLUMN user_identities.provider IS 'OIDC issuer URL';
+COMMENT ON TABLE oidc_auth_requests IS 'Pending OIDC logins; each row is consumed by the callback';
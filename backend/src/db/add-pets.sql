@@ -0,0 +1,33 @@
+-- Pet profiles
+-- Users create profiles for their pets and tag shared videos with them;
+-- each pet has a page listing its videos, and search matches pet names and breeds
+
+CREATE TABLE IF NOT EXISTS pets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  species VARCHAR(30) NOT NULL,
+  breed VARCHAR(100),
+  birthday DATE,
+  photo_url TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_pets_owner_id ON pets(owner_id);
+CREATE INDEX IF NOT EXISTS idx_pets_name_lower ON pets(LOWER(name));
+CREATE INDEX IF NOT EXISTS idx_pets_breed_lower ON pets(LOWER(breed));
+
+-- Videos tagged with the pets that appear in them (only the video's sharer can tag their own pets)
+CREATE TABLE IF NOT EXISTS video_pets (
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  pet_id UUID NOT NULL REFERENCES pets(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (video_id, pet_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_pets_pet_id ON video_pets(pet_id);
+
+COMMENT ON TABLE pets IS 'Pet profiles owned by users';
+COMMENT ON COLUMN pets.photo_url IS 'Public URL in the profile-pictures storage bucket ({owner_id}/pets/{pet_id}.ext)';
+COMMENT ON TABLE video_pets IS 'Pets tagged in a shared video';
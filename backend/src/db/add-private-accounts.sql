@@ -0,0 +1,19 @@
+-- Private accounts
+-- Following a private account creates a pending request the owner approves or denies;
+-- only approved followers see the account's profile details, videos and playlists
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS is_private BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS follow_requests (
+  requester_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  target_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (requester_id, target_id),
+  CONSTRAINT follow_requests_not_self CHECK (requester_id <> target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follow_requests_target_id ON follow_requests(target_id, created_at DESC);
+
+COMMENT ON COLUMN users.is_private IS 'When true, follows need approval and content is limited to approved followers';
+COMMENT ON TABLE follow_requests IS 'Pending follow requests to private accounts (deleted on approve/deny)';
@@ -0,0 +1,208 @@
+-- Private accounts in search and suggestions
+-- Videos from private accounts are only visible to the owner and approved followers (as on
+-- /videos/user/:userId and in recommend_videos). Search matching, facets and title suggestions
+-- take the viewer and apply that rule in SQL; other listings exclude such accounts in the API.
+-- Run after add-engagement-counters.sql and add-search-suggest.sql
+
+-- Whether a viewer (NULL = signed out) may see an author's videos
+CREATE OR REPLACE FUNCTION can_view_author(author_id UUID, viewer_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM users u WHERE u.id = author_id AND u.is_private = TRUE)
+    OR (viewer_id IS NOT NULL AND author_id = viewer_id)
+    OR (viewer_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM followers f WHERE f.follower_id = viewer_id AND f.following_id = author_id
+    ));
+$$ LANGUAGE sql STABLE;
+
+-- New trailing viewer_id parameter: drop the old signatures so calls can't be ambiguous
+DROP FUNCTION IF EXISTS match_videos(TEXT, BOOLEAN, UUID[], UUID[]);
+DROP FUNCTION IF EXISTS search_videos(TEXT, TEXT, BOOLEAN, UUID[], UUID[], TEXT, TEXT, UUID, TIMESTAMP, TIMESTAMP, INTEGER, INTEGER, JSONB);
+DROP FUNCTION IF EXISTS search_video_facet_rows(TEXT, BOOLEAN, UUID[], UUID[], INTEGER);
+DROP FUNCTION IF EXISTS suggest_video_titles(TEXT, UUID[], INTEGER);
+
+-- Same as add-search-fuzzy.sql, plus the private account rule
+CREATE OR REPLACE FUNCTION match_videos(
+  search_query TEXT,
+  include_unavailable BOOLEAN DEFAULT FALSE,
+  excluded_user_ids UUID[] DEFAULT '{}',
+  extra_video_ids UUID[] DEFAULT '{}',
+  viewer_id UUID DEFAULT NULL
+)
+RETURNS TABLE (video_id UUID, text_match BOOLEAN, text_rank REAL) AS $$
+  WITH q AS (
+    SELECT CASE
+      WHEN NULLIF(TRIM(COALESCE(search_query, '')), '') IS NULL THEN NULL
+      WHEN numnode(to_tsquery('english', search_query)) = 0 THEN NULL
+      ELSE to_tsquery('english', search_query)
+    END AS query
+  )
+  SELECT
+    v.id,
+    q.query IS NOT NULL AND v.search_vector @@ q.query,
+    CASE WHEN q.query IS NULL THEN 0 ELSE ts_rank(v.search_vector, q.query) END
+  FROM videos v, q
+  WHERE v.is_hidden = FALSE
+    AND (include_unavailable OR v.is_available = TRUE)
+    AND NOT (v.user_id = ANY(COALESCE(excluded_user_ids, '{}')))
+    AND can_view_author(v.user_id, viewer_id)
+    AND (q.query IS NULL OR v.search_vector @@ q.query OR v.id = ANY(COALESCE(extra_video_ids, '{}')));
+$$ LANGUAGE sql STABLE;
+
+-- Same as add-engagement-counters.sql, passing the viewer to match_videos
+CREATE OR REPLACE FUNCTION search_videos(
+  search_query TEXT DEFAULT NULL,
+  sort_option TEXT DEFAULT 'relevance',
+  include_unavailable BOOLEAN DEFAULT FALSE,
+  excluded_user_ids UUID[] DEFAULT '{}',
+  extra_video_ids UUID[] DEFAULT '{}',
+  filter_species TEXT DEFAULT NULL,
+  filter_breed TEXT DEFAULT NULL,
+  filter_uploader UUID DEFAULT NULL,
+  filter_from TIMESTAMP DEFAULT NULL,
+  filter_to TIMESTAMP DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0,
+  override_weights JSONB DEFAULT NULL,
+  viewer_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  video_id UUID,
+  relevance_score DOUBLE PRECISION,
+  keyword_score DOUBLE PRECISION,
+  view_count_score DOUBLE PRECISION,
+  like_ratio_score DOUBLE PRECISION,
+  recency_score DOUBLE PRECISION,
+  engagement_score DOUBLE PRECISION,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  shares_count BIGINT,
+  total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  weights relevance_weights%ROWTYPE;
+BEGIN
+  SELECT * INTO weights FROM relevance_weights ORDER BY updated_at DESC LIMIT 1;
+  IF NOT FOUND THEN
+    -- Same defaults as relevanceAlgorithm.ts
+    weights.keyword_match := 0.40;
+    weights.view_count := 0.15;
+    weights.like_ratio := 0.15;
+    weights.recency := 0.15;
+    weights.engagement := 0.15;
+  END IF;
+
+  IF override_weights IS NOT NULL THEN
+    weights.keyword_match := COALESCE((override_weights->>'keyword_match')::NUMERIC, weights.keyword_match);
+    weights.view_count := COALESCE((override_weights->>'view_count')::NUMERIC, weights.view_count);
+    weights.like_ratio := COALESCE((override_weights->>'like_ratio')::NUMERIC, weights.like_ratio);
+    weights.recency := COALESCE((override_weights->>'recency')::NUMERIC, weights.recency);
+    weights.engagement := COALESCE((override_weights->>'engagement')::NUMERIC, weights.engagement);
+  END IF;
+
+  RETURN QUERY
+  WITH scored AS (
+    SELECT
+      m.video_id,
+      COALESCE(v.view_count, 0)::BIGINT AS views,
+      v.created_at,
+      v.likes_count::BIGINT AS likes,
+      v.comments_count::BIGINT AS comments,
+      v.shares_count::BIGINT AS shares,
+      CASE
+        -- Browsing, or matched only through extra_video_ids: neutral keyword score
+        WHEN NOT m.text_match THEN 0.5
+        ELSE m.text_rank / NULLIF(MAX(m.text_rank) OVER (), 0)
+      END AS keyword_score
+    FROM match_videos(search_query, include_unavailable, excluded_user_ids, extra_video_ids, viewer_id) m
+    JOIN videos v ON v.id = m.video_id
+    WHERE (filter_species IS NULL OR v.species = filter_species)
+      AND (filter_breed IS NULL OR v.breed = filter_breed)
+      AND (filter_uploader IS NULL OR v.user_id = filter_uploader)
+      AND (filter_from IS NULL OR v.created_at >= filter_from)
+      AND (filter_to IS NULL OR v.created_at <= filter_to)
+  ),
+  ranked AS (
+    SELECT
+      scored.*,
+      c.view_count AS view_component,
+      c.like_ratio AS like_ratio_component,
+      c.recency AS recency_component,
+      c.engagement_score AS engagement_component,
+      c.keyword_match * weights.keyword_match
+        + c.view_count * weights.view_count
+        + c.like_ratio * weights.like_ratio
+        + c.recency * weights.recency
+        + c.engagement_score * weights.engagement AS relevance
+    FROM scored
+    CROSS JOIN LATERAL video_relevance_components(
+      COALESCE(scored.keyword_score, 0), scored.views, scored.likes,
+      scored.likes + scored.comments + scored.shares, scored.created_at
+    ) AS c
+  )
+  SELECT
+    ranked.video_id,
+    ranked.relevance,
+    COALESCE(ranked.keyword_score, 0)::DOUBLE PRECISION,
+    ranked.view_component,
+    ranked.like_ratio_component,
+    ranked.recency_component,
+    ranked.engagement_component,
+    ranked.likes,
+    ranked.comments,
+    ranked.shares,
+    COUNT(*) OVER ()
+  FROM ranked
+  ORDER BY
+    CASE sort_option
+      WHEN 'recency' THEN EXTRACT(EPOCH FROM ranked.created_at)::DOUBLE PRECISION
+      WHEN 'view_count' THEN ranked.views::DOUBLE PRECISION
+      WHEN 'engagement' THEN (ranked.likes + ranked.comments + ranked.shares)::DOUBLE PRECISION
+      ELSE ranked.relevance
+    END DESC,
+    ranked.created_at DESC,
+    ranked.video_id
+  LIMIT result_limit
+  OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION search_video_facet_rows(
+  search_query TEXT DEFAULT NULL,
+  include_unavailable BOOLEAN DEFAULT FALSE,
+  excluded_user_ids UUID[] DEFAULT '{}',
+  extra_video_ids UUID[] DEFAULT '{}',
+  row_limit INTEGER DEFAULT 1000,
+  viewer_id UUID DEFAULT NULL
+)
+RETURNS TABLE (user_id UUID, username VARCHAR, species VARCHAR, breed VARCHAR, created_at TIMESTAMP) AS $$
+  SELECT v.user_id, u.username, v.species, v.breed, v.created_at
+  FROM match_videos(search_query, include_unavailable, excluded_user_ids, extra_video_ids, viewer_id) m
+  JOIN videos v ON v.id = m.video_id
+  LEFT JOIN users u ON u.id = v.user_id
+  ORDER BY v.created_at DESC
+  LIMIT row_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Same as add-search-suggest.sql, plus the private account rule
+CREATE OR REPLACE FUNCTION suggest_video_titles(
+  prefix TEXT,
+  excluded_user_ids UUID[] DEFAULT '{}',
+  row_limit INTEGER DEFAULT 5,
+  viewer_id UUID DEFAULT NULL
+)
+RETURNS TABLE (video_id UUID, title TEXT) AS $$
+  SELECT v.id, v.title::TEXT
+  FROM videos v
+  WHERE v.is_hidden = FALSE
+    AND v.is_available = TRUE
+    AND NOT (v.user_id = ANY(COALESCE(excluded_user_ids, '{}')))
+    AND can_view_author(v.user_id, viewer_id)
+    AND (LOWER(v.title) LIKE prefix || '%' OR LOWER(v.title) LIKE '% ' || prefix || '%')
+  ORDER BY (LOWER(v.title) LIKE prefix || '%') DESC, COALESCE(v.view_count, 0) DESC, v.created_at DESC
+  LIMIT row_limit;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION can_view_author IS 'Private account rule: owner and approved followers only';
+COMMENT ON FUNCTION search_videos IS 'Ranked, filtered, paginated video search (GET /videos/search); override_weights for what-if previews';
+COMMENT ON FUNCTION suggest_video_titles IS 'Autocomplete: visible video titles with a word starting with the prefix';
@@ -0,0 +1,164 @@
+-- "For You" recommendations
+-- recommend_videos scores unseen videos for a user from their recent likes, views and playlist
+-- additions (species/breed and creator affinity), who they follow, popularity and freshness,
+-- then spreads the list across creators and species. Everything, popularity included, is
+-- evaluated from events up to a fixed point in time, and pages continue after the last
+-- (score, id) of the previous one, so cursor pages of one feed session don't overlap.
+-- Run after add-view-tracking.sql, add-private-accounts.sql and add-video-taxonomy.sql
+
+-- The user's own recent views (signals and seen-filter)
+CREATE INDEX IF NOT EXISTS idx_video_views_user_viewed_at ON video_views(user_id, viewed_at DESC) WHERE user_id IS NOT NULL;
+
+-- Replaced the offset paging with a (score, id) keyset
+DROP FUNCTION IF EXISTS recommend_videos(UUID, TIMESTAMP, UUID[], INTEGER, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION recommend_videos(
+  for_user UUID,
+  as_of TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  excluded_user_ids UUID[] DEFAULT '{}',
+  result_limit INTEGER DEFAULT 20,
+  -- Last row of the previous page (NULL for the first page)
+  after_score DOUBLE PRECISION DEFAULT NULL,
+  after_id UUID DEFAULT NULL,
+  -- Freshness: older videos are never recommended
+  max_age_days INTEGER DEFAULT 365
+)
+RETURNS TABLE (
+  video_id UUID,
+  score DOUBLE PRECISION,
+  -- Main reason it was picked: following, species, creator, new or popular
+  reason TEXT
+) AS $$
+  WITH interactions AS (
+    -- Recent engagement, weighted by how strong a signal it is
+    SELECT vv.video_id, 1.0 AS weight
+    FROM video_views vv
+    WHERE vv.user_id = for_user AND vv.viewed_at <= as_of AND vv.viewed_at > as_of - INTERVAL '90 days'
+    UNION ALL
+    SELECT vl.video_id, 3.0
+    FROM video_likes vl
+    WHERE vl.user_id = for_user AND vl.created_at <= as_of AND vl.created_at > as_of - INTERVAL '90 days'
+    UNION ALL
+    SELECT pv.video_id, 3.0
+    FROM playlist_videos pv
+    JOIN playlists p ON p.id = pv.playlist_id
+    WHERE p.user_id = for_user AND pv.created_at <= as_of AND pv.created_at > as_of - INTERVAL '90 days'
+  ),
+  signal AS (
+    SELECT v.user_id AS uploader_id, v.species, v.breed, i.weight
+    FROM interactions i
+    JOIN videos v ON v.id = i.video_id
+  ),
+  total AS (
+    SELECT NULLIF(SUM(signal.weight), 0) AS weight FROM signal
+  ),
+  -- Share of the user's engagement per species / breed
+  species_affinity AS (
+    SELECT signal.species, SUM(signal.weight) / (SELECT weight FROM total) AS share
+    FROM signal
+    WHERE signal.species IS NOT NULL
+    GROUP BY signal.species
+  ),
+  breed_affinity AS (
+    SELECT signal.species, signal.breed, SUM(signal.weight) / (SELECT weight FROM total) AS share
+    FROM signal
+    WHERE signal.breed IS NOT NULL
+    GROUP BY signal.species, signal.breed
+  ),
+  -- Creators relative to the user's favourite one
+  creator_affinity AS (
+    SELECT signal.uploader_id, SUM(signal.weight) / MAX(SUM(signal.weight)) OVER () AS share
+    FROM signal
+    WHERE signal.uploader_id <> for_user
+    GROUP BY signal.uploader_id
+  ),
+  followed AS (
+    SELECT f.following_id FROM followers f WHERE f.follower_id = for_user AND f.created_at <= as_of
+  ),
+  seen AS (
+    SELECT vv.video_id FROM video_views vv WHERE vv.user_id = for_user AND vv.viewed_at <= as_of
+    UNION
+    SELECT vl.video_id FROM video_likes vl WHERE vl.user_id = for_user AND vl.created_at <= as_of
+  ),
+  candidates AS (
+    SELECT
+      v.id,
+      v.user_id,
+      v.species,
+      v.breed,
+      v.created_at,
+      -- Likes, comments and views up to as_of (share clicks aren't timestamped, so they're left out)
+      (
+        (SELECT COUNT(*) FROM video_likes vl WHERE vl.video_id = v.id AND vl.created_at <= as_of)
+        + (SELECT COUNT(*) FROM comments cm WHERE cm.video_id = v.id AND cm.created_at <= as_of)
+        + (SELECT COUNT(*) FROM video_views vv WHERE vv.video_id = v.id AND vv.viewed_at <= as_of) / 10.0
+      ) AS popularity,
+      fo.following_id IS NOT NULL AS is_followed
+    FROM videos v
+    JOIN users u ON u.id = v.user_id
+    LEFT JOIN followed fo ON fo.following_id = v.user_id
+    WHERE v.is_hidden = FALSE
+      AND COALESCE(v.is_available, TRUE)
+      AND v.user_id <> for_user
+      AND NOT (v.user_id = ANY(COALESCE(excluded_user_ids, '{}')))
+      -- Private accounts only reach their approved followers
+      AND (NOT u.is_private OR fo.following_id IS NOT NULL)
+      AND v.created_at <= as_of
+      AND v.created_at > as_of - make_interval(days => max_age_days)
+      AND NOT EXISTS (SELECT 1 FROM seen WHERE seen.video_id = v.id)
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      COALESCE(0.7 * sa.share + 0.3 * COALESCE(ba.share, 0), 0) AS taxonomy_score,
+      CASE WHEN c.is_followed THEN 1.0 ELSE 0.6 * COALESCE(ca.share, 0) END AS creator_score,
+      COALESCE(LN(1 + c.popularity) / NULLIF(LN(1 + MAX(c.popularity) OVER ()), 0), 0) AS popularity_score,
+      -- Halves every two weeks
+      POWER(0.5, EXTRACT(EPOCH FROM (as_of - c.created_at)) / 86400.0 / 14) AS freshness_score
+    FROM candidates c
+    LEFT JOIN species_affinity sa ON sa.species = c.species
+    LEFT JOIN breed_affinity ba ON ba.species = c.species AND ba.breed = c.breed
+    LEFT JOIN creator_affinity ca ON ca.uploader_id = c.user_id
+  ),
+  base AS (
+    SELECT
+      scored.*,
+      0.35 * scored.taxonomy_score
+        + 0.25 * scored.creator_score
+        + 0.20 * scored.popularity_score
+        + 0.20 * scored.freshness_score AS base_score
+    FROM scored
+  ),
+  -- Diversity: each further video from the same creator / species counts for less
+  diversified AS (
+    SELECT
+      base.*,
+      base.base_score
+        * POWER(0.6, ROW_NUMBER() OVER (PARTITION BY base.user_id ORDER BY base.base_score DESC, base.id) - 1)
+        * POWER(0.95, ROW_NUMBER() OVER (PARTITION BY COALESCE(base.species, '') ORDER BY base.base_score DESC, base.id) - 1)
+        AS final_score
+    FROM base
+  ),
+  ranked AS (
+    SELECT diversified.*, diversified.final_score::DOUBLE PRECISION AS score
+    FROM diversified
+  )
+  SELECT
+    d.id,
+    d.score,
+    CASE
+      WHEN d.is_followed THEN 'following'
+      WHEN d.taxonomy_score > 0 AND d.taxonomy_score >= d.creator_score THEN 'species'
+      WHEN d.creator_score > 0 THEN 'creator'
+      WHEN d.freshness_score >= d.popularity_score THEN 'new'
+      ELSE 'popular'
+    END
+  FROM ranked d
+  WHERE after_score IS NULL
+    OR d.score < after_score
+    OR (d.score = after_score AND d.id > after_id)
+  ORDER BY d.score DESC, d.id
+  LIMIT result_limit;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION recommend_videos IS 'Personalised "For You" ranking of unseen videos (GET /videos/for-you)';
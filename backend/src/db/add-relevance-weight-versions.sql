@@ -0,0 +1,34 @@
+-- Versioned history for relevance weights
+-- Every change (including a rollback) is a new relevance_weights row; the latest row is live.
+-- Rows gain a version number, the admin who made the change and a note.
+-- Run after add-relevance-weights.sql
+
+CREATE SEQUENCE IF NOT EXISTS relevance_weights_version_seq;
+
+ALTER TABLE relevance_weights
+ADD COLUMN IF NOT EXISTS version INTEGER,
+ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS note TEXT,
+ADD COLUMN IF NOT EXISTS rollback_of INTEGER;
+
+-- Number existing rows in the order they were saved
+UPDATE relevance_weights rw
+SET version = numbered.version
+FROM (
+  SELECT id, ROW_NUMBER() OVER (ORDER BY updated_at, created_at) AS version
+  FROM relevance_weights
+) AS numbered
+WHERE rw.id = numbered.id
+  AND rw.version IS NULL;
+
+SELECT setval('relevance_weights_version_seq', COALESCE((SELECT MAX(version) FROM relevance_weights), 0) + 1, FALSE);
+
+ALTER TABLE relevance_weights ALTER COLUMN version SET DEFAULT nextval('relevance_weights_version_seq');
+ALTER TABLE relevance_weights ALTER COLUMN version SET NOT NULL;
+ALTER SEQUENCE relevance_weights_version_seq OWNED BY relevance_weights.version;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_relevance_weights_version ON relevance_weights(version);
+
+COMMENT ON COLUMN relevance_weights.version IS 'Sequential version number; the newest version is live';
+COMMENT ON COLUMN relevance_weights.created_by IS 'Admin who saved this version (NULL for seeded defaults)';
+COMMENT ON COLUMN relevance_weights.rollback_of IS 'Version whose weights this version restored, when it was a rollback';
@@ -0,0 +1,60 @@
+-- Add moderation support for reported videos
+-- Approved reports hide the video from every listing until a moderator restores it
+-- (PATCH /reports/videos/:videoId/restore)
+
+ALTER TABLE videos
+ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP;
+
+-- Partial index: most videos are visible, so only index the hidden ones
+CREATE INDEX IF NOT EXISTS idx_videos_is_hidden ON videos(is_hidden) WHERE is_hidden = TRUE;
+
+-- Indexes for the admin moderation queue (filter by status, group by video)
+CREATE INDEX IF NOT EXISTS idx_reported_videos_video_id ON reported_videos(video_id);
+CREATE INDEX IF NOT EXISTS idx_reported_videos_status_created_at ON reported_videos(status, created_at DESC);
+
+-- Moderation queue page: reports grouped by video, latest report first, paginated in SQL.
+-- Always returns at least one row so the totals come back even past the last page
+-- (video_id is NULL on that row when the page is empty).
+CREATE OR REPLACE FUNCTION report_queue_page(
+  filter_status TEXT DEFAULT NULL,
+  reason_prefix TEXT DEFAULT NULL,
+  page_limit INTEGER DEFAULT 20,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  video_id UUID,
+  report_count BIGINT,
+  latest_report_at TIMESTAMP,
+  first_report_at TIMESTAMP,
+  total_groups BIGINT,
+  total_reports BIGINT
+) AS $$
+  WITH grouped AS (
+    SELECT r.video_id, COUNT(*) AS report_count, MAX(r.created_at) AS latest_report_at, MIN(r.created_at) AS first_report_at
+    FROM reported_videos r
+    WHERE (filter_status IS NULL OR r.status = filter_status)
+      AND (reason_prefix IS NULL OR r.reason LIKE reason_prefix || '%')
+    GROUP BY r.video_id
+  ),
+  totals AS (
+    SELECT COUNT(*) AS total_groups, COALESCE(SUM(grouped.report_count), 0)::BIGINT AS total_reports
+    FROM grouped
+  ),
+  page AS (
+    SELECT grouped.*
+    FROM grouped
+    ORDER BY grouped.latest_report_at DESC, grouped.video_id
+    LIMIT page_limit
+    OFFSET page_offset
+  )
+  SELECT page.video_id, page.report_count, page.latest_report_at, page.first_report_at, totals.total_groups, totals.total_reports
+  FROM totals
+  LEFT JOIN page ON TRUE
+  ORDER BY page.latest_report_at DESC NULLS LAST, page.video_id;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION report_queue_page IS 'One page of the moderation queue grouped by video, with queue totals (GET /reports)';
+
+COMMENT ON COLUMN videos.is_hidden IS 'Hidden by moderation after a report was approved';
+COMMENT ON COLUMN videos.hidden_at IS 'When the video was hidden by moderation';
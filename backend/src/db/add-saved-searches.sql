@@ -0,0 +1,34 @@
+-- Saved searches with new-result alerts
+-- Users save a search (query, sort, facet filters). When alerts are on, a background job re-runs
+-- the search against videos shared since it last checked and queues a 'saved_search' notification
+-- per new match; saved_search_matches makes sure a video is only ever alerted once per search.
+-- Run after add-video-search.sql and add-notification-queue.sql
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  search_query TEXT,
+  sort_option VARCHAR(20) NOT NULL DEFAULT 'relevance',
+  -- Facet filters as sent to /videos/search: species, breed, uploader, from, to
+  filters JSONB NOT NULL DEFAULT '{}',
+  alerts_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Videos shared after this are "new" for alerts
+  last_checked_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CHECK (search_query IS NOT NULL OR filters <> '{}'::jsonb)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alerts ON saved_searches(last_checked_at) WHERE alerts_enabled = TRUE;
+
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (saved_search_id, video_id)
+);
+
+COMMENT ON TABLE saved_searches IS 'Searches saved by users, optionally re-run for new-video alerts';
+COMMENT ON TABLE saved_search_matches IS 'Videos already alerted for a saved search';
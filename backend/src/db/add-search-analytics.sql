@@ -0,0 +1,100 @@
+-- Search result quality analytics
+-- Every text search logs an impression (the page of results shown); clicks on a result are
+-- logged against the impression with the result's position. Reports: zero-result queries,
+-- low click-through queries and mean reciprocal rank (MRR).
+-- Run after add-search-history.sql
+
+CREATE TABLE IF NOT EXISTS search_impressions (
+  id UUID PRIMARY KEY, -- generated by the API so the response can carry it without waiting for the insert
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  search_query TEXT NOT NULL,
+  normalized_query TEXT GENERATED ALWAYS AS (LOWER(REGEXP_REPLACE(BTRIM(search_query), '\s+', ' ', 'g'))) STORED,
+  sort_option VARCHAR(20) NOT NULL DEFAULT 'relevance',
+  results_count INTEGER NOT NULL DEFAULT 0,
+  -- Video IDs of the page shown, in order; position = page offset + index + 1
+  result_video_ids UUID[] NOT NULL DEFAULT '{}',
+  result_offset INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_impressions_created_at ON search_impressions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_search_impressions_query ON search_impressions(normalized_query, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS search_clicks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  impression_id UUID NOT NULL REFERENCES search_impressions(id) ON DELETE CASCADE,
+  video_id UUID REFERENCES videos(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL CHECK (position >= 1),
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_clicks_impression ON search_clicks(impression_id);
+
+-- Queries that returned nothing, most frequent first
+CREATE OR REPLACE FUNCTION search_zero_result_queries(since TIMESTAMP, row_limit INTEGER DEFAULT 50)
+RETURNS TABLE (normalized_query TEXT, searches BIGINT, last_searched_at TIMESTAMP) AS $$
+  SELECT si.normalized_query, COUNT(*), MAX(si.created_at)
+  FROM search_impressions si
+  WHERE si.created_at >= since
+    AND si.results_count = 0
+  GROUP BY si.normalized_query
+  ORDER BY COUNT(*) DESC, MAX(si.created_at) DESC
+  LIMIT row_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Per-query click-through: share of searches with at least one click, and MRR
+-- (reciprocal of the first clicked position, 0 when nothing was clicked). Lowest CTR first.
+CREATE OR REPLACE FUNCTION search_query_ctr(since TIMESTAMP, min_searches INTEGER DEFAULT 5, row_limit INTEGER DEFAULT 50)
+RETURNS TABLE (normalized_query TEXT, searches BIGINT, clicked_searches BIGINT, ctr DOUBLE PRECISION, mrr DOUBLE PRECISION) AS $$
+  WITH per_impression AS (
+    SELECT si.normalized_query, MIN(sc.position) AS first_click
+    FROM search_impressions si
+    LEFT JOIN search_clicks sc ON sc.impression_id = si.id
+    WHERE si.created_at >= since
+      AND si.results_count > 0
+    GROUP BY si.id, si.normalized_query
+  )
+  SELECT
+    p.normalized_query,
+    COUNT(*),
+    COUNT(p.first_click),
+    COUNT(p.first_click)::DOUBLE PRECISION / COUNT(*),
+    AVG(COALESCE(1.0 / p.first_click, 0))::DOUBLE PRECISION
+  FROM per_impression p
+  GROUP BY p.normalized_query
+  HAVING COUNT(*) >= min_searches
+  ORDER BY 4 ASC, 2 DESC
+  LIMIT row_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Daily totals: searches, zero-result rate, CTR and MRR (over searches with results)
+CREATE OR REPLACE FUNCTION search_quality_daily(since TIMESTAMP)
+RETURNS TABLE (
+  day DATE,
+  searches BIGINT,
+  zero_result_searches BIGINT,
+  clicked_searches BIGINT,
+  ctr DOUBLE PRECISION,
+  mrr DOUBLE PRECISION
+) AS $$
+  WITH per_impression AS (
+    SELECT si.created_at::DATE AS day, si.results_count, MIN(sc.position) AS first_click
+    FROM search_impressions si
+    LEFT JOIN search_clicks sc ON sc.impression_id = si.id
+    WHERE si.created_at >= since
+    GROUP BY si.id, si.created_at, si.results_count
+  )
+  SELECT
+    p.day,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE p.results_count = 0),
+    COUNT(p.first_click),
+    COALESCE(COUNT(p.first_click)::DOUBLE PRECISION / NULLIF(COUNT(*) FILTER (WHERE p.results_count > 0), 0), 0),
+    COALESCE(AVG(COALESCE(1.0 / p.first_click, 0)) FILTER (WHERE p.results_count > 0), 0)::DOUBLE PRECISION
+  FROM per_impression p
+  GROUP BY p.day
+  ORDER BY p.day;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE search_impressions IS 'One row per text search results page shown (GET /videos/search with a query)';
+COMMENT ON TABLE search_clicks IS 'Search result clicks, with the 1-based position of the clicked result';
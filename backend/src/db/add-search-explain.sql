@@ -0,0 +1,191 @@
+-- Relevance explain mode for search tuning
+-- Exposes the individual relevance components per result and lets admins rank with draft
+-- weights (what-if preview) without saving them
+-- Run after add-video-search.sql
+
+-- The normalised (0-1) relevance components; see video_relevance_score for the scales
+CREATE OR REPLACE FUNCTION video_relevance_components(
+  keyword_score DOUBLE PRECISION,
+  views BIGINT,
+  likes BIGINT,
+  engagement BIGINT,
+  created TIMESTAMP
+)
+RETURNS TABLE (
+  keyword_match DOUBLE PRECISION,
+  view_count DOUBLE PRECISION,
+  like_ratio DOUBLE PRECISION,
+  recency DOUBLE PRECISION,
+  engagement_score DOUBLE PRECISION
+) AS $$
+  SELECT
+    keyword_score,
+    LEAST(1, LOG(GREATEST(views, 0) + 1) / 6)::DOUBLE PRECISION,
+    (CASE WHEN views > 0 THEN LEAST(1, likes::DOUBLE PRECISION / views * 100) ELSE 0 END)::DOUBLE PRECISION,
+    (CASE
+       WHEN age_days < 7 THEN 1
+       ELSE GREATEST(0, 1 - (age_days - 7) / 30)
+     END)::DOUBLE PRECISION,
+    LEAST(1, LOG(GREATEST(engagement, 0) + 1) / 3)::DOUBLE PRECISION
+  FROM (SELECT EXTRACT(EPOCH FROM (LOCALTIMESTAMP - created)) / 86400 AS age_days) AS age;
+$$ LANGUAGE sql STABLE;
+
+-- Same score as before, now built from the components so the two cannot drift apart
+CREATE OR REPLACE FUNCTION video_relevance_score(
+  keyword_score DOUBLE PRECISION,
+  views BIGINT,
+  likes BIGINT,
+  engagement BIGINT,
+  created TIMESTAMP,
+  weights relevance_weights
+)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT
+    c.keyword_match * weights.keyword_match
+    + c.view_count * weights.view_count
+    + c.like_ratio * weights.like_ratio
+    + c.recency * weights.recency
+    + c.engagement_score * weights.engagement
+  FROM video_relevance_components(keyword_score, views, likes, engagement, created) AS c;
+$$ LANGUAGE sql STABLE;
+
+-- search_videos gains override_weights and per-component output columns; the return type
+-- changes, so the old version has to be dropped first
+DROP FUNCTION IF EXISTS search_videos(TEXT, TEXT, BOOLEAN, UUID[], UUID[], TEXT, TEXT, UUID, TIMESTAMP, TIMESTAMP, INTEGER, INTEGER);
+
+-- override_weights: {"keyword_match": 0.5, ...} ranks with these weights instead of the saved ones
+-- (missing keys fall back to the saved weights)
+CREATE OR REPLACE FUNCTION search_videos(
+  search_query TEXT DEFAULT NULL,
+  sort_option TEXT DEFAULT 'relevance',
+  include_unavailable BOOLEAN DEFAULT FALSE,
+  excluded_user_ids UUID[] DEFAULT '{}',
+  extra_video_ids UUID[] DEFAULT '{}',
+  filter_species TEXT DEFAULT NULL,
+  filter_breed TEXT DEFAULT NULL,
+  filter_uploader UUID DEFAULT NULL,
+  filter_from TIMESTAMP DEFAULT NULL,
+  filter_to TIMESTAMP DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0,
+  override_weights JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  video_id UUID,
+  relevance_score DOUBLE PRECISION,
+  keyword_score DOUBLE PRECISION,
+  view_count_score DOUBLE PRECISION,
+  like_ratio_score DOUBLE PRECISION,
+  recency_score DOUBLE PRECISION,
+  engagement_score DOUBLE PRECISION,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  shares_count BIGINT,
+  total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  weights relevance_weights%ROWTYPE;
+BEGIN
+  SELECT * INTO weights FROM relevance_weights ORDER BY updated_at DESC LIMIT 1;
+  IF NOT FOUND THEN
+    -- Same defaults as relevanceAlgorithm.ts
+    weights.keyword_match := 0.40;
+    weights.view_count := 0.15;
+    weights.like_ratio := 0.15;
+    weights.recency := 0.15;
+    weights.engagement := 0.15;
+  END IF;
+
+  IF override_weights IS NOT NULL THEN
+    weights.keyword_match := COALESCE((override_weights->>'keyword_match')::NUMERIC, weights.keyword_match);
+    weights.view_count := COALESCE((override_weights->>'view_count')::NUMERIC, weights.view_count);
+    weights.like_ratio := COALESCE((override_weights->>'like_ratio')::NUMERIC, weights.like_ratio);
+    weights.recency := COALESCE((override_weights->>'recency')::NUMERIC, weights.recency);
+    weights.engagement := COALESCE((override_weights->>'engagement')::NUMERIC, weights.engagement);
+  END IF;
+
+  RETURN QUERY
+  WITH matched AS (
+    SELECT m.video_id, m.text_match, m.text_rank, COALESCE(v.view_count, 0)::BIGINT AS views, v.created_at
+    FROM match_videos(search_query, include_unavailable, excluded_user_ids, extra_video_ids) m
+    JOIN videos v ON v.id = m.video_id
+    WHERE (filter_species IS NULL OR v.species = filter_species)
+      AND (filter_breed IS NULL OR v.breed = filter_breed)
+      AND (filter_uploader IS NULL OR v.user_id = filter_uploader)
+      AND (filter_from IS NULL OR v.created_at >= filter_from)
+      AND (filter_to IS NULL OR v.created_at <= filter_to)
+  ),
+  likes AS (
+    SELECT vl.video_id, COUNT(*) AS n FROM video_likes vl JOIN matched USING (video_id) GROUP BY vl.video_id
+  ),
+  comment_counts AS (
+    SELECT c.video_id, COUNT(*) AS n FROM comments c JOIN matched USING (video_id) GROUP BY c.video_id
+  ),
+  shares AS (
+    SELECT su.video_id, COALESCE(SUM(su.click_count), 0)::BIGINT AS n FROM shareable_urls su JOIN matched USING (video_id) GROUP BY su.video_id
+  ),
+  scored AS (
+    SELECT
+      matched.video_id,
+      matched.views,
+      matched.created_at,
+      COALESCE(likes.n, 0) AS likes,
+      COALESCE(comment_counts.n, 0) AS comments,
+      COALESCE(shares.n, 0) AS shares,
+      CASE
+        -- Browsing, or matched only through extra_video_ids: neutral keyword score
+        WHEN NOT matched.text_match THEN 0.5
+        ELSE matched.text_rank / NULLIF(MAX(matched.text_rank) OVER (), 0)
+      END AS keyword_score
+    FROM matched
+    LEFT JOIN likes USING (video_id)
+    LEFT JOIN comment_counts USING (video_id)
+    LEFT JOIN shares USING (video_id)
+  ),
+  ranked AS (
+    SELECT
+      scored.*,
+      c.view_count AS view_component,
+      c.like_ratio AS like_ratio_component,
+      c.recency AS recency_component,
+      c.engagement_score AS engagement_component,
+      c.keyword_match * weights.keyword_match
+        + c.view_count * weights.view_count
+        + c.like_ratio * weights.like_ratio
+        + c.recency * weights.recency
+        + c.engagement_score * weights.engagement AS relevance
+    FROM scored
+    CROSS JOIN LATERAL video_relevance_components(
+      COALESCE(scored.keyword_score, 0), scored.views, scored.likes,
+      scored.likes + scored.comments + scored.shares, scored.created_at
+    ) AS c
+  )
+  SELECT
+    ranked.video_id,
+    ranked.relevance,
+    COALESCE(ranked.keyword_score, 0)::DOUBLE PRECISION,
+    ranked.view_component,
+    ranked.like_ratio_component,
+    ranked.recency_component,
+    ranked.engagement_component,
+    ranked.likes,
+    ranked.comments,
+    ranked.shares,
+    COUNT(*) OVER ()
+  FROM ranked
+  ORDER BY
+    CASE sort_option
+      WHEN 'recency' THEN EXTRACT(EPOCH FROM ranked.created_at)::DOUBLE PRECISION
+      WHEN 'view_count' THEN ranked.views::DOUBLE PRECISION
+      WHEN 'engagement' THEN (ranked.likes + ranked.comments + ranked.shares)::DOUBLE PRECISION
+      ELSE ranked.relevance
+    END DESC,
+    ranked.created_at DESC,
+    ranked.video_id
+  LIMIT result_limit
+  OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION search_videos IS 'Ranked, filtered, paginated video search (GET /videos/search); override_weights for what-if previews';
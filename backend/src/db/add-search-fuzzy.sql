@@ -0,0 +1,82 @@
+-- Typo tolerance for video search
+-- A vocabulary of words used in video titles/descriptions with a trigram index, so misspelt
+-- query words can be matched to real ones ("did you mean"). Synonyms live in the app
+-- (services/searchSynonyms.ts); the app builds the final tsquery expression.
+-- Run after add-video-search.sql
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Unstemmed words ('simple' config) so suggestions are real words users can read
+CREATE MATERIALIZED VIEW IF NOT EXISTS search_terms AS
+  SELECT word AS term, ndoc AS doc_count
+  FROM ts_stat($$
+    SELECT to_tsvector('simple', COALESCE(title, '') || ' ' || COALESCE(description, ''))
+    FROM videos
+    WHERE is_hidden = FALSE
+  $$)
+  WHERE LENGTH(word) BETWEEN 3 AND 30
+    AND word ~ '^[a-z]+$';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_terms_term ON search_terms(term);
+CREATE INDEX IF NOT EXISTS idx_search_terms_trgm ON search_terms USING GIN (term gin_trgm_ops);
+
+-- Rebuild the vocabulary (the API server calls this hourly; schedule it with pg_cron on serverless deployments)
+CREATE OR REPLACE FUNCTION refresh_search_terms()
+RETURNS void AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY search_terms;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- For each query word: whether it is a known term, and the closest known terms by trigram similarity
+CREATE OR REPLACE FUNCTION match_search_terms(
+  words TEXT[],
+  min_similarity REAL DEFAULT 0.3,
+  per_word INTEGER DEFAULT 3
+)
+RETURNS TABLE (word TEXT, known BOOLEAN, term TEXT, similarity REAL) AS $$
+  SELECT
+    w.word,
+    EXISTS (SELECT 1 FROM search_terms st WHERE st.term = w.word),
+    candidate.term,
+    candidate.similarity
+  FROM UNNEST(words) AS w(word)
+  LEFT JOIN LATERAL (
+    SELECT st.term::TEXT, similarity(st.term, w.word) AS similarity
+    FROM search_terms st
+    WHERE st.term % w.word
+      AND st.term <> w.word
+      AND similarity(st.term, w.word) >= min_similarity
+    ORDER BY similarity(st.term, w.word) DESC, st.doc_count DESC
+    LIMIT per_word
+  ) AS candidate ON TRUE;
+$$ LANGUAGE sql STABLE;
+
+-- match_videos now takes a to_tsquery expression built by the app (synonyms and typo
+-- corrections OR'ed per word) instead of raw user input
+CREATE OR REPLACE FUNCTION match_videos(
+  search_query TEXT,
+  include_unavailable BOOLEAN DEFAULT FALSE,
+  excluded_user_ids UUID[] DEFAULT '{}',
+  extra_video_ids UUID[] DEFAULT '{}'
+)
+RETURNS TABLE (video_id UUID, text_match BOOLEAN, text_rank REAL) AS $$
+  WITH q AS (
+    SELECT CASE
+      WHEN NULLIF(TRIM(COALESCE(search_query, '')), '') IS NULL THEN NULL
+      WHEN numnode(to_tsquery('english', search_query)) = 0 THEN NULL
+      ELSE to_tsquery('english', search_query)
+    END AS query
+  )
+  SELECT
+    v.id,
+    q.query IS NOT NULL AND v.search_vector @@ q.query,
+    CASE WHEN q.query IS NULL THEN 0 ELSE ts_rank(v.search_vector, q.query) END
+  FROM videos v, q
+  WHERE v.is_hidden = FALSE
+    AND (include_unavailable OR v.is_available = TRUE)
+    AND NOT (v.user_id = ANY(COALESCE(excluded_user_ids, '{}')))
+    AND (q.query IS NULL OR v.search_vector @@ q.query OR v.id = ANY(COALESCE(extra_video_ids, '{}')));
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON MATERIALIZED VIEW search_terms IS 'Words used in visible video titles/descriptions, for typo-tolerant search';
@@ -0,0 +1,55 @@
+-- Search autocomplete
+-- Prefix suggestions for the search box: the user's own recent queries (read straight from
+-- search_history), queries that are popular across users, and matching video titles.
+-- Run after add-search-history.sql and add-search-fuzzy.sql (needs pg_trgm)
+
+-- Per-user history listing, newest first
+CREATE INDEX IF NOT EXISTS idx_search_history_user_created ON search_history(user_id, created_at DESC) WHERE user_id IS NOT NULL;
+
+-- Prefix lookups on normalised queries
+CREATE INDEX IF NOT EXISTS idx_search_history_query_prefix ON search_history(LOWER(BTRIM(search_query)) text_pattern_ops);
+
+-- Substring lookups on titles (word-start matches, not just the first word)
+CREATE INDEX IF NOT EXISTS idx_videos_title_trgm ON videos USING GIN (LOWER(title) gin_trgm_ops);
+
+-- Popular queries starting with a prefix. Only queries that found something and were searched
+-- by at least min_users different people are returned, so one user's searches never leak.
+CREATE OR REPLACE FUNCTION popular_search_queries(
+  prefix TEXT,
+  since TIMESTAMP,
+  min_users INTEGER DEFAULT 3,
+  row_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (query TEXT, searches BIGINT) AS $$
+  SELECT LOWER(BTRIM(sh.search_query)), COUNT(*)
+  FROM search_history sh
+  WHERE sh.created_at >= since
+    AND sh.user_id IS NOT NULL
+    AND COALESCE(sh.search_results_count, 0) > 0
+    AND LOWER(BTRIM(sh.search_query)) LIKE prefix || '%'
+  GROUP BY LOWER(BTRIM(sh.search_query))
+  HAVING COUNT(DISTINCT sh.user_id) >= min_users
+  ORDER BY COUNT(*) DESC, LOWER(BTRIM(sh.search_query))
+  LIMIT row_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Visible videos whose title has a word starting with the prefix; titles starting with it first.
+-- `prefix` must be lower-case with LIKE wildcards escaped.
+CREATE OR REPLACE FUNCTION suggest_video_titles(
+  prefix TEXT,
+  excluded_user_ids UUID[] DEFAULT '{}',
+  row_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (video_id UUID, title TEXT) AS $$
+  SELECT v.id, v.title::TEXT
+  FROM videos v
+  WHERE v.is_hidden = FALSE
+    AND v.is_available = TRUE
+    AND NOT (v.user_id = ANY(COALESCE(excluded_user_ids, '{}')))
+    AND (LOWER(v.title) LIKE prefix || '%' OR LOWER(v.title) LIKE '% ' || prefix || '%')
+  ORDER BY (LOWER(v.title) LIKE prefix || '%') DESC, COALESCE(v.view_count, 0) DESC, v.created_at DESC
+  LIMIT row_limit;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION popular_search_queries IS 'Autocomplete: frequent successful queries shared by several users';
+COMMENT ON FUNCTION suggest_video_titles IS 'Autocomplete: visible video titles with a word starting with the prefix';
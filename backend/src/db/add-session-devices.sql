@@ -0,0 +1,9 @@
+-- Link push subscriptions to the session (device) that created them
+-- Revoking a session removes its push subscriptions so the device stops receiving notifications
+
+ALTER TABLE push_subscriptions
+ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES user_sessions(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_session_id ON push_subscriptions(session_id);
+
+COMMENT ON COLUMN push_subscriptions.session_id IS 'Session that registered this subscription (NULL for subscriptions created before sessions existed)';
@@ -0,0 +1,121 @@
+-- Time-windowed trending snapshots
+-- Trending is computed from views, likes and comments inside a window (1h, 24h, 7d, 30d), each
+-- event decayed by age (half-life = a quarter of the window), so an old video that suddenly
+-- takes off trends as well as a new one. A background job stores the result as a snapshot per
+-- window; GET /videos/trending reads the latest snapshot instead of scoring on every request.
+-- Decayed views and engagement are stored separately so A/B trending formulas can re-rank a
+-- snapshot at read time.
+-- Run after add-view-tracking.sql, add-likes-tables.sql and add-report-moderation.sql
+
+CREATE TABLE IF NOT EXISTS trending_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  time_window VARCHAR(3) NOT NULL CHECK (time_window IN ('1h', '24h', '7d', '30d')),
+  computed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  video_count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_trending_snapshots_window ON trending_snapshots(time_window, computed_at DESC);
+
+CREATE TABLE IF NOT EXISTS trending_snapshot_videos (
+  snapshot_id UUID NOT NULL REFERENCES trending_snapshots(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  -- Rank under the default formula
+  rank INTEGER NOT NULL,
+  -- Time-decayed views / likes + comments in the window
+  view_score DOUBLE PRECISION NOT NULL,
+  engagement_score DOUBLE PRECISION NOT NULL,
+  -- Raw counts in the window
+  recent_views INTEGER NOT NULL DEFAULT 0,
+  recent_likes INTEGER NOT NULL DEFAULT 0,
+  recent_comments INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (snapshot_id, video_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trending_snapshot_videos_rank ON trending_snapshot_videos(snapshot_id, rank);
+
+-- Events in a window
+CREATE INDEX IF NOT EXISTS idx_video_likes_created_at ON video_likes(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_comments_created_at ON comments(created_at DESC);
+
+-- Compute and store a snapshot for one window; older snapshots beyond keep_snapshots are pruned.
+-- Weights are the default trending formula (experiments.ts DEFAULT_TRENDING_FORMULA).
+CREATE OR REPLACE FUNCTION refresh_trending_snapshot(
+  window_name TEXT,
+  window_seconds INTEGER,
+  view_weight DOUBLE PRECISION DEFAULT 2,
+  engagement_weight DOUBLE PRECISION DEFAULT 1,
+  max_videos INTEGER DEFAULT 200,
+  keep_snapshots INTEGER DEFAULT 3
+)
+RETURNS UUID AS $$
+DECLARE
+  snapshot UUID;
+  since TIMESTAMP := CURRENT_TIMESTAMP - make_interval(secs => window_seconds);
+  half_life DOUBLE PRECISION := window_seconds / 4.0;
+  stored INTEGER;
+BEGIN
+  INSERT INTO trending_snapshots (time_window) VALUES (window_name) RETURNING id INTO snapshot;
+
+  INSERT INTO trending_snapshot_videos (
+    snapshot_id, video_id, rank, view_score, engagement_score, recent_views, recent_likes, recent_comments
+  )
+  WITH events AS (
+    SELECT vv.video_id, 'view' AS kind, vv.viewed_at AS happened_at FROM video_views vv WHERE vv.viewed_at >= since
+    UNION ALL
+    SELECT vl.video_id, 'like', vl.created_at FROM video_likes vl WHERE vl.created_at >= since
+    UNION ALL
+    SELECT c.video_id, 'comment', c.created_at FROM comments c WHERE c.created_at >= since
+  ),
+  per_video AS (
+    SELECT
+      e.video_id,
+      COALESCE(SUM(decay.w) FILTER (WHERE e.kind = 'view'), 0) AS view_score,
+      COALESCE(SUM(decay.w) FILTER (WHERE e.kind <> 'view'), 0) AS engagement_score,
+      COUNT(*) FILTER (WHERE e.kind = 'view') AS recent_views,
+      COUNT(*) FILTER (WHERE e.kind = 'like') AS recent_likes,
+      COUNT(*) FILTER (WHERE e.kind = 'comment') AS recent_comments
+    FROM events e
+    JOIN videos v ON v.id = e.video_id
+    CROSS JOIN LATERAL (
+      SELECT EXP(-LN(2) * GREATEST(EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - e.happened_at)), 0) / half_life) AS w
+    ) AS decay
+    WHERE v.is_hidden = FALSE
+      AND COALESCE(v.is_available, TRUE)
+    GROUP BY e.video_id
+  ),
+  top AS (
+    SELECT per_video.*, view_score * view_weight + engagement_score * engagement_weight AS score
+    FROM per_video
+    ORDER BY score DESC, recent_views DESC, video_id
+    LIMIT max_videos
+  )
+  SELECT
+    snapshot,
+    top.video_id,
+    ROW_NUMBER() OVER (ORDER BY top.score DESC, top.recent_views DESC, top.video_id),
+    top.view_score,
+    top.engagement_score,
+    top.recent_views,
+    top.recent_likes,
+    top.recent_comments
+  FROM top;
+
+  GET DIAGNOSTICS stored = ROW_COUNT;
+  UPDATE trending_snapshots SET video_count = stored WHERE id = snapshot;
+
+  DELETE FROM trending_snapshots
+  WHERE time_window = window_name
+    AND id NOT IN (
+      SELECT id FROM trending_snapshots
+      WHERE time_window = window_name
+      ORDER BY computed_at DESC
+      LIMIT GREATEST(keep_snapshots, 1)
+    );
+
+  RETURN snapshot;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE trending_snapshots IS 'Periodically computed trending rankings, one series per time window';
+COMMENT ON TABLE trending_snapshot_videos IS 'Ranked videos of a trending snapshot with their decayed view and engagement scores';
+COMMENT ON FUNCTION refresh_trending_snapshot IS 'Compute and store a trending snapshot for a window (views, likes, comments with time decay)';
@@ -0,0 +1,25 @@
+-- Add opt-in TOTP two-factor authentication
+-- The secret is stored on enrollment but only enforced once totp_enabled is set after a verified code
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS totp_secret TEXT,
+ADD COLUMN IF NOT EXISTS totp_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS totp_enabled_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS totp_last_used_step BIGINT;
+
+-- One-time recovery codes (hashed) for when the authenticator device is lost
+CREATE TABLE IF NOT EXISTS user_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash VARCHAR(64) NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_recovery_codes_user_id ON user_recovery_codes(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_recovery_codes_hash ON user_recovery_codes(user_id, code_hash);
+
+COMMENT ON COLUMN users.totp_secret IS 'Base32 TOTP secret (set during enrollment, cleared when 2FA is disabled)';
+COMMENT ON COLUMN users.totp_enabled IS 'Whether login requires a TOTP code as a second step';
+COMMENT ON COLUMN users.totp_last_used_step IS 'Last accepted 30s time step - prevents replaying a code within its window';
+COMMENT ON TABLE user_recovery_codes IS 'SHA-256 hashes of one-time 2FA recovery codes';
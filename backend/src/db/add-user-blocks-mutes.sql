@@ -0,0 +1,24 @@
+-- Let users block and mute other users
+-- Block: removes follows both ways and stops follows, comments on the blocker's videos and notifications
+-- Mute: hides the muted user's videos and comments from the muter (silently - the muted user isn't told)
+
+CREATE TABLE IF NOT EXISTS user_blocks (
+  blocker_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (blocker_id, blocked_id),
+  CONSTRAINT user_blocks_not_self CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked_id ON user_blocks(blocked_id);
+
+CREATE TABLE IF NOT EXISTS user_mutes (
+  muter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  muted_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (muter_id, muted_id),
+  CONSTRAINT user_mutes_not_self CHECK (muter_id <> muted_id)
+);
+
+COMMENT ON TABLE user_blocks IS 'Users blocked by another user (blocker_id blocked blocked_id)';
+COMMENT ON TABLE user_mutes IS 'Users muted by another user - their content is hidden from the muter only';
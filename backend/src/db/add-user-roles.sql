@@ -0,0 +1,38 @@
+-- Replace the is_admin flag with a role per user
+-- Permissions for each role are defined in services/permissions.ts
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'user'
+  CHECK (role IN ('user', 'moderator', 'support', 'admin'));
+
+-- Existing administrators keep full access
+UPDATE users SET role = 'admin' WHERE is_admin = TRUE AND role = 'user';
+
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role) WHERE role <> 'user';
+
+-- is_admin is kept only for older scripts; it mirrors role = 'admin'.
+-- Setting is_admin directly (e.g. a seed script) still promotes/demotes the user.
+CREATE OR REPLACE FUNCTION sync_user_role_admin_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.is_admin = TRUE AND NEW.role = 'user' THEN
+      NEW.role := 'admin';
+    END IF;
+  ELSIF NEW.is_admin IS DISTINCT FROM OLD.is_admin AND NEW.role = OLD.role THEN
+    NEW.role := CASE WHEN NEW.is_admin THEN 'admin' ELSE 'user' END;
+  END IF;
+
+  NEW.is_admin := NEW.role = 'admin';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_users_sync_role_admin_flag ON users;
+CREATE TRIGGER trg_users_sync_role_admin_flag
+  BEFORE INSERT OR UPDATE OF role, is_admin ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_user_role_admin_flag();
+
+COMMENT ON COLUMN users.role IS 'Access role: user, moderator (report queue, bans), support (account help, error dashboard) or admin (everything)';
+COMMENT ON COLUMN users.is_admin IS 'Deprecated - mirrors role = ''admin''; use users.role';
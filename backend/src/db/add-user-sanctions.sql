@@ -0,0 +1,28 @@
+-- Account sanctions: time-boxed suspensions, permanent bans and shadowbans
+-- A sanction is active while revoked_at is NULL and expires_at is NULL or in the future
+
+CREATE TABLE IF NOT EXISTS user_sanctions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('suspension', 'ban', 'shadowban')),
+  reason TEXT NOT NULL,
+  issued_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  revoke_reason TEXT,
+  -- Suspensions are always time-boxed; bans are always permanent
+  CONSTRAINT user_sanctions_expiry_check CHECK (
+    (type = 'suspension' AND expires_at IS NOT NULL) OR
+    (type = 'ban' AND expires_at IS NULL) OR
+    type = 'shadowban'
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sanctions_user_id ON user_sanctions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_sanctions_active ON user_sanctions(type, user_id) WHERE revoked_at IS NULL;
+
+COMMENT ON TABLE user_sanctions IS 'Moderation sanctions against accounts (history is kept; lifting sets revoked_at)';
+COMMENT ON COLUMN user_sanctions.type IS 'suspension (blocks sign-in until expires_at), ban (blocks sign-in permanently), shadowban (content hidden from everyone but the author)';
+COMMENT ON COLUMN user_sanctions.expires_at IS 'When the sanction ends by itself; NULL means permanent';
@@ -0,0 +1,34 @@
+-- Create user_sessions and refresh_tokens tables for short-lived access tokens
+-- Each login creates a session; the session is kept alive by rotating refresh tokens
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_agent TEXT,
+  ip_address INET,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  revoked_reason VARCHAR(50)
+);
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES user_sessions(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  rotated_at TIMESTAMP
+);
+
+-- Indexes for session lookups and bulk revocation
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_active ON user_sessions(user_id) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session_id ON refresh_tokens(session_id);
+
+COMMENT ON TABLE user_sessions IS 'One row per login; access tokens carry the session id so they can be revoked';
+COMMENT ON COLUMN user_sessions.revoked_reason IS 'Why the session ended, e.g. logout, password_change, account_locked, token_reuse';
+COMMENT ON TABLE refresh_tokens IS 'Refresh tokens issued for a session; only the un-rotated token is valid';
+COMMENT ON COLUMN refresh_tokens.token_hash IS 'SHA-256 of the refresh token - the raw token is never stored';
+COMMENT ON COLUMN refresh_tokens.rotated_at IS 'Set when the token is exchanged; presenting it again revokes the whole session';
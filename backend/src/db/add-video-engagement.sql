@@ -0,0 +1,34 @@
+-- Batched engagement counts for video listings
+-- One call returns likes, comments, shares (share link clicks) and views since a cutoff for a
+-- whole page of videos, replacing a count query per video per metric. /videos/search computes
+-- the same numbers inside search_videos over all matches.
+-- Run after add-view-tracking.sql and add-shareable-urls.sql
+
+-- Views per video in a time window (trending velocity)
+CREATE INDEX IF NOT EXISTS idx_video_views_video_viewed_at ON video_views(video_id, viewed_at DESC);
+
+-- recent_views is 0 unless views_since is given
+CREATE OR REPLACE FUNCTION video_engagement_counts(
+  video_ids UUID[],
+  views_since TIMESTAMP DEFAULT NULL
+)
+RETURNS TABLE (
+  video_id UUID,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  shares_count BIGINT,
+  recent_views BIGINT
+) AS $$
+  SELECT
+    ids.id,
+    (SELECT COUNT(*) FROM video_likes vl WHERE vl.video_id = ids.id),
+    (SELECT COUNT(*) FROM comments c WHERE c.video_id = ids.id),
+    (SELECT COALESCE(SUM(su.click_count), 0) FROM shareable_urls su WHERE su.video_id = ids.id)::BIGINT,
+    CASE
+      WHEN views_since IS NULL THEN 0
+      ELSE (SELECT COUNT(*) FROM video_views vv WHERE vv.video_id = ids.id AND vv.viewed_at >= views_since)
+    END
+  FROM (SELECT DISTINCT UNNEST(COALESCE(video_ids, '{}')) AS id) AS ids;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION video_engagement_counts IS 'Likes, comments, shares and windowed views for a set of videos in one round-trip';
@@ -0,0 +1,196 @@
+-- Full-text search for videos
+-- Replaces ILIKE scanning in GET /videos/search: a weighted tsvector (title A, description B)
+-- with a GIN index, and ranking done in SQL so ordering holds across the whole result set
+-- Run after add-relevance-weights.sql, add-video-availability.sql, add-report-moderation.sql
+-- and add-video-taxonomy.sql
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_videos_search_vector ON videos USING GIN (search_vector);
+
+COMMENT ON COLUMN videos.search_vector IS 'Generated: title (weight A) + description (weight B), english config';
+
+-- Weighted relevance for one video. Every component is normalised to 0-1:
+--   keyword     - ts_rank relative to the best match in the result set (0.5 for every video when browsing)
+--   views       - log scale, 1M views = 1.0
+--   like ratio  - likes per view, 1% = 1.0
+--   recency     - 1.0 for the first 7 days, then linear decay to 0 over 30 days
+--   engagement  - likes + comments + shares on a log scale, 1000 = 1.0
+CREATE OR REPLACE FUNCTION video_relevance_score(
+  keyword_score DOUBLE PRECISION,
+  views BIGINT,
+  likes BIGINT,
+  engagement BIGINT,
+  created TIMESTAMP,
+  weights relevance_weights
+)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT
+    keyword_score * weights.keyword_match
+    + LEAST(1, LOG(GREATEST(views, 0) + 1) / 6) * weights.view_count
+    + (CASE WHEN views > 0 THEN LEAST(1, likes::DOUBLE PRECISION / views * 100) ELSE 0 END) * weights.like_ratio
+    + (CASE
+         WHEN age_days < 7 THEN 1
+         ELSE GREATEST(0, 1 - (age_days - 7) / 30)
+       END) * weights.recency
+    + LEAST(1, LOG(GREATEST(engagement, 0) + 1) / 3) * weights.engagement
+  FROM (SELECT EXTRACT(EPOCH FROM (LOCALTIMESTAMP - created)) / 86400 AS age_days) AS age;
+$$ LANGUAGE sql STABLE;
+
+-- Videos matching a text query (all listable videos when the query is empty or only stopwords).
+-- extra_video_ids also match regardless of text (e.g. videos tagged with a pet of that name).
+CREATE OR REPLACE FUNCTION match_videos(
+  search_query TEXT,
+  include_unavailable BOOLEAN DEFAULT FALSE,
+  excluded_user_ids UUID[] DEFAULT '{}',
+  extra_video_ids UUID[] DEFAULT '{}'
+)
+RETURNS TABLE (video_id UUID, text_match BOOLEAN, text_rank REAL) AS $$
+  WITH q AS (
+    SELECT CASE
+      WHEN numnode(websearch_to_tsquery('english', COALESCE(search_query, ''))) = 0 THEN NULL
+      ELSE websearch_to_tsquery('english', search_query)
+    END AS query
+  )
+  SELECT
+    v.id,
+    q.query IS NOT NULL AND v.search_vector @@ q.query,
+    CASE WHEN q.query IS NULL THEN 0 ELSE ts_rank(v.search_vector, q.query) END
+  FROM videos v, q
+  WHERE v.is_hidden = FALSE
+    AND (include_unavailable OR v.is_available = TRUE)
+    AND NOT (v.user_id = ANY(COALESCE(excluded_user_ids, '{}')))
+    AND (q.query IS NULL OR v.search_vector @@ q.query OR v.id = ANY(COALESCE(extra_video_ids, '{}')));
+$$ LANGUAGE sql STABLE;
+
+-- One page of search results, sorted across the whole match set.
+-- sort_option: relevance (current relevance_weights row) | recency | view_count | engagement
+CREATE OR REPLACE FUNCTION search_videos(
+  search_query TEXT DEFAULT NULL,
+  sort_option TEXT DEFAULT 'relevance',
+  include_unavailable BOOLEAN DEFAULT FALSE,
+  excluded_user_ids UUID[] DEFAULT '{}',
+  extra_video_ids UUID[] DEFAULT '{}',
+  filter_species TEXT DEFAULT NULL,
+  filter_breed TEXT DEFAULT NULL,
+  filter_uploader UUID DEFAULT NULL,
+  filter_from TIMESTAMP DEFAULT NULL,
+  filter_to TIMESTAMP DEFAULT NULL,
+  result_limit INTEGER DEFAULT 20,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  video_id UUID,
+  relevance_score DOUBLE PRECISION,
+  keyword_score DOUBLE PRECISION,
+  likes_count BIGINT,
+  comments_count BIGINT,
+  shares_count BIGINT,
+  total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  weights relevance_weights%ROWTYPE;
+BEGIN
+  SELECT * INTO weights FROM relevance_weights ORDER BY updated_at DESC LIMIT 1;
+  IF NOT FOUND THEN
+    -- Same defaults as relevanceAlgorithm.ts
+    weights.keyword_match := 0.40;
+    weights.view_count := 0.15;
+    weights.like_ratio := 0.15;
+    weights.recency := 0.15;
+    weights.engagement := 0.15;
+  END IF;
+
+  RETURN QUERY
+  WITH matched AS (
+    SELECT m.video_id, m.text_match, m.text_rank, COALESCE(v.view_count, 0)::BIGINT AS views, v.created_at
+    FROM match_videos(search_query, include_unavailable, excluded_user_ids, extra_video_ids) m
+    JOIN videos v ON v.id = m.video_id
+    WHERE (filter_species IS NULL OR v.species = filter_species)
+      AND (filter_breed IS NULL OR v.breed = filter_breed)
+      AND (filter_uploader IS NULL OR v.user_id = filter_uploader)
+      AND (filter_from IS NULL OR v.created_at >= filter_from)
+      AND (filter_to IS NULL OR v.created_at <= filter_to)
+  ),
+  likes AS (
+    SELECT vl.video_id, COUNT(*) AS n FROM video_likes vl JOIN matched USING (video_id) GROUP BY vl.video_id
+  ),
+  comment_counts AS (
+    SELECT c.video_id, COUNT(*) AS n FROM comments c JOIN matched USING (video_id) GROUP BY c.video_id
+  ),
+  shares AS (
+    SELECT su.video_id, COALESCE(SUM(su.click_count), 0)::BIGINT AS n FROM shareable_urls su JOIN matched USING (video_id) GROUP BY su.video_id
+  ),
+  scored AS (
+    SELECT
+      matched.video_id,
+      matched.views,
+      matched.created_at,
+      COALESCE(likes.n, 0) AS likes,
+      COALESCE(comment_counts.n, 0) AS comments,
+      COALESCE(shares.n, 0) AS shares,
+      CASE
+        -- Browsing, or matched only through extra_video_ids: neutral keyword score
+        WHEN NOT matched.text_match THEN 0.5
+        ELSE matched.text_rank / NULLIF(MAX(matched.text_rank) OVER (), 0)
+      END AS keyword_score
+    FROM matched
+    LEFT JOIN likes USING (video_id)
+    LEFT JOIN comment_counts USING (video_id)
+    LEFT JOIN shares USING (video_id)
+  ),
+  ranked AS (
+    SELECT
+      scored.*,
+      video_relevance_score(
+        COALESCE(scored.keyword_score, 0), scored.views, scored.likes,
+        scored.likes + scored.comments + scored.shares, scored.created_at, weights
+      ) AS relevance
+    FROM scored
+  )
+  SELECT
+    ranked.video_id,
+    ranked.relevance,
+    COALESCE(ranked.keyword_score, 0)::DOUBLE PRECISION,
+    ranked.likes,
+    ranked.comments,
+    ranked.shares,
+    COUNT(*) OVER ()
+  FROM ranked
+  ORDER BY
+    CASE sort_option
+      WHEN 'recency' THEN EXTRACT(EPOCH FROM ranked.created_at)::DOUBLE PRECISION
+      WHEN 'view_count' THEN ranked.views::DOUBLE PRECISION
+      WHEN 'engagement' THEN (ranked.likes + ranked.comments + ranked.shares)::DOUBLE PRECISION
+      ELSE ranked.relevance
+    END DESC,
+    ranked.created_at DESC,
+    ranked.video_id
+  LIMIT result_limit
+  OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Rows for facet counting: the text matches before any facet filter, newest first
+CREATE OR REPLACE FUNCTION search_video_facet_rows(
+  search_query TEXT DEFAULT NULL,
+  include_unavailable BOOLEAN DEFAULT FALSE,
+  excluded_user_ids UUID[] DEFAULT '{}',
+  extra_video_ids UUID[] DEFAULT '{}',
+  row_limit INTEGER DEFAULT 1000
+)
+RETURNS TABLE (user_id UUID, username VARCHAR, species VARCHAR, breed VARCHAR, created_at TIMESTAMP) AS $$
+  SELECT v.user_id, u.username, v.species, v.breed, v.created_at
+  FROM match_videos(search_query, include_unavailable, excluded_user_ids, extra_video_ids) m
+  JOIN videos v ON v.id = m.video_id
+  LEFT JOIN users u ON u.id = v.user_id
+  ORDER BY v.created_at DESC
+  LIMIT row_limit;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION search_videos IS 'Ranked, filtered, paginated video search (GET /videos/search)';
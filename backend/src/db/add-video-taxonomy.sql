@@ -0,0 +1,16 @@
+-- Video taxonomy
+-- Every shared video can carry one species and (optionally) one breed from the curated
+-- list in backend/src/services/taxonomy.ts; search exposes them as facets and filters
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS species VARCHAR(30);
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS breed VARCHAR(50);
+
+-- A breed only makes sense within a species
+ALTER TABLE videos DROP CONSTRAINT IF EXISTS videos_breed_requires_species;
+ALTER TABLE videos ADD CONSTRAINT videos_breed_requires_species CHECK (breed IS NULL OR species IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_videos_species ON videos(species) WHERE species IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_videos_species_breed ON videos(species, breed) WHERE breed IS NOT NULL;
+
+COMMENT ON COLUMN videos.species IS 'Taxonomy species key (dog, cat, ...), NULL if uncategorised';
+COMMENT ON COLUMN videos.breed IS 'Taxonomy breed key within the species (golden_retriever, ...), NULL if not set';
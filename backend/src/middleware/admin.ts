@@ -1,62 +1,49 @@
 import { Request, Response, NextFunction } from 'express';
-import { supabase } from '../config/supabase.js';
 import { authenticateToken } from './auth.js';
+import { getUserRole, roleHasPermission, Permission } from '../services/permissions.js';
 
 /**
- * Middleware to check if user is an administrator
- * Must be used after authenticateToken
+ * Middleware to check that the user's role grants a permission
+ * Must be used after authenticateToken; sets req.userRole for the handler
  */
-export const requireAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-  try {
-    // First ensure user is authenticated
-    if (!req.userId) {
-      res.status(401).json({ 
-        error: 'Authentication required',
-        message: 'You must be logged in to access this resource' 
-      });
-      return;
-    }
+export const requirePermission = (permission: Permission) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      // First ensure user is authenticated
+      if (!req.userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'You must be logged in to access this resource'
+        });
+        return;
+      }
 
-    // Check if user is admin
-    const { data: user, error } = await supabase
-      .from('users')
-      .select('is_admin')
-      .eq('id', req.userId)
-      .single();
+      const role = await getUserRole(req.userId);
 
-    if (error || !user) {
-      console.error('Admin check error:', error);
-      res.status(500).json({ 
-        error: 'Internal server error',
-        message: 'Failed to verify admin status' 
-      });
-      return;
-    }
+      if (!roleHasPermission(role, permission)) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: `Missing permission: ${permission}`,
+          required_permission: permission,
+        });
+        return;
+      }
 
-    if (!user.is_admin) {
-      res.status(403).json({ 
-        error: 'Forbidden',
-        message: 'Administrator access required' 
+      req.userRole = role;
+      next();
+    } catch (error) {
+      console.error('Permission middleware error:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to verify permissions'
       });
-      return;
     }
-
-    // User is admin, proceed
-    next();
-  } catch (error) {
-    console.error('Admin middleware error:', error);
-    res.status(500).json({ 
-      error: 'Internal server error',
-      message: 'Failed to verify admin status' 
-    });
-  }
-};
+  };
 
 /**
- * Combined middleware: authenticate + require admin
+ * Combined middleware: authenticate + require permission
  */
-export const authenticateAdmin = [
+export const authenticateWithPermission = (permission: Permission) => [
   authenticateToken,
-  requireAdmin
+  requirePermission(permission),
 ];
-
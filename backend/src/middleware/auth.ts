@@ -1,22 +1,29 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { isSessionActive } from '../services/sessions.js';
+import type { Role } from '../services/permissions.js';
+import { getActiveSanctions, findAccessBlockingSanction, sanctionErrorBody } from '../services/sanctions.js';
 
 // Extend Express Request type to include user
 declare global {
   namespace Express {
     interface Request {
       userId?: string;
+      sessionId?: string;
+      userRole?: Role;
+      isShadowbanned?: boolean;
     }
   }
 }
 
 interface JWTPayload {
   userId: string;
+  sessionId?: string;
   iat: number;
   exp: number;
 }
 
-export const authenticateToken = (req: Request, res: Response, next: NextFunction): void => {
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     // Get token from Authorization header
     const authHeader = req.headers['authorization'];
@@ -39,9 +46,29 @@ export const authenticateToken = (req: Request, res: Response, next: NextFunctio
     }
 
     const decoded = jwt.verify(token, jwtSecret) as JWTPayload;
+
+    // Access tokens are bound to a server-side session so they can be revoked
+    // (tokens issued before sessions existed carry no sessionId and must be refreshed)
+    if (!decoded.sessionId || !(await isSessionActive(decoded.sessionId, decoded.userId))) {
+      res.status(401).json({ 
+        error: 'Authentication failed',
+        message: 'Session revoked' 
+      });
+      return;
+    }
     
-    // Attach userId to request object
+    // Suspended and banned accounts can't use the API at all
+    const sanctions = await getActiveSanctions(decoded.userId);
+    const blockingSanction = findAccessBlockingSanction(sanctions);
+    if (blockingSanction) {
+      res.status(403).json(sanctionErrorBody(blockingSanction));
+      return;
+    }
+    
+    // Attach userId and sessionId to request object
     req.userId = decoded.userId;
+    req.sessionId = decoded.sessionId;
+    req.isShadowbanned = sanctions.some(sanction => sanction.type === 'shadowban');
     
     next();
   } catch (error) {
@@ -69,7 +96,7 @@ export const authenticateToken = (req: Request, res: Response, next: NextFunctio
 };
 
 // Optional authentication - doesn't fail if no token provided
-export const optionalAuth = (req: Request, _res: Response, next: NextFunction): void => {
+export const optionalAuth = async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
   try {
     const authHeader = req.headers['authorization'];
     const token = authHeader && authHeader.startsWith('Bearer ') 
@@ -88,7 +115,10 @@ export const optionalAuth = (req: Request, _res: Response, next: NextFunction):
     }
 
     const decoded = jwt.verify(token, jwtSecret) as JWTPayload;
-    req.userId = decoded.userId;
+    if (decoded.sessionId && await isSessionActive(decoded.sessionId, decoded.userId)) {
+      req.userId = decoded.userId;
+      req.sessionId = decoded.sessionId;
+    }
     
     next();
   } catch (error) {
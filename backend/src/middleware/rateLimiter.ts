@@ -19,6 +19,18 @@ export const authLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   skipSuccessfulRequests: false, // Count all requests
+  // Token refresh/logout run automatically in the background and are covered by the global limiter
+  skip: (req) => req.path === '/refresh' || req.path === '/logout',
+});
+
+// Magic-link rate limiter - 5 link requests per 15 minutes per IP
+// (Each request sends an email, so this is much stricter than the auth limiter)
+export const magicLinkLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // Limit each IP to 5 magic-link emails per windowMs
+  message: 'Too many sign-in link requests, please try again after 15 minutes.',
+  standardHeaders: true,
+  legacyHeaders: false,
 });
 
 // Video upload rate limiter - 10 uploads per hour (only for POST requests)
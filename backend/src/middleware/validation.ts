@@ -39,6 +39,15 @@ export const validateLogin: ValidationChain[] = [
     .withMessage('Password is required')
 ];
 
+// Magic link request validation (same normalisation as registration and login)
+export const validateMagicLink: ValidationChain[] = [
+  body('email')
+    .trim()
+    .isEmail()
+    .withMessage('Must be a valid email address')
+    .normalizeEmail()
+];
+
 // Profile update validation
 export const validateProfileUpdate: ValidationChain[] = [
   body('bio')
@@ -51,6 +60,11 @@ export const validateProfileUpdate: ValidationChain[] = [
       return value.replace(/<[^>]*>/g, '');
     }),
   
+  body('is_private')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('is_private must be true or false'),
+
   body('profile_picture_url')
     .optional({ nullable: true, checkFalsy: true })
     .custom((value) => {
@@ -82,9 +96,12 @@ export const validateEmailUpdate: ValidationChain[] = [
 
 // Password change validation
 export const validatePasswordChange: ValidationChain[] = [
+  // Optional so passwordless (single sign-on) accounts can set a first password;
+  // the route still requires it whenever the account already has one
   body('currentPassword')
-    .notEmpty()
-    .withMessage('Current password is required'),
+    .optional()
+    .isString()
+    .withMessage('Current password must be a string'),
   
   body('newPassword')
     .isLength({ min: 8 })
@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+// Anonymous visitor ID, so signed-out visitors keep the same experiment variant between visits
+export const VISITOR_COOKIE = 'petflix_vid';
+
+const VISITOR_COOKIE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+declare global {
+  namespace Express {
+    interface Request {
+      visitorId?: string;
+    }
+  }
+}
+
+/**
+ * Read a cookie from the raw Cookie header (the API has no cookie parser)
+ */
+function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.cookie;
+  if (!header) return null;
+
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+}
+
+/**
+ * Middleware to set req.visitorId from the visitor cookie, issuing a new ID when there is none
+ */
+export const identifyVisitor = (req: Request, res: Response, next: NextFunction): void => {
+  const existing = readCookie(req, VISITOR_COOKIE);
+
+  if (existing && UUID_PATTERN.test(existing)) {
+    req.visitorId = existing;
+  } else {
+    req.visitorId = crypto.randomUUID();
+    // The frontend is served from another origin in production, so the cookie must be SameSite=None
+    const isProduction = process.env.NODE_ENV === 'production';
+    res.cookie(VISITOR_COOKIE, req.visitorId, {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: isProduction ? 'none' : 'lax',
+      maxAge: VISITOR_COOKIE_MAX_AGE_MS,
+      path: '/',
+    });
+  }
+
+  next();
+};
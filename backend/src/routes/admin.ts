@@ -1,17 +1,54 @@
 // Admin routes for system configuration
 import { Router, Request, Response } from 'express';
-import { validationResult, body, query } from 'express-validator';
+import { validationResult, body, param, query } from 'express-validator';
+import crypto from 'crypto';
 import { authenticateToken } from '../middleware/auth.js';
-import { requireAdmin } from '../middleware/admin.js';
-import { getRelevanceWeights, updateRelevanceWeights, RelevanceWeights } from '../services/relevanceAlgorithm.js';
+import { requirePermission } from '../middleware/admin.js';
+import {
+  getRelevanceWeights,
+  updateRelevanceWeights,
+  explainRelevance,
+  listRelevanceWeightVersions,
+  getRelevanceWeightVersion,
+  diffRelevanceWeights,
+  rollbackRelevanceWeights,
+  RelevanceWeights,
+} from '../services/relevanceAlgorithm.js';
+import { searchVideoIds, RankedVideo } from '../services/videoSearch.js';
+import { parseSearchQuery } from '../services/searchQuery.js';
+import { findVideoIdsByPet } from '../services/pets.js';
+import {
+  EXPERIMENT_SURFACES,
+  ExperimentSurface,
+  ExperimentVariant,
+  listExperiments,
+  getExperiment,
+  createExperiment,
+  setExperimentStatus,
+  getExperimentReport,
+  validateVariantConfig,
+} from '../services/experiments.js';
+import { getSearchQualityReport } from '../services/searchAnalytics.js';
 import { supabase } from '../config/supabase.js';
 import { getAnomalyConfig, updateAnomalyConfig } from '../services/anomalyDetection.js';
 import { getStorageStats, checkStorageUsage } from '../services/storageMonitoring.js';
+import { recordAdminAction } from '../services/adminAudit.js';
+import { sendPasswordResetEmail } from '../services/email.js';
+import { revokeUserSessions } from '../services/sessions.js';
+import { ROLES, Role, toRole, getRolePermissions, roleHasPermission } from '../services/permissions.js';
+import {
+  SANCTION_TYPES,
+  SanctionType,
+  getActiveSanctions,
+  listUserSanctions,
+  issueSanction,
+  revokeSanction,
+} from '../services/sanctions.js';
 
 const router = Router();
 
 // GET /api/v1/admin/relevance-weights - Get current relevance weights
-router.get('/relevance-weights', authenticateToken, requireAdmin, async (_req: Request, res: Response): Promise<void> => {
+router.get('/relevance-weights', authenticateToken, requirePermission('relevance.edit'), async (_req: Request, res: Response): Promise<void> => {
   try {
     const weights = await getRelevanceWeights();
     res.status(200).json({ weights });
@@ -24,13 +61,14 @@ router.get('/relevance-weights', authenticateToken, requireAdmin, async (_req: R
 // PATCH /api/v1/admin/relevance-weights - Update relevance weights
 router.patch('/relevance-weights', 
   authenticateToken, 
-  requireAdmin,
+  requirePermission('relevance.edit'),
   [
     body('keywordMatch').optional().isFloat({ min: 0, max: 1 }),
     body('viewCount').optional().isFloat({ min: 0, max: 1 }),
     body('likeRatio').optional().isFloat({ min: 0, max: 1 }),
     body('recency').optional().isFloat({ min: 0, max: 1 }),
     body('engagement').optional().isFloat({ min: 0, max: 1 }),
+    body('note').optional().isString().trim().isLength({ max: 500 }).withMessage('Note must be at most 500 characters'),
   ],
   async (req: Request, res: Response): Promise<void> => {
     try {
@@ -62,10 +100,20 @@ router.patch('/relevance-weights',
         return;
       }
 
-      await updateRelevanceWeights(updatedWeights);
+      const version = await updateRelevanceWeights(updatedWeights, {
+        createdBy: req.userId,
+        note: req.body.note,
+      });
+      await recordAdminAction(req, {
+        action: 'relevance_weights.update',
+        targetType: 'relevance_weights',
+        targetId: String(version.version),
+        details: { previous: currentWeights, updated: updatedWeights, note: version.note },
+      });
       res.status(200).json({ 
         message: 'Relevance weights updated successfully',
-        weights: updatedWeights 
+        weights: updatedWeights,
+        version
       });
     } catch (error: any) {
       console.error('Failed to update relevance weights:', error);
@@ -77,10 +125,246 @@ router.patch('/relevance-weights',
   }
 );
 
+// GET /api/v1/admin/relevance-weights/versions - Weight change history, newest first
+router.get('/relevance-weights/versions',
+  authenticateToken,
+  requirePermission('relevance.edit'),
+  [query('limit').optional().isInt({ min: 1, max: 200 })],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const versions = await listRelevanceWeightVersions(parseInt(req.query.limit as string) || 50);
+      res.status(200).json({ versions, current_version: versions[0]?.version ?? null });
+    } catch (error) {
+      console.error('Failed to list relevance weight versions:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// GET /api/v1/admin/relevance-weights/versions/diff?from=&to= - Compare two versions (to defaults to the live one)
+router.get('/relevance-weights/versions/diff',
+  authenticateToken,
+  requirePermission('relevance.edit'),
+  [
+    query('from').isInt({ min: 1 }).withMessage('from must be a version number'),
+    query('to').optional().isInt({ min: 1 }).withMessage('to must be a version number'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const [from, to] = await Promise.all([
+        getRelevanceWeightVersion(parseInt(req.query.from as string)),
+        req.query.to
+          ? getRelevanceWeightVersion(parseInt(req.query.to as string))
+          : listRelevanceWeightVersions(1).then(versions => versions[0] || null),
+      ]);
+
+      if (!from || !to) {
+        res.status(404).json({ error: 'Version not found' });
+        return;
+      }
+
+      res.status(200).json({ diff: diffRelevanceWeights(from, to), from, to });
+    } catch (error) {
+      console.error('Failed to diff relevance weight versions:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// POST /api/v1/admin/relevance-weights/versions/:version/rollback - Make an earlier version live again
+router.post('/relevance-weights/versions/:version/rollback',
+  authenticateToken,
+  requirePermission('relevance.edit'),
+  [
+    param('version').isInt({ min: 1 }).withMessage('Invalid version'),
+    body('note').optional().isString().trim().isLength({ max: 500 }).withMessage('Note must be at most 500 characters'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const targetVersion = parseInt(req.params.version as string);
+      const currentWeights = await getRelevanceWeights();
+      const version = await rollbackRelevanceWeights(targetVersion, {
+        createdBy: req.userId,
+        note: req.body.note,
+      });
+
+      if (!version) {
+        res.status(404).json({ error: 'Version not found' });
+        return;
+      }
+
+      await recordAdminAction(req, {
+        action: 'relevance_weights.rollback',
+        targetType: 'relevance_weights',
+        targetId: String(version.version),
+        details: { previous: currentWeights, updated: version.weights, rollback_of: targetVersion },
+      });
+
+      res.status(200).json({
+        message: `Relevance weights rolled back to version ${targetVersion}`,
+        weights: version.weights,
+        version,
+      });
+    } catch (error) {
+      console.error('Failed to roll back relevance weights:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Number of results compared in the what-if preview
+const WEIGHTS_PREVIEW_LIMIT = 20;
+
+// POST /api/v1/admin/relevance-weights/preview - Rank a sample query with draft weights (nothing is saved)
+router.post('/relevance-weights/preview',
+  authenticateToken,
+  requirePermission('relevance.edit'),
+  [
+    body('query').optional().isString().isLength({ max: 200 }),
+    body('weights.keywordMatch').isFloat({ min: 0, max: 1 }),
+    body('weights.viewCount').isFloat({ min: 0, max: 1 }),
+    body('weights.likeRatio').isFloat({ min: 0, max: 1 }),
+    body('weights.recency').isFloat({ min: 0, max: 1 }),
+    body('weights.engagement').isFloat({ min: 0, max: 1 }),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const draftWeights: RelevanceWeights = {
+        keywordMatch: Number(req.body.weights.keywordMatch),
+        viewCount: Number(req.body.weights.viewCount),
+        likeRatio: Number(req.body.weights.likeRatio),
+        recency: Number(req.body.weights.recency),
+        engagement: Number(req.body.weights.engagement),
+      };
+
+      const sum = Object.values(draftWeights).reduce((s, w) => s + w, 0);
+      if (Math.abs(sum - 1.0) > 0.01) {
+        res.status(400).json({
+          error: 'Invalid weights',
+          message: `Weights must sum to 1.0 (current sum: ${sum.toFixed(2)})`
+        });
+        return;
+      }
+
+      // Same matching as a public search (without viewer-specific exclusions)
+      const searchQuery = typeof req.body.query === 'string' && req.body.query.trim() ? req.body.query.trim() : null;
+      const [currentWeights, parsedQuery, petVideoIds] = await Promise.all([
+        getRelevanceWeights(),
+        parseSearchQuery(searchQuery),
+        searchQuery ? findVideoIdsByPet(searchQuery) : Promise.resolve([] as string[]),
+      ]);
+
+      const searchOptions = {
+        query: parsedQuery.tsquery,
+        includeUnavailable: false,
+        excludedUserIds: [],
+        extraVideoIds: petVideoIds,
+        sort: 'relevance' as const,
+        filters: {},
+        limit: WEIGHTS_PREVIEW_LIMIT,
+        offset: 0,
+      };
+      const [current, draft] = await Promise.all([
+        searchVideoIds(searchOptions),
+        searchVideoIds({ ...searchOptions, weights: draftWeights }),
+      ]);
+
+      const videoIds = Array.from(new Set([...current.results, ...draft.results].map(r => r.video_id)));
+      const { data: videos, error } = videoIds.length > 0
+        ? await supabase.from('videos').select('id, title, youtube_video_id').in('id', videoIds)
+        : { data: [], error: null };
+
+      if (error) {
+        throw new Error(`Failed to load preview videos: ${error.message}`);
+      }
+
+      const videosById = new Map((videos || []).map((video: any) => [video.id, video]));
+      const currentRanks = new Map(current.results.map((result, i) => [result.video_id, i + 1]));
+      const draftRanks = new Map(draft.results.map((result, i) => [result.video_id, i + 1]));
+
+      const formatResult = (result: RankedVideo, rank: number, weights: RelevanceWeights) => {
+        const video: any = videosById.get(result.video_id);
+        return {
+          id: result.video_id,
+          title: video?.title || 'Unknown video',
+          thumbnail_url: video ? `https://img.youtube.com/vi/${video.youtube_video_id}/mqdefault.jpg` : null,
+          rank,
+          explain: explainRelevance(result.components, weights),
+        };
+      };
+
+      res.status(200).json({
+        query: searchQuery,
+        did_you_mean: parsedQuery.didYouMean,
+        current_weights: currentWeights,
+        draft_weights: draftWeights,
+        // Draft ranking, with where each video sits under the saved weights (null = not in the current top results)
+        results: draft.results.map((result, i) => ({
+          ...formatResult(result, i + 1, draftWeights),
+          current_rank: currentRanks.get(result.video_id) ?? null,
+        })),
+        // Videos in the current top results that the draft weights push out
+        dropped: current.results
+          .filter(result => !draftRanks.has(result.video_id))
+          .map(result => formatResult(result, currentRanks.get(result.video_id)!, currentWeights)),
+      });
+    } catch (error) {
+      console.error('Relevance weights preview error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// GET /api/v1/admin/search-analytics - Search result quality: zero-result queries, low-CTR queries, MRR
+router.get('/search-analytics',
+  authenticateToken,
+  requirePermission('relevance.edit'),
+  [query('days').optional().isInt({ min: 1, max: 365 }).withMessage('days must be 1-365')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const report = await getSearchQualityReport(parseInt(req.query.days as string) || 30);
+      res.status(200).json(report);
+    } catch (error) {
+      console.error('Search analytics error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
 // GET /api/v1/admin/errors - Get error logs with filters
 router.get('/errors',
   authenticateToken,
-  requireAdmin,
+  requirePermission('errors.read'),
   [
     query('level').optional().isIn(['error', 'warn', 'info']),
     query('page').optional().isInt({ min: 1 }),
@@ -167,7 +451,7 @@ router.get('/errors',
 // GET /api/v1/admin/errors/stats - Get error statistics
 router.get('/errors/stats',
   authenticateToken,
-  requireAdmin,
+  requirePermission('errors.read'),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const { days = '7' } = req.query;
@@ -262,7 +546,7 @@ router.get('/errors/stats',
 // GET /api/v1/admin/errors/:id - Get single error log
 router.get('/errors/:id',
   authenticateToken,
-  requireAdmin,
+  requirePermission('errors.read'),
   async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
@@ -289,7 +573,7 @@ router.get('/errors/:id',
 // DELETE /api/v1/admin/errors - Clear old error logs
 router.delete('/errors',
   authenticateToken,
-  requireAdmin,
+  requirePermission('errors.manage'),
   [
     query('olderThan').optional().isInt({ min: 1 }),
   ],
@@ -312,6 +596,12 @@ router.delete('/errors',
         return;
       }
 
+      await recordAdminAction(req, {
+        action: 'error_logs.delete',
+        targetType: 'error_logs',
+        details: { olderThanDays: days, deleted: data?.length || 0 },
+      });
+
       res.status(200).json({
         message: 'Old error logs deleted successfully',
         deleted: data?.length || 0,
@@ -327,7 +617,7 @@ router.delete('/errors',
 // POST /api/v1/admin/errors/export - Export error logs
 router.post('/errors/export',
   authenticateToken,
-  requireAdmin,
+  requirePermission('errors.read'),
   [
     body('format').optional().isIn(['json', 'csv']),
     body('startDate').optional().isISO8601(),
@@ -365,6 +655,12 @@ router.post('/errors/export',
         return;
       }
 
+      await recordAdminAction(req, {
+        action: 'error_logs.export',
+        targetType: 'error_logs',
+        details: { format, startDate, endDate, level, exported: errorLogs?.length || 0 },
+      });
+
       if (format === 'csv') {
         // Convert to CSV
         const headers = ['id', 'level', 'message', 'endpoint', 'method', 'status_code', 'created_at'];
@@ -401,7 +697,7 @@ router.post('/errors/export',
 // GET /api/v1/admin/anomaly-config - Get anomaly detection configuration
 router.get('/anomaly-config',
   authenticateToken,
-  requireAdmin,
+  requirePermission('system.manage'),
   async (_req: Request, res: Response): Promise<void> => {
     try {
       const config = await getAnomalyConfig();
@@ -416,7 +712,7 @@ router.get('/anomaly-config',
 // PATCH /api/v1/admin/anomaly-config - Update anomaly detection configuration
 router.patch('/anomaly-config',
   authenticateToken,
-  requireAdmin,
+  requirePermission('system.manage'),
   [
     body('enabled').optional().isBoolean(),
     body('errorThreshold').optional().isInt({ min: 1 }),
@@ -434,9 +730,16 @@ router.patch('/anomaly-config',
         return;
       }
 
+      const previousConfig = await getAnomalyConfig();
       await updateAnomalyConfig(req.body);
       const updatedConfig = await getAnomalyConfig();
 
+      await recordAdminAction(req, {
+        action: 'anomaly_config.update',
+        targetType: 'anomaly_config',
+        details: { previous: previousConfig, updated: updatedConfig },
+      });
+
       res.status(200).json({
         message: 'Anomaly detection config updated successfully',
         config: updatedConfig,
@@ -451,7 +754,7 @@ router.patch('/anomaly-config',
 // GET /api/v1/admin/storage/stats - Get storage statistics
 router.get('/storage/stats',
   authenticateToken,
-  requireAdmin,
+  requirePermission('system.manage'),
   async (_req: Request, res: Response): Promise<void> => {
     try {
       const stats = await getStorageStats();
@@ -475,10 +778,14 @@ router.get('/storage/stats',
 // POST /api/v1/admin/storage/check - Manually trigger storage check
 router.post('/storage/check',
   authenticateToken,
-  requireAdmin,
-  async (_req: Request, res: Response): Promise<void> => {
+  requirePermission('system.manage'),
+  async (req: Request, res: Response): Promise<void> => {
     try {
       const result = await checkStorageUsage();
+      await recordAdminAction(req, {
+        action: 'storage.check',
+        targetType: 'storage',
+      });
       res.status(200).json(result);
     } catch (error: any) {
       console.error('Storage check error:', error);
@@ -487,6 +794,828 @@ router.post('/storage/check',
   }
 );
 
+const validateUserId = [
+  param('userId').isUUID().withMessage('Invalid user ID'),
+];
+
+const ADMIN_USER_FIELDS = 'id, username, email, user_number, profile_picture_url, role, failed_login_attempts, locked_until, password_reset_required, created_at, updated_at';
+
+/**
+ * Shape a users row for the admin console, including computed lock state
+ */
+function formatAdminUser(user: any) {
+  const lockedUntil = user.locked_until ? new Date(user.locked_until) : null;
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    user_number: user.user_number,
+    profile_picture_url: user.profile_picture_url,
+    role: toRole(user.role),
+    permissions: getRolePermissions(toRole(user.role)),
+    password_reset_required: user.password_reset_required === true,
+    lock: {
+      is_locked: !!lockedUntil && lockedUntil > new Date(),
+      failed_login_attempts: user.failed_login_attempts || 0,
+      locked_until: user.locked_until,
+    },
+    created_at: user.created_at,
+    updated_at: user.updated_at,
+  };
+}
+
+// GET /api/v1/admin/users - Search users
+router.get('/users',
+  authenticateToken,
+  requirePermission('users.read'),
+  [
+    query('q').optional().isString().trim().isLength({ max: 255 }),
+    query('locked').optional().isBoolean(),
+    query('role').optional().isIn(ROLES),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const { q, locked, role, page = '1', limit = '20' } = req.query;
+      const pageNum = parseInt(page as string);
+      const limitNum = Math.min(parseInt(limit as string), 100);
+      const offset = (pageNum - 1) * limitNum;
+
+      let usersQuery = supabase
+        .from('users')
+        .select(ADMIN_USER_FIELDS, { count: 'exact' })
+        .order('created_at', { ascending: false });
+
+      if (q && typeof q === 'string' && q.trim().length > 0) {
+        // Strip characters that have meaning in PostgREST filter syntax
+        const term = q.trim().replace(/[,()%]/g, '');
+        const userNumber = parseInt(term.replace(/^#/, ''));
+        const filters = [`username.ilike.%${term}%`, `email.ilike.%${term}%`];
+        if (!isNaN(userNumber) && /^#?\d+$/.test(term)) {
+          filters.push(`user_number.eq.${userNumber}`);
+        }
+        usersQuery = usersQuery.or(filters.join(','));
+      }
+
+      if (locked === 'true') {
+        usersQuery = usersQuery.gt('locked_until', new Date().toISOString());
+      } else if (locked === 'false') {
+        usersQuery = usersQuery.or(`locked_until.is.null,locked_until.lte.${new Date().toISOString()}`);
+      }
+
+      if (role) {
+        usersQuery = usersQuery.eq('role', role as string);
+      }
+
+      const { data: users, error: fetchError, count } = await usersQuery
+        .range(offset, offset + limitNum - 1);
+
+      if (fetchError) {
+        console.error('Failed to search users:', fetchError);
+        res.status(500).json({ error: 'Failed to search users' });
+        return;
+      }
+
+      const totalPages = count ? Math.ceil(count / limitNum) : 1;
+
+      res.status(200).json({
+        users: (users || []).map(formatAdminUser),
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total: count || 0,
+          totalPages,
+          hasNextPage: pageNum < totalPages,
+          hasPrevPage: pageNum > 1,
+        },
+      });
+    } catch (error: any) {
+      console.error('Search users error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// GET /api/v1/admin/users/:userId - Get a user with lock state
+router.get('/users/:userId',
+  authenticateToken,
+  requirePermission('users.read'),
+  validateUserId,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const { userId } = req.params;
+
+      const { data: user, error } = await supabase
+        .from('users')
+        .select(ADMIN_USER_FIELDS)
+        .eq('id', userId)
+        .single();
+
+      if (error || !user) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const sanctions = await getActiveSanctions(user.id);
+
+      res.status(200).json({ user: formatAdminUser(user), sanctions });
+    } catch (error: any) {
+      console.error('Get user error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// POST /api/v1/admin/users/:userId/unlock - Clear failed login attempts and account lock
+router.post('/users/:userId/unlock',
+  authenticateToken,
+  requirePermission('users.manage'),
+  validateUserId,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const { userId } = req.params;
+
+      const { data: existingUser } = await supabase
+        .from('users')
+        .select('id, failed_login_attempts, locked_until, role')
+        .eq('id', userId)
+        .single();
+
+      if (!existingUser) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      // Staff accounts can only be acted on by someone who could also change their role
+      if (toRole(existingUser.role) !== 'user' && !roleHasPermission(req.userRole!, 'roles.assign')) {
+        res.status(403).json({ error: 'Forbidden', message: 'Only administrators can act on staff accounts' });
+        return;
+      }
+
+      const { data: user, error: updateError } = await supabase
+        .from('users')
+        .update({ failed_login_attempts: 0, locked_until: null })
+        .eq('id', userId)
+        .select(ADMIN_USER_FIELDS)
+        .single();
+
+      if (updateError || !user) {
+        console.error('Failed to unlock user:', updateError);
+        res.status(500).json({ error: 'Failed to unlock user' });
+        return;
+      }
+
+      await recordAdminAction(req, {
+        action: 'user.unlock',
+        targetType: 'user',
+        targetId: user.id,
+        details: {
+          previous_failed_login_attempts: existingUser.failed_login_attempts || 0,
+          previous_locked_until: existingUser.locked_until,
+        },
+      });
+
+      res.status(200).json({
+        message: 'User account unlocked',
+        user: formatAdminUser(user),
+      });
+    } catch (error: any) {
+      console.error('Unlock user error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// PATCH /api/v1/admin/users/:userId/role - Change a user's role
+router.patch('/users/:userId/role',
+  authenticateToken,
+  requirePermission('roles.assign'),
+  [
+    ...validateUserId,
+    body('role').isIn(ROLES).withMessage(`role must be one of: ${ROLES.join(', ')}`),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const { userId } = req.params;
+      const role = req.body.role as Role;
+
+      // Prevent admins from locking themselves out of the console
+      if (userId === req.userId && role !== 'admin') {
+        res.status(400).json({
+          error: 'Invalid operation',
+          message: 'You cannot change your own administrator role',
+        });
+        return;
+      }
+
+      const { data: existingUser } = await supabase
+        .from('users')
+        .select('id, role')
+        .eq('id', userId)
+        .single();
+
+      if (!existingUser) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const { data: user, error: updateError } = await supabase
+        .from('users')
+        .update({ role })
+        .eq('id', userId)
+        .select(ADMIN_USER_FIELDS)
+        .single();
+
+      if (updateError || !user) {
+        console.error('Failed to update role:', updateError);
+        res.status(500).json({ error: 'Failed to update role' });
+        return;
+      }
+
+      await recordAdminAction(req, {
+        action: 'user.set_role',
+        targetType: 'user',
+        targetId: user.id,
+        details: { previous: toRole(existingUser.role), updated: role },
+      });
+
+      res.status(200).json({
+        message: `Role changed to ${role}`,
+        user: formatAdminUser(user),
+      });
+    } catch (error: any) {
+      console.error('Update role error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// POST /api/v1/admin/users/:userId/force-password-reset - Require a new password before next login
+router.post('/users/:userId/force-password-reset',
+  authenticateToken,
+  requirePermission('users.manage'),
+  validateUserId,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const { userId } = req.params;
+
+      const { data: existingUser } = await supabase
+        .from('users')
+        .select('id, username, email, role')
+        .eq('id', userId)
+        .single();
+
+      if (!existingUser) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      // Staff accounts can only be acted on by someone who could also change their role
+      if (toRole(existingUser.role) !== 'user' && !roleHasPermission(req.userRole!, 'roles.assign')) {
+        res.status(403).json({ error: 'Forbidden', message: 'Only administrators can act on staff accounts' });
+        return;
+      }
+
+      const { data: user, error: updateError } = await supabase
+        .from('users')
+        .update({ password_reset_required: true })
+        .eq('id', userId)
+        .select(ADMIN_USER_FIELDS)
+        .single();
+
+      if (updateError || !user) {
+        console.error('Failed to force password reset:', updateError);
+        res.status(500).json({ error: 'Failed to force password reset' });
+        return;
+      }
+
+      // Sign the user out everywhere until they choose a new password
+      const revokedSessions = await revokeUserSessions(existingUser.id, 'admin_action');
+
+      // Issue a reset token so the user can choose a new password
+      const token = crypto.randomBytes(32).toString('hex');
+      const expiresAt = new Date();
+      expiresAt.setHours(expiresAt.getHours() + 1);
+
+      const { error: tokenError } = await supabase
+        .from('password_reset_tokens')
+        .insert({
+          user_id: existingUser.id,
+          token,
+          expires_at: expiresAt.toISOString(),
+        });
+
+      if (tokenError) {
+        console.error('Failed to create reset token:', tokenError);
+      } else {
+        sendPasswordResetEmail(existingUser.email, existingUser.username, token).catch(err => {
+          console.error('Failed to send password reset email:', err);
+        });
+      }
+
+      await recordAdminAction(req, {
+        action: 'user.force_password_reset',
+        targetType: 'user',
+        targetId: user.id,
+        details: { email_sent: !tokenError, revoked_sessions: revokedSessions },
+      });
+
+      res.status(200).json({
+        message: 'Password reset required. A reset link has been emailed to the user.',
+        user: formatAdminUser(user),
+      });
+    } catch (error: any) {
+      console.error('Force password reset error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// GET /api/v1/admin/users/:userId/sanctions - Sanction history for a user
+router.get('/users/:userId/sanctions',
+  authenticateToken,
+  requirePermission('users.read'),
+  validateUserId,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const sanctions = await listUserSanctions(req.params.userId as string);
+      res.status(200).json({ sanctions });
+    } catch (error: any) {
+      console.error('Get sanctions error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// POST /api/v1/admin/users/:userId/sanctions - Suspend, ban or shadowban a user
+router.post('/users/:userId/sanctions',
+  authenticateToken,
+  requirePermission('users.ban'),
+  [
+    ...validateUserId,
+    body('type').isIn(SANCTION_TYPES).withMessage(`type must be one of: ${SANCTION_TYPES.join(', ')}`),
+    body('reason').isString().trim().isLength({ min: 1, max: 1000 }).withMessage('A reason is required (max 1000 characters)'),
+    body('expires_at').optional({ values: 'null' }).isISO8601().withMessage('expires_at must be an ISO 8601 date'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const userId = req.params.userId as string;
+      const type = req.body.type as SanctionType;
+      const reason = (req.body.reason as string).trim();
+      const expiresAt = req.body.expires_at ? new Date(req.body.expires_at) : null;
+
+      if (expiresAt && expiresAt <= new Date()) {
+        res.status(400).json({ error: 'Validation failed', message: 'expires_at must be in the future' });
+        return;
+      }
+      if (type === 'suspension' && !expiresAt) {
+        res.status(400).json({ error: 'Validation failed', message: 'Suspensions need an expires_at - use a ban for permanent removal' });
+        return;
+      }
+      if (type === 'ban' && expiresAt) {
+        res.status(400).json({ error: 'Validation failed', message: 'Bans are permanent - use a suspension for a time-boxed sanction' });
+        return;
+      }
+
+      if (userId === req.userId) {
+        res.status(400).json({ error: 'Invalid operation', message: 'You cannot sanction your own account' });
+        return;
+      }
+
+      const { data: target } = await supabase
+        .from('users')
+        .select('id, role')
+        .eq('id', userId)
+        .single();
+
+      if (!target) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      // Staff accounts can only be sanctioned by someone who could also change their role
+      if (toRole(target.role) !== 'user' && !roleHasPermission(req.userRole!, 'roles.assign')) {
+        res.status(403).json({ error: 'Forbidden', message: 'Only administrators can sanction staff accounts' });
+        return;
+      }
+
+      const sanction = await issueSanction({ userId, type, reason, issuedBy: req.userId!, expiresAt });
+
+      await recordAdminAction(req, {
+        action: `user.${type}`,
+        targetType: 'user',
+        targetId: userId,
+        details: { sanction_id: sanction.id, reason, expires_at: sanction.expires_at },
+      });
+
+      res.status(201).json({ message: `User ${type === 'ban' ? 'banned' : type === 'suspension' ? 'suspended' : 'shadowbanned'}`, sanction });
+    } catch (error: any) {
+      console.error('Issue sanction error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// DELETE /api/v1/admin/users/:userId/sanctions/:sanctionId - Lift a sanction early
+router.delete('/users/:userId/sanctions/:sanctionId',
+  authenticateToken,
+  requirePermission('users.ban'),
+  [
+    ...validateUserId,
+    param('sanctionId').isUUID().withMessage('Invalid sanction ID'),
+    body('reason').optional().isString().trim().isLength({ max: 1000 }),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const userId = req.params.userId as string;
+      const sanctionId = req.params.sanctionId as string;
+      const note = req.body?.reason?.trim() || null;
+
+      const sanction = await revokeSanction(userId, sanctionId, req.userId!, note);
+
+      if (!sanction) {
+        res.status(404).json({ error: 'Sanction not found', message: 'No active sanction with this ID for this user' });
+        return;
+      }
+
+      await recordAdminAction(req, {
+        action: 'user.sanction_lifted',
+        targetType: 'user',
+        targetId: userId,
+        details: { sanction_id: sanction.id, type: sanction.type, reason: note },
+      });
+
+      res.status(200).json({ message: 'Sanction lifted', sanction });
+    } catch (error: any) {
+      console.error('Lift sanction error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// GET /api/v1/admin/audit-log - Get admin audit log with filters
+router.get('/audit-log',
+  authenticateToken,
+  requirePermission('audit.read'),
+  [
+    query('action').optional().isString(),
+    query('adminId').optional().isUUID(),
+    query('targetType').optional().isString(),
+    query('targetId').optional().isString(),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const { action, adminId, targetType, targetId, page = '1', limit = '50' } = req.query;
+      const pageNum = parseInt(page as string);
+      const limitNum = Math.min(parseInt(limit as string), 100);
+      const offset = (pageNum - 1) * limitNum;
+
+      let auditQuery = supabase
+        .from('admin_audit_log')
+        .select(`
+          id,
+          action,
+          target_type,
+          target_id,
+          details,
+          ip_address,
+          created_at,
+          admin:admin_id (
+            id,
+            username
+          )
+        `, { count: 'exact' })
+        .order('created_at', { ascending: false });
+
+      if (action) {
+        auditQuery = auditQuery.eq('action', action);
+      }
+
+      if (adminId) {
+        auditQuery = auditQuery.eq('admin_id', adminId);
+      }
+
+      if (targetType) {
+        auditQuery = auditQuery.eq('target_type', targetType);
+      }
+
+      if (targetId) {
+        auditQuery = auditQuery.eq('target_id', targetId);
+      }
+
+      const { data: entries, error: fetchError, count } = await auditQuery
+        .range(offset, offset + limitNum - 1);
+
+      if (fetchError) {
+        console.error('Failed to fetch audit log:', fetchError);
+        res.status(500).json({ error: 'Failed to fetch audit log' });
+        return;
+      }
+
+      const totalPages = count ? Math.ceil(count / limitNum) : 1;
+
+      res.status(200).json({
+        entries: entries || [],
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total: count || 0,
+          totalPages,
+          hasNextPage: pageNum < totalPages,
+          hasPrevPage: pageNum > 1,
+        },
+      });
+    } catch (error: any) {
+      console.error('Get audit log error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// GET /api/v1/admin/experiments - List A/B experiments
+router.get('/experiments', authenticateToken, requirePermission('experiments.manage'), async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const experiments = await listExperiments();
+    res.status(200).json({ experiments });
+  } catch (error) {
+    console.error('Failed to list experiments:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/v1/admin/experiments - Create a draft experiment
+router.post('/experiments',
+  authenticateToken,
+  requirePermission('experiments.manage'),
+  [
+    body('key')
+      .isString()
+      .trim()
+      .matches(/^[a-z0-9][a-z0-9_-]{1,49}$/)
+      .withMessage('Key must be 2-50 lowercase letters, digits, dashes or underscores'),
+    body('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name is required (max 100 characters)'),
+    body('description').optional({ nullable: true }).isString().isLength({ max: 1000 }),
+    body('surface').isIn(EXPERIMENT_SURFACES).withMessage(`Surface must be one of: ${EXPERIMENT_SURFACES.join(', ')}`),
+    body('variants').isArray({ min: 2, max: 5 }).withMessage('An experiment needs 2-5 variants'),
+    body('variants.*.key')
+      .isString()
+      .trim()
+      .matches(/^[a-z0-9][a-z0-9_-]{0,49}$/)
+      .withMessage('Variant keys must be lowercase letters, digits, dashes or underscores'),
+    body('variants.*.name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Variant name is required'),
+    body('variants.*.allocation').isInt({ min: 0, max: 100 }).withMessage('Allocation must be 0-100'),
+    body('variants.*.config').optional().isObject().withMessage('Variant config must be an object'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const surface = req.body.surface as ExperimentSurface;
+      const variants: ExperimentVariant[] = req.body.variants.map((variant: any) => ({
+        key: variant.key,
+        name: variant.name,
+        allocation: Number(variant.allocation),
+        config: variant.config || {},
+      }));
+
+      if (new Set(variants.map(v => v.key)).size !== variants.length) {
+        res.status(400).json({ error: 'Invalid variants', message: 'Variant keys must be unique' });
+        return;
+      }
+
+      const totalAllocation = variants.reduce((sum, v) => sum + v.allocation, 0);
+      if (totalAllocation !== 100) {
+        res.status(400).json({ error: 'Invalid variants', message: `Allocations must sum to 100 (current sum: ${totalAllocation})` });
+        return;
+      }
+
+      for (const variant of variants) {
+        const problem = validateVariantConfig(surface, variant.config);
+        if (problem) {
+          res.status(400).json({ error: 'Invalid variants', message: `${variant.key}: ${problem}` });
+          return;
+        }
+      }
+
+      const { data: existing } = await supabase
+        .from('experiments')
+        .select('id')
+        .eq('key', req.body.key)
+        .maybeSingle();
+
+      if (existing) {
+        res.status(409).json({ error: 'An experiment with this key already exists' });
+        return;
+      }
+
+      const experiment = await createExperiment({
+        key: req.body.key,
+        name: req.body.name,
+        description: req.body.description || null,
+        surface,
+        variants,
+      }, req.userId!);
+
+      await recordAdminAction(req, {
+        action: 'experiment.create',
+        targetType: 'experiment',
+        targetId: experiment.id,
+        details: { key: experiment.key, surface, variants },
+      });
+
+      res.status(201).json({ message: 'Experiment created', experiment });
+    } catch (error) {
+      console.error('Failed to create experiment:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// POST /api/v1/admin/experiments/:experimentId/start - Start a draft experiment
+router.post('/experiments/:experimentId/start',
+  authenticateToken,
+  requirePermission('experiments.manage'),
+  [param('experimentId').isUUID().withMessage('Invalid experiment ID')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const experiment = await getExperiment(req.params.experimentId as string);
+      if (!experiment) {
+        res.status(404).json({ error: 'Experiment not found' });
+        return;
+      }
+
+      if (experiment.status !== 'draft') {
+        res.status(409).json({ error: 'Only draft experiments can be started' });
+        return;
+      }
+
+      // One experiment per surface at a time, so every request reads at most one variant
+      const { data: running } = await supabase
+        .from('experiments')
+        .select('key')
+        .eq('surface', experiment.surface)
+        .eq('status', 'running')
+        .maybeSingle();
+
+      if (running) {
+        res.status(409).json({
+          error: 'Surface busy',
+          message: `Experiment "${running.key}" is already running on ${experiment.surface}; stop it first`,
+        });
+        return;
+      }
+
+      await setExperimentStatus(experiment.id, 'running');
+      await recordAdminAction(req, {
+        action: 'experiment.start',
+        targetType: 'experiment',
+        targetId: experiment.id,
+        details: { key: experiment.key },
+      });
+
+      res.status(200).json({ message: 'Experiment started' });
+    } catch (error) {
+      console.error('Failed to start experiment:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// POST /api/v1/admin/experiments/:experimentId/stop - Stop a running experiment (its data is kept)
+router.post('/experiments/:experimentId/stop',
+  authenticateToken,
+  requirePermission('experiments.manage'),
+  [param('experimentId').isUUID().withMessage('Invalid experiment ID')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const experiment = await getExperiment(req.params.experimentId as string);
+      if (!experiment) {
+        res.status(404).json({ error: 'Experiment not found' });
+        return;
+      }
+
+      if (experiment.status !== 'running') {
+        res.status(409).json({ error: 'Only running experiments can be stopped' });
+        return;
+      }
+
+      await setExperimentStatus(experiment.id, 'stopped');
+      await recordAdminAction(req, {
+        action: 'experiment.stop',
+        targetType: 'experiment',
+        targetId: experiment.id,
+        details: { key: experiment.key },
+      });
+
+      res.status(200).json({ message: 'Experiment stopped' });
+    } catch (error) {
+      console.error('Failed to stop experiment:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// GET /api/v1/admin/experiments/:experimentId/report - Compare the variants' metrics
+router.get('/experiments/:experimentId/report',
+  authenticateToken,
+  requirePermission('experiments.manage'),
+  [param('experimentId').isUUID().withMessage('Invalid experiment ID')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const experiment = await getExperiment(req.params.experimentId as string);
+      if (!experiment) {
+        res.status(404).json({ error: 'Experiment not found' });
+        return;
+      }
+
+      const metrics = await getExperimentReport(experiment);
+      res.status(200).json({ experiment, metrics });
+    } catch (error) {
+      console.error('Failed to build experiment report:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
 export default router;
 
 
@@ -1,14 +1,110 @@
 import { Router, Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { supabase } from '../config/supabase.js';
-import { validateRegistration, validateLogin } from '../middleware/validation.js';
-import { sendWelcomeEmail, sendPasswordResetEmail } from '../services/email.js';
+import { validateRegistration, validateLogin, validateMagicLink } from '../middleware/validation.js';
+import { sendWelcomeEmail, sendPasswordResetEmail, sendMagicLinkEmail } from '../services/email.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { magicLinkLimiter } from '../middleware/rateLimiter.js';
+import { recordAuthEvent } from '../services/authAudit.js';
+import {
+  createSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  findSessionIdByRefreshToken,
+} from '../services/sessions.js';
+import {
+  generateTotpSecret,
+  buildOtpauthUri,
+  verifyTotpCode,
+  verifySecondFactor,
+  regenerateRecoveryCodes,
+  countRemainingRecoveryCodes,
+  signChallengeToken,
+  verifyChallengeToken,
+} from '../services/twoFactor.js';
+import {
+  getOidcConfig,
+  createAuthorizationUrl,
+  completeAuthorization,
+  findOrCreateUserForIdentity,
+} from '../services/oidc.js';
+import { toRole, getRolePermissions } from '../services/permissions.js';
+import { getActiveSanctions, findAccessBlockingSanction, sanctionErrorBody } from '../services/sanctions.js';
 
 const router = Router();
 
+const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 30;
+const MAGIC_LINK_TTL_MINUTES = parseInt(process.env.MAGIC_LINK_TTL_MINUTES || '15', 10);
+const MAGIC_LINKS_PER_USER_PER_HOUR = 5;
+
+/**
+ * Count a failed login step (wrong password or wrong 2FA code)
+ * Locks the account and signs it out everywhere once the limit is reached
+ */
+async function recordFailedLogin(
+  userId: string,
+  previousAttempts: number
+): Promise<{ locked: boolean; attemptsRemaining: number }> {
+  const newAttempts = previousAttempts + 1;
+  const updateData: any = {
+    failed_login_attempts: newAttempts
+  };
+
+  if (newAttempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+    const lockUntil = new Date();
+    lockUntil.setMinutes(lockUntil.getMinutes() + LOCKOUT_MINUTES);
+    updateData.locked_until = lockUntil.toISOString();
+  }
+
+  await supabase
+    .from('users')
+    .update(updateData)
+    .eq('id', userId);
+
+  if (updateData.locked_until) {
+    // A locked account must not stay signed in anywhere else
+    await revokeUserSessions(userId, 'account_locked');
+    return { locked: true, attemptsRemaining: 0 };
+  }
+
+  return { locked: false, attemptsRemaining: MAX_FAILED_LOGIN_ATTEMPTS - newAttempts };
+}
+
+/**
+ * Get the minutes left on an account lock, or 0 if the account is not locked
+ */
+function lockMinutesRemaining(lockedUntil: string | null): number {
+  if (!lockedUntil) return 0;
+  const remainingMs = new Date(lockedUntil).getTime() - Date.now();
+  return remainingMs > 0 ? Math.ceil(remainingMs / (1000 * 60)) : 0;
+}
+
+/**
+ * Suspension or ban that stops a user from signing in, if any
+ */
+async function findSignInSanction(userId: string) {
+  return findAccessBlockingSanction(await getActiveSanctions(userId));
+}
+
+/**
+ * User fields returned to the client after a successful login
+ */
+function formatAuthUser(user: any) {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    user_number: user.user_number,
+    role: toRole(user.role),
+    permissions: getRolePermissions(toRole(user.role)),
+    created_at: user.created_at
+  };
+}
+
 // POST /api/v1/auth/register
 router.post('/register', validateRegistration, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -66,7 +162,7 @@ router.post('/register', validateRegistration, async (req: Request, res: Respons
         email,
         password_hash: passwordHash
       })
-      .select('id, username, email, user_number, created_at')
+      .select('id, username, email, user_number, created_at, role')
       .single();
 
     if (insertError || !newUser) {
@@ -78,17 +174,8 @@ router.post('/register', validateRegistration, async (req: Request, res: Respons
       return;
     }
 
-    // Generate JWT token
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET not configured');
-    }
-
-    const token = jwt.sign(
-      { userId: newUser.id },
-      jwtSecret,
-      { expiresIn: '7d' }
-    );
+    // Start a session (short-lived access token + refresh token)
+    const { token, refreshToken } = await createSession(req, newUser.id);
 
     // Send welcome email (async, don't wait for it)
     sendWelcomeEmail(email, username).catch(err => {
@@ -99,13 +186,8 @@ router.post('/register', validateRegistration, async (req: Request, res: Respons
     res.status(201).json({
       message: 'Registration successful',
       token,
-      user: {
-        id: newUser.id,
-        username: newUser.username,
-        email: newUser.email,
-        user_number: newUser.user_number,
-        created_at: newUser.created_at
-      }
+      refreshToken,
+      user: formatAuthUser(newUser)
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -136,7 +218,7 @@ router.post('/login', validateLogin, async (req: Request, res: Response): Promis
     // Find user by email (include locking fields)
     const { data: user, error: fetchError } = await supabase
       .from('users')
-      .select('id, username, email, password_hash, user_number, created_at, failed_login_attempts, locked_until')
+      .select('id, username, email, password_hash, user_number, created_at, role, failed_login_attempts, locked_until, password_reset_required, totp_enabled')
       .eq('email', email)
       .single();
 
@@ -179,51 +261,36 @@ router.post('/login', validateLogin, async (req: Request, res: Response): Promis
             locked_until: null
           })
           .eq('id', user.id);
+        user.failed_login_attempts = 0;
       }
     }
 
+    // Accounts created through single sign-on have no password until the user sets one
+    if (!user.password_hash) {
+      res.status(401).json({ 
+        error: 'Authentication failed',
+        message: 'This account signs in through single sign-on. Use that option, an emailed sign-in link, or "Forgot password" to set a password.'
+      });
+      return;
+    }
+
     // Compare password with bcrypt
     const isValidPassword = await bcrypt.compare(password, user.password_hash);
 
     if (!isValidPassword) {
-      // Increment failed login attempts
-      const newAttempts = (user.failed_login_attempts || 0) + 1;
-      const updateData: any = {
-        failed_login_attempts: newAttempts
-      };
-
-      // Lock account after 5 failed attempts
-      if (newAttempts >= 5) {
-        const lockUntil = new Date();
-        lockUntil.setMinutes(lockUntil.getMinutes() + 30); // Lock for 30 minutes
-        updateData.locked_until = lockUntil.toISOString();
-        
-        console.log('🔒 LOCKING ACCOUNT:', email);
-        console.log('🔒 Lock until:', lockUntil.toISOString());
-        
-        await supabase
-          .from('users')
-          .update(updateData)
-          .eq('id', user.id);
-
-        console.log('✅ Account locked successfully');
+      const { locked, attemptsRemaining } = await recordFailedLogin(user.id, user.failed_login_attempts || 0);
 
+      if (locked) {
+        console.log('🔒 LOCKED ACCOUNT:', email);
         res.status(403).json({ 
           error: 'Account locked',
-          message: 'Too many failed login attempts. Your account has been locked for 30 minutes. Please reset your password or try again later.'
+          message: `Too many failed login attempts. Your account has been locked for ${LOCKOUT_MINUTES} minutes. Please reset your password or try again later.`
         });
         return;
       }
 
-      console.log(`⚠️ Failed attempt ${newAttempts}/5 for ${email}`);
-
-      // Update failed attempts count
-      await supabase
-        .from('users')
-        .update(updateData)
-        .eq('id', user.id);
+      console.log(`⚠️ Failed attempt ${MAX_FAILED_LOGIN_ATTEMPTS - attemptsRemaining}/${MAX_FAILED_LOGIN_ATTEMPTS} for ${email}`);
 
-      const attemptsRemaining = 5 - newAttempts;
       res.status(401).json({ 
         error: 'Authentication failed',
         message: `Invalid email or password. ${attemptsRemaining} attempt(s) remaining before account lock.`
@@ -231,6 +298,33 @@ router.post('/login', validateLogin, async (req: Request, res: Response): Promis
       return;
     }
 
+    // Admin forced a password reset - block login until the user picks a new password
+    if (user.password_reset_required) {
+      res.status(403).json({ 
+        error: 'Password reset required',
+        message: 'An administrator has required a password reset for this account. Please check your email or use "Forgot password" to set a new password.'
+      });
+      return;
+    }
+
+    // Suspended or banned - only revealed once the password checks out
+    const sanction = await findSignInSanction(user.id);
+    if (sanction) {
+      res.status(403).json(sanctionErrorBody(sanction));
+      return;
+    }
+
+    // 2FA enabled - the password step only earns a short-lived challenge token
+    // (failed attempts are only cleared once the second step succeeds)
+    if (user.totp_enabled) {
+      res.status(200).json({
+        message: 'Two-factor authentication required',
+        requires2FA: true,
+        challengeToken: signChallengeToken(user.id)
+      });
+      return;
+    }
+
     // Successful login - reset failed attempts
     await supabase
       .from('users')
@@ -240,28 +334,14 @@ router.post('/login', validateLogin, async (req: Request, res: Response): Promis
       })
       .eq('id', user.id);
 
-    // Generate JWT token
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET not configured');
-    }
-
-    const token = jwt.sign(
-      { userId: user.id },
-      jwtSecret,
-      { expiresIn: '7d' }
-    );
+    // Start a session (short-lived access token + refresh token)
+    const { token, refreshToken } = await createSession(req, user.id);
 
     res.status(200).json({
       message: 'Login successful',
       token,
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        user_number: user.user_number,
-        created_at: user.created_at
-      }
+      refreshToken,
+      user: formatAuthUser(user)
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -272,81 +352,195 @@ router.post('/login', validateLogin, async (req: Request, res: Response): Promis
   }
 });
 
-// POST /api/v1/auth/forgot-password
-router.post('/forgot-password', async (req: Request, res: Response): Promise<void> => {
+// POST /api/v1/auth/login/2fa - Second login step: exchange challenge token + code for a session
+router.post('/login/2fa', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email } = req.body;
+    const { challengeToken, code } = req.body;
 
-    if (!email) {
+    if (!challengeToken || !code || typeof code !== 'string') {
       res.status(400).json({ 
         error: 'Validation failed',
-        message: 'Email is required' 
+        message: 'Challenge token and code are required' 
       });
       return;
     }
 
-    // Find user by email (don't reveal if user exists - security)
+    const userId = verifyChallengeToken(challengeToken);
+    if (!userId) {
+      res.status(401).json({ 
+        error: 'Authentication failed',
+        message: 'Your sign-in attempt has expired. Please log in again.' 
+      });
+      return;
+    }
+
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, username, email, user_number, created_at, role, failed_login_attempts, locked_until, totp_enabled, totp_secret, totp_last_used_step')
+      .eq('id', userId)
+      .single();
+
+    if (!user || !user.totp_enabled) {
+      res.status(401).json({ 
+        error: 'Authentication failed',
+        message: 'Your sign-in attempt has expired. Please log in again.' 
+      });
+      return;
+    }
+
+    const minutesRemaining = lockMinutesRemaining(user.locked_until);
+    if (minutesRemaining > 0) {
+      res.status(403).json({ 
+        error: 'Account locked',
+        message: `Too many failed login attempts. Account locked for ${minutesRemaining} more minute(s). Please try again later or reset your password.`
+      });
+      return;
+    }
+
+    const sanction = await findSignInSanction(user.id);
+    if (sanction) {
+      res.status(403).json(sanctionErrorBody(sanction));
+      return;
+    }
+
+    const { valid, usedRecoveryCode } = await verifySecondFactor(user, code);
+
+    if (!valid) {
+      const { locked, attemptsRemaining } = await recordFailedLogin(user.id, user.failed_login_attempts || 0);
+
+      if (locked) {
+        res.status(403).json({ 
+          error: 'Account locked',
+          message: `Too many failed login attempts. Your account has been locked for ${LOCKOUT_MINUTES} minutes. Please reset your password or try again later.`
+        });
+        return;
+      }
+
+      res.status(401).json({ 
+        error: 'Authentication failed',
+        message: `Invalid verification code. ${attemptsRemaining} attempt(s) remaining before account lock.`
+      });
+      return;
+    }
+
+    await supabase
+      .from('users')
+      .update({ 
+        failed_login_attempts: 0,
+        locked_until: null
+      })
+      .eq('id', user.id);
+
+    const { token, refreshToken } = await createSession(req, user.id);
+
+    res.status(200).json({
+      message: 'Login successful',
+      token,
+      refreshToken,
+      user: formatAuthUser(user),
+      ...(usedRecoveryCode && { 
+        recoveryCodesRemaining: await countRemainingRecoveryCodes(user.id) 
+      })
+    });
+  } catch (error) {
+    console.error('2FA login error:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      message: 'An unexpected error occurred during login' 
+    });
+  }
+});
+
+// POST /api/v1/auth/magic-link - Email a single-use sign-in link
+router.post('/magic-link', magicLinkLimiter, validateMagicLink, async (req: Request, res: Response): Promise<void> => {
+  // Same response whether or not the account exists, to prevent email enumeration
+  const genericResponse = {
+    message: 'If an account exists with this email, a sign-in link has been sent.'
+  };
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ 
+        error: 'Validation failed',
+        details: errors.array() 
+      });
+      return;
+    }
+
+    const { email } = req.body;
+
     const { data: user } = await supabase
       .from('users')
       .select('id, username, email')
       .eq('email', email)
       .single();
 
-    // Always return success to prevent email enumeration
     if (!user) {
-      res.status(200).json({
-        message: 'If an account exists with this email, a password reset link has been sent.'
+      await recordAuthEvent(req, { event: 'magic_link.unknown_email', email });
+      res.status(200).json(genericResponse);
+      return;
+    }
+
+    // Per-account throttle on top of the per-IP limiter, so one inbox can't be flooded from many IPs
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    const { count: recentRequests } = await supabase
+      .from('magic_link_tokens')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .gte('created_at', oneHourAgo);
+
+    if ((recentRequests || 0) >= MAGIC_LINKS_PER_USER_PER_HOUR) {
+      await recordAuthEvent(req, { 
+        event: 'magic_link.throttled', 
+        userId: user.id, 
+        email: user.email,
+        details: { recent_requests: recentRequests }
       });
+      res.status(200).json(genericResponse);
       return;
     }
 
-    // Generate secure random token
     const token = crypto.randomBytes(32).toString('hex');
     const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 1); // Token valid for 1 hour
+    expiresAt.setMinutes(expiresAt.getMinutes() + MAGIC_LINK_TTL_MINUTES);
 
-    // Save token to database
     const { error: insertError } = await supabase
-      .from('password_reset_tokens')
+      .from('magic_link_tokens')
       .insert({
         user_id: user.id,
-        token,
+        token_hash: crypto.createHash('sha256').update(token).digest('hex'),
+        requested_ip: req.ip || null,
         expires_at: expiresAt.toISOString()
       });
 
     if (insertError) {
-      console.error('Failed to create reset token:', insertError);
+      console.error('Failed to create magic link token:', insertError);
       res.status(500).json({ 
         error: 'Internal server error',
-        message: 'Failed to process password reset request' 
+        message: 'Failed to process sign-in link request' 
       });
       return;
     }
 
-    // Send password reset email (async, don't wait for it)
-    sendPasswordResetEmail(user.email, user.username, token).catch(err => {
-      console.error('Failed to send password reset email:', err);
-      // Don't fail request if email fails
+    sendMagicLinkEmail(user.email, user.username, token, MAGIC_LINK_TTL_MINUTES).catch(err => {
+      console.error('Failed to send magic link email:', err);
     });
 
+    await recordAuthEvent(req, { event: 'magic_link.requested', userId: user.id, email: user.email });
+
     // In development, also log to console for testing
     if (process.env.NODE_ENV === 'development') {
-      const resetLink = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/reset-password?token=${token}`;
-      console.log('🔑 PASSWORD RESET REQUESTED');
+      const loginLink = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/magic-link?token=${token}`;
+      console.log('✨ MAGIC LINK REQUESTED');
       console.log(`📧 User: ${user.email} (@${user.username})`);
-      console.log(`🔗 Reset Link: ${resetLink}`);
+      console.log(`🔗 Sign-in Link: ${loginLink}`);
       console.log(`⏰ Expires: ${expiresAt.toISOString()}`);
     }
 
-    res.status(200).json({
-      message: 'If an account exists with this email, a password reset link has been sent.',
-      // Include in dev mode for testing
-      ...(process.env.NODE_ENV === 'development' && { 
-        resetLink: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/reset-password?token=${token}`
-      })
-    });
+    res.status(200).json(genericResponse);
   } catch (error) {
-    console.error('Forgot password error:', error);
+    console.error('Magic link request error:', error);
     res.status(500).json({ 
       error: 'Internal server error',
       message: 'An unexpected error occurred' 
@@ -354,91 +548,805 @@ router.post('/forgot-password', async (req: Request, res: Response): Promise<voi
   }
 });
 
-// POST /api/v1/auth/reset-password
-router.post('/reset-password', async (req: Request, res: Response): Promise<void> => {
+// POST /api/v1/auth/magic-link/verify - Exchange a magic-link token for a session
+router.post('/magic-link/verify', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { token, newPassword } = req.body;
+    const { token } = req.body;
 
-    if (!token || !newPassword) {
+    if (!token || typeof token !== 'string') {
       res.status(400).json({ 
         error: 'Validation failed',
-        message: 'Token and new password are required' 
+        message: 'Sign-in token is required' 
       });
       return;
     }
 
-    // Validate new password strength
-    if (newPassword.length < 8) {
+    const tokenHash = crypto.createHash('sha256').update(token).digest('hex');
+
+    // Claim the token atomically - a second use (or a concurrent one) finds nothing to update
+    const { data: claimed } = await supabase
+      .from('magic_link_tokens')
+      .update({ used_at: new Date().toISOString() })
+      .eq('token_hash', tokenHash)
+      .is('used_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .select('id, user_id')
+      .single();
+
+    if (!claimed) {
+      const { data: existing } = await supabase
+        .from('magic_link_tokens')
+        .select('user_id, used_at')
+        .eq('token_hash', tokenHash)
+        .single();
+
+      await recordAuthEvent(req, { 
+        event: 'magic_link.failed', 
+        userId: existing?.user_id,
+        details: { reason: !existing ? 'invalid' : existing.used_at ? 'already_used' : 'expired' }
+      });
+
       res.status(400).json({ 
-        error: 'Validation failed',
-        message: 'Password must be at least 8 characters long' 
+        error: 'Invalid token',
+        message: existing?.used_at
+          ? 'This sign-in link has already been used. Please request a new one.'
+          : 'This sign-in link is invalid or has expired. Please request a new one.'
       });
       return;
     }
 
-    // Find valid, unused, non-expired token
-    const { data: resetToken, error: tokenError } = await supabase
-      .from('password_reset_tokens')
-      .select('id, user_id, expires_at, used')
-      .eq('token', token)
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, username, email, user_number, created_at, role, locked_until, password_reset_required, totp_enabled')
+      .eq('id', claimed.user_id)
       .single();
 
-    if (tokenError || !resetToken) {
+    if (!user) {
       res.status(400).json({ 
         error: 'Invalid token',
-        message: 'Password reset link is invalid or has expired' 
+        message: 'This sign-in link is invalid or has expired. Please request a new one.' 
       });
       return;
     }
 
-    // Check if token is already used
-    if (resetToken.used) {
-      res.status(400).json({ 
-        error: 'Token already used',
-        message: 'This password reset link has already been used' 
+    const minutesRemaining = lockMinutesRemaining(user.locked_until);
+    if (minutesRemaining > 0) {
+      await recordAuthEvent(req, { event: 'magic_link.failed', userId: user.id, email: user.email, details: { reason: 'account_locked' } });
+      res.status(403).json({ 
+        error: 'Account locked',
+        message: `Too many failed login attempts. Account locked for ${minutesRemaining} more minute(s). Please try again later or reset your password.`
       });
       return;
     }
 
-    // Check if token has expired
-    const now = new Date();
-    const expiresAt = new Date(resetToken.expires_at);
-    if (now > expiresAt) {
-      res.status(400).json({ 
-        error: 'Token expired',
-        message: 'Password reset link has expired. Please request a new one.' 
+    if (user.password_reset_required) {
+      await recordAuthEvent(req, { event: 'magic_link.failed', userId: user.id, email: user.email, details: { reason: 'password_reset_required' } });
+      res.status(403).json({ 
+        error: 'Password reset required',
+        message: 'An administrator has required a password reset for this account. Please check your email or use "Forgot password" to set a new password.'
       });
       return;
     }
 
-    // Hash new password
-    const saltRounds = 10;
-    const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
+    const sanction = await findSignInSanction(user.id);
+    if (sanction) {
+      await recordAuthEvent(req, { event: 'magic_link.failed', userId: user.id, email: user.email, details: { reason: 'sanctioned', sanction_type: sanction.type } });
+      res.status(403).json(sanctionErrorBody(sanction));
+      return;
+    }
 
-    // Update user password and clear failed login attempts
-    const { error: updateError } = await supabase
-      .from('users')
-      .update({ 
-        password_hash: hashedPassword,
-        failed_login_attempts: 0,
-        locked_until: null
-      })
-      .eq('id', resetToken.user_id);
+    // The link replaces the password step only - 2FA accounts still need their code
+    if (user.totp_enabled) {
+      await recordAuthEvent(req, { event: 'magic_link.verified', userId: user.id, email: user.email, details: { requires_2fa: true } });
+      res.status(200).json({
+        message: 'Two-factor authentication required',
+        requires2FA: true,
+        challengeToken: signChallengeToken(user.id)
+      });
+      return;
+    }
 
-    if (updateError) {
-      console.error('Failed to update password:', updateError);
-      res.status(500).json({ 
-        error: 'Internal server error',
-        message: 'Failed to reset password' 
+    const { token: accessToken, refreshToken, sessionId } = await createSession(req, user.id);
+
+    await recordAuthEvent(req, { event: 'magic_link.verified', userId: user.id, email: user.email, details: { session_id: sessionId } });
+
+    res.status(200).json({
+      message: 'Login successful',
+      token: accessToken,
+      refreshToken,
+      user: formatAuthUser(user)
+    });
+  } catch (error) {
+    console.error('Magic link verify error:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      message: 'An unexpected error occurred during login' 
+    });
+  }
+});
+
+// GET /api/v1/auth/oidc/config - Whether single sign-on is available (and what to call it)
+router.get('/oidc/config', (_req: Request, res: Response): void => {
+  const config = getOidcConfig();
+
+  res.status(200).json({
+    enabled: config !== null,
+    providerName: config?.providerName || null
+  });
+});
+
+// GET /api/v1/auth/oidc/authorize - Start single sign-on: returns the provider URL to redirect to
+router.get('/oidc/authorize', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const config = getOidcConfig();
+    if (!config) {
+      res.status(404).json({ 
+        error: 'Not configured',
+        message: 'Single sign-on is not enabled' 
       });
       return;
     }
 
-    // Mark token as used
-    await supabase
-      .from('password_reset_tokens')
-      .update({ used: true })
-      .eq('id', resetToken.id);
+    const authorizationUrl = await createAuthorizationUrl(config);
+
+    res.status(200).json({ authorizationUrl });
+  } catch (error) {
+    console.error('OIDC authorize error:', error);
+    res.status(502).json({ 
+      error: 'Identity provider unavailable',
+      message: 'Could not reach the sign-in provider. Please try again later.' 
+    });
+  }
+});
+
+// POST /api/v1/auth/oidc/callback - Finish single sign-on with the code and state from the provider redirect
+router.post('/oidc/callback', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = getOidcConfig();
+    if (!config) {
+      res.status(404).json({ 
+        error: 'Not configured',
+        message: 'Single sign-on is not enabled' 
+      });
+      return;
+    }
+
+    const { code, state } = req.body;
+
+    if (!code || !state || typeof code !== 'string' || typeof state !== 'string') {
+      res.status(400).json({ 
+        error: 'Validation failed',
+        message: 'Authorization code and state are required' 
+      });
+      return;
+    }
+
+    let claims;
+    try {
+      claims = await completeAuthorization(config, code, state);
+    } catch (err: any) {
+      await recordAuthEvent(req, { event: 'oidc.failed', details: { reason: err.message } });
+      res.status(401).json({ 
+        error: 'Authentication failed',
+        message: err.message || 'Sign-in with your provider failed. Please try again.'
+      });
+      return;
+    }
+
+    const resolved = await findOrCreateUserForIdentity(config, claims);
+    if (!resolved) {
+      await recordAuthEvent(req, { event: 'oidc.failed', email: claims.email, details: { reason: 'email_not_verified', subject: claims.sub } });
+      res.status(403).json({ 
+        error: 'Authentication failed',
+        message: `Your ${config.providerName} account did not share a verified email address.`
+      });
+      return;
+    }
+
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, username, email, user_number, created_at, role, locked_until, totp_enabled, password_reset_required')
+      .eq('id', resolved.userId)
+      .single();
+
+    if (!user) {
+      res.status(500).json({ error: 'Internal server error' });
+      return;
+    }
+
+    const minutesRemaining = lockMinutesRemaining(user.locked_until);
+    if (minutesRemaining > 0) {
+      await recordAuthEvent(req, { event: 'oidc.failed', userId: user.id, email: user.email, details: { reason: 'account_locked', subject: claims.sub } });
+      res.status(403).json({ 
+        error: 'Account locked',
+        message: `Too many failed login attempts. Account locked for ${minutesRemaining} more minute(s). Please try again later or reset your password.`
+      });
+      return;
+    }
+
+    // Admin forced a password reset - signing in through the provider doesn't get around it
+    if (user.password_reset_required) {
+      await recordAuthEvent(req, { event: 'oidc.failed', userId: user.id, email: user.email, details: { reason: 'password_reset_required', subject: claims.sub } });
+      res.status(403).json({ 
+        error: 'Password reset required',
+        message: 'An administrator has required a password reset for this account. Please check your email or use "Forgot password" to set a new password.'
+      });
+      return;
+    }
+
+    const sanction = await findSignInSanction(user.id);
+    if (sanction) {
+      await recordAuthEvent(req, { event: 'oidc.failed', userId: user.id, email: user.email, details: { reason: 'sanctioned', sanction_type: sanction.type, subject: claims.sub } });
+      res.status(403).json(sanctionErrorBody(sanction));
+      return;
+    }
+
+    await recordAuthEvent(req, {
+      event: resolved.created ? 'oidc.account_created' : resolved.linked ? 'oidc.account_linked' : 'oidc.login',
+      userId: user.id,
+      email: user.email,
+      details: { provider: config.issuer, subject: claims.sub }
+    });
+
+    // The provider replaces the password step only - 2FA accounts still need their code
+    if (user.totp_enabled) {
+      res.status(200).json({
+        message: 'Two-factor authentication required',
+        requires2FA: true,
+        challengeToken: signChallengeToken(user.id)
+      });
+      return;
+    }
+
+    const { token, refreshToken } = await createSession(req, user.id);
+
+    if (resolved.created) {
+      sendWelcomeEmail(user.email, user.username).catch(err => {
+        console.error('Failed to send welcome email:', err);
+      });
+    }
+
+    res.status(resolved.created ? 201 : 200).json({
+      message: 'Login successful',
+      token,
+      refreshToken,
+      user: formatAuthUser(user),
+      accountCreated: resolved.created,
+      accountLinked: resolved.linked
+    });
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      message: 'An unexpected error occurred during login' 
+    });
+  }
+});
+
+// GET /api/v1/auth/2fa - Get 2FA status for the current user
+router.get('/2fa', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { data: user } = await supabase
+      .from('users')
+      .select('totp_enabled, totp_enabled_at')
+      .eq('id', req.userId!)
+      .single();
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.status(200).json({
+      enabled: user.totp_enabled === true,
+      enabledAt: user.totp_enabled_at,
+      recoveryCodesRemaining: user.totp_enabled ? await countRemainingRecoveryCodes(req.userId!) : 0
+    });
+  } catch (error) {
+    console.error('Get 2FA status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/v1/auth/2fa/setup - Start enrollment: generate a secret and otpauth URI
+router.post('/2fa/setup', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, email, totp_enabled')
+      .eq('id', req.userId!)
+      .single();
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    if (user.totp_enabled) {
+      res.status(409).json({ 
+        error: 'Already enabled',
+        message: 'Two-factor authentication is already enabled. Disable it first to enroll a new device.' 
+      });
+      return;
+    }
+
+    // Stored but not enforced until /2fa/enable confirms a code from the app
+    const secret = generateTotpSecret();
+
+    const { error: updateError } = await supabase
+      .from('users')
+      .update({ totp_secret: secret, totp_last_used_step: null })
+      .eq('id', user.id);
+
+    if (updateError) {
+      console.error('2FA setup error:', updateError);
+      res.status(500).json({ error: 'Failed to start 2FA setup' });
+      return;
+    }
+
+    res.status(200).json({
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email)
+    });
+  } catch (error) {
+    console.error('2FA setup error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/v1/auth/2fa/enable - Finish enrollment with a code from the authenticator app
+router.post('/2fa/enable', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({ 
+        error: 'Validation failed',
+        message: 'Verification code is required' 
+      });
+      return;
+    }
+
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, totp_secret, totp_enabled')
+      .eq('id', req.userId!)
+      .single();
+
+    if (!user || !user.totp_secret) {
+      res.status(400).json({ 
+        error: 'Setup required',
+        message: 'Start two-factor setup before enabling it' 
+      });
+      return;
+    }
+
+    if (user.totp_enabled) {
+      res.status(409).json({ 
+        error: 'Already enabled',
+        message: 'Two-factor authentication is already enabled' 
+      });
+      return;
+    }
+
+    const step = verifyTotpCode(user.totp_secret, code);
+    if (step === null) {
+      res.status(400).json({ 
+        error: 'Invalid code',
+        message: 'That code is not valid. Check the time on your device and try again.' 
+      });
+      return;
+    }
+
+    const { error: updateError } = await supabase
+      .from('users')
+      .update({ 
+        totp_enabled: true,
+        totp_enabled_at: new Date().toISOString(),
+        totp_last_used_step: step
+      })
+      .eq('id', user.id);
+
+    if (updateError) {
+      console.error('2FA enable error:', updateError);
+      res.status(500).json({ error: 'Failed to enable 2FA' });
+      return;
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+    res.status(200).json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes
+    });
+  } catch (error) {
+    console.error('2FA enable error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/v1/auth/2fa/disable - Turn off 2FA (requires password and a current code)
+router.post('/2fa/disable', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { password, code } = req.body;
+
+    if (!code) {
+      res.status(400).json({ 
+        error: 'Validation failed',
+        message: 'Verification code is required' 
+      });
+      return;
+    }
+
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, password_hash, totp_enabled, totp_secret, totp_last_used_step')
+      .eq('id', req.userId!)
+      .single();
+
+    if (!user || !user.totp_enabled) {
+      res.status(400).json({ 
+        error: 'Not enabled',
+        message: 'Two-factor authentication is not enabled' 
+      });
+      return;
+    }
+
+    // Passwordless (single sign-on) accounts confirm with the code alone
+    if (user.password_hash) {
+      const isValidPassword = await bcrypt.compare(password || '', user.password_hash);
+      if (!isValidPassword) {
+        res.status(401).json({ 
+          error: 'Invalid password',
+          message: 'Password is incorrect' 
+        });
+        return;
+      }
+    }
+
+    const { valid } = await verifySecondFactor(user, code);
+    if (!valid) {
+      res.status(401).json({ 
+        error: 'Invalid code',
+        message: 'Verification code is incorrect' 
+      });
+      return;
+    }
+
+    const { error: updateError } = await supabase
+      .from('users')
+      .update({ 
+        totp_enabled: false,
+        totp_enabled_at: null,
+        totp_secret: null,
+        totp_last_used_step: null
+      })
+      .eq('id', user.id);
+
+    if (updateError) {
+      console.error('2FA disable error:', updateError);
+      res.status(500).json({ error: 'Failed to disable 2FA' });
+      return;
+    }
+
+    await supabase
+      .from('user_recovery_codes')
+      .delete()
+      .eq('user_id', user.id);
+
+    res.status(200).json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('2FA disable error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/v1/auth/2fa/recovery-codes - Replace recovery codes (requires a current code)
+router.post('/2fa/recovery-codes', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({ 
+        error: 'Validation failed',
+        message: 'Verification code is required' 
+      });
+      return;
+    }
+
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, totp_enabled, totp_secret, totp_last_used_step')
+      .eq('id', req.userId!)
+      .single();
+
+    if (!user || !user.totp_enabled) {
+      res.status(400).json({ 
+        error: 'Not enabled',
+        message: 'Two-factor authentication is not enabled' 
+      });
+      return;
+    }
+
+    const { valid } = await verifySecondFactor(user, code);
+    if (!valid) {
+      res.status(401).json({ 
+        error: 'Invalid code',
+        message: 'Verification code is incorrect' 
+      });
+      return;
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+    res.status(200).json({
+      message: 'New recovery codes generated',
+      recoveryCodes
+    });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/v1/auth/refresh - Exchange a refresh token for a new token pair
+router.post('/refresh', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      res.status(400).json({ 
+        error: 'Validation failed',
+        message: 'Refresh token is required' 
+      });
+      return;
+    }
+
+    const result = await rotateRefreshToken(req, refreshToken);
+
+    if (result.status !== 'ok') {
+      const messages: Record<typeof result.status, string> = {
+        invalid: 'Invalid refresh token',
+        expired: 'Session expired. Please log in again.',
+        revoked: 'Session revoked. Please log in again.',
+        stale: 'Refresh token already used',
+        reused: 'Refresh token reuse detected. Please log in again.',
+      };
+
+      res.status(401).json({ 
+        error: 'Authentication failed',
+        reason: result.status,
+        message: messages[result.status] 
+      });
+      return;
+    }
+
+    res.status(200).json({
+      token: result.tokens.token,
+      refreshToken: result.tokens.refreshToken
+    });
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      message: 'An unexpected error occurred' 
+    });
+  }
+});
+
+// POST /api/v1/auth/logout - End the current session
+router.post('/logout', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    // The refresh token identifies the session even when the access token has expired
+    const sessionId = typeof refreshToken === 'string'
+      ? await findSessionIdByRefreshToken(refreshToken)
+      : null;
+
+    if (sessionId) {
+      await revokeSession(sessionId, 'logout');
+    }
+
+    res.status(200).json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      message: 'An unexpected error occurred' 
+    });
+  }
+});
+
+// POST /api/v1/auth/logout-all - End every session for the current user
+router.post('/logout-all', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const revoked = await revokeUserSessions(req.userId!, 'logout');
+
+    res.status(200).json({ 
+      message: 'Logged out of all sessions',
+      revoked
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      message: 'An unexpected error occurred' 
+    });
+  }
+});
+
+// POST /api/v1/auth/forgot-password
+router.post('/forgot-password', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      res.status(400).json({ 
+        error: 'Validation failed',
+        message: 'Email is required' 
+      });
+      return;
+    }
+
+    // Find user by email (don't reveal if user exists - security)
+    const { data: user } = await supabase
+      .from('users')
+      .select('id, username, email')
+      .eq('email', email)
+      .single();
+
+    // Always return success to prevent email enumeration
+    if (!user) {
+      res.status(200).json({
+        message: 'If an account exists with this email, a password reset link has been sent.'
+      });
+      return;
+    }
+
+    // Generate secure random token
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date();
+    expiresAt.setHours(expiresAt.getHours() + 1); // Token valid for 1 hour
+
+    // Save token to database
+    const { error: insertError } = await supabase
+      .from('password_reset_tokens')
+      .insert({
+        user_id: user.id,
+        token,
+        expires_at: expiresAt.toISOString()
+      });
+
+    if (insertError) {
+      console.error('Failed to create reset token:', insertError);
+      res.status(500).json({ 
+        error: 'Internal server error',
+        message: 'Failed to process password reset request' 
+      });
+      return;
+    }
+
+    // Send password reset email (async, don't wait for it)
+    sendPasswordResetEmail(user.email, user.username, token).catch(err => {
+      console.error('Failed to send password reset email:', err);
+      // Don't fail request if email fails
+    });
+
+    // In development, also log to console for testing
+    if (process.env.NODE_ENV === 'development') {
+      const resetLink = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/reset-password?token=${token}`;
+      console.log('🔑 PASSWORD RESET REQUESTED');
+      console.log(`📧 User: ${user.email} (@${user.username})`);
+      console.log(`🔗 Reset Link: ${resetLink}`);
+      console.log(`⏰ Expires: ${expiresAt.toISOString()}`);
+    }
+
+    res.status(200).json({
+      message: 'If an account exists with this email, a password reset link has been sent.',
+      // Include in dev mode for testing
+      ...(process.env.NODE_ENV === 'development' && { 
+        resetLink: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/reset-password?token=${token}`
+      })
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      message: 'An unexpected error occurred' 
+    });
+  }
+});
+
+// POST /api/v1/auth/reset-password
+router.post('/reset-password', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, newPassword } = req.body;
+
+    if (!token || !newPassword) {
+      res.status(400).json({ 
+        error: 'Validation failed',
+        message: 'Token and new password are required' 
+      });
+      return;
+    }
+
+    // Validate new password strength
+    if (newPassword.length < 8) {
+      res.status(400).json({ 
+        error: 'Validation failed',
+        message: 'Password must be at least 8 characters long' 
+      });
+      return;
+    }
+
+    // Find valid, unused, non-expired token
+    const { data: resetToken, error: tokenError } = await supabase
+      .from('password_reset_tokens')
+      .select('id, user_id, expires_at, used')
+      .eq('token', token)
+      .single();
+
+    if (tokenError || !resetToken) {
+      res.status(400).json({ 
+        error: 'Invalid token',
+        message: 'Password reset link is invalid or has expired' 
+      });
+      return;
+    }
+
+    // Check if token is already used
+    if (resetToken.used) {
+      res.status(400).json({ 
+        error: 'Token already used',
+        message: 'This password reset link has already been used' 
+      });
+      return;
+    }
+
+    // Check if token has expired
+    const now = new Date();
+    const expiresAt = new Date(resetToken.expires_at);
+    if (now > expiresAt) {
+      res.status(400).json({ 
+        error: 'Token expired',
+        message: 'Password reset link has expired. Please request a new one.' 
+      });
+      return;
+    }
+
+    // Hash new password
+    const saltRounds = 10;
+    const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
+
+    // Update user password and clear failed login attempts
+    const { error: updateError } = await supabase
+      .from('users')
+      .update({ 
+        password_hash: hashedPassword,
+        failed_login_attempts: 0,
+        locked_until: null,
+        password_reset_required: false
+      })
+      .eq('id', resetToken.user_id);
+
+    if (updateError) {
+      console.error('Failed to update password:', updateError);
+      res.status(500).json({ 
+        error: 'Internal server error',
+        message: 'Failed to reset password' 
+      });
+      return;
+    }
+
+    // Mark token as used
+    await supabase
+      .from('password_reset_tokens')
+      .update({ used: true })
+      .eq('id', resetToken.id);
+
+    // Sign out every existing session - whoever had the old password is locked out
+    await revokeUserSessions(resetToken.user_id, 'password_reset');
 
     res.status(200).json({
       message: 'Password has been reset successfully. You can now log in with your new password.'
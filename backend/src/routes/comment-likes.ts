@@ -4,6 +4,19 @@ import { authenticateToken, optionalAuth } from '../middleware/auth.js';
 
 const router = Router();
 
+/**
+ * Like count from the comments.comment_likes_count counter (db/add-engagement-counters.sql)
+ */
+async function getCommentLikeCount(commentId: string): Promise<number> {
+  const { data } = await supabase
+    .from('comments')
+    .select('comment_likes_count')
+    .eq('id', commentId)
+    .maybeSingle();
+
+  return data?.comment_likes_count || 0;
+}
+
 // POST /api/v1/comment-likes/:commentId - Like a comment
 router.post('/:commentId', authenticateToken, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -54,16 +67,13 @@ router.post('/:commentId', authenticateToken, async (req: Request, res: Response
       return;
     }
 
-    // Get updated like count
-    const { count } = await supabase
-      .from('comment_likes')
-      .select('*', { count: 'exact', head: true })
-      .eq('comment_id', commentId);
+    // Counter is updated by trg_comment_likes_count in the same statement
+    const likeCount = await getCommentLikeCount(commentId as string);
 
     res.status(201).json({ 
       message: 'Comment liked successfully',
       liked: true,
-      like_count: count || 0
+      like_count: likeCount
     });
   } catch (error) {
     console.error('Like comment error:', error);
@@ -108,16 +118,13 @@ router.delete('/:commentId', authenticateToken, async (req: Request, res: Respon
       return;
     }
 
-    // Get updated like count
-    const { count } = await supabase
-      .from('comment_likes')
-      .select('*', { count: 'exact', head: true })
-      .eq('comment_id', commentId);
+    // Counter is updated by trg_comment_likes_count in the same statement
+    const likeCount = await getCommentLikeCount(commentId as string);
 
     res.status(200).json({ 
       message: 'Comment unliked successfully',
       liked: false,
-      like_count: count || 0
+      like_count: likeCount
     });
   } catch (error) {
     console.error('Unlike comment error:', error);
@@ -136,11 +143,7 @@ router.get('/:commentId', optionalAuth, async (req: Request, res: Response): Pro
       return;
     }
 
-    // Get like count
-    const { count } = await supabase
-      .from('comment_likes')
-      .select('*', { count: 'exact', head: true })
-      .eq('comment_id', commentId);
+    const likeCount = await getCommentLikeCount(commentId as string);
 
     // Check if current user liked this comment (if authenticated)
     let userLiked = false;
@@ -157,7 +160,7 @@ router.get('/:commentId', optionalAuth, async (req: Request, res: Response): Pro
 
     res.status(200).json({
       comment_id: commentId,
-      like_count: count || 0,
+      like_count: likeCount,
       user_liked: userLiked
     });
   } catch (error) {
@@ -177,10 +180,10 @@ router.get('/video/:videoId/batch', optionalAuth, async (req: Request, res: Resp
       return;
     }
 
-    // Get all comments for this video
+    // Get all comments for this video with their like counters
     const { data: comments } = await supabase
       .from('comments')
-      .select('id')
+      .select('id, comment_likes_count')
       .eq('video_id', videoId);
 
     if (!comments || comments.length === 0) {
@@ -188,36 +191,24 @@ router.get('/video/:videoId/batch', optionalAuth, async (req: Request, res: Resp
       return;
     }
 
-    const commentIds = comments.map(c => c.id);
-
-    // Get all likes for these comments
-    const { data: allLikes } = await supabase
-      .from('comment_likes')
-      .select('comment_id, user_id')
-      .in('comment_id', commentIds);
-
-    // Count likes per comment
-    const likeCounts: Record<string, number> = {};
-    const userLikes: Record<string, boolean> = {};
-
-    commentIds.forEach(id => {
-      likeCounts[id] = 0;
-      userLikes[id] = false;
-    });
+    // Only the current user's likes are needed to flag what they liked
+    const userLikes = new Set<string>();
+    if (userId) {
+      const { data: likes } = await supabase
+        .from('comment_likes')
+        .select('comment_id')
+        .eq('user_id', userId)
+        .in('comment_id', comments.map(c => c.id));
 
-    allLikes?.forEach(like => {
-      likeCounts[like.comment_id] = (likeCounts[like.comment_id] || 0) + 1;
-      if (userId && like.user_id === userId) {
-        userLikes[like.comment_id] = true;
-      }
-    });
+      likes?.forEach(like => userLikes.add(like.comment_id));
+    }
 
     // Format response
     const result: Record<string, { like_count: number; user_liked: boolean }> = {};
-    commentIds.forEach(id => {
-      result[id] = {
-        like_count: likeCounts[id],
-        user_liked: userLikes[id]
+    comments.forEach(comment => {
+      result[comment.id] = {
+        like_count: comment.comment_likes_count || 0,
+        user_liked: userLikes.has(comment.id)
       };
     });
 
@@ -3,6 +3,8 @@ import { body, param, validationResult } from 'express-validator';
 import { supabase } from '../config/supabase.js';
 import { authenticateToken, optionalAuth } from '../middleware/auth.js';
 import { queueNotification } from '../services/notificationGrouping.js';
+import { getHiddenAuthorIds } from '../services/sanctions.js';
+import { isBlocked, getMutedUserIds } from '../services/userBlocks.js';
 
 const router = Router();
 
@@ -45,7 +47,7 @@ router.post('/', authenticateToken, validateCommentCreation, async (req: Request
     // Check if video exists
     const { data: videoExists } = await supabase
       .from('videos')
-      .select('id')
+      .select('id, user_id')
       .eq('id', video_id)
       .single();
 
@@ -54,6 +56,15 @@ router.post('/', authenticateToken, validateCommentCreation, async (req: Request
       return;
     }
 
+    // Users can't comment on videos shared by someone who blocked them
+    if (videoExists.user_id !== userId && await isBlocked(videoExists.user_id, userId)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You cannot comment on this video'
+      });
+      return;
+    }
+
     // If replying to a comment, check if parent comment exists
     if (parent_comment_id) {
       const { data: parentExists } = await supabase
@@ -128,7 +139,8 @@ router.post('/', authenticateToken, validateCommentCreation, async (req: Request
         .eq('id', video_id)
         .single();
 
-      if (video && video.user_id !== userId) {
+      // Shadowbanned users' comments are invisible to the owner, so don't notify them
+      if (video && video.user_id !== userId && !req.isShadowbanned) {
         await queueNotification(video.user_id, 'comment', {
           username: user?.username || 'Someone',
           commentText: newComment.text,
@@ -159,7 +171,7 @@ router.get('/video/:videoId', optionalAuth, async (req: Request, res: Response):
     }
 
     // Get all comments for the video (both top-level and replies)
-    const { data: comments, error } = await supabase
+    let commentsQuery = supabase
       .from('comments')
       .select(`
         id,
@@ -169,13 +181,26 @@ router.get('/video/:videoId', optionalAuth, async (req: Request, res: Response):
         parent_comment_id,
         created_at,
         updated_at,
+        comment_likes_count,
         users:user_id (
           id,
           username,
           profile_picture_url
         )
       `)
-      .eq('video_id', videoId)
+      .eq('video_id', videoId);
+
+    // Comments from shadowbanned users are only shown to their author; muted users are hidden from the muter
+    const [hiddenAuthorIds, mutedUserIds] = await Promise.all([
+      getHiddenAuthorIds(req.userId),
+      getMutedUserIds(req.userId),
+    ]);
+    const excludedAuthorIds = [...hiddenAuthorIds, ...mutedUserIds];
+    if (excludedAuthorIds.length > 0) {
+      commentsQuery = commentsQuery.not('user_id', 'in', `(${excludedAuthorIds.join(',')})`);
+    }
+
+    const { data: comments, error } = await commentsQuery
       .order('created_at', { ascending: true });
 
     if (error) {
@@ -194,7 +219,8 @@ router.get('/video/:videoId', optionalAuth, async (req: Request, res: Response):
         content: comment.text,
         username: user?.username || 'Unknown',
         created_at: comment.created_at,
-        parent_comment_id: comment.parent_comment_id
+        parent_comment_id: comment.parent_comment_id,
+        like_count: comment.comment_likes_count || 0
       };
     }) || [];
 
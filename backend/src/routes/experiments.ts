@@ -0,0 +1,35 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { optionalAuth } from '../middleware/auth.js';
+import { identifyVisitor } from '../middleware/visitor.js';
+import { getExperimentSubject, recordOutcome } from '../services/experiments.js';
+
+const router = Router();
+
+// POST /api/v1/experiments/events - Client-side experiment outcome beacon
+// Only clicks come from the client; likes and watch starts are recorded by the API itself
+router.post('/events',
+  optionalAuth,
+  identifyVisitor,
+  [
+    body('event_type').equals('click').withMessage('event_type must be click'),
+    body('video_id').isUUID().withMessage('Invalid video ID'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      await recordOutcome(getExperimentSubject(req), 'click', req.body.video_id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Experiment event error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
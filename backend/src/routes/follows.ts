@@ -4,6 +4,17 @@ import { supabase } from '../config/supabase.js';
 import { authenticateToken } from '../middleware/auth.js';
 import { queueNotification } from '../services/notificationGrouping.js';
 import { checkVideoAvailability } from '../services/youtube.js';
+import { getHiddenAuthorIds } from '../services/sanctions.js';
+import { getEngagementCounts, engagementFields } from '../services/videoEngagement.js';
+import { isBlockedEitherWay, getMutedUserIds } from '../services/userBlocks.js';
+import {
+  isPrivateAccount,
+  hasPendingFollowRequest,
+  createFollowRequest,
+  deleteFollowRequest,
+  approveFollowRequest,
+  listFollowRequests,
+} from '../services/privateAccounts.js';
 
 const router = Router();
 
@@ -49,6 +60,67 @@ const validateUserId = [
   param('userId').isUUID().withMessage('Invalid user ID')
 ];
 
+// GET /api/v1/follows/requests - Pending follow requests to the current user's (private) account
+router.get('/requests', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const requests = await listFollowRequests(req.userId!);
+
+    res.status(200).json({
+      requests,
+      count: requests.length
+    });
+  } catch (error) {
+    console.error('Get follow requests error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/v1/follows/requests/:userId/approve - Approve a follow request from :userId
+router.post('/requests/:userId/approve', authenticateToken, validateUserId, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const approved = await approveFollowRequest(req.params.userId as string, req.userId!);
+
+    if (!approved) {
+      res.status(404).json({ error: 'Follow request not found' });
+      return;
+    }
+
+    res.status(200).json({ message: 'Follow request approved' });
+  } catch (error) {
+    console.error('Approve follow request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/v1/follows/requests/:userId - Deny a follow request from :userId
+router.delete('/requests/:userId', authenticateToken, validateUserId, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const denied = await deleteFollowRequest(req.params.userId as string, req.userId!);
+
+    if (!denied) {
+      res.status(404).json({ error: 'Follow request not found' });
+      return;
+    }
+
+    res.status(200).json({ message: 'Follow request denied' });
+  } catch (error) {
+    console.error('Deny follow request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // POST /api/v1/follows/:userId - Follow a user
 router.post('/:userId', authenticateToken, validateUserId, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -82,6 +154,15 @@ router.post('/:userId', authenticateToken, validateUserId, async (req: Request,
       return;
     }
 
+    // Blocks cut follows in both directions
+    if (await isBlockedEitherWay(followerId, followingId as string)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You cannot follow this user'
+      });
+      return;
+    }
+
     // Check if already following
     const { data: existingFollow } = await supabase
       .from('followers')
@@ -98,6 +179,48 @@ router.post('/:userId', authenticateToken, validateUserId, async (req: Request,
       return;
     }
 
+    // Private accounts get a follow request instead
+    if (await isPrivateAccount(followingId as string)) {
+      if (await hasPendingFollowRequest(followerId, followingId as string)) {
+        res.status(409).json({
+          error: 'Already requested',
+          message: 'You have already requested to follow this user'
+        });
+        return;
+      }
+
+      const request = await createFollowRequest(followerId, followingId as string);
+
+      try {
+        const { data: requester } = await supabase
+          .from('users')
+          .select('username')
+          .eq('id', followerId)
+          .single();
+
+        if (requester && !req.isShadowbanned) {
+          await queueNotification(followingId as string, 'follow_request', {
+            username: requester.username,
+            followerId: followerId,
+          });
+        }
+      } catch (notifError) {
+        console.error('Failed to send follow request notification:', notifError);
+        // Don't fail the request if notification fails
+      }
+
+      res.status(202).json({
+        message: 'Follow request sent',
+        status: 'requested',
+        request: {
+          requester_id: followerId,
+          target_id: followingId,
+          created_at: request.created_at
+        }
+      });
+      return;
+    }
+
     // Create follow relationship
     console.log('🔄 Attempting to create follow:', {
       follower_id: followerId,
@@ -134,7 +257,8 @@ router.post('/:userId', authenticateToken, validateUserId, async (req: Request,
         .eq('id', followerId)
         .single();
 
-      if (followerUser) {
+      // Follows from shadowbanned users are kept but never announced
+      if (followerUser && !req.isShadowbanned) {
         await queueNotification(followingId, 'follow', {
           username: followerUser.username,
           followerId: followerId,
@@ -147,6 +271,7 @@ router.post('/:userId', authenticateToken, validateUserId, async (req: Request,
 
     res.status(201).json({
       message: 'Successfully followed user',
+      status: 'following',
       follow: {
         follower_id: newFollow.follower_id,
         following_id: newFollow.following_id,
@@ -180,6 +305,12 @@ router.delete('/:userId', authenticateToken, validateUserId, async (req: Request
       .single();
 
     if (!existingFollow) {
+      // Unfollowing a private account you've only requested cancels the request
+      if (await deleteFollowRequest(followerId, followingId as string)) {
+        res.status(200).json({ message: 'Follow request cancelled' });
+        return;
+      }
+
       res.status(404).json({ 
         error: 'Not following',
         message: 'You are not following this user'
@@ -332,7 +463,19 @@ router.get('/:userId/feed', authenticateToken, validateUserId, async (req: Reque
       return;
     }
 
-    const followingIds = followingData.map(f => f.following_id);
+    // Shadowbanned users' videos never reach other people's feeds; muted users are left out too
+    const [hiddenAuthorIds, mutedUserIds] = await Promise.all([
+      getHiddenAuthorIds(userId),
+      getMutedUserIds(userId),
+    ]);
+    const followingIds = followingData
+      .map(f => f.following_id)
+      .filter(id => !hiddenAuthorIds.includes(id) && !mutedUserIds.includes(id));
+
+    if (followingIds.length === 0) {
+      res.status(200).json({ videos: [] });
+      return;
+    }
 
     // Get videos from followed users
     const { data: videos, error: videosError } = await supabase
@@ -343,6 +486,7 @@ router.get('/:userId/feed', authenticateToken, validateUserId, async (req: Reque
         title,
         description,
         created_at,
+        view_count,
         user_id,
         is_available,
         last_availability_check,
@@ -354,6 +498,7 @@ router.get('/:userId/feed', authenticateToken, validateUserId, async (req: Reque
       `)
       .in('user_id', followingIds)
       .eq('is_available', true)
+      .eq('is_hidden', false)
       .order('created_at', { ascending: false })
       .limit(50);
 
@@ -363,9 +508,14 @@ router.get('/:userId/feed', authenticateToken, validateUserId, async (req: Reque
       return;
     }
 
+    const engagementCounts = await getEngagementCounts((videos || []).map(video => video.id));
+
     // Send response immediately
     res.status(200).json({ 
-      videos: videos || [],
+      videos: (videos || []).map(video => ({
+        ...video,
+        ...engagementFields(engagementCounts, video.id)
+      })),
       count: videos?.length || 0
     });
 
@@ -0,0 +1,391 @@
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { supabase } from '../config/supabase.js';
+import { authenticateToken, optionalAuth } from '../middleware/auth.js';
+import { PET_SPECIES, PET_FIELDS, Pet, getPet, listUserPets } from '../services/pets.js';
+import { uploadModeratedImage } from '../services/imageUpload.js';
+import { getProfileAccess, PRIVATE_ACCOUNT_ERROR } from '../services/privateAccounts.js';
+import { getHiddenAuthorIds } from '../services/sanctions.js';
+import { getEngagementCounts, engagementFields } from '../services/videoEngagement.js';
+
+const router = Router();
+
+const validatePetId = [
+  param('petId').isUUID().withMessage('Invalid pet ID')
+];
+
+const validatePetFields = (isUpdate: boolean) => [
+  (isUpdate ? body('name').optional() : body('name'))
+    .trim()
+    .notEmpty()
+    .withMessage('Pet name is required')
+    .isLength({ max: 50 })
+    .withMessage('Pet name must not exceed 50 characters'),
+  (isUpdate ? body('species').optional() : body('species'))
+    .isIn(PET_SPECIES)
+    .withMessage(`Species must be one of: ${PET_SPECIES.join(', ')}`),
+  body('breed')
+    .optional({ nullable: true })
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Breed must not exceed 100 characters'),
+  body('birthday')
+    .optional({ nullable: true, checkFalsy: true })
+    .isISO8601({ strict: true })
+    .withMessage('Birthday must be a date (YYYY-MM-DD)')
+    .custom((value: string) => {
+      if (new Date(value) > new Date()) {
+        throw new Error('Birthday cannot be in the future');
+      }
+      return true;
+    })
+];
+
+/**
+ * Shape a pet for API responses
+ */
+function formatPet(pet: Pet, owner?: { id: string; username: string; profile_picture_url: string | null } | null) {
+  return {
+    id: pet.id,
+    owner_id: pet.owner_id,
+    name: pet.name,
+    species: pet.species,
+    breed: pet.breed,
+    birthday: pet.birthday,
+    photo_url: pet.photo_url,
+    created_at: pet.created_at,
+    updated_at: pet.updated_at,
+    ...(owner !== undefined && { owner }),
+  };
+}
+
+/**
+ * Load a pet and check the current user owns it
+ * Sends the error response and returns null when the request can't proceed
+ */
+async function loadOwnedPet(req: Request, res: Response): Promise<Pet | null> {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ error: 'Validation failed', details: errors.array() });
+    return null;
+  }
+
+  const pet = await getPet(req.params.petId as string);
+
+  if (!pet) {
+    res.status(404).json({ error: 'Pet not found' });
+    return null;
+  }
+
+  if (pet.owner_id !== req.userId) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'You can only manage your own pets'
+    });
+    return null;
+  }
+
+  return pet;
+}
+
+// POST /api/v1/pets - Create a pet profile
+router.post('/', authenticateToken, validatePetFields(false), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const { name, species, breed, birthday } = req.body;
+
+    const { data: pet, error } = await supabase
+      .from('pets')
+      .insert({
+        owner_id: req.userId!,
+        name,
+        species,
+        breed: breed || null,
+        birthday: birthday || null
+      })
+      .select(PET_FIELDS)
+      .single();
+
+    if (error || !pet) {
+      console.error('Create pet error:', error);
+      res.status(500).json({ error: 'Failed to create pet' });
+      return;
+    }
+
+    res.status(201).json({
+      message: 'Pet created successfully',
+      pet: formatPet(pet as Pet)
+    });
+  } catch (error) {
+    console.error('Create pet error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/v1/pets/user/:userId - List a user's pets
+router.get('/user/:userId', optionalAuth, param('userId').isUUID().withMessage('Invalid user ID'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const userId = req.params.userId as string;
+
+    // Pets are part of the profile - private accounts only show them to approved followers
+    const access = await getProfileAccess(userId, req.userId);
+    if (!access.canView) {
+      res.status(403).json(PRIVATE_ACCOUNT_ERROR);
+      return;
+    }
+
+    const pets = await listUserPets(userId);
+
+    res.status(200).json({
+      pets: pets.map(pet => formatPet(pet))
+    });
+  } catch (error) {
+    console.error('Get user pets error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/v1/pets/:petId - Get a pet profile
+router.get('/:petId', optionalAuth, validatePetId, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const pet = await getPet(req.params.petId as string);
+
+    if (!pet) {
+      res.status(404).json({ error: 'Pet not found' });
+      return;
+    }
+
+    const access = await getProfileAccess(pet.owner_id, req.userId);
+    if (!access.canView) {
+      res.status(403).json(PRIVATE_ACCOUNT_ERROR);
+      return;
+    }
+
+    const { data: owner } = await supabase
+      .from('users')
+      .select('id, username, profile_picture_url')
+      .eq('id', pet.owner_id)
+      .single();
+
+    res.status(200).json({
+      pet: formatPet(pet, owner || null)
+    });
+  } catch (error) {
+    console.error('Get pet error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/v1/pets/:petId/videos - Videos the pet is tagged in
+router.get('/:petId/videos', optionalAuth, validatePetId, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const pet = await getPet(req.params.petId as string);
+
+    if (!pet) {
+      res.status(404).json({ error: 'Pet not found' });
+      return;
+    }
+
+    const access = await getProfileAccess(pet.owner_id, req.userId);
+    if (!access.canView) {
+      res.status(403).json(PRIVATE_ACCOUNT_ERROR);
+      return;
+    }
+
+    // A shadowbanned owner's videos are only listed for themselves
+    const hiddenAuthorIds = await getHiddenAuthorIds(req.userId);
+    if (hiddenAuthorIds.includes(pet.owner_id)) {
+      res.status(200).json({ videos: [] });
+      return;
+    }
+
+    const { data: tags, error: tagsError } = await supabase
+      .from('video_pets')
+      .select('video_id')
+      .eq('pet_id', pet.id);
+
+    if (tagsError) {
+      console.error('Get pet videos error:', tagsError);
+      res.status(500).json({ error: 'Failed to fetch videos' });
+      return;
+    }
+
+    const videoIds = (tags || []).map(tag => tag.video_id);
+    if (videoIds.length === 0) {
+      res.status(200).json({ videos: [] });
+      return;
+    }
+
+    const { data: videos, error } = await supabase
+      .from('videos')
+      .select('id, youtube_video_id, title, description, created_at, view_count, user_id')
+      .in('id', videoIds)
+      .eq('is_hidden', false)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Get pet videos error:', error);
+      res.status(500).json({ error: 'Failed to fetch videos' });
+      return;
+    }
+
+    const engagementCounts = await getEngagementCounts((videos || []).map(video => video.id));
+
+    res.status(200).json({
+      videos: (videos || []).map(video => ({
+        ...video,
+        ...engagementFields(engagementCounts, video.id),
+        thumbnail_url: `https://img.youtube.com/vi/${video.youtube_video_id}/hqdefault.jpg`
+      }))
+    });
+  } catch (error) {
+    console.error('Get pet videos error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PATCH /api/v1/pets/:petId - Update a pet profile
+router.patch('/:petId', authenticateToken, validatePetId, validatePetFields(true), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pet = await loadOwnedPet(req, res);
+    if (!pet) return;
+
+    const { name, species, breed, birthday } = req.body;
+
+    const updates: Partial<Pick<Pet, 'name' | 'species' | 'breed' | 'birthday' | 'updated_at'>> = {};
+    if (name !== undefined) updates.name = name;
+    if (species !== undefined) updates.species = species;
+    if (breed !== undefined) updates.breed = breed || null;
+    if (birthday !== undefined) updates.birthday = birthday || null;
+
+    if (Object.keys(updates).length === 0) {
+      res.status(400).json({ error: 'No valid fields to update' });
+      return;
+    }
+
+    updates.updated_at = new Date().toISOString();
+
+    const { data: updatedPet, error } = await supabase
+      .from('pets')
+      .update(updates)
+      .eq('id', pet.id)
+      .select(PET_FIELDS)
+      .single();
+
+    if (error || !updatedPet) {
+      console.error('Update pet error:', error);
+      res.status(500).json({ error: 'Failed to update pet' });
+      return;
+    }
+
+    res.status(200).json({
+      message: 'Pet updated successfully',
+      pet: formatPet(updatedPet as Pet)
+    });
+  } catch (error) {
+    console.error('Update pet error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/v1/pets/:petId/photo - Upload a pet photo (same pipeline as profile pictures)
+router.post('/:petId/photo', authenticateToken, validatePetId, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pet = await loadOwnedPet(req, res);
+    if (!pet) return;
+
+    if (!req.body.image || !req.body.imageType) {
+      res.status(400).json({
+        error: 'Missing file',
+        message: 'No image provided'
+      });
+      return;
+    }
+
+    const upload = await uploadModeratedImage({
+      image: req.body.image,
+      imageType: req.body.imageType,
+      storagePath: `${pet.owner_id}/pets/${pet.id}`,
+      label: 'Pet photo',
+    });
+
+    if (!upload.ok) {
+      res.status(upload.status).json({ error: upload.error, message: upload.message });
+      return;
+    }
+
+    const { data: updatedPet, error } = await supabase
+      .from('pets')
+      .update({ photo_url: upload.url, updated_at: new Date().toISOString() })
+      .eq('id', pet.id)
+      .select(PET_FIELDS)
+      .single();
+
+    if (error || !updatedPet) {
+      console.error('Update pet photo error:', error);
+      res.status(500).json({ error: 'Failed to update pet photo' });
+      return;
+    }
+
+    // Return URL with cache-busting timestamp for immediate refresh
+    const urlWithCacheBust = `${upload.url}?t=${Date.now()}`;
+
+    res.status(200).json({
+      message: 'Pet photo uploaded successfully',
+      photo_url: urlWithCacheBust,
+      pet: { ...formatPet(updatedPet as Pet), photo_url: urlWithCacheBust }
+    });
+  } catch (error) {
+    console.error('Upload pet photo error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/v1/pets/:petId - Delete a pet profile (its video tags go with it)
+router.delete('/:petId', authenticateToken, validatePetId, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pet = await loadOwnedPet(req, res);
+    if (!pet) return;
+
+    const { error } = await supabase
+      .from('pets')
+      .delete()
+      .eq('id', pet.id);
+
+    if (error) {
+      console.error('Delete pet error:', error);
+      res.status(500).json({ error: 'Failed to delete pet' });
+      return;
+    }
+
+    res.status(200).json({ message: 'Pet deleted successfully' });
+  } catch (error) {
+    console.error('Delete pet error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
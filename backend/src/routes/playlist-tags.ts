@@ -1,7 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { supabase } from '../config/supabase.js';
-import { authenticateToken } from '../middleware/auth.js';
+import { authenticateToken, optionalAuth } from '../middleware/auth.js';
+import { getHiddenAuthorIds } from '../services/sanctions.js';
+import { getHiddenPrivateAuthorIds } from '../services/privateAccounts.js';
 
 const router = Router();
 
@@ -215,7 +217,7 @@ router.get('/:playlistId/tags', async (req: Request, res: Response): Promise<voi
 });
 
 // GET /api/v1/playlists/:playlistId/videos/filter - Filter videos by tag
-router.get('/:playlistId/videos/filter', [
+router.get('/:playlistId/videos/filter', optionalAuth, [
   param('playlistId').isUUID(),
   query('tag').notEmpty()
 ], async (req: Request, res: Response): Promise<void> => {
@@ -250,7 +252,7 @@ router.get('/:playlistId/videos/filter', [
     const videoIds = taggedVideos.map(tv => tv.video_id);
 
     // Get video details
-    const { data: videos, error: videosError } = await supabase
+    let videosQuery = supabase
       .from('videos')
       .select(`
         id,
@@ -263,7 +265,19 @@ router.get('/:playlistId/videos/filter', [
           profile_picture_url
         )
       `)
-      .in('id', videoIds);
+      .in('id', videoIds)
+      .eq('is_hidden', false);
+
+    const [hiddenAuthorIds, privateAuthorIds] = await Promise.all([
+      getHiddenAuthorIds(req.userId),
+      getHiddenPrivateAuthorIds(req.userId),
+    ]);
+    const excludedAuthorIds = [...hiddenAuthorIds, ...privateAuthorIds];
+    if (excludedAuthorIds.length > 0) {
+      videosQuery = videosQuery.not('user_id', 'in', `(${excludedAuthorIds.join(',')})`);
+    }
+
+    const { data: videos, error: videosError } = await videosQuery;
 
     if (videosError) {
       console.error('Get filtered videos error:', videosError);
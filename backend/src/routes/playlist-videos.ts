@@ -1,7 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { body, param, validationResult } from 'express-validator';
 import { supabase } from '../config/supabase.js';
-import { authenticateToken } from '../middleware/auth.js';
+import { authenticateToken, optionalAuth } from '../middleware/auth.js';
+import { getHiddenAuthorIds } from '../services/sanctions.js';
+import { getEngagementCounts, engagementFields } from '../services/videoEngagement.js';
+import { getProfileAccess, getHiddenPrivateAuthorIds, PRIVATE_ACCOUNT_ERROR } from '../services/privateAccounts.js';
 
 const router = Router();
 
@@ -179,7 +182,7 @@ router.delete('/:playlistId/videos/:videoId', authenticateToken, async (req: Req
 });
 
 // GET /api/v1/playlists/:playlistId/videos - Get all videos in a playlist
-router.get('/:playlistId/videos', async (req: Request, res: Response): Promise<void> => {
+router.get('/:playlistId/videos', optionalAuth, async (req: Request, res: Response): Promise<void> => {
   try {
     const { playlistId } = req.params;
 
@@ -188,6 +191,32 @@ router.get('/:playlistId/videos', async (req: Request, res: Response): Promise<v
       return;
     }
 
+    const { data: playlist } = await supabase
+      .from('playlists')
+      .select('user_id, visibility')
+      .eq('id', playlistId)
+      .single();
+
+    if (!playlist) {
+      res.status(404).json({ error: 'Playlist not found' });
+      return;
+    }
+
+    if (playlist.visibility === 'private' && playlist.user_id !== req.userId) {
+      res.status(403).json({ 
+        error: 'Forbidden',
+        message: 'This playlist is private'
+      });
+      return;
+    }
+
+    // Playlists of private accounts are only visible to the owner and approved followers
+    const access = await getProfileAccess(playlist.user_id, req.userId);
+    if (!access.canView) {
+      res.status(403).json(PRIVATE_ACCOUNT_ERROR);
+      return;
+    }
+
     // Get videos with tags and position
     const { data: playlistVideos, error } = await supabase
       .from('playlist_videos')
@@ -200,6 +229,7 @@ router.get('/:playlistId/videos', async (req: Request, res: Response): Promise<v
           youtube_video_id,
           title,
           description,
+          is_hidden,
           users:user_id (
             id,
             username,
@@ -233,9 +263,23 @@ router.get('/:playlistId/videos', async (req: Request, res: Response): Promise<v
       tagsByVideo.get(tag.video_id)!.push(tag.tag_name);
     });
 
-    // Add tags to videos
-    const videosWithTags = playlistVideos?.map(pv => ({
+    // Add tags to videos (skipping videos hidden by moderation, uploaded by shadowbanned users or
+    // by private accounts the viewer doesn't follow)
+    const [hiddenAuthorIds, privateAuthorIds] = await Promise.all([
+      getHiddenAuthorIds(req.userId),
+      getHiddenPrivateAuthorIds(req.userId),
+    ]);
+    const excludedAuthorIds = [...hiddenAuthorIds, ...privateAuthorIds];
+    const visibleVideos = playlistVideos?.filter(pv => {
+      const video = pv.videos as any;
+      return !video?.is_hidden && !excludedAuthorIds.includes(video?.users?.id);
+    }) || [];
+
+    const engagementCounts = await getEngagementCounts(visibleVideos.map(pv => pv.video_id));
+
+    const videosWithTags = visibleVideos.map(pv => ({
       ...pv.videos,
+      ...engagementFields(engagementCounts, pv.video_id),
       tags: tagsByVideo.get(pv.video_id) || [],
       added_at: pv.created_at
     }));
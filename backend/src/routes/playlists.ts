@@ -2,6 +2,9 @@ import { Router, Request, Response } from 'express';
 import { body, param, validationResult } from 'express-validator';
 import { supabase } from '../config/supabase.js';
 import { authenticateToken, optionalAuth } from '../middleware/auth.js';
+import { getHiddenAuthorIds } from '../services/sanctions.js';
+import { getEngagementCounts, engagementFields } from '../services/videoEngagement.js';
+import { getProfileAccess, getHiddenPrivateAuthorIds, PRIVATE_ACCOUNT_ERROR } from '../services/privateAccounts.js';
 
 const router = Router();
 
@@ -142,6 +145,13 @@ router.get('/:playlistId', optionalAuth, async (req: Request, res: Response): Pr
       return;
     }
 
+    // Playlists of private accounts are only visible to the owner and approved followers
+    const access = await getProfileAccess(playlist.user_id, requestingUserId);
+    if (!access.canView) {
+      res.status(403).json(PRIVATE_ACCOUNT_ERROR);
+      return;
+    }
+
     // Get videos in the playlist
     const { data: playlistVideos, error: videosError } = await supabase
       .from('playlist_videos')
@@ -152,6 +162,7 @@ router.get('/:playlistId', optionalAuth, async (req: Request, res: Response): Pr
           youtube_video_id,
           title,
           description,
+          is_hidden,
           users:user_id (
             id,
             username,
@@ -166,10 +177,26 @@ router.get('/:playlistId', optionalAuth, async (req: Request, res: Response): Pr
       console.error('Get playlist videos error:', videosError);
     }
 
+    // Skip videos hidden by moderation, uploaded by shadowbanned users or by private accounts
+    // the viewer doesn't follow
+    const [hiddenAuthorIds, privateAuthorIds] = await Promise.all([
+      getHiddenAuthorIds(requestingUserId),
+      getHiddenPrivateAuthorIds(requestingUserId),
+    ]);
+    const excludedAuthorIds = [...hiddenAuthorIds, ...privateAuthorIds];
+    const videos = (playlistVideos?.map(pv => pv.videos).filter((video: any) =>
+      !video?.is_hidden && !excludedAuthorIds.includes(video?.users?.id)
+    ) || []) as any[];
+
+    const engagementCounts = await getEngagementCounts(videos.map(video => video.id));
+
     res.status(200).json({
       playlist: {
         ...playlist,
-        videos: playlistVideos?.map(pv => pv.videos) || []
+        videos: videos.map(video => ({
+          ...video,
+          ...engagementFields(engagementCounts, video.id)
+        }))
       }
     });
   } catch (error) {
@@ -228,6 +255,12 @@ router.get('/search', optionalAuth, async (req: Request, res: Response): Promise
       playlistsQuery = playlistsQuery.eq('visibility', 'public');
     }
 
+    // Leave out private accounts the searcher doesn't follow
+    const privateOwnerIds = await getHiddenPrivateAuthorIds(requestingUserId);
+    if (privateOwnerIds.length > 0) {
+      playlistsQuery = playlistsQuery.not('user_id', 'in', `(${privateOwnerIds.join(',')})`);
+    }
+
     const { data: playlists, error, count } = await playlistsQuery
       .order('created_at', { ascending: false })
       .range(offset, offset + pageSize - 1);
@@ -291,6 +324,13 @@ router.get('/user/:userId', optionalAuth, async (req: Request, res: Response): P
       return;
     }
 
+    // Private accounts only list playlists for the owner and approved followers
+    const access = await getProfileAccess(userId as string, requestingUserId);
+    if (!access.canView) {
+      res.status(403).json(PRIVATE_ACCOUNT_ERROR);
+      return;
+    }
+
     // Build query - show only public playlists unless viewing own profile
     let query = supabase
       .from('playlists')
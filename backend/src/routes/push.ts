@@ -34,6 +34,13 @@ router.post('/subscribe', authenticateToken, validateSubscription, async (req: R
       .single();
 
     if (existing) {
+      // Same browser after a new login - move the subscription to the current session
+      await supabase
+        .from('push_subscriptions')
+        .update({ session_id: req.sessionId || null })
+        .eq('user_id', userId)
+        .eq('endpoint', endpoint);
+
       res.status(200).json({
         message: 'Subscription already exists',
         subscription: { id: existing.id }
@@ -49,6 +56,7 @@ router.post('/subscribe', authenticateToken, validateSubscription, async (req: R
         endpoint,
         p256dh: keys.p256dh,
         auth: keys.auth,
+        session_id: req.sessionId || null,
       })
       .select()
       .single();
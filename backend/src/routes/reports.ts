@@ -1,7 +1,9 @@
 import { Router, Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import { supabase } from '../config/supabase.js';
 import { authenticateToken } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/admin.js';
+import { recordAdminAction } from '../services/adminAudit.js';
 
 const router = Router();
 
@@ -15,6 +17,40 @@ const REPORT_REASONS = [
   'other'
 ];
 
+const REPORT_STATUSES = ['pending', 'approved', 'rejected'];
+
+const validateReportId = [
+  param('reportId').isUUID().withMessage('Invalid report ID')
+];
+
+const validateReportQueue = [
+  query('status')
+    .optional()
+    .isIn([...REPORT_STATUSES, 'all'])
+    .withMessage(`Status must be one of: ${REPORT_STATUSES.join(', ')}, all`),
+  query('reason')
+    .optional()
+    .isIn(REPORT_REASONS)
+    .withMessage(`Reason must be one of: ${REPORT_REASONS.join(', ')}`),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+];
+
+/**
+ * Reports store the reason code and optional details in one column ("spam: details here").
+ * Split them back apart for the moderation queue.
+ */
+function parseStoredReason(stored: string): { reason: string; details: string | null } {
+  const separatorIndex = stored.indexOf(': ');
+  if (separatorIndex === -1) {
+    return { reason: stored, details: null };
+  }
+  return {
+    reason: stored.substring(0, separatorIndex),
+    details: stored.substring(separatorIndex + 2)
+  };
+}
+
 const validateReport = [
   body('video_id').isUUID().withMessage('Invalid video ID'),
   body('reason')
@@ -111,5 +147,408 @@ router.get('/reasons', (_req: Request, res: Response): void => {
   });
 });
 
+// GET /api/v1/reports - Moderation queue (moderators)
+// Reports are grouped by video so multiple reports on the same video are reviewed together
+router.get('/', authenticateToken, requirePermission('reports.review'), validateReportQueue, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const { status = 'pending', reason, page = '1', limit = '20' } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = Math.min(parseInt(limit as string), 100);
+    const offset = (pageNum - 1) * limitNum;
+
+    const statusFilter = status !== 'all' ? status as string : null;
+    // Stored reasons may carry details after the code ("spam: ...")
+    const reasonFilter = reason ? reason as string : null;
+
+    // Group and paginate in SQL so the page and totals cover the whole queue
+    const { data: pageRows, error: pageError } = await supabase.rpc('report_queue_page', {
+      filter_status: statusFilter,
+      reason_prefix: reasonFilter,
+      page_limit: limitNum,
+      page_offset: offset
+    });
+
+    if (pageError) {
+      console.error('Failed to fetch report queue:', pageError);
+      res.status(500).json({ error: 'Failed to fetch reports' });
+      return;
+    }
+
+    const rows = (pageRows || []) as {
+      video_id: string | null;
+      report_count: number;
+      latest_report_at: string;
+      first_report_at: string;
+      total_groups: number;
+      total_reports: number;
+    }[];
+    const pageGroups = rows.filter(row => row.video_id);
+    const total = Number(rows[0]?.total_groups || 0);
+    const totalReports = Number(rows[0]?.total_reports || 0);
+
+    // Individual reports for the videos on this page only
+    let reports: any[] = [];
+    if (pageGroups.length > 0) {
+      let reportsQuery = supabase
+        .from('reported_videos')
+        .select(`
+          id,
+          video_id,
+          reason,
+          status,
+          created_at,
+          reviewed_at,
+          reviewed_by,
+          reporter:users!reported_videos_reporter_id_fkey (
+            id,
+            username
+          ),
+          videos:video_id (
+            id,
+            youtube_video_id,
+            title,
+            user_id,
+            is_hidden,
+            created_at
+          )
+        `)
+        .in('video_id', pageGroups.map(group => group.video_id as string))
+        .order('created_at', { ascending: false });
+
+      if (statusFilter) {
+        reportsQuery = reportsQuery.eq('status', statusFilter);
+      }
+
+      if (reasonFilter) {
+        reportsQuery = reportsQuery.like('reason', `${reasonFilter}%`);
+      }
+
+      const { data, error: fetchError } = await reportsQuery;
+
+      if (fetchError) {
+        console.error('Failed to fetch reports:', fetchError);
+        res.status(500).json({ error: 'Failed to fetch reports' });
+        return;
+      }
+
+      reports = data || [];
+    }
+
+    // Group reports by video, in the queue order from report_queue_page
+    const groups = new Map<string, any>();
+    pageGroups.forEach(group => {
+      groups.set(group.video_id as string, {
+        video_id: group.video_id,
+        video: null,
+        report_count: Number(group.report_count),
+        reasons: {} as Record<string, number>,
+        latest_report_at: group.latest_report_at,
+        first_report_at: group.first_report_at,
+        reports: [] as any[]
+      });
+    });
+
+    reports.forEach((report: any) => {
+      const group = groups.get(report.video_id);
+      if (!group) return;
+
+      const video = Array.isArray(report.videos) ? report.videos[0] : report.videos;
+      const reporter = Array.isArray(report.reporter) ? report.reporter[0] : report.reporter;
+      const { reason: reasonCode, details } = parseStoredReason(report.reason);
+
+      if (!group.video && video) {
+        group.video = {
+          id: video.id,
+          youtube_video_id: video.youtube_video_id,
+          title: video.title,
+          user_id: video.user_id,
+          is_hidden: video.is_hidden === true,
+          thumbnail_url: `https://img.youtube.com/vi/${video.youtube_video_id}/mqdefault.jpg`,
+          created_at: video.created_at
+        };
+      }
+
+      group.reasons[reasonCode] = (group.reasons[reasonCode] || 0) + 1;
+      group.reports.push({
+        id: report.id,
+        reason: reasonCode,
+        details,
+        status: report.status,
+        created_at: report.created_at,
+        reviewed_at: report.reviewed_at,
+        reviewed_by: report.reviewed_by,
+        reporter: reporter ? { id: reporter.id, username: reporter.username } : null
+      });
+    });
+
+    const totalPages = total ? Math.ceil(total / limitNum) : 1;
+
+    res.status(200).json({
+      reports: Array.from(groups.values()),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalReports,
+        totalPages,
+        hasNextPage: pageNum < totalPages,
+        hasPrevPage: pageNum > 1
+      }
+    });
+  } catch (error) {
+    console.error('Get reports error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PATCH /api/v1/reports/:reportId/approve - Approve a report and hide the video (moderators)
+// All pending reports on the same video are resolved together, since the video is now hidden
+router.patch('/:reportId/approve', authenticateToken, requirePermission('reports.review'), validateReportId, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const { reportId } = req.params;
+    const adminId = req.userId!;
+
+    const { data: report } = await supabase
+      .from('reported_videos')
+      .select('id, video_id, status')
+      .eq('id', reportId)
+      .single();
+
+    if (!report) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+
+    if (report.status !== 'pending') {
+      res.status(409).json({
+        error: 'Already reviewed',
+        message: `This report has already been ${report.status}`
+      });
+      return;
+    }
+
+    const reviewedAt = new Date().toISOString();
+
+    // Hide the video from listings
+    const { error: hideError } = await supabase
+      .from('videos')
+      .update({ is_hidden: true, hidden_at: reviewedAt })
+      .eq('id', report.video_id);
+
+    if (hideError) {
+      console.error('Failed to hide reported video:', hideError);
+      res.status(500).json({ error: 'Failed to hide video' });
+      return;
+    }
+
+    // Resolve this report and any other pending reports on the same video
+    const { data: resolvedReports, error: updateError } = await supabase
+      .from('reported_videos')
+      .update({
+        status: 'approved',
+        reviewed_at: reviewedAt,
+        reviewed_by: adminId
+      })
+      .eq('video_id', report.video_id)
+      .eq('status', 'pending')
+      .select('id');
+
+    if (updateError) {
+      console.error('Failed to approve report:', updateError);
+      res.status(500).json({ error: 'Failed to approve report' });
+      return;
+    }
+
+    await recordAdminAction(req, {
+      action: 'report.approve',
+      targetType: 'video',
+      targetId: report.video_id,
+      details: {
+        report_id: report.id,
+        resolved_report_ids: (resolvedReports || []).map(r => r.id)
+      }
+    });
+
+    res.status(200).json({
+      message: 'Report approved. The video has been hidden.',
+      report: {
+        id: report.id,
+        video_id: report.video_id,
+        status: 'approved',
+        reviewed_at: reviewedAt,
+        reviewed_by: adminId
+      },
+      resolved_report_ids: (resolvedReports || []).map(r => r.id),
+      video_hidden: true
+    });
+  } catch (error) {
+    console.error('Approve report error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PATCH /api/v1/reports/:reportId/reject - Reject a report (moderators)
+// Pass { all: true } to dismiss every pending report on the same video
+router.patch(
+  '/:reportId/reject',
+  authenticateToken,
+  requirePermission('reports.review'),
+  [...validateReportId, body('all').optional().isBoolean().withMessage('all must be a boolean')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const { reportId } = req.params;
+      const adminId = req.userId!;
+      const rejectAll = req.body?.all === true;
+
+      const { data: report } = await supabase
+        .from('reported_videos')
+        .select('id, video_id, status')
+        .eq('id', reportId)
+        .single();
+
+      if (!report) {
+        res.status(404).json({ error: 'Report not found' });
+        return;
+      }
+
+      if (report.status !== 'pending') {
+        res.status(409).json({
+          error: 'Already reviewed',
+          message: `This report has already been ${report.status}`
+        });
+        return;
+      }
+
+      const reviewedAt = new Date().toISOString();
+
+      let rejectQuery = supabase
+        .from('reported_videos')
+        .update({
+          status: 'rejected',
+          reviewed_at: reviewedAt,
+          reviewed_by: adminId
+        })
+        .eq('status', 'pending');
+
+      rejectQuery = rejectAll
+        ? rejectQuery.eq('video_id', report.video_id)
+        : rejectQuery.eq('id', report.id);
+
+      const { data: rejectedReports, error: updateError } = await rejectQuery.select('id');
+
+      if (updateError) {
+        console.error('Failed to reject report:', updateError);
+        res.status(500).json({ error: 'Failed to reject report' });
+        return;
+      }
+
+      await recordAdminAction(req, {
+        action: 'report.reject',
+        targetType: 'video',
+        targetId: report.video_id,
+        details: {
+          report_id: report.id,
+          all: rejectAll,
+          resolved_report_ids: (rejectedReports || []).map(r => r.id)
+        }
+      });
+
+      res.status(200).json({
+        message: 'Report rejected',
+        report: {
+          id: report.id,
+          video_id: report.video_id,
+          status: 'rejected',
+          reviewed_at: reviewedAt,
+          reviewed_by: adminId
+        },
+        resolved_report_ids: (rejectedReports || []).map(r => r.id)
+      });
+    } catch (error) {
+      console.error('Reject report error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// PATCH /api/v1/reports/videos/:videoId/restore - Unhide a video hidden by moderation (moderators)
+router.patch(
+  '/videos/:videoId/restore',
+  authenticateToken,
+  requirePermission('reports.review'),
+  [param('videoId').isUUID().withMessage('Invalid video ID')],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const { videoId } = req.params;
+
+      const { data: video } = await supabase
+        .from('videos')
+        .select('id, is_hidden')
+        .eq('id', videoId)
+        .maybeSingle();
+
+      if (!video) {
+        res.status(404).json({ error: 'Video not found' });
+        return;
+      }
+
+      if (!video.is_hidden) {
+        res.status(409).json({ error: 'Video is not hidden' });
+        return;
+      }
+
+      const { error: restoreError } = await supabase
+        .from('videos')
+        .update({ is_hidden: false, hidden_at: null })
+        .eq('id', videoId);
+
+      if (restoreError) {
+        console.error('Failed to restore video:', restoreError);
+        res.status(500).json({ error: 'Failed to restore video' });
+        return;
+      }
+
+      await recordAdminAction(req, {
+        action: 'report.restore',
+        targetType: 'video',
+        targetId: videoId as string
+      });
+
+      res.status(200).json({
+        message: 'Video restored',
+        video_id: videoId,
+        video_hidden: false
+      });
+    } catch (error) {
+      console.error('Restore video error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
 export default router;
 
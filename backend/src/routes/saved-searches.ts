@@ -0,0 +1,224 @@
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { authenticateToken } from '../middleware/auth.js';
+import { isValidSpecies } from '../services/taxonomy.js';
+import { SEARCH_SORTS, SearchSort } from '../services/videoSearch.js';
+import {
+  MAX_SAVED_SEARCHES,
+  SavedSearch,
+  cleanFilters,
+  savedSearchUrl,
+  listSavedSearches,
+  getSavedSearch,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+} from '../services/savedSearches.js';
+
+const router = Router();
+
+const validateSavedSearchId = [
+  param('savedSearchId').isUUID().withMessage('Invalid saved search ID')
+];
+
+const validateName = (isUpdate: boolean) =>
+  (isUpdate ? body('name').optional() : body('name'))
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name must not exceed 100 characters');
+
+// Same rules as the /videos/search query string
+const validateSavedSearch = [
+  validateName(false),
+  body('query')
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Query must not exceed 200 characters'),
+  body('sort')
+    .optional()
+    .isIn(SEARCH_SORTS)
+    .withMessage(`Sort must be one of: ${SEARCH_SORTS.join(', ')}`),
+  body('filters')
+    .optional()
+    .isObject()
+    .withMessage('filters must be an object'),
+  body('filters.species')
+    .optional({ checkFalsy: true })
+    .custom((value) => isValidSpecies(value))
+    .withMessage('Unknown species'),
+  body('filters.breed')
+    .optional({ checkFalsy: true })
+    .isLength({ max: 50 })
+    .withMessage('Invalid breed'),
+  body('filters.uploader')
+    .optional({ checkFalsy: true })
+    .isUUID()
+    .withMessage('Invalid uploader ID'),
+  body('filters.from')
+    .optional({ checkFalsy: true })
+    .isISO8601()
+    .withMessage('from must be a date (YYYY-MM-DD)'),
+  body('filters.to')
+    .optional({ checkFalsy: true })
+    .isISO8601()
+    .withMessage('to must be a date (YYYY-MM-DD)'),
+  body('alerts_enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('alerts_enabled must be true or false'),
+];
+
+/**
+ * Shape a saved search for API responses
+ */
+function formatSavedSearch(search: SavedSearch) {
+  return {
+    id: search.id,
+    name: search.name,
+    query: search.search_query,
+    sort: search.sort_option,
+    filters: search.filters,
+    alerts_enabled: search.alerts_enabled,
+    url: savedSearchUrl(search),
+    created_at: search.created_at,
+    updated_at: search.updated_at,
+  };
+}
+
+/**
+ * Load a saved search and check the current user owns it
+ * Sends the error response and returns null when the request can't proceed
+ */
+async function loadOwnedSavedSearch(req: Request, res: Response): Promise<SavedSearch | null> {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ error: 'Validation failed', details: errors.array() });
+    return null;
+  }
+
+  const search = await getSavedSearch(req.params.savedSearchId as string);
+
+  // Someone else's saved search is reported as missing
+  if (!search || search.user_id !== req.userId) {
+    res.status(404).json({ error: 'Saved search not found' });
+    return null;
+  }
+
+  return search;
+}
+
+// GET /api/v1/saved-searches - The current user's saved searches
+router.get('/', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const searches = await listSavedSearches(req.userId!);
+
+    res.status(200).json({
+      saved_searches: searches.map(formatSavedSearch)
+    });
+  } catch (error) {
+    console.error('Get saved searches error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/v1/saved-searches - Save a search (query, sort, filters), optionally with alerts
+router.post('/', authenticateToken, validateSavedSearch, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const query = typeof req.body.query === 'string' && req.body.query.trim() ? req.body.query.trim() : null;
+    const filters = cleanFilters(req.body.filters);
+
+    if (!query && Object.keys(filters).length === 0) {
+      res.status(400).json({ error: 'A saved search needs a query or at least one filter' });
+      return;
+    }
+
+    const existing = await listSavedSearches(req.userId!);
+    if (existing.length >= MAX_SAVED_SEARCHES) {
+      res.status(400).json({ error: `You can save up to ${MAX_SAVED_SEARCHES} searches` });
+      return;
+    }
+
+    const search = await createSavedSearch(req.userId!, {
+      name: req.body.name,
+      query,
+      sort: (req.body.sort as SearchSort) || 'relevance',
+      filters,
+      alertsEnabled: req.body.alerts_enabled === true || req.body.alerts_enabled === 'true',
+    });
+
+    res.status(201).json({
+      message: 'Search saved',
+      saved_search: formatSavedSearch(search)
+    });
+  } catch (error) {
+    console.error('Create saved search error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PATCH /api/v1/saved-searches/:savedSearchId - Rename or switch alerts on/off
+router.patch('/:savedSearchId',
+  authenticateToken,
+  validateSavedSearchId,
+  [
+    validateName(true),
+    body('alerts_enabled')
+      .optional()
+      .isBoolean()
+      .withMessage('alerts_enabled must be true or false'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const search = await loadOwnedSavedSearch(req, res);
+      if (!search) return;
+
+      const { name, alerts_enabled } = req.body;
+
+      if (name === undefined && alerts_enabled === undefined) {
+        res.status(400).json({ error: 'No valid fields to update' });
+        return;
+      }
+
+      const updated = await updateSavedSearch(search, {
+        name,
+        alertsEnabled: alerts_enabled === undefined ? undefined : alerts_enabled === true || alerts_enabled === 'true',
+      });
+
+      res.status(200).json({
+        message: 'Saved search updated',
+        saved_search: formatSavedSearch(updated)
+      });
+    } catch (error) {
+      console.error('Update saved search error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// DELETE /api/v1/saved-searches/:savedSearchId - Delete a saved search
+router.delete('/:savedSearchId', authenticateToken, validateSavedSearchId, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const search = await loadOwnedSavedSearch(req, res);
+    if (!search) return;
+
+    await deleteSavedSearch(search.id);
+
+    res.status(200).json({ message: 'Saved search deleted' });
+  } catch (error) {
+    console.error('Delete saved search error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
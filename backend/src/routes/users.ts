@@ -1,8 +1,13 @@
 import { Router, Request, Response } from 'express';
-import { param, validationResult } from 'express-validator';
+import { param, query, validationResult } from 'express-validator';
 import { supabase } from '../config/supabase.js';
-import { authenticateToken } from '../middleware/auth.js';
+import { authenticateToken, optionalAuth } from '../middleware/auth.js';
 import { validateProfileUpdate, validateEmailUpdate, validatePasswordChange } from '../middleware/validation.js';
+import { revokeSession, revokeUserSessions, describeDevice } from '../services/sessions.js';
+import { blockUser, unblockUser, muteUser, unmuteUser, listBlockedOrMuted } from '../services/userBlocks.js';
+import { getProfileAccess, hasPendingFollowRequest, approveAllFollowRequests } from '../services/privateAccounts.js';
+import { uploadModeratedImage } from '../services/imageUpload.js';
+import { listSearchHistory, clearSearchHistory } from '../services/searchHistory.js';
 
 const router = Router();
 
@@ -11,7 +16,7 @@ const validateUserId = [
 ];
 
 // GET /api/v1/users/:userId - Get user profile
-router.get('/:userId', validateUserId, async (req: Request, res: Response): Promise<void> => {
+router.get('/:userId', validateUserId, optionalAuth, async (req: Request, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -23,7 +28,7 @@ router.get('/:userId', validateUserId, async (req: Request, res: Response): Prom
 
     const { data: user, error } = await supabase
       .from('users')
-      .select('id, username, email, profile_picture_url, bio, user_number, created_at, updated_at')
+      .select('id, username, email, profile_picture_url, bio, user_number, is_private, created_at, updated_at')
       .eq('id', userId)
       .single();
 
@@ -32,6 +37,22 @@ router.get('/:userId', validateUserId, async (req: Request, res: Response): Prom
       return;
     }
 
+    // Private accounts only show their name and picture to non-followers
+    const access = await getProfileAccess(user.id, req.userId);
+    if (!access.canView) {
+      res.status(200).json({
+        user: {
+          id: user.id,
+          username: user.username,
+          profile_picture_url: user.profile_picture_url,
+          is_private: true,
+          can_view: false,
+          follow_request_pending: req.userId ? await hasPendingFollowRequest(req.userId, user.id) : false
+        }
+      });
+      return;
+    }
+
     res.status(200).json({
       user: {
         id: user.id,
@@ -40,6 +61,8 @@ router.get('/:userId', validateUserId, async (req: Request, res: Response): Prom
         profile_picture_url: user.profile_picture_url,
         bio: user.bio,
         user_number: user.user_number,
+        is_private: !!user.is_private,
+        can_view: true,
         created_at: user.created_at,
         updated_at: user.updated_at
       }
@@ -85,133 +108,21 @@ router.post('/:userId/profile-picture', authenticateToken, validateUserId, async
       return;
     }
 
-    const imageData = req.body.image; // Base64 encoded image
-    const imageType = req.body.imageType; // e.g., 'image/jpeg', 'image/png'
-    console.log('📷 Image type:', imageType, 'Image data length:', imageData?.length || 0);
-    
-    // Validate image type
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
-    if (!allowedTypes.includes(imageType)) {
-      console.error('❌ Invalid image type:', imageType);
-      res.status(400).json({ 
-        error: 'Invalid file type',
-        message: 'Only JPEG, PNG, GIF, and WebP images are allowed' 
-      });
-      return;
-    }
-
-    // Convert base64 to buffer
-    console.log('🔄 Converting base64 to buffer...');
-    const base64Data = imageData.replace(/^data:image\/\w+;base64,/, '');
-    let buffer: Buffer;
-    try {
-      buffer = Buffer.from(base64Data, 'base64');
-      console.log('✅ Buffer created, size:', buffer.length, 'bytes');
-    } catch (bufferError: any) {
-      console.error('❌ Failed to create buffer:', bufferError);
-      res.status(400).json({ 
-        error: 'Invalid image data',
-        message: 'Failed to process image data' 
-      });
-      return;
-    }
-
-    // Validate file size (max 5MB)
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    if (buffer.length > maxSize) {
-      console.error('❌ File too large:', buffer.length, 'bytes (max:', maxSize, ')');
-      res.status(400).json({ 
-        error: 'File too large',
-        message: 'Profile picture must be less than 5MB' 
-      });
-      return;
-    }
-
-    // Content moderation check
-    console.log('🔍 Running image moderation...');
-    try {
-      const { moderateProfilePicture } = await import('../services/imageModeration.js');
-      const moderationResult = await moderateProfilePicture(buffer, imageType);
-      console.log('✅ Moderation result:', { approved: moderationResult.approved, reason: moderationResult.reason });
-      
-      if (!moderationResult.approved) {
-        console.error('❌ Image moderation failed:', moderationResult.reason);
-        res.status(400).json({ 
-          error: 'Image moderation failed',
-          message: moderationResult.reason || 'Image did not pass moderation checks'
-        });
-        return;
-      }
-
-      // Log warnings if any (but don't block upload)
-      if (moderationResult.warnings && moderationResult.warnings.length > 0) {
-        console.log(`⚠️ Profile picture moderation warnings for user ${userId}:`, moderationResult.warnings);
-      }
-    } catch (moderationError: any) {
-      console.error('❌ Image moderation error:', moderationError);
-      // Don't fail upload if moderation service is down, but log it
-      console.warn('⚠️ Continuing without moderation due to error');
-    }
-
-    // Determine file extension
-    const extension = imageType.split('/')[1] === 'jpeg' ? 'jpg' : imageType.split('/')[1];
-    const fileName = `${userId}/profile-picture.${extension}`;
-    console.log('📁 File name:', fileName);
-
-    // Upload to Supabase Storage
-    console.log('☁️ Uploading to Supabase Storage bucket: profile-pictures');
-    
-    // First, verify bucket is accessible
-    const { data: buckets, error: listError } = await supabase.storage.listBuckets();
-    if (listError) {
-      console.error('❌ Failed to list buckets:', listError);
-    } else {
-      const bucketExists = buckets?.some(b => b.name === 'profile-pictures');
-      console.log('🔍 Bucket exists check:', bucketExists ? '✅ Found' : '❌ Not found');
-      if (!bucketExists) {
-        console.error('❌ Bucket "profile-pictures" not found. Available buckets:', buckets?.map(b => b.name));
-      }
-    }
-    
-    const { data: _uploadData, error: uploadError } = await supabase.storage
-      .from('profile-pictures')
-      .upload(fileName, buffer, {
-        contentType: imageType,
-        upsert: true, // Replace if exists
-      });
+    // Validate, moderate and store the image
+    const upload = await uploadModeratedImage({
+      image: req.body.image,
+      imageType: req.body.imageType,
+      storagePath: `${userId}/profile-picture`,
+      label: 'Profile picture',
+    });
 
-    if (uploadError) {
-      console.error('❌ Supabase storage upload error:', uploadError);
-      console.error('❌ Upload error details:', {
-        message: uploadError.message,
-        name: uploadError.name
-      });
-      
-      // Provide more helpful error messages
-      let userMessage = uploadError.message || 'Failed to upload profile picture to storage';
-      if (uploadError.message?.includes('Bucket not found') || uploadError.message?.includes('not found')) {
-        userMessage = 'Storage bucket not found. Please contact support.';
-      } else if (uploadError.message?.includes('permission') || uploadError.message?.includes('access')) {
-        userMessage = 'Permission denied. Please check storage bucket permissions.';
-      } else if (uploadError.message?.includes('policy') || uploadError.message?.includes('RLS')) {
-        userMessage = 'Storage policy error. Please check bucket policies.';
-      }
-      
-      res.status(500).json({ 
-        error: 'Upload failed',
-        message: userMessage,
-        details: process.env.NODE_ENV === 'development' ? uploadError : undefined
-      });
+    if (!upload.ok) {
+      console.error('❌ Profile picture upload rejected:', upload.message);
+      res.status(upload.status).json({ error: upload.error, message: upload.message });
       return;
     }
-    console.log('✅ File uploaded to Supabase Storage');
 
-    // Get public URL
-    const { data: urlData } = supabase.storage
-      .from('profile-pictures')
-      .getPublicUrl(fileName);
-
-    const baseUrl = urlData.publicUrl;
+    const baseUrl = upload.url;
     console.log('🔗 Base Public URL:', baseUrl);
 
     // Update user profile with new picture URL (store base URL without timestamp)
@@ -303,13 +214,14 @@ router.patch(
         return;
       }
 
-      const { bio, profile_picture_url } = req.body;
-      console.log('📝 Update fields - bio:', bio, 'profile_picture_url:', profile_picture_url);
+      const { bio, profile_picture_url, is_private } = req.body;
+      console.log('📝 Update fields - bio:', bio, 'profile_picture_url:', profile_picture_url, 'is_private:', is_private);
 
       // Build update object with only provided, non-empty fields
       const updates: { 
         bio?: string; 
         profile_picture_url?: string;
+        is_private?: boolean;
       } = {};
 
       // Only add bio if it's defined and not an empty string (allow empty string to clear bio)
@@ -324,6 +236,10 @@ router.patch(
         console.log('✅ Adding profile_picture_url to updates');
       }
 
+      if (typeof is_private === 'boolean') {
+        updates.is_private = is_private;
+      }
+
       // If no updates provided, return error
       if (Object.keys(updates).length === 0) {
         console.error('❌ No valid fields provided for update');
@@ -341,7 +257,7 @@ router.patch(
         .from('users')
         .update(updates)
         .eq('id', userId)
-        .select('id, username, email, profile_picture_url, bio, created_at, updated_at')
+        .select('id, username, email, profile_picture_url, bio, is_private, created_at, updated_at')
         .single();
 
       if (updateError || !updatedUser) {
@@ -360,6 +276,14 @@ router.patch(
         return;
       }
 
+      // Going public lets everyone who was waiting in
+      if (updates.is_private === false) {
+        const approved = await approveAllFollowRequests(updatedUser.id);
+        if (approved > 0) {
+          console.log(`✅ Approved ${approved} pending follow request(s) after account went public`);
+        }
+      }
+
       console.log('✅ Profile updated successfully:', updatedUser);
       res.status(200).json({
         message: 'Profile updated successfully',
@@ -501,16 +425,26 @@ router.patch(
         return;
       }
 
-      // Verify current password
+      // Verify current password (single sign-on accounts without one can set a first password)
       const bcrypt = await import('bcrypt');
-      const isPasswordValid = await bcrypt.compare(currentPassword, user.password_hash);
-
-      if (!isPasswordValid) {
-        res.status(401).json({ 
-          error: 'Invalid password',
-          message: 'Current password is incorrect' 
-        });
-        return;
+      if (user.password_hash) {
+        if (!currentPassword) {
+          res.status(400).json({ 
+            error: 'Validation failed',
+            message: 'Current password is required' 
+          });
+          return;
+        }
+
+        const isPasswordValid = await bcrypt.compare(currentPassword, user.password_hash);
+
+        if (!isPasswordValid) {
+          res.status(401).json({ 
+            error: 'Invalid password',
+            message: 'Current password is incorrect' 
+          });
+          return;
+        }
       }
 
       // Hash new password
@@ -532,6 +466,9 @@ router.patch(
         return;
       }
 
+      // Sign out every other device; the session that made the change stays signed in
+      await revokeUserSessions(userId, 'password_change', req.sessionId);
+
       res.status(200).json({ message: 'Password updated successfully' });
     } catch (error) {
       console.error('Password change error:', error);
@@ -540,6 +477,354 @@ router.patch(
   }
 );
 
+// GET /api/v1/users/:userId/sessions - List active sessions (devices) for the user
+router.get('/:userId/sessions', validateUserId, authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const { userId } = req.params;
+
+    if (userId !== req.userId) {
+      res.status(403).json({ 
+        error: 'Authorization failed',
+        message: 'You can only view your own sessions' 
+      });
+      return;
+    }
+
+    const { data: sessions, error } = await supabase
+      .from('user_sessions')
+      .select('id, user_agent, ip_address, created_at, last_used_at, expires_at')
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('last_used_at', { ascending: false });
+
+    if (error) {
+      console.error('Get sessions error:', error);
+      res.status(500).json({ error: 'Failed to fetch sessions' });
+      return;
+    }
+
+    // Which sessions have push notifications registered
+    const sessionIds = (sessions || []).map(s => s.id);
+    const { data: pushRows } = sessionIds.length > 0
+      ? await supabase
+          .from('push_subscriptions')
+          .select('session_id')
+          .in('session_id', sessionIds)
+      : { data: [] as { session_id: string }[] };
+
+    const pushSessionIds = new Set((pushRows || []).map(row => row.session_id));
+
+    res.status(200).json({
+      sessions: (sessions || []).map(session => ({
+        id: session.id,
+        device: describeDevice(session.user_agent),
+        user_agent: session.user_agent,
+        ip_address: session.ip_address,
+        created_at: session.created_at,
+        // Updated whenever the access token is refreshed
+        last_seen_at: session.last_used_at,
+        expires_at: session.expires_at,
+        is_current: session.id === req.sessionId,
+        push_enabled: pushSessionIds.has(session.id),
+      }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/v1/users/:userId/sessions - Revoke all sessions except the current one
+router.delete('/:userId/sessions', validateUserId, authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const { userId } = req.params;
+
+    if (userId !== req.userId) {
+      res.status(403).json({ 
+        error: 'Authorization failed',
+        message: 'You can only manage your own sessions' 
+      });
+      return;
+    }
+
+    const revoked = await revokeUserSessions(userId, 'device_revoked', req.sessionId);
+
+    res.status(200).json({
+      message: revoked > 0 ? `Signed out of ${revoked} other session(s)` : 'No other active sessions',
+      revoked
+    });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/v1/users/:userId/sessions/:sessionId - Revoke a single session
+router.delete(
+  '/:userId/sessions/:sessionId',
+  validateUserId,
+  param('sessionId').isUUID().withMessage('Invalid session ID'),
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const { userId, sessionId } = req.params;
+
+      if (userId !== req.userId) {
+        res.status(403).json({ 
+          error: 'Authorization failed',
+          message: 'You can only manage your own sessions' 
+        });
+        return;
+      }
+
+      const { data: session } = await supabase
+        .from('user_sessions')
+        .select('id')
+        .eq('id', sessionId)
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .single();
+
+      if (!session) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      await revokeSession(session.id, 'device_revoked');
+
+      res.status(200).json({
+        message: 'Session revoked',
+        is_current: session.id === req.sessionId
+      });
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * Shared checks for block/mute routes: valid ID, not yourself, target exists
+ * Sends the error response and returns null when the request can't proceed
+ */
+async function resolveBlockTarget(req: Request, res: Response, action: string): Promise<string | null> {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ error: 'Validation failed', details: errors.array() });
+    return null;
+  }
+
+  const targetId = req.params.userId as string;
+
+  if (targetId === req.userId) {
+    res.status(400).json({
+      error: 'Invalid operation',
+      message: `You cannot ${action} yourself`
+    });
+    return null;
+  }
+
+  const { data: target } = await supabase
+    .from('users')
+    .select('id')
+    .eq('id', targetId)
+    .single();
+
+  if (!target) {
+    res.status(404).json({ error: 'User not found' });
+    return null;
+  }
+
+  return targetId;
+}
+
+// POST /api/v1/users/:userId/block - Block a user (also removes follows in both directions)
+router.post('/:userId/block', validateUserId, authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const targetId = await resolveBlockTarget(req, res, 'block');
+    if (!targetId) return;
+
+    await blockUser(req.userId!, targetId);
+
+    res.status(200).json({ message: 'User blocked', blocked: true });
+  } catch (error) {
+    console.error('Block user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/v1/users/:userId/block - Unblock a user
+router.delete('/:userId/block', validateUserId, authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const targetId = await resolveBlockTarget(req, res, 'unblock');
+    if (!targetId) return;
+
+    await unblockUser(req.userId!, targetId);
+
+    res.status(200).json({ message: 'User unblocked', blocked: false });
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/v1/users/:userId/mute - Mute a user (hides their videos and comments from you)
+router.post('/:userId/mute', validateUserId, authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const targetId = await resolveBlockTarget(req, res, 'mute');
+    if (!targetId) return;
+
+    await muteUser(req.userId!, targetId);
+
+    res.status(200).json({ message: 'User muted', muted: true });
+  } catch (error) {
+    console.error('Mute user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/v1/users/:userId/mute - Unmute a user
+router.delete('/:userId/mute', validateUserId, authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const targetId = await resolveBlockTarget(req, res, 'unmute');
+    if (!targetId) return;
+
+    await unmuteUser(req.userId!, targetId);
+
+    res.status(200).json({ message: 'User unmuted', muted: false });
+  } catch (error) {
+    console.error('Unmute user error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/v1/users/:userId/search-history - The user's own searches, newest first
+router.get('/:userId/search-history',
+  validateUserId,
+  [
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+  ],
+  authenticateToken,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const userId = req.params.userId as string;
+
+      if (userId !== req.userId) {
+        res.status(403).json({
+          error: 'Authorization failed',
+          message: 'You can only view your own search history'
+        });
+        return;
+      }
+
+      const pageNum = parseInt(req.query.page as string) || 1;
+      const limitNum = parseInt(req.query.limit as string) || 20;
+      const { entries, total } = await listSearchHistory(userId, limitNum, (pageNum - 1) * limitNum);
+
+      res.status(200).json({
+        searches: entries,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        }
+      });
+    } catch (error) {
+      console.error('Get search history error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// DELETE /api/v1/users/:userId/search-history - Clear the user's search history
+router.delete('/:userId/search-history', validateUserId, authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
+    const userId = req.params.userId as string;
+
+    if (userId !== req.userId) {
+      res.status(403).json({
+        error: 'Authorization failed',
+        message: 'You can only clear your own search history'
+      });
+      return;
+    }
+
+    const deleted = await clearSearchHistory(userId);
+
+    res.status(200).json({
+      message: 'Search history cleared',
+      deleted
+    });
+  } catch (error) {
+    console.error('Clear search history error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/v1/users/:userId/blocks - Users you have blocked
+// GET /api/v1/users/:userId/mutes - Users you have muted
+for (const kind of ['blocks', 'mutes'] as const) {
+  router.get(`/:userId/${kind}`, validateUserId, authenticateToken, async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const { userId } = req.params;
+
+      if (userId !== req.userId) {
+        res.status(403).json({
+          error: 'Authorization failed',
+          message: `You can only view your own ${kind}`
+        });
+        return;
+      }
+
+      const users = await listBlockedOrMuted(kind, userId);
+
+      res.status(200).json({ users });
+    } catch (error) {
+      console.error(`Get ${kind} error:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+}
+
 // DELETE /api/v1/users/:userId - Delete user account
 router.delete('/:userId', validateUserId, authenticateToken, async (req: Request, res: Response): Promise<void> => {
   try {
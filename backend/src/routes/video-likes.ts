@@ -2,9 +2,24 @@ import { Router, Request, Response } from 'express';
 import { supabase } from '../config/supabase.js';
 import { authenticateToken, optionalAuth } from '../middleware/auth.js';
 import { queueNotification } from '../services/notificationGrouping.js';
+import { isBlocked } from '../services/userBlocks.js';
+import { getExperimentSubject, recordOutcome } from '../services/experiments.js';
 
 const router = Router();
 
+/**
+ * Like count from the videos.likes_count counter (db/add-engagement-counters.sql)
+ */
+async function getLikeCount(videoId: string): Promise<number> {
+  const { data } = await supabase
+    .from('videos')
+    .select('likes_count')
+    .eq('id', videoId)
+    .maybeSingle();
+
+  return data?.likes_count || 0;
+}
+
 // POST /api/v1/video-likes/:videoId - Like a video
 router.post('/:videoId', authenticateToken, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -55,11 +70,11 @@ router.post('/:videoId', authenticateToken, async (req: Request, res: Response):
       return;
     }
 
-    // Get updated like count
-    const { count } = await supabase
-      .from('video_likes')
-      .select('*', { count: 'exact', head: true })
-      .eq('video_id', videoId);
+    // Counter is updated by trg_video_likes_count in the same statement
+    const likeCount = await getLikeCount(videoId as string);
+
+    // Outcome for running A/B experiments (fire and forget)
+    recordOutcome(getExperimentSubject(req), 'like', videoId as string);
 
     // Send push notification to video owner (if not liking own video)
     try {
@@ -83,7 +98,9 @@ router.post('/:videoId', authenticateToken, async (req: Request, res: Response):
 
       console.log('📬 [VIDEO LIKE] Liker username:', liker?.username);
 
-      if (video && liker && video.user_id !== userId) {
+      // Likes from shadowbanned or blocked users count, but the owner isn't notified
+      const likerBlocked = !!video && video.user_id !== userId && await isBlocked(video.user_id, userId);
+      if (video && liker && video.user_id !== userId && !req.isShadowbanned && !likerBlocked) {
         console.log('📬 [VIDEO LIKE] ✅ Conditions met, queueing notification');
         await queueNotification(video.user_id, 'video_like', {
           username: liker.username,
@@ -104,7 +121,7 @@ router.post('/:videoId', authenticateToken, async (req: Request, res: Response):
     res.status(201).json({ 
       message: 'Video liked successfully',
       liked: true,
-      like_count: count || 0
+      like_count: likeCount
     });
   } catch (error) {
     console.error('Like video error:', error);
@@ -149,16 +166,13 @@ router.delete('/:videoId', authenticateToken, async (req: Request, res: Response
       return;
     }
 
-    // Get updated like count
-    const { count } = await supabase
-      .from('video_likes')
-      .select('*', { count: 'exact', head: true })
-      .eq('video_id', videoId);
+    // Counter is updated by trg_video_likes_count in the same statement
+    const likeCount = await getLikeCount(videoId as string);
 
     res.status(200).json({ 
       message: 'Video unliked successfully',
       liked: false,
-      like_count: count || 0
+      like_count: likeCount
     });
   } catch (error) {
     console.error('Unlike video error:', error);
@@ -177,11 +191,7 @@ router.get('/:videoId', optionalAuth, async (req: Request, res: Response): Promi
       return;
     }
 
-    // Get like count
-    const { count } = await supabase
-      .from('video_likes')
-      .select('*', { count: 'exact', head: true })
-      .eq('video_id', videoId);
+    const likeCount = await getLikeCount(videoId as string);
 
     // Check if current user liked this video (if authenticated)
     let userLiked = false;
@@ -198,7 +208,7 @@ router.get('/:videoId', optionalAuth, async (req: Request, res: Response): Promi
 
     res.status(200).json({
       video_id: videoId,
-      like_count: count || 0,
+      like_count: likeCount,
       user_liked: userLiked
     });
   } catch (error) {
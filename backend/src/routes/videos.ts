@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import { validationResult, body, param } from 'express-validator';
+import { validationResult, body, param, query } from 'express-validator';
 import crypto from 'crypto';
 import { supabase } from '../config/supabase.js';
 import { authenticateToken, optionalAuth } from '../middleware/auth.js';
@@ -12,6 +12,36 @@ import {
 } from '../services/youtube.js';
 import { queueNotification } from '../services/notificationGrouping.js';
 import { uploadLimiter } from '../middleware/rateLimiter.js';
+import { getHiddenAuthorIds } from '../services/sanctions.js';
+import { getMutedUserIds } from '../services/userBlocks.js';
+import { getProfileAccess, getHiddenPrivateAuthorIds, PRIVATE_ACCOUNT_ERROR } from '../services/privateAccounts.js';
+import { MAX_PETS_PER_VIDEO, ownsAllPets, setVideoPets, getPetsForVideos, findVideoIdsByPet } from '../services/pets.js';
+import { VIDEO_TAXONOMY, isValidSpecies, isValidBreed } from '../services/taxonomy.js';
+import { parseSearchFilters, buildSearchFacets } from '../services/searchFacets.js';
+import { SEARCH_SORTS, SearchSort, searchVideoIds, getFacetRows } from '../services/videoSearch.js';
+import { parseSearchQuery } from '../services/searchQuery.js';
+import { getRelevanceWeights, explainRelevance } from '../services/relevanceAlgorithm.js';
+import { getUserRole, roleHasPermission } from '../services/permissions.js';
+import { identifyVisitor } from '../middleware/visitor.js';
+import { recordSearchImpression, recordSearchClick, signImpressionToken, verifyImpressionToken } from '../services/searchAnalytics.js';
+import { getSearchSuggestions, recordSearchHistory, MAX_SUGGESTIONS } from '../services/searchHistory.js';
+import { getEngagementCounts, engagementFields } from '../services/videoEngagement.js';
+import {
+  TRENDING_WINDOWS,
+  TrendingWindow,
+  DEFAULT_TRENDING_WINDOW,
+  getTrendingSnapshot,
+  rankTrendingSnapshot,
+} from '../services/trending.js';
+import { MAX_RECOMMENDATIONS_PAGE, decodeCursor, getRecommendations } from '../services/recommendations.js';
+import {
+  getExperimentSubject,
+  getAssignment,
+  getVariantWeights,
+  getVariantTrendingFormula,
+  recordExposure,
+  recordOutcome,
+} from '../services/experiments.js';
 
 const router = Router();
 
@@ -54,6 +84,18 @@ async function checkAndUpdateAvailability(videoId: string, youtubeVideoId: strin
 }
 
 // Validation rules
+// Species/breed come from the curated taxonomy; a breed is only accepted together with its species
+const validateVideoTaxonomy = [
+  body('species')
+    .optional({ nullable: true })
+    .custom((value) => isValidSpecies(value))
+    .withMessage('Unknown species'),
+  body('breed')
+    .optional({ nullable: true })
+    .custom((value, { req }) => !!req.body.species && isValidBreed(req.body.species, value))
+    .withMessage('Unknown breed for this species')
+];
+
 const validateVideoCreation = [
   body('youtubeUrl')
     .trim()
@@ -75,7 +117,15 @@ const validateVideoCreation = [
     .optional()
     .trim()
     .isLength({ max: 5000 })
-    .withMessage('Description must not exceed 5000 characters')
+    .withMessage('Description must not exceed 5000 characters'),
+  body('pet_ids')
+    .optional()
+    .isArray({ max: MAX_PETS_PER_VIDEO })
+    .withMessage(`pet_ids must be a list of at most ${MAX_PETS_PER_VIDEO} pet IDs`),
+  body('pet_ids.*')
+    .isUUID()
+    .withMessage('Invalid pet ID'),
+  ...validateVideoTaxonomy
 ];
 
 const validateVideoUpdate = [
@@ -89,7 +139,42 @@ const validateVideoUpdate = [
     .optional()
     .trim()
     .isLength({ max: 5000 })
-    .withMessage('Description must not exceed 5000 characters')
+    .withMessage('Description must not exceed 5000 characters'),
+  body('pet_ids')
+    .optional()
+    .isArray({ max: MAX_PETS_PER_VIDEO })
+    .withMessage(`pet_ids must be a list of at most ${MAX_PETS_PER_VIDEO} pet IDs`),
+  body('pet_ids.*')
+    .isUUID()
+    .withMessage('Invalid pet ID'),
+  ...validateVideoTaxonomy
+];
+
+const validateSearchFilters = [
+  query('species')
+    .optional({ checkFalsy: true })
+    .custom((value) => isValidSpecies(value))
+    .withMessage('Unknown species'),
+  query('breed')
+    .optional({ checkFalsy: true })
+    .isLength({ max: 50 })
+    .withMessage('Invalid breed'),
+  query('uploader')
+    .optional({ checkFalsy: true })
+    .isUUID()
+    .withMessage('Invalid uploader ID'),
+  query('from')
+    .optional({ checkFalsy: true })
+    .isISO8601()
+    .withMessage('from must be a date (YYYY-MM-DD)'),
+  query('to')
+    .optional({ checkFalsy: true })
+    .isISO8601()
+    .withMessage('to must be a date (YYYY-MM-DD)'),
+  query('explain')
+    .optional()
+    .isBoolean()
+    .withMessage('explain must be true or false')
 ];
 
 // POST /api/v1/videos - Share a YouTube video
@@ -107,7 +192,7 @@ router.post('/', uploadLimiter, authenticateToken, validateVideoCreation, async
       return;
     }
 
-    const { youtubeUrl, title, description } = req.body;
+    const { youtubeUrl, title, description, pet_ids, species, breed } = req.body;
     const userId = req.userId!;
 
     // Extract video ID
@@ -144,6 +229,16 @@ router.post('/', uploadLimiter, authenticateToken, validateVideoCreation, async
       return;
     }
 
+    // Pet tags must be the sharer's own pets
+    const petIds: string[] = pet_ids || [];
+    if (petIds.length > 0 && !(await ownsAllPets(userId, petIds))) {
+      res.status(400).json({
+        error: 'Invalid pets',
+        message: 'You can only tag your own pets'
+      });
+      return;
+    }
+
     // Create video record
     const { data: newVideo, error: insertError } = await supabase
       .from('videos')
@@ -151,7 +246,9 @@ router.post('/', uploadLimiter, authenticateToken, validateVideoCreation, async
         youtube_video_id: videoId,
         title: title || metadata.title,
         description: description || metadata.description,
-        user_id: userId
+        user_id: userId,
+        species: species || null,
+        breed: breed || null
         // view_count will use database default (0) if column exists
       })
       .select(`
@@ -160,6 +257,8 @@ router.post('/', uploadLimiter, authenticateToken, validateVideoCreation, async
         title,
         description,
         user_id,
+        species,
+        breed,
         created_at,
         updated_at
       `)
@@ -183,6 +282,15 @@ router.post('/', uploadLimiter, authenticateToken, validateVideoCreation, async
       return;
     }
 
+    if (petIds.length > 0) {
+      try {
+        await setVideoPets(newVideo.id, userId, petIds);
+      } catch (petError) {
+        console.error('Failed to tag video pets:', petError);
+        // Don't fail the share if tagging fails - pets can be tagged later
+      }
+    }
+
     // Send push notifications to followers
     try {
       // Get user's username
@@ -192,7 +300,8 @@ router.post('/', uploadLimiter, authenticateToken, validateVideoCreation, async
         .eq('id', userId)
         .single();
 
-      if (user) {
+      // Shadowbanned uploads stay silent - followers aren't told about them
+      if (user && !req.isShadowbanned) {
         // Get all followers
         const { data: followers } = await supabase
           .from('followers')
@@ -217,9 +326,11 @@ router.post('/', uploadLimiter, authenticateToken, validateVideoCreation, async
       // Don't fail the request if notification fails
     }
 
+    const petsByVideo = await getPetsForVideos([newVideo.id]);
+
     res.status(201).json({
       message: 'Video shared successfully',
-      video: newVideo
+      video: { ...newVideo, pets: petsByVideo.get(newVideo.id) || [] }
     });
   } catch (error: any) {
     console.error('Share video error:', error);
@@ -233,13 +344,33 @@ router.post('/', uploadLimiter, authenticateToken, validateVideoCreation, async
 });
 
 // GET /api/v1/videos/search - Search Petflix's shared videos (query optional - can browse all)
-router.get('/search', optionalAuth, async (req: Request, res: Response): Promise<void> => {
+// Matching, filtering, ranking and pagination run in Postgres (search_videos), so the order
+// is global rather than a re-sort of one page
+router.get('/search', optionalAuth, identifyVisitor, validateSearchFilters, async (req: Request, res: Response): Promise<void> => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ error: 'Validation failed', details: errors.array() });
+      return;
+    }
+
     const { q, sort, page, limit: limitParam, show_unavailable } = req.query;
+    const filters = parseSearchFilters(req.query);
 
-    const sortOption = (sort as string) || 'relevance'; // Default to relevance
+    // Explain mode (per-component relevance breakdown) is for admins tuning the weights
+    const explain = req.query.explain === 'true';
+    if (explain && (!req.userId || !roleHasPermission(await getUserRole(req.userId), 'relevance.edit'))) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Missing permission: relevance.edit',
+        required_permission: 'relevance.edit',
+      });
+      return;
+    }
+
+    const sortOption: SearchSort = SEARCH_SORTS.includes(sort as SearchSort) ? sort as SearchSort : 'relevance'; // Default to relevance
     const hasQuery = q && typeof q === 'string' && q.trim().length > 0;
-    const searchTerm = hasQuery ? `%${q}%` : null; // For ILIKE pattern matching
+    const searchQuery = hasQuery ? (q as string).trim() : null;
     const showUnavailable = show_unavailable === 'true';
     
     // Pagination
@@ -247,39 +378,70 @@ router.get('/search', optionalAuth, async (req: Request, res: Response): Promise
     const pageSize = Math.min(parseInt(limitParam as string) || 20, 100); // Max 100 per page
     const offset = (pageNum - 1) * pageSize;
 
-    // Build query - if no search query, get all videos
-    let videosQuery = supabase
-      .from('videos')
-      .select(`
-        id,
-        youtube_video_id,
-        title,
-        description,
-        created_at,
-        view_count,
-        user_id,
-        is_available,
-        last_availability_check,
-        users!videos_user_id_fkey (
-          id,
-          username,
-          profile_picture_url
-        )
-      `, { count: 'exact' }); // Get total count for pagination
+    // Shadowbanned uploaders only ever see their own videos; muted users are hidden from the muter
+    const subject = getExperimentSubject(req);
+    const [hiddenAuthorIds, mutedUserIds, petVideoIds, parsedQuery, assignment] = await Promise.all([
+      getHiddenAuthorIds(req.userId),
+      getMutedUserIds(req.userId),
+      // Text match also covers videos tagged with a pet of that name or breed
+      searchQuery ? findVideoIdsByPet(searchQuery) : Promise.resolve([] as string[]),
+      // Synonym expansion and typo correction
+      parseSearchQuery(searchQuery),
+      // A/B experiment on search ranking, if one is running
+      getAssignment('search', subject),
+    ]);
+    const variantWeights = getVariantWeights(assignment);
+
+    const searchOptions = {
+      query: parsedQuery.tsquery,
+      includeUnavailable: showUnavailable,
+      excludedUserIds: [...hiddenAuthorIds, ...mutedUserIds],
+      extraVideoIds: petVideoIds,
+      viewerId: req.userId || null,
+    };
 
-    // Filter out unavailable videos unless explicitly requested
-    if (!showUnavailable) {
-      videosQuery = videosQuery.eq('is_available', true);
-    }
+    // Facet counts are taken over the text matches, before the facet filters narrow them
+    const [{ results, total }, facetRows, weights] = await Promise.all([
+      searchVideoIds({ ...searchOptions, sort: sortOption, filters, limit: pageSize, offset, weights: variantWeights }),
+      getFacetRows(searchOptions).catch((facetError) => {
+        // Results are still useful without facet counts
+        console.error('Search facets error:', facetError);
+        return [];
+      }),
+      explain ? (variantWeights ? Promise.resolve(variantWeights) : getRelevanceWeights()) : Promise.resolve(null),
+    ]);
+    const facets = buildSearchFacets(facetRows, filters);
 
-    // Apply search filter only if query exists
-    if (hasQuery && searchTerm) {
-      videosQuery = videosQuery.or(`title.ilike.${searchTerm},description.ilike.${searchTerm}`);
+    // Variants only change relevance ranking, so other sorts are not exposures
+    if (assignment && subject && sortOption === 'relevance') {
+      recordExposure(assignment, subject);
     }
 
-    // Apply pagination
-    const { data: videos, error, count } = await videosQuery
-      .range(offset, offset + pageSize - 1);
+    // Load the page's videos, then put them back in ranked order
+    const videoIds = results.map(result => result.video_id);
+    const { data: videos, error } = videoIds.length > 0
+      ? await supabase
+          .from('videos')
+          .select(`
+            id,
+            youtube_video_id,
+            title,
+            description,
+            created_at,
+            view_count,
+            user_id,
+            species,
+            breed,
+            is_available,
+            last_availability_check,
+            users!videos_user_id_fkey (
+              id,
+              username,
+              profile_picture_url
+            )
+          `)
+          .in('id', videoIds)
+      : { data: [], error: null };
 
     if (error) {
       console.error('Search error:', error);
@@ -287,130 +449,90 @@ router.get('/search', optionalAuth, async (req: Request, res: Response): Promise
       return;
     }
 
-    // Fetch engagement metrics and sort based on sort option
-    let videosWithMetrics = await Promise.all((videos || []).map(async (video: any) => {
-      const user = Array.isArray(video.users) ? video.users[0] : video.users;
-      
-      // Get engagement metrics (PRD: likes, comments, shares)
-      const { count: likesCount } = await supabase
-        .from('video_likes')
-        .select('*', { count: 'exact', head: true })
-        .eq('video_id', video.id);
-
-      const { count: commentsCount } = await supabase
-        .from('comments')
-        .select('*', { count: 'exact', head: true })
-        .eq('video_id', video.id);
-
-      // Get share count (sum of click_count from shareable_urls for this video)
-      const { data: shareableUrls } = await supabase
-        .from('shareable_urls')
-        .select('click_count')
-        .eq('video_id', video.id);
-      
-      const sharesCount = shareableUrls?.reduce((sum, url) => sum + (url.click_count || 0), 0) || 0;
+    const videosById = new Map((videos || []).map((video: any) => [video.id, video]));
 
-      // Engagement = likes + comments + shares (per PRD requirement)
-      const engagement = (likesCount || 0) + (commentsCount || 0) + sharesCount;
+    // Format the response (include relevance score if sorting by relevance)
+    const formattedVideos = results
+      .filter(result => videosById.has(result.video_id))
+      .map(result => {
+        const video: any = videosById.get(result.video_id);
+        const user = Array.isArray(video.users) ? video.users[0] : video.users;
+
+        return {
+          id: video.id,
+          youtube_video_id: video.youtube_video_id,
+          title: video.title,
+          description: video.description,
+          thumbnail_url: `https://img.youtube.com/vi/${video.youtube_video_id}/mqdefault.jpg`,
+          created_at: video.created_at,
+          view_count: video.view_count || 0,
+          // Engagement = likes + comments + shares (per PRD requirement)
+          likes_count: result.likes_count,
+          comments_count: result.comments_count,
+          engagement: result.likes_count + result.comments_count + result.shares_count,
+          species: video.species || null,
+          breed: video.breed || null,
+          is_available: video.is_available !== false, // Default to true if null
+          user: {
+            id: user?.id,
+            username: user?.username,
+            profile_picture_url: user?.profile_picture_url
+          },
+          ...(sortOption === 'relevance' && {
+            relevance_score: Math.round(result.relevance_score * 100) / 100, // Round to 2 decimals
+          }),
+          ...(weights && { explain: explainRelevance(result.components, weights) }),
+        };
+      });
 
-      return {
-        id: video.id,
-        youtube_video_id: video.youtube_video_id,
-        title: video.title,
-        description: video.description,
-        thumbnail_url: `https://img.youtube.com/vi/${video.youtube_video_id}/mqdefault.jpg`,
-        created_at: video.created_at,
-        view_count: video.view_count || 0,
-        likes_count: likesCount || 0,
-        comments_count: commentsCount || 0,
-        engagement: engagement,
-        is_available: video.is_available !== false, // Default to true if null
-        user: {
-          id: user.id,
-          username: user.username,
-          profile_picture_url: user.profile_picture_url
-        }
-      };
-    }));
+    // Committed searches (log=true: submitted, picked, or re-sorted/filtered) are logged now;
+    // as-you-type ones get a token the client commits once the results settle or get a click
+    const logImpression = req.query.log === 'true';
 
-    // Sort based on sort option
-    switch (sortOption) {
-      case 'recency':
-        videosWithMetrics.sort((a, b) => 
-          new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        );
-        break;
-      case 'view_count':
-        videosWithMetrics.sort((a, b) => b.view_count - a.view_count);
-        break;
-      case 'engagement':
-        videosWithMetrics.sort((a, b) => b.engagement - a.engagement);
-        break;
-      case 'relevance':
-      default:
-        // Calculate relevance scores and sort
-        const { calculateRelevanceScore, getRelevanceWeights } = await import('../services/relevanceAlgorithm.js');
-        const weights = await getRelevanceWeights();
-        
-        const videosWithRelevance = await Promise.all(
-          videosWithMetrics.map(video => 
-            calculateRelevanceScore(video, hasQuery ? (q as string) : '', weights)
-          )
-        );
-        
-        // Sort by relevance score (highest first)
-        videosWithRelevance.sort((a, b) => b.relevanceScore - a.relevanceScore);
-        
-        // Replace videosWithMetrics with relevance-sorted videos
-        videosWithMetrics = videosWithRelevance;
-        break;
+    // Track search history (fire and forget) - only committed searches with a query
+    const userId = req.userId || null;
+    if (userId && searchQuery && logImpression) {
+      recordSearchHistory(userId, searchQuery, total);
     }
 
-    // Format the response (include relevance score if sorting by relevance)
-    const formattedVideos = videosWithMetrics.map((video: any) => ({
-      id: video.id,
-      youtube_video_id: video.youtube_video_id,
-      title: video.title,
-      description: video.description,
-      thumbnail_url: video.thumbnail_url,
-      created_at: video.created_at,
-      user: video.user,
-      ...(sortOption === 'relevance' && video.relevanceScore !== undefined && {
-        relevance_score: Math.round(video.relevanceScore * 100) / 100, // Round to 2 decimals
-      }),
-    }));
-
-    // Track search history (async, don't wait for it) - only if there was a query
-    const userId = req.userId || null;
-    if (userId && hasQuery && q) {
-      // Fire and forget - don't wait for it
-      Promise.resolve(supabase
-        .from('search_history')
-        .insert({
-          user_id: userId,
-          search_query: q as string,
-          search_results_count: formattedVideos.length
-        }))
-        .then(() => {
-          // Success - no need to log
-        })
-        .catch((err: any) => {
-          console.error('Failed to track search history:', err);
-        });
+    // Impression for click-through analytics; the client echoes search_id back with clicks
+    const searchId = searchQuery ? crypto.randomUUID() : null;
+    let impressionToken: string | null = null;
+    if (searchId && searchQuery) {
+      const impression = {
+        id: searchId,
+        userId,
+        query: searchQuery,
+        sort: sortOption,
+        resultsCount: total,
+        videoIds: formattedVideos.map(video => video.id),
+        offset,
+      };
+      if (logImpression) {
+        recordSearchImpression(impression);
+      } else {
+        impressionToken = signImpressionToken(impression);
+      }
     }
 
     // Calculate pagination metadata
-    const totalPages = count ? Math.ceil(count / pageSize) : 1;
+    const totalPages = total ? Math.ceil(total / pageSize) : 1;
     const hasNextPage = pageNum < totalPages;
     const hasPrevPage = pageNum > 1;
 
     // Send response immediately
     res.status(200).json({
       videos: formattedVideos,
+      facets,
+      filters,
+      did_you_mean: parsedQuery.didYouMean,
+      search_id: searchId,
+      ...(impressionToken && { impression_token: impressionToken }),
+      ...(weights && { relevance_weights: weights }),
       pagination: {
         current_page: pageNum,
         per_page: pageSize,
-        total: count || 0,
+        total: total,
         total_pages: totalPages,
         has_next_page: hasNextPage,
         has_prev_page: hasPrevPage
@@ -432,8 +554,243 @@ router.get('/search', optionalAuth, async (req: Request, res: Response): Promise
   }
 });
 
+// GET /api/v1/videos/trending - Trending videos for a time window (read from the latest snapshot)
+router.get('/trending',
+  optionalAuth,
+  identifyVisitor,
+  [
+    query('window')
+      .optional()
+      .isIn(TRENDING_WINDOWS)
+      .withMessage(`window must be one of: ${TRENDING_WINDOWS.join(', ')}`),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('limit must be between 1 and 50'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const window = (req.query.window as TrendingWindow) || DEFAULT_TRENDING_WINDOW;
+      const limit = parseInt(req.query.limit as string) || 12;
+
+      // A/B experiment on the trending formula, if one is running
+      const subject = getExperimentSubject(req);
+      const assignment = await getAssignment('trending', subject);
+      const formula = getVariantTrendingFormula(assignment);
+
+      const snapshot = await getTrendingSnapshot(window);
+      if (!snapshot) {
+        res.status(200).json({ videos: [], window, computed_at: null });
+        return;
+      }
+
+      // Snapshots are shared by everyone, so private accounts are filtered per viewer here
+      const [entries, hiddenAuthorIds, privateAuthorIds] = await Promise.all([
+        rankTrendingSnapshot(snapshot.id, formula),
+        getHiddenAuthorIds(req.userId),
+        getHiddenPrivateAuthorIds(req.userId),
+      ]);
+      const excludedAuthorIds = [...hiddenAuthorIds, ...privateAuthorIds];
+
+      // Over-fetch a little: some candidates may have been hidden since the snapshot was taken
+      const candidates = entries.slice(0, limit * 2);
+
+      let videosQuery = supabase
+        .from('videos')
+        .select(`
+          id,
+          youtube_video_id,
+          title,
+          description,
+          created_at,
+          view_count,
+          likes_count,
+          comments_count,
+          shares_count,
+          user_id,
+          users:user_id (
+            username,
+            profile_picture_url
+          )
+        `)
+        .in('id', candidates.map(entry => entry.video_id))
+        .eq('is_hidden', false);
+
+      if (excludedAuthorIds.length > 0) {
+        videosQuery = videosQuery.not('user_id', 'in', `(${excludedAuthorIds.join(',')})`);
+      }
+
+      const { data: videos, error } = await videosQuery;
+
+      if (error) {
+        console.error('Error fetching trending videos:', error);
+        res.status(500).json({ error: 'Failed to fetch trending videos' });
+        return;
+      }
+
+      if (assignment && subject) {
+        recordExposure(assignment, subject);
+      }
+
+      const videosById = new Map((videos || []).map((video: any) => [video.id, video]));
+
+      // Flatten the response, in trending order
+      const formattedVideos = candidates
+        .filter(entry => videosById.has(entry.video_id))
+        .slice(0, limit)
+        .map(entry => {
+          const video = videosById.get(entry.video_id);
+          const user = video.users;
+          return {
+            id: video.id,
+            youtube_video_id: video.youtube_video_id,
+            title: video.title,
+            description: video.description,
+            created_at: video.created_at,
+            shared_by_user_id: video.user_id,
+            username: user?.username || null,
+            profile_picture_url: user?.profile_picture_url || null,
+            view_count: video.view_count || 0,
+            likes_count: video.likes_count || 0,
+            comments_count: video.comments_count || 0,
+            shares_count: video.shares_count || 0,
+            trending_score: entry.trending_score,
+            recent_views: entry.recent_views,
+            recent_likes: entry.recent_likes,
+            recent_comments: entry.recent_comments
+          };
+        });
+
+      res.status(200).json({
+        videos: formattedVideos,
+        window,
+        computed_at: snapshot.computed_at
+      });
+    } catch (error) {
+      console.error('Get trending videos error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// GET /api/v1/videos/for-you - Personalised recommendations (cursor-paginated)
+router.get('/for-you',
+  authenticateToken,
+  [
+    query('cursor').optional().isString().isLength({ max: 200 }),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: MAX_RECOMMENDATIONS_PAGE })
+      .withMessage(`limit must be between 1 and ${MAX_RECOMMENDATIONS_PAGE}`),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const cursor = req.query.cursor ? decodeCursor(req.query.cursor as string) : null;
+      if (req.query.cursor && !cursor) {
+        res.status(400).json({ error: 'Invalid cursor' });
+        return;
+      }
+
+      const limit = parseInt(req.query.limit as string) || 20;
+      const userId = req.userId!;
+
+      // Shadowbanned and muted uploaders are never recommended
+      const [hiddenAuthorIds, mutedUserIds] = await Promise.all([
+        getHiddenAuthorIds(userId),
+        getMutedUserIds(userId),
+      ]);
+
+      const { recommendations, nextCursor } = await getRecommendations(userId, {
+        cursor,
+        limit,
+        excludedUserIds: [...hiddenAuthorIds, ...mutedUserIds],
+      });
+
+      let videosById = new Map<string, any>();
+      if (recommendations.length > 0) {
+        const { data: videos, error } = await supabase
+          .from('videos')
+          .select(`
+            id,
+            youtube_video_id,
+            title,
+            description,
+            created_at,
+            view_count,
+            likes_count,
+            comments_count,
+            shares_count,
+            species,
+            breed,
+            user_id,
+            users:user_id (
+              username,
+              profile_picture_url
+            )
+          `)
+          .in('id', recommendations.map(recommendation => recommendation.video_id));
+
+        if (error) {
+          console.error('Error fetching recommended videos:', error);
+          res.status(500).json({ error: 'Failed to fetch recommendations' });
+          return;
+        }
+
+        videosById = new Map((videos || []).map((video: any) => [video.id, video]));
+      }
+
+      // Flatten the response, in recommendation order
+      const formattedVideos = recommendations
+        .filter(recommendation => videosById.has(recommendation.video_id))
+        .map(recommendation => {
+          const video = videosById.get(recommendation.video_id);
+          const user = video.users;
+          return {
+            id: video.id,
+            youtube_video_id: video.youtube_video_id,
+            title: video.title,
+            description: video.description,
+            created_at: video.created_at,
+            shared_by_user_id: video.user_id,
+            username: user?.username || null,
+            profile_picture_url: user?.profile_picture_url || null,
+            view_count: video.view_count || 0,
+            likes_count: video.likes_count || 0,
+            comments_count: video.comments_count || 0,
+            shares_count: video.shares_count || 0,
+            species: video.species || null,
+            breed: video.breed || null,
+            reason: recommendation.reason
+          };
+        });
+
+      res.status(200).json({
+        videos: formattedVideos,
+        next_cursor: nextCursor
+      });
+    } catch (error) {
+      console.error('Get recommendations error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// GET /api/v1/videos/taxonomy - Curated species and breeds for categorising videos
+router.get('/taxonomy', (_req: Request, res: Response): void => {
+  res.status(200).json({ species: VIDEO_TAXONOMY });
+});
+
 // GET /api/v1/videos/:videoId - Get video details
-router.get('/:videoId', optionalAuth, async (req: Request, res: Response): Promise<void> => {
+router.get('/:videoId', optionalAuth, identifyVisitor, async (req: Request, res: Response): Promise<void> => {
   try {
     const { videoId } = req.params;
 
@@ -452,7 +809,13 @@ router.get('/:videoId', optionalAuth, async (req: Request, res: Response): Promi
         created_at,
         updated_at,
         view_count,
+        likes_count,
+        comments_count,
+        shares_count,
         user_id,
+        species,
+        breed,
+        is_hidden,
         users!user_id (
           username,
           profile_picture_url
@@ -477,11 +840,23 @@ router.get('/:videoId', optionalAuth, async (req: Request, res: Response): Promi
       return;
     }
 
-    if (!video) {
+    // Videos hidden by moderation or from shadowbanned uploaders are only visible to their owner
+    const hiddenAuthorIds = await getHiddenAuthorIds(req.userId);
+    if (!video || (video.is_hidden && video.user_id !== req.userId) || hiddenAuthorIds.includes(video.user_id)) {
       res.status(404).json({ error: 'Video not found' });
       return;
     }
 
+    // Private accounts' videos are only visible to the owner and approved followers
+    const access = await getProfileAccess(video.user_id, req.userId);
+    if (!access.canView) {
+      res.status(403).json(PRIVATE_ACCOUNT_ERROR);
+      return;
+    }
+
+    // Opening the watch page counts as a watch start for running experiments (fire and forget)
+    recordOutcome(getExperimentSubject(req), 'watch_start', video.id);
+
     // Track view with 24-hour cooldown per user/IP (YouTube-like behavior)
     const userId = req.userId || null;
     const ipAddress = req.ip || req.socket.remoteAddress || null;
@@ -587,7 +962,13 @@ router.get('/:videoId', optionalAuth, async (req: Request, res: Response): Promi
       shared_by_user_id: video.user_id,
       username: user?.username || null,
       profile_picture_url: user?.profile_picture_url || null,
-      view_count: (video as any).view_count || 0
+      view_count: (video as any).view_count || 0,
+      likes_count: video.likes_count || 0,
+      comments_count: video.comments_count || 0,
+      shares_count: video.shares_count || 0,
+      species: video.species || null,
+      breed: video.breed || null,
+      pets: (await getPetsForVideos([video.id])).get(video.id) || []
     };
 
     res.status(200).json(formattedVideo);
@@ -612,7 +993,7 @@ router.patch('/:videoId', authenticateToken, validateVideoUpdate, async (req: Re
     }
 
     const { videoId } = req.params;
-    const { title, description } = req.body;
+    const { title, description, pet_ids, species, breed } = req.body;
     const userId = req.userId!;
 
     // Check video exists and belongs to user
@@ -636,22 +1017,36 @@ router.patch('/:videoId', authenticateToken, validateVideoUpdate, async (req: Re
     }
 
     // Build update object
-    const updates: { title?: string; description?: string } = {};
+    const updates: { title?: string; description?: string; species?: string | null; breed?: string | null } = {};
     if (title !== undefined) updates.title = title;
     if (description !== undefined) updates.description = description;
+    if (species !== undefined) {
+      updates.species = species || null;
+      // Changing the species drops a breed that isn't resent with it
+      updates.breed = breed || null;
+    }
 
-    if (Object.keys(updates).length === 0) {
+    if (Object.keys(updates).length === 0 && pet_ids === undefined) {
       res.status(400).json({ error: 'No valid fields to update' });
       return;
     }
 
-    // Update video
-    const { data: updatedVideo, error: updateError } = await supabase
-      .from('videos')
-      .update(updates)
-      .eq('id', videoId)
-      .select()
-      .single();
+    // Replace pet tags (only the sharer's own pets can be tagged)
+    if (pet_ids !== undefined) {
+      const tagged = await setVideoPets(videoId as string, userId, pet_ids);
+      if (!tagged) {
+        res.status(400).json({
+          error: 'Invalid pets',
+          message: 'You can only tag your own pets'
+        });
+        return;
+      }
+    }
+
+    // Update video (or just reload it when only the pet tags changed)
+    const { data: updatedVideo, error: updateError } = Object.keys(updates).length > 0
+      ? await supabase.from('videos').update(updates).eq('id', videoId).select().single()
+      : await supabase.from('videos').select().eq('id', videoId).single();
 
     if (updateError || !updatedVideo) {
       console.error('Video update error:', updateError);
@@ -659,9 +1054,11 @@ router.patch('/:videoId', authenticateToken, validateVideoUpdate, async (req: Re
       return;
     }
 
+    const petsByVideo = await getPetsForVideos([updatedVideo.id]);
+
     res.status(200).json({
       message: 'Video updated successfully',
-      video: updatedVideo
+      video: { ...updatedVideo, pets: petsByVideo.get(updatedVideo.id) || [] }
     });
   } catch (error) {
     console.error('Update video error:', error);
@@ -888,99 +1285,6 @@ router.get('/:videoId/share-stats', authenticateToken, async (req: Request, res:
   }
 });
 
-// GET /api/v1/videos/trending - Get trending videos
-router.get('/trending', optionalAuth, async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { limit = 12 } = req.query;
-    const hoursAgo = 24; // Trending based on last 24 hours
-
-    // Get videos with engagement metrics from last 24 hours
-    const { data: videos, error } = await supabase
-      .from('videos')
-      .select(`
-        id,
-        youtube_video_id,
-        title,
-        description,
-        created_at,
-        view_count,
-        user_id,
-        users:user_id (
-          username,
-          profile_picture_url
-        )
-      `)
-      .gte('created_at', new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString())
-      .order('view_count', { ascending: false })
-      .limit(Number(limit));
-
-    if (error) {
-      console.error('Error fetching trending videos:', error);
-      res.status(500).json({ error: 'Failed to fetch trending videos' });
-      return;
-    }
-
-    // Calculate trending score: view velocity + engagement
-    const videosWithScore = await Promise.all((videos || []).map(async (video: any) => {
-      // Get views in last 24 hours
-      const { count: recentViews } = await supabase
-        .from('video_views')
-        .select('*', { count: 'exact', head: true })
-        .eq('video_id', video.id)
-        .gte('viewed_at', new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString());
-
-      // Get likes count
-      const { count: likesCount } = await supabase
-        .from('video_likes')
-        .select('*', { count: 'exact', head: true })
-        .eq('video_id', video.id);
-
-      // Get comments count
-      const { count: commentsCount } = await supabase
-        .from('comments')
-        .select('*', { count: 'exact', head: true })
-        .eq('video_id', video.id);
-
-      // Calculate trending score: view velocity (recent views) + engagement (likes + comments)
-      const viewVelocity = recentViews || 0;
-      const engagement = (likesCount || 0) + (commentsCount || 0);
-      const trendingScore = viewVelocity * 2 + engagement; // Weight view velocity more
-
-      return {
-        ...video,
-        trending_score: trendingScore,
-        recent_views: recentViews || 0,
-        likes_count: likesCount || 0,
-        comments_count: commentsCount || 0
-      };
-    }));
-
-    // Sort by trending score
-    videosWithScore.sort((a, b) => b.trending_score - a.trending_score);
-
-    // Flatten the response
-    const formattedVideos = videosWithScore.map((video: any) => {
-      const user = video.users;
-      return {
-        id: video.id,
-        youtube_video_id: video.youtube_video_id,
-        title: video.title,
-        description: video.description,
-        created_at: video.created_at,
-        shared_by_user_id: video.user_id,
-        username: user?.username || null,
-        profile_picture_url: user?.profile_picture_url || null,
-        view_count: video.view_count || 0
-      };
-    });
-
-    res.status(200).json({ videos: formattedVideos });
-  } catch (error) {
-    console.error('Get trending videos error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
 // GET /api/v1/videos - Get all videos (for feed)
 router.get('/', optionalAuth, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -1003,13 +1307,24 @@ router.get('/', optionalAuth, async (req: Request, res: Response): Promise<void>
           username,
           profile_picture_url
         )
-      `);
+      `)
+      .eq('is_hidden', false);
 
     // Filter out unavailable videos unless explicitly requested
     if (!showUnavailable) {
       query = query.eq('is_available', true);
     }
 
+    // Shadowbanned authors, and private accounts the viewer doesn't follow
+    const [hiddenAuthorIds, privateAuthorIds] = await Promise.all([
+      getHiddenAuthorIds(req.userId),
+      getHiddenPrivateAuthorIds(req.userId),
+    ]);
+    const excludedAuthorIds = [...hiddenAuthorIds, ...privateAuthorIds];
+    if (excludedAuthorIds.length > 0) {
+      query = query.not('user_id', 'in', `(${excludedAuthorIds.join(',')})`);
+    }
+
     const { data: videos, error } = await query
       .order('created_at', { ascending: false })
       .range(Number(offset), Number(offset) + Number(limit) - 1);
@@ -1020,6 +1335,8 @@ router.get('/', optionalAuth, async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    const engagementCounts = await getEngagementCounts((videos || []).map((video: any) => video.id));
+
     // Flatten the response for frontend
     const formattedVideos = videos?.map((video: any) => {
       const user = video.users;
@@ -1032,7 +1349,9 @@ router.get('/', optionalAuth, async (req: Request, res: Response): Promise<void>
         shared_by_user_id: video.user_id,
         username: user?.username || null,
         profile_picture_url: user?.profile_picture_url || null,
-        is_available: video.is_available !== false // Default to true if null
+        is_available: video.is_available !== false, // Default to true if null
+        view_count: video.view_count || 0,
+        ...engagementFields(engagementCounts, video.id)
       };
     }) || [];
 
@@ -1061,6 +1380,20 @@ router.get('/user/:userId', optionalAuth, async (req: Request, res: Response): P
       return;
     }
 
+    // A shadowbanned user's videos are only listed for themselves
+    const hiddenAuthorIds = await getHiddenAuthorIds(req.userId);
+    if (hiddenAuthorIds.includes(userId as string)) {
+      res.status(200).json({ videos: [] });
+      return;
+    }
+
+    // Private accounts only list videos for the owner and approved followers
+    const access = await getProfileAccess(userId as string, req.userId);
+    if (!access.canView) {
+      res.status(403).json(PRIVATE_ACCOUNT_ERROR);
+      return;
+    }
+
     const { data: videos, error } = await supabase
       .from('videos')
       .select(`
@@ -1069,6 +1402,7 @@ router.get('/user/:userId', optionalAuth, async (req: Request, res: Response): P
         title,
         description,
         created_at,
+        view_count,
         user_id,
         users:user_id (
           username,
@@ -1076,6 +1410,7 @@ router.get('/user/:userId', optionalAuth, async (req: Request, res: Response): P
         )
       `)
       .eq('user_id', userId)
+      .eq('is_hidden', false)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -1084,6 +1419,8 @@ router.get('/user/:userId', optionalAuth, async (req: Request, res: Response): P
       return;
     }
 
+    const engagementCounts = await getEngagementCounts((videos || []).map((video: any) => video.id));
+
     // Flatten the response for frontend
     const formattedVideos = videos?.map((video: any) => {
       const user = video.users;
@@ -1095,7 +1432,9 @@ router.get('/user/:userId', optionalAuth, async (req: Request, res: Response): P
         created_at: video.created_at,
         shared_by_user_id: video.user_id,
         username: user?.username || null,
-        profile_picture_url: user?.profile_picture_url || null
+        profile_picture_url: user?.profile_picture_url || null,
+        view_count: video.view_count || 0,
+        ...engagementFields(engagementCounts, video.id)
       };
     }) || [];
 
@@ -1106,6 +1445,108 @@ router.get('/user/:userId', optionalAuth, async (req: Request, res: Response): P
   }
 });
 
+// GET /api/v1/videos/search/suggest - Autocomplete: recent and popular queries plus matching titles
+router.get('/search/suggest',
+  optionalAuth,
+  [
+    query('q').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Query must be 1-100 characters'),
+    query('limit').optional().isInt({ min: 1, max: MAX_SUGGESTIONS }),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      // Same visibility rules as search results
+      const [hiddenAuthorIds, mutedUserIds] = await Promise.all([
+        getHiddenAuthorIds(req.userId),
+        getMutedUserIds(req.userId),
+      ]);
+
+      const suggestions = await getSearchSuggestions({
+        prefix: req.query.q as string,
+        userId: req.userId,
+        excludedUserIds: [...hiddenAuthorIds, ...mutedUserIds],
+        limit: parseInt(req.query.limit as string) || 8,
+      });
+
+      res.status(200).json({ suggestions });
+    } catch (error) {
+      console.error('Search suggest error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// POST /api/v1/videos/search/impressions - Commit an as-you-type search once its results settled
+router.post('/search/impressions',
+  [
+    body('impression_token').isString().notEmpty().withMessage('Impression token is required'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const impression = verifyImpressionToken(req.body.impression_token);
+      if (!impression) {
+        res.status(400).json({ error: 'Invalid or expired impression token' });
+        return;
+      }
+
+      // Committed twice (settled, then clicked) only counts once
+      const logged = await recordSearchImpression(impression);
+      if (logged && impression.userId) {
+        await recordSearchHistory(impression.userId, impression.query, impression.resultsCount);
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Search impression error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// POST /api/v1/videos/search/clicks - Search result click beacon (position is looked up server-side)
+router.post('/search/clicks',
+  optionalAuth,
+  identifyVisitor,
+  [
+    body('search_id').isUUID().withMessage('Invalid search ID'),
+    body('video_id').isUUID().withMessage('Invalid video ID'),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ error: 'Validation failed', details: errors.array() });
+        return;
+      }
+
+      const position = await recordSearchClick(req.body.search_id, req.body.video_id);
+      if (position === null) {
+        res.status(404).json({ error: 'Result not found in this search' });
+        return;
+      }
+
+      // A search click is also an outcome for running A/B experiments
+      recordOutcome(getExperimentSubject(req), 'click', req.body.video_id);
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Search click error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
 // GET /api/v1/videos/search/youtube - Search YouTube videos
 router.get('/search/youtube', optionalAuth, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -1136,6 +1577,19 @@ router.get('/user/:userId', optionalAuth, async (req: Request, res: Response): P
   try {
     const { userId } = req.params;
 
+    const hiddenAuthorIds = await getHiddenAuthorIds(req.userId);
+    if (hiddenAuthorIds.includes(userId as string)) {
+      res.status(200).json({ videos: [] });
+      return;
+    }
+
+    // Private accounts only list videos for the owner and approved followers
+    const access = await getProfileAccess(userId as string, req.userId);
+    if (!access.canView) {
+      res.status(403).json(PRIVATE_ACCOUNT_ERROR);
+      return;
+    }
+
     const { data: videos, error } = await supabase
       .from('videos')
       .select(`
@@ -1151,6 +1605,7 @@ router.get('/user/:userId', optionalAuth, async (req: Request, res: Response): P
         )
       `)
       .eq('user_id', userId)
+      .eq('is_hidden', false)
       .order('created_at', { ascending: false });
 
     if (error) {
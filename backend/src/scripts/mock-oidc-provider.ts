@@ -0,0 +1,183 @@
+/**
+ * Mock OpenID Connect provider for local development and testing of "Sign in with ..."
+ * Implements discovery, authorization code + PKCE (S256), token and JWKS endpoints.
+ *
+ * Run: npx tsx src/scripts/mock-oidc-provider.ts
+ * Then set in backend .env:
+ *   OIDC_ISSUER=http://localhost:5010
+ *   OIDC_CLIENT_ID=petflix-local
+ *   OIDC_PROVIDER_NAME=Mock IdP
+ *
+ * The authorize page lets you pick the email / verified flag / subject to sign in as,
+ * so account linking and new-account creation can both be exercised.
+ */
+
+import express, { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || '5010', 10);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'petflix-local';
+const CODE_TTL_MS = 60 * 1000;
+
+// Fresh signing key on every start - the backend refetches the JWKS when the key id changes
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  claims: Record<string, any>;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+app.use(express.json());
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+}
+
+app.get('/.well-known/openid-configuration', (_req: Request, res: Response) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+  });
+});
+
+app.get('/jwks', (_req: Request, res: Response) => {
+  const jwk = publicKey.export({ format: 'jwk' });
+  res.json({ keys: [{ ...jwk, kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+});
+
+// GET /authorize - "login" page that lets the developer choose who to sign in as
+app.get('/authorize', (req: Request, res: Response) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, response_type } = req.query as Record<string, string>;
+
+  if (client_id !== CLIENT_ID) {
+    res.status(400).send(`Unknown client_id (expected ${CLIENT_ID})`);
+    return;
+  }
+  if (response_type !== 'code' || !redirect_uri || !state) {
+    res.status(400).send('response_type=code, redirect_uri and state are required');
+    return;
+  }
+  if (!code_challenge || code_challenge_method !== 'S256') {
+    res.status(400).send('PKCE with code_challenge_method=S256 is required');
+    return;
+  }
+
+  const defaultEmail = process.env.MOCK_OIDC_EMAIL || 'mock.user@example.com';
+  const hidden = { client_id, redirect_uri, state, nonce: nonce || '', code_challenge };
+
+  res.send(`<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>Mock IdP</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 60px auto;">
+  <h1>Mock IdP sign-in</h1>
+  <form method="POST" action="/authorize">
+    ${Object.entries(hidden).map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`).join('\n    ')}
+    <p><label>Email<br><input name="email" value="${escapeHtml(defaultEmail)}" style="width: 100%"></label></p>
+    <p><label>Name<br><input name="name" value="Mock User" style="width: 100%"></label></p>
+    <p><label>Subject (stable user id)<br><input name="sub" placeholder="defaults to a hash of the email" style="width: 100%"></label></p>
+    <p><label><input type="checkbox" name="email_verified" checked> Email verified</label></p>
+    <p><button type="submit">Sign in</button> <button type="submit" name="deny" value="1">Deny</button></p>
+  </form>
+</body>
+</html>`);
+});
+
+// POST /authorize - issue a code and redirect back to the client
+app.post('/authorize', (req: Request, res: Response) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, email, name, sub, email_verified, deny } = req.body;
+  const redirect = new URL(redirect_uri);
+  redirect.searchParams.set('state', state);
+
+  if (deny) {
+    redirect.searchParams.set('error', 'access_denied');
+    res.redirect(redirect.toString());
+    return;
+  }
+
+  const code = base64url(crypto.randomBytes(32));
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    codeChallenge: code_challenge,
+    nonce: nonce || undefined,
+    claims: {
+      sub: sub || crypto.createHash('sha256').update(email).digest('hex').slice(0, 24),
+      email,
+      email_verified: email_verified === 'on',
+      name,
+      preferred_username: email.split('@')[0],
+    },
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  redirect.searchParams.set('code', code);
+  res.redirect(redirect.toString());
+});
+
+// POST /token - exchange a code (with PKCE verifier) for an ID token
+app.post('/token', (req: Request, res: Response) => {
+  const { grant_type, code, redirect_uri, client_id, code_verifier } = req.body;
+
+  if (grant_type !== 'authorization_code') {
+    res.status(400).json({ error: 'unsupported_grant_type' });
+    return;
+  }
+
+  const pending = codes.get(code);
+  codes.delete(code); // Codes are single-use
+
+  if (!pending || pending.expiresAt < Date.now()) {
+    res.status(400).json({ error: 'invalid_grant', error_description: 'Unknown or expired code' });
+    return;
+  }
+  if (pending.clientId !== client_id || pending.redirectUri !== redirect_uri) {
+    res.status(400).json({ error: 'invalid_grant', error_description: 'client_id or redirect_uri mismatch' });
+    return;
+  }
+
+  const expectedChallenge = base64url(crypto.createHash('sha256').update(code_verifier || '').digest());
+  if (expectedChallenge !== pending.codeChallenge) {
+    res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    return;
+  }
+
+  const idToken = jwt.sign(
+    { ...pending.claims, ...(pending.nonce && { nonce: pending.nonce }) },
+    privateKey,
+    { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: client_id, expiresIn: '5m' }
+  );
+
+  res.json({
+    access_token: base64url(crypto.randomBytes(32)),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken,
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`🪪 Mock OIDC provider running at ${ISSUER}`);
+  console.log(`   client_id: ${CLIENT_ID}`);
+});
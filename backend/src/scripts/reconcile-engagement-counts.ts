@@ -0,0 +1,34 @@
+/**
+ * Recount denormalised engagement counters (videos.likes_count / comments_count / shares_count,
+ * comments.comment_likes_count) from the source tables and repair any drift.
+ * Run: npx tsx src/scripts/reconcile-engagement-counts.ts [--dry-run]
+ */
+
+import { supabase } from '../config/supabase.js';
+
+const dryRun = process.argv.includes('--dry-run');
+
+async function reconcileEngagementCounts() {
+  console.log(dryRun ? '🔍 Checking engagement counters (dry run)...' : '🔧 Reconciling engagement counters...');
+
+  const { data, error } = await supabase.rpc('reconcile_engagement_counts', { dry_run: dryRun });
+
+  if (error) {
+    throw new Error(`Failed to reconcile engagement counters: ${error.message}`);
+  }
+
+  for (const row of (data || []) as { counter: string; rows_fixed: number }[]) {
+    const rows = Number(row.rows_fixed);
+    console.log(`   ${row.counter}: ${rows} row(s) ${dryRun ? 'out of date' : 'fixed'}`);
+  }
+}
+
+reconcileEngagementCounts()
+  .then(() => {
+    console.log('✅ Engagement counters reconciled');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('❌ Reconciliation failed:', error);
+    process.exit(1);
+  });
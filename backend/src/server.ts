@@ -14,8 +14,15 @@ import reportRoutes from './routes/reports.js';
 import pushRoutes from './routes/push.js';
 import videoLikesRoutes from './routes/video-likes.js';
 import commentLikesRoutes from './routes/comment-likes.js';
+import adminRoutes from './routes/admin.js';
+import petRoutes from './routes/pets.js';
+import experimentRoutes from './routes/experiments.js';
+import savedSearchRoutes from './routes/saved-searches.js';
 import { globalLimiter, authLimiter, interactionLimiter } from './middleware/rateLimiter.js';
 import { startNotificationProcessor } from './services/notificationGrouping.js';
+import { startSearchTermsRefresher } from './services/videoSearch.js';
+import { startSavedSearchAlerts } from './services/savedSearches.js';
+import { startTrendingSnapshots } from './services/trending.js';
 import { errorLoggerMiddleware, logger } from './services/logger.js';
 
 dotenv.config();
@@ -238,6 +245,10 @@ app.use('/api/v1/reports', reportRoutes);
 app.use('/api/v1/push', pushRoutes);
 app.use('/api/v1/video-likes', interactionLimiter, videoLikesRoutes); // Rate limit likes
 app.use('/api/v1/comment-likes', interactionLimiter, commentLikesRoutes); // Rate limit likes
+app.use('/api/v1/pets', petRoutes);
+app.use('/api/v1/saved-searches', savedSearchRoutes);
+app.use('/api/v1/experiments', experimentRoutes); // Outcome beacons (global limiter only - must not eat the interaction quota)
+app.use('/api/v1/admin', adminRoutes); // Admin console (all routes require admin)
 
 // Error logging middleware (logs to console, file, and database)
 app.use(errorLoggerMiddleware);
@@ -292,6 +303,15 @@ if (process.env.VERCEL !== '1' && !process.env.VERCEL_ENV) {
     
     // Start notification grouping processor (only in non-serverless environments)
     startNotificationProcessor();
+
+    // Rebuild the typo-correction vocabulary for search
+    startSearchTermsRefresher();
+
+    // Alert users about new videos matching their saved searches
+    startSavedSearchAlerts();
+
+    // Recompute the per-window trending snapshots
+    startTrendingSnapshots();
   });
 }
 
@@ -0,0 +1,38 @@
+/**
+ * Admin Audit Service
+ * Records every action taken through the admin console
+ */
+
+import { Request } from 'express';
+import { supabase } from '../config/supabase.js';
+import { logger } from './logger.js';
+
+export interface AdminAuditEntry {
+  action: string;
+  targetType?: string;
+  targetId?: string;
+  details?: Record<string, any>;
+}
+
+/**
+ * Record an admin action in the audit log
+ * Never throws - a failed audit write must not fail the admin action itself
+ */
+export async function recordAdminAction(req: Request, entry: AdminAuditEntry): Promise<void> {
+  try {
+    const { error } = await supabase.from('admin_audit_log').insert({
+      admin_id: req.userId || null,
+      action: entry.action,
+      target_type: entry.targetType || null,
+      target_id: entry.targetId || null,
+      details: entry.details || null,
+      ip_address: req.ip || null,
+    });
+
+    if (error) {
+      logger.warn('Failed to write admin audit log:', error.message);
+    }
+  } catch (err) {
+    logger.warn('Error writing admin audit log:', err);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Auth Audit Service
+ * Records authentication events (magic-link requests and sign-ins, failures)
+ */
+
+import { Request } from 'express';
+import { supabase } from '../config/supabase.js';
+import { logger } from './logger.js';
+
+export interface AuthAuditEntry {
+  event: string;
+  userId?: string;
+  email?: string;
+  details?: Record<string, any>;
+}
+
+/**
+ * Record an authentication event
+ * Never throws - a failed audit write must not fail the login flow itself
+ */
+export async function recordAuthEvent(req: Request, entry: AuthAuditEntry): Promise<void> {
+  try {
+    const { error } = await supabase.from('auth_audit_log').insert({
+      user_id: entry.userId || null,
+      event: entry.event,
+      email: entry.email || null,
+      ip_address: req.ip || null,
+      user_agent: req.get('user-agent')?.slice(0, 500) || null,
+      details: entry.details || null,
+    });
+
+    if (error) {
+      logger.warn('Failed to write auth audit log:', error.message);
+    }
+  } catch (err) {
+    logger.warn('Error writing auth audit log:', err);
+  }
+}
@@ -374,6 +374,139 @@ export async function sendPasswordResetEmail(email: string, username: string, re
   });
 }
 
+/**
+ * Send passwordless sign-in (magic link) email
+ */
+export async function sendMagicLinkEmail(email: string, username: string, loginToken: string, expiresInMinutes: number): Promise<void> {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  const loginLink = `${frontendUrl}/magic-link?token=${loginToken}`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { 
+          font-family: 'Segoe UI', Arial, sans-serif; 
+          line-height: 1.6; 
+          color: #36454F; 
+          background: #f8f9fa;
+          margin: 0;
+          padding: 20px;
+        }
+        .container { 
+          max-width: 600px; 
+          margin: 0 auto; 
+          background: #ffffff;
+          border-radius: 16px;
+          overflow: hidden;
+          box-shadow: 0 4px 24px rgba(173, 216, 230, 0.15);
+          border: 1px solid #e8f4f8;
+        }
+        .header { 
+          background: linear-gradient(135deg, #ADD8E6 0%, #87CEEB 50%, #F0F0DC 100%); 
+          padding: 45px 30px; 
+          text-align: center;
+        }
+        .logo {
+          font-size: 56px;
+          margin-bottom: 12px;
+          filter: drop-shadow(0 2px 4px rgba(0,0,0,0.1));
+        }
+        .content { 
+          background: #ffffff; 
+          padding: 40px 35px; 
+          color: #36454F;
+        }
+        .content p {
+          color: #36454F;
+          margin: 16px 0;
+          font-size: 16px;
+        }
+        .button { 
+          display: inline-block; 
+          padding: 15px 40px; 
+          background: linear-gradient(135deg, #ADD8E6 0%, #87CEEB 100%); 
+          color: #36454F; 
+          text-decoration: none; 
+          border-radius: 10px; 
+          font-weight: 700; 
+          margin: 28px 0;
+          transition: all 0.3s;
+          box-shadow: 0 4px 12px rgba(173, 216, 230, 0.3);
+        }
+        .button:hover {
+          background: linear-gradient(135deg, #87CEEB 0%, #ADD8E6 100%);
+          box-shadow: 0 6px 16px rgba(173, 216, 230, 0.4);
+          transform: translateY(-2px);
+        }
+        .warning { 
+          background: #fff8e1; 
+          border-left: 4px solid #ffc107; 
+          padding: 20px; 
+          margin: 28px 0;
+          border-radius: 8px;
+        }
+        .footer { 
+          text-align: center; 
+          padding: 28px 35px; 
+          color: #8899a6; 
+          font-size: 13px;
+          background: #f8f9fa;
+          border-top: 1px solid #e8f4f8;
+        }
+        .code { 
+          background: #f1f8fc; 
+          padding: 18px; 
+          border-radius: 8px; 
+          font-family: 'Courier New', monospace; 
+          word-break: break-all;
+          border: 1px solid #d4e9f7;
+          color: #5FA8D3;
+          font-size: 13px;
+          line-height: 1.5;
+        }
+        .highlight {
+          color: #5FA8D3;
+          font-weight: 700;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div class="logo">✨</div>
+          <h1 style="margin: 0; color: #36454F; font-size: 36px; font-weight: 800; text-shadow: 0 2px 4px rgba(255,255,255,0.8);">Your Sign-In Link</h1>
+        </div>
+        <div class="content">
+          <p style="font-size: 19px; margin-bottom: 8px;">Hi <span class="highlight">${username}</span>,</p>
+          <p style="font-size: 16px; color: #5a6c7d; line-height: 1.7;">Click the button below to sign in to your Petflix account. No password needed:</p>
+          <p style="text-align: center; margin-top: 32px;">
+            <a href="${loginLink}" class="button">Sign In to Petflix →</a>
+          </p>
+          <p style="margin-top: 28px; color: #8899a6; font-size: 14px;">Or copy and paste this link into your browser:</p>
+          <div class="code">${loginLink}</div>
+          <div class="warning">
+            <strong style="color: #f57c00;">⚠️ Important:</strong> This link can only be used once and will expire in ${expiresInMinutes} minutes. If you didn't request it, you can safely ignore this email - nobody can sign in without access to your inbox.
+          </div>
+          <p style="color: #8899a6; margin-top: 32px;">— The Petflix Team</p>
+        </div>
+        <div class="footer">
+          <p style="margin: 0;">This email was sent to ${email}. If you didn't request a sign-in link, please ignore this email.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  await sendEmail({
+    to: email,
+    subject: 'Your Petflix Sign-In Link',
+    html,
+  });
+}
+
 /**
  * Send email verification for email address change
  */
@@ -0,0 +1,431 @@
+/**
+ * Experiments Service
+ * A/B tests for ranking surfaces. Each running experiment splits subjects between variants
+ * by a stable hash, and each variant carries config that overrides how the surface ranks
+ * (search: relevance weights; trending: score formula). Exposures and outcomes are logged
+ * per subject and compared in experiment_report().
+ */
+
+import { Request } from 'express';
+import crypto from 'crypto';
+import { supabase } from '../config/supabase.js';
+import { logger } from './logger.js';
+import { RelevanceWeights } from './relevanceAlgorithm.js';
+
+const RUNNING_CACHE_TTL_MS = 30 * 1000;
+
+export const EXPERIMENT_SURFACES = ['search', 'trending'] as const;
+export type ExperimentSurface = typeof EXPERIMENT_SURFACES[number];
+
+export const EXPERIMENT_STATUSES = ['draft', 'running', 'stopped'] as const;
+export type ExperimentStatus = typeof EXPERIMENT_STATUSES[number];
+
+export const OUTCOME_EVENTS = ['click', 'like', 'watch_start'] as const;
+export type OutcomeEvent = typeof OUTCOME_EVENTS[number];
+
+export interface ExperimentVariant {
+  key: string;
+  name: string;
+  allocation: number;
+  config: Record<string, any>;
+}
+
+export interface Experiment {
+  id: string;
+  key: string;
+  name: string;
+  description: string | null;
+  surface: ExperimentSurface;
+  status: ExperimentStatus;
+  created_at: string;
+  started_at: string | null;
+  stopped_at: string | null;
+  variants: ExperimentVariant[];
+}
+
+export interface ExperimentAssignment {
+  experiment: Experiment;
+  variant: ExperimentVariant;
+}
+
+export interface ExperimentSubject {
+  subjectId: string;
+  userId: string | null;
+}
+
+// Trending score = decayed views * viewVelocityWeight + decayed (likes + comments) * engagementWeight (services/trending.ts)
+export interface TrendingFormula {
+  viewVelocityWeight: number;
+  engagementWeight: number;
+}
+
+export const DEFAULT_TRENDING_FORMULA: TrendingFormula = {
+  viewVelocityWeight: 2,
+  engagementWeight: 1,
+};
+
+export interface VariantMetrics {
+  variant_key: string;
+  subjects: number;
+  exposures: number;
+  clicks: number;
+  likes: number;
+  watch_starts: number;
+  // Share of exposed subjects with at least one such outcome
+  click_rate: number;
+  like_rate: number;
+  watch_rate: number;
+  // Clicks per exposure (search result pages / trending loads)
+  clicks_per_exposure: number;
+}
+
+const EXPERIMENT_FIELDS = `
+  id,
+  key,
+  name,
+  description,
+  surface,
+  status,
+  created_at,
+  started_at,
+  stopped_at,
+  experiment_variants (
+    key,
+    name,
+    allocation,
+    config,
+    position
+  )
+`;
+
+let runningCache: { experiments: Experiment[]; fetchedAt: number } | null = null;
+
+/**
+ * Map an experiments row (with variants) to an Experiment
+ */
+function toExperiment(row: any): Experiment {
+  const variants = ((row.experiment_variants || []) as any[])
+    .sort((a, b) => a.position - b.position)
+    .map(({ key, name, allocation, config }) => ({ key, name, allocation, config: config || {} }));
+
+  return {
+    id: row.id,
+    key: row.key,
+    name: row.name,
+    description: row.description,
+    surface: row.surface,
+    status: row.status,
+    created_at: row.created_at,
+    started_at: row.started_at,
+    stopped_at: row.stopped_at,
+    variants,
+  };
+}
+
+/**
+ * Who a request is attributed to: the signed-in user, else the anonymous visitor cookie
+ */
+export function getExperimentSubject(req: Request): ExperimentSubject | null {
+  const subjectId = req.userId || req.visitorId;
+  return subjectId ? { subjectId, userId: req.userId || null } : null;
+}
+
+/**
+ * Deterministically pick a variant: hash(experiment key, subject) into 100 buckets,
+ * then walk the variants' allocations
+ */
+export function assignVariant(experiment: Experiment, subjectId: string): ExperimentVariant | null {
+  const hash = crypto.createHash('sha256').update(`${experiment.key}:${subjectId}`).digest();
+  const bucket = hash.readUInt32BE(0) % 100;
+
+  let upperBound = 0;
+  for (const variant of experiment.variants) {
+    upperBound += variant.allocation;
+    if (bucket < upperBound) {
+      return variant;
+    }
+  }
+  return null;
+}
+
+/**
+ * Running experiments (cached briefly - every search and trending request reads them)
+ */
+export async function getRunningExperiments(): Promise<Experiment[]> {
+  if (runningCache && Date.now() - runningCache.fetchedAt < RUNNING_CACHE_TTL_MS) {
+    return runningCache.experiments;
+  }
+
+  const { data, error } = await supabase
+    .from('experiments')
+    .select(EXPERIMENT_FIELDS)
+    .eq('status', 'running');
+
+  if (error) {
+    throw new Error(`Failed to load running experiments: ${error.message}`);
+  }
+
+  const experiments = (data || []).map(toExperiment);
+  runningCache = { experiments, fetchedAt: Date.now() };
+  return experiments;
+}
+
+/**
+ * The subject's variant in the experiment running on a surface, if any
+ * Fails open: without experiments the surface falls back to its default ranking.
+ */
+export async function getAssignment(
+  surface: ExperimentSurface,
+  subject: ExperimentSubject | null
+): Promise<ExperimentAssignment | null> {
+  if (!subject) return null;
+
+  try {
+    const experiment = (await getRunningExperiments()).find(e => e.surface === surface);
+    if (!experiment) return null;
+
+    const variant = assignVariant(experiment, subject.subjectId);
+    return variant ? { experiment, variant } : null;
+  } catch (error) {
+    logger.warn('Experiment assignment failed, using default ranking:', error);
+    return null;
+  }
+}
+
+/**
+ * Insert experiment events; never throws (logging must not fail the request)
+ */
+async function insertEvents(rows: Record<string, unknown>[]): Promise<void> {
+  if (rows.length === 0) return;
+
+  try {
+    const { error } = await supabase.from('experiment_events').insert(rows);
+    if (error) {
+      logger.warn('Failed to record experiment events:', error.message);
+    }
+  } catch (err) {
+    logger.warn('Error recording experiment events:', err);
+  }
+}
+
+/**
+ * Record that a subject was shown a variant's ranking
+ */
+export async function recordExposure(assignment: ExperimentAssignment, subject: ExperimentSubject): Promise<void> {
+  await insertEvents([{
+    experiment_id: assignment.experiment.id,
+    variant_key: assignment.variant.key,
+    subject_id: subject.subjectId,
+    user_id: subject.userId,
+    event_type: 'exposure',
+  }]);
+}
+
+/**
+ * Record an outcome against every running experiment (the report only counts it for
+ * subjects that were exposed to the variant)
+ */
+export async function recordOutcome(
+  subject: ExperimentSubject | null,
+  eventType: OutcomeEvent,
+  videoId: string | null
+): Promise<void> {
+  if (!subject) return;
+
+  let experiments: Experiment[];
+  try {
+    experiments = await getRunningExperiments();
+  } catch (error) {
+    logger.warn('Failed to load experiments for outcome:', error);
+    return;
+  }
+
+  const rows = experiments.flatMap(experiment => {
+    const variant = assignVariant(experiment, subject.subjectId);
+    return variant
+      ? [{
+          experiment_id: experiment.id,
+          variant_key: variant.key,
+          subject_id: subject.subjectId,
+          user_id: subject.userId,
+          event_type: eventType,
+          video_id: videoId,
+        }]
+      : [];
+  });
+
+  await insertEvents(rows);
+}
+
+/**
+ * Relevance weights a search variant ranks with (undefined = the saved weights)
+ */
+export function getVariantWeights(assignment: ExperimentAssignment | null): RelevanceWeights | undefined {
+  const weights = assignment?.variant.config.weights;
+  return weights && typeof weights === 'object' ? (weights as RelevanceWeights) : undefined;
+}
+
+/**
+ * Trending formula a trending variant ranks with
+ */
+export function getVariantTrendingFormula(assignment: ExperimentAssignment | null): TrendingFormula {
+  const config = assignment?.variant.config || {};
+  return {
+    viewVelocityWeight: typeof config.viewVelocityWeight === 'number'
+      ? config.viewVelocityWeight
+      : DEFAULT_TRENDING_FORMULA.viewVelocityWeight,
+    engagementWeight: typeof config.engagementWeight === 'number'
+      ? config.engagementWeight
+      : DEFAULT_TRENDING_FORMULA.engagementWeight,
+  };
+}
+
+/**
+ * Problem with a variant's config for a surface, or null when it is valid
+ */
+export function validateVariantConfig(surface: ExperimentSurface, config: Record<string, any>): string | null {
+  if (surface === 'search') {
+    if (config.weights === undefined) return null;
+    const keys: (keyof RelevanceWeights)[] = ['keywordMatch', 'viewCount', 'likeRatio', 'recency', 'engagement'];
+    const weights = config.weights;
+    if (!weights || typeof weights !== 'object' || keys.some(k => typeof weights[k] !== 'number' || weights[k] < 0 || weights[k] > 1)) {
+      return 'weights must set keywordMatch, viewCount, likeRatio, recency and engagement between 0 and 1';
+    }
+    const sum = keys.reduce((s, k) => s + weights[k], 0);
+    return Math.abs(sum - 1.0) > 0.01 ? `weights must sum to 1.0 (current sum: ${sum.toFixed(2)})` : null;
+  }
+
+  for (const key of ['viewVelocityWeight', 'engagementWeight']) {
+    if (config[key] !== undefined && (typeof config[key] !== 'number' || config[key] < 0)) {
+      return `${key} must be a non-negative number`;
+    }
+  }
+  return null;
+}
+
+/**
+ * All experiments, newest first
+ */
+export async function listExperiments(): Promise<Experiment[]> {
+  const { data, error } = await supabase
+    .from('experiments')
+    .select(EXPERIMENT_FIELDS)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load experiments: ${error.message}`);
+  }
+
+  return (data || []).map(toExperiment);
+}
+
+/**
+ * One experiment, or null if it does not exist
+ */
+export async function getExperiment(experimentId: string): Promise<Experiment | null> {
+  const { data, error } = await supabase
+    .from('experiments')
+    .select(EXPERIMENT_FIELDS)
+    .eq('id', experimentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load experiment: ${error.message}`);
+  }
+
+  return data ? toExperiment(data) : null;
+}
+
+/**
+ * Create a draft experiment with its variants
+ */
+export async function createExperiment(
+  input: Pick<Experiment, 'key' | 'name' | 'description' | 'surface' | 'variants'>,
+  createdBy: string
+): Promise<Experiment> {
+  const { data: experiment, error } = await supabase
+    .from('experiments')
+    .insert({
+      key: input.key,
+      name: input.name,
+      description: input.description || null,
+      surface: input.surface,
+      created_by: createdBy,
+    })
+    .select('id')
+    .single();
+
+  if (error || !experiment) {
+    throw new Error(`Failed to create experiment: ${error?.message}`);
+  }
+
+  const { error: variantsError } = await supabase
+    .from('experiment_variants')
+    .insert(input.variants.map((variant, position) => ({
+      experiment_id: experiment.id,
+      key: variant.key,
+      name: variant.name,
+      allocation: variant.allocation,
+      config: variant.config || {},
+      position,
+    })));
+
+  if (variantsError) {
+    // Don't leave an experiment without variants behind
+    await supabase.from('experiments').delete().eq('id', experiment.id);
+    throw new Error(`Failed to create experiment variants: ${variantsError.message}`);
+  }
+
+  return (await getExperiment(experiment.id))!;
+}
+
+/**
+ * Start or stop an experiment (draft -> running -> stopped)
+ */
+export async function setExperimentStatus(experimentId: string, status: 'running' | 'stopped'): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('experiments')
+    .update(status === 'running' ? { status, started_at: now } : { status, stopped_at: now })
+    .eq('id', experimentId);
+
+  if (error) {
+    throw new Error(`Failed to update experiment: ${error.message}`);
+  }
+
+  runningCache = null;
+}
+
+/**
+ * Per-variant metrics for an experiment (variants without exposures are reported as zeros)
+ */
+export async function getExperimentReport(experiment: Experiment): Promise<VariantMetrics[]> {
+  const { data, error } = await supabase.rpc('experiment_report', { target_experiment: experiment.id });
+
+  if (error) {
+    throw new Error(`Failed to build experiment report: ${error.message}`);
+  }
+
+  const rows = new Map(((data || []) as any[]).map(row => [row.variant_key, row]));
+  const rate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 10000) / 10000 : 0);
+
+  return experiment.variants.map(variant => {
+    const row = rows.get(variant.key) || {};
+    const subjects = Number(row.subjects || 0);
+    const exposures = Number(row.exposures || 0);
+    const clicks = Number(row.clicks || 0);
+
+    return {
+      variant_key: variant.key,
+      subjects,
+      exposures,
+      clicks,
+      likes: Number(row.likes || 0),
+      watch_starts: Number(row.watch_starts || 0),
+      click_rate: rate(Number(row.clicking_subjects || 0), subjects),
+      like_rate: rate(Number(row.liking_subjects || 0), subjects),
+      watch_rate: rate(Number(row.watching_subjects || 0), subjects),
+      clicks_per_exposure: rate(clicks, exposures),
+    };
+  });
+}
@@ -0,0 +1,102 @@
+/**
+ * Image Upload Service
+ * Shared path for user-supplied images (profile pictures, pet photos):
+ * base64 decode -> type/size checks -> sharp-backed moderation -> Supabase Storage
+ */
+
+import { supabase } from '../config/supabase.js';
+
+const STORAGE_BUCKET = 'profile-pictures';
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // 5MB
+
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
+
+export type ImageUploadResult =
+  | { ok: true; url: string }
+  | { ok: false; status: number; error: string; message: string };
+
+/**
+ * Validate, moderate and store a base64 image
+ * `storagePath` is the object path without extension, e.g. `${userId}/profile-picture`.
+ * Returns the public URL (without cache-busting) or an error ready to send to the client.
+ */
+export async function uploadModeratedImage(input: {
+  image: string;
+  imageType: string;
+  storagePath: string;
+  label: string;
+}): Promise<ImageUploadResult> {
+  const { image, imageType, storagePath, label } = input;
+
+  if (!ALLOWED_IMAGE_TYPES.includes(imageType)) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid file type',
+      message: 'Only JPEG, PNG, GIF, and WebP images are allowed',
+    };
+  }
+
+  const buffer = Buffer.from(image.replace(/^data:image\/\w+;base64,/, ''), 'base64');
+  if (buffer.length === 0) {
+    return { ok: false, status: 400, error: 'Invalid image data', message: 'Failed to process image data' };
+  }
+
+  if (buffer.length > MAX_IMAGE_BYTES) {
+    return { ok: false, status: 400, error: 'File too large', message: `${label} must be less than 5MB` };
+  }
+
+  try {
+    // Loaded lazily so a broken sharp native module can't take the whole server down
+    const { moderateProfilePicture } = await import('./imageModeration.js');
+    const moderationResult = await moderateProfilePicture(buffer, imageType);
+
+    if (!moderationResult.approved) {
+      return {
+        ok: false,
+        status: 400,
+        error: 'Image moderation failed',
+        message: moderationResult.reason || 'Image did not pass moderation checks',
+      };
+    }
+
+    if (moderationResult.warnings && moderationResult.warnings.length > 0) {
+      console.log(`⚠️ ${label} moderation warnings for ${storagePath}:`, moderationResult.warnings);
+    }
+  } catch (moderationError) {
+    // Don't fail uploads if moderation is down, but log it
+    console.warn('⚠️ Continuing without moderation due to error:', moderationError);
+  }
+
+  const extension = imageType.split('/')[1] === 'jpeg' ? 'jpg' : imageType.split('/')[1];
+  const fileName = `${storagePath}.${extension}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(fileName, buffer, {
+      contentType: imageType,
+      upsert: true, // Replace if exists
+    });
+
+  if (uploadError) {
+    console.error(`❌ Supabase storage upload error (${fileName}):`, uploadError);
+
+    // Provide more helpful error messages
+    let message = uploadError.message || `Failed to upload ${label.toLowerCase()} to storage`;
+    if (uploadError.message?.includes('Bucket not found') || uploadError.message?.includes('not found')) {
+      message = 'Storage bucket not found. Please contact support.';
+    } else if (uploadError.message?.includes('permission') || uploadError.message?.includes('access')) {
+      message = 'Permission denied. Please check storage bucket permissions.';
+    } else if (uploadError.message?.includes('policy') || uploadError.message?.includes('RLS')) {
+      message = 'Storage policy error. Please check bucket policies.';
+    }
+
+    return { ok: false, status: 500, error: 'Upload failed', message };
+  }
+
+  const { data: urlData } = supabase.storage
+    .from(STORAGE_BUCKET)
+    .getPublicUrl(fileName);
+
+  return { ok: true, url: urlData.publicUrl };
+}
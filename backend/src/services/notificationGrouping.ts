@@ -7,7 +7,7 @@ import { sendNotificationToUser } from './push.js';
 interface QueuedNotification {
   id: string;
   user_id: string;
-  notification_type: 'follow' | 'comment' | 'video_like' | 'video';
+  notification_type: 'follow' | 'follow_request' | 'comment' | 'video_like' | 'video' | 'saved_search';
   notification_data: any;
   created_at: string;
   sent_at: string | null;
@@ -26,7 +26,7 @@ const PROCESSING_INTERVAL_MS = 10 * 1000; // Process every 10 seconds (faster fo
  */
 export async function queueNotification(
   userId: string,
-  type: 'follow' | 'comment' | 'video_like' | 'video',
+  type: 'follow' | 'follow_request' | 'comment' | 'video_like' | 'video' | 'saved_search',
   data: any
 ): Promise<void> {
   try {
@@ -115,15 +115,18 @@ export async function queueNotification(
  */
 async function sendNotificationImmediately(
   userId: string,
-  type: 'follow' | 'comment' | 'video_like' | 'video',
+  type: 'follow' | 'follow_request' | 'comment' | 'video_like' | 'video' | 'saved_search',
   data: any
 ): Promise<void> {
-  const { notifyNewFollower, notifyNewComment, notifyVideoLike, notifyNewVideoFromFollowedUser } = await import('./push.js');
+  const { notifyNewFollower, notifyFollowRequest, notifyNewComment, notifyVideoLike, notifyNewVideoFromFollowedUser, notifySavedSearchMatch } = await import('./push.js');
   
   switch (type) {
     case 'follow':
       await notifyNewFollower(userId, data.username, data.followerId);
       break;
+    case 'follow_request':
+      await notifyFollowRequest(userId, data.username, data.followerId);
+      break;
     case 'comment':
       await notifyNewComment(userId, data.username, data.commentText, data.videoId);
       break;
@@ -133,6 +136,9 @@ async function sendNotificationImmediately(
     case 'video':
       await notifyNewVideoFromFollowedUser(userId, data.username, data.videoTitle, data.videoId);
       break;
+    case 'saved_search':
+      await notifySavedSearchMatch(userId, data.searchName, data.videoTitle, data.videoId);
+      break;
   }
 }
 
@@ -179,6 +185,16 @@ function groupNotifications(notifications: QueuedNotification[]): Array<{
           url = '/feed';
         }
         break;
+
+      case 'follow_request':
+        if (count === 1) {
+          summary = `${items[0].notification_data.username} requested to follow you`;
+          url = `/profile/${items[0].notification_data.followerId}`;
+        } else {
+          summary = `${count} new follow requests`;
+          url = '/feed';
+        }
+        break;
       
       case 'comment':
         if (count === 1) {
@@ -227,6 +243,22 @@ function groupNotifications(notifications: QueuedNotification[]): Array<{
           }
         }
         break;
+
+      case 'saved_search':
+        if (count === 1) {
+          summary = `New match for "${items[0].notification_data.searchName}": ${items[0].notification_data.videoTitle}`;
+          url = `/video/${items[0].notification_data.videoId}`;
+        } else {
+          const uniqueSearches = new Set(items.map(i => i.notification_data.savedSearchId));
+          if (uniqueSearches.size === 1) {
+            summary = `${count} new videos match "${items[0].notification_data.searchName}"`;
+            url = items[0].notification_data.searchUrl;
+          } else {
+            summary = `${count} new videos match ${uniqueSearches.size} of your saved searches`;
+            url = '/search';
+          }
+        }
+        break;
     }
 
     groups.push({ type, items, summary, url });
@@ -375,12 +407,16 @@ function getNotificationTitle(type: string, count: number): string {
   switch (type) {
     case 'follow':
       return count === 1 ? 'New Follower! 🎉' : `${count} New Followers! 🎉`;
+    case 'follow_request':
+      return count === 1 ? 'Follow Request 🔒' : `${count} Follow Requests 🔒`;
     case 'comment':
       return count === 1 ? 'New Comment 💬' : `${count} New Comments 💬`;
     case 'video_like':
       return count === 1 ? 'Video Liked! ❤️' : `${count} Video Likes! ❤️`;
     case 'video':
       return count === 1 ? 'New Video 🎬' : `${count} New Videos 🎬`;
+    case 'saved_search':
+      return count === 1 ? 'Saved Search Match 🔎' : `${count} Saved Search Matches 🔎`;
     default:
       return 'Petflix Updates';
   }
@@ -0,0 +1,378 @@
+/**
+ * OpenID Connect Service
+ * "Sign in with ..." through a configurable OIDC provider:
+ * discovery, authorization code + PKCE, ID token verification and account linking
+ */
+
+import fetch from 'node-fetch';
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import validator from 'validator';
+import { supabase } from '../config/supabase.js';
+import { logger } from './logger.js';
+import { revokeUserSessions } from './sessions.js';
+
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const AUTH_REQUEST_TTL_MINUTES = 10;
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+  providerName: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  picture?: string;
+  nonce?: string;
+}
+
+let discoveryCache: { issuer: string; document: DiscoveryDocument; fetchedAt: number } | null = null;
+let jwksCache: { uri: string; keys: any[]; fetchedAt: number } | null = null;
+
+/**
+ * Read provider settings from the environment
+ * Returns null when OIDC login is not configured
+ */
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+
+  if (!issuer || !clientId) {
+    return null;
+  }
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+  return {
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${frontendUrl}/auth/oidc/callback`,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    providerName: process.env.OIDC_PROVIDER_NAME || 'SSO',
+  };
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Fetch (and cache) the provider's discovery document
+ */
+async function getDiscoveryDocument(config: OidcConfig): Promise<DiscoveryDocument> {
+  if (
+    discoveryCache &&
+    discoveryCache.issuer === config.issuer &&
+    Date.now() - discoveryCache.fetchedAt < DISCOVERY_CACHE_TTL_MS
+  ) {
+    return discoveryCache.document;
+  }
+
+  const response = await fetch(`${config.issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed: ${response.status} ${response.statusText}`);
+  }
+
+  const document = await response.json() as DiscoveryDocument;
+  if (document.issuer.replace(/\/+$/, '') !== config.issuer) {
+    throw new Error(`OIDC discovery issuer mismatch: expected ${config.issuer}, got ${document.issuer}`);
+  }
+
+  discoveryCache = { issuer: config.issuer, document, fetchedAt: Date.now() };
+  return document;
+}
+
+/**
+ * Find the signing key for an ID token, refetching the JWKS once if the key id is unknown
+ * (providers rotate keys)
+ */
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> {
+  const findKey = (keys: any[]) => keys.find(key => (kid ? key.kid === kid : key.use !== 'enc'));
+
+  let key = jwksCache && jwksCache.uri === jwksUri && Date.now() - jwksCache.fetchedAt < DISCOVERY_CACHE_TTL_MS
+    ? findKey(jwksCache.keys)
+    : undefined;
+
+  if (!key) {
+    const response = await fetch(jwksUri);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch OIDC signing keys: ${response.status}`);
+    }
+    const { keys } = await response.json() as { keys: any[] };
+    jwksCache = { uri: jwksUri, keys, fetchedAt: Date.now() };
+    key = findKey(keys);
+  }
+
+  if (!key) {
+    throw new Error('No matching OIDC signing key found');
+  }
+
+  return crypto.createPublicKey({ key, format: 'jwk' });
+}
+
+/**
+ * Start a login: store state/nonce/PKCE verifier and build the provider authorization URL
+ */
+export async function createAuthorizationUrl(config: OidcConfig): Promise<string> {
+  const discovery = await getDiscoveryDocument(config);
+
+  const state = base64url(crypto.randomBytes(32));
+  const nonce = base64url(crypto.randomBytes(32));
+  const codeVerifier = base64url(crypto.randomBytes(48));
+  const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  const expiresAt = new Date();
+  expiresAt.setMinutes(expiresAt.getMinutes() + AUTH_REQUEST_TTL_MINUTES);
+
+  const { error } = await supabase
+    .from('oidc_auth_requests')
+    .insert({
+      state,
+      nonce,
+      code_verifier: codeVerifier,
+      expires_at: expiresAt.toISOString(),
+    });
+
+  if (error) {
+    throw new Error(`Failed to store OIDC auth request: ${error.message}`);
+  }
+
+  // Opportunistic cleanup of abandoned logins
+  supabase
+    .from('oidc_auth_requests')
+    .delete()
+    .lt('expires_at', new Date().toISOString())
+    .then(({ error: cleanupError }) => {
+      if (cleanupError) logger.warn('Failed to clean up expired OIDC auth requests:', cleanupError.message);
+    });
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+
+  return `${discovery.authorization_endpoint}?${params.toString()}`;
+}
+
+/**
+ * Finish a login: consume the state, exchange the code and verify the ID token
+ * Throws with a user-safe message when anything doesn't check out
+ */
+export async function completeAuthorization(config: OidcConfig, code: string, state: string): Promise<OidcClaims> {
+  // Consume the pending request so a state value can only be used once
+  const { data: pending } = await supabase
+    .from('oidc_auth_requests')
+    .delete()
+    .eq('state', state)
+    .select('code_verifier, nonce, expires_at')
+    .single();
+
+  if (!pending || new Date(pending.expires_at) < new Date()) {
+    throw new Error('Sign-in request expired. Please try again.');
+  }
+
+  const discovery = await getDiscoveryDocument(config);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    client_id: config.clientId,
+    code_verifier: pending.code_verifier,
+  });
+  if (config.clientSecret) {
+    body.set('client_secret', config.clientSecret);
+  }
+
+  const tokenResponse = await fetch(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: body.toString(),
+  });
+
+  if (!tokenResponse.ok) {
+    const errorBody = await tokenResponse.text();
+    logger.warn(`OIDC token exchange failed: ${tokenResponse.status} ${errorBody}`);
+    throw new Error('Sign-in with your provider failed. Please try again.');
+  }
+
+  const tokens = await tokenResponse.json() as { id_token?: string };
+  if (!tokens.id_token) {
+    throw new Error('Identity provider did not return an ID token');
+  }
+
+  const header = jwt.decode(tokens.id_token, { complete: true })?.header;
+  const signingKey = await getSigningKey(discovery.jwks_uri, header?.kid);
+
+  let claims: OidcClaims;
+  try {
+    claims = jwt.verify(tokens.id_token, signingKey, {
+      algorithms: ['RS256', 'ES256'],
+      issuer: discovery.issuer,
+      audience: config.clientId,
+    }) as OidcClaims;
+  } catch (err) {
+    logger.warn('OIDC ID token verification failed:', err);
+    throw new Error('Could not verify your identity provider sign-in');
+  }
+
+  if (claims.nonce !== pending.nonce) {
+    throw new Error('Could not verify your identity provider sign-in');
+  }
+
+  return claims;
+}
+
+/**
+ * Build a unique, valid username (3-20 chars, letters/numbers/underscores) from provider claims
+ */
+async function generateUsername(claims: OidcClaims): Promise<string> {
+  const source = claims.preferred_username || claims.email?.split('@')[0] || claims.name || 'petlover';
+  let base = source.replace(/[^a-zA-Z0-9_]/g, '').slice(0, 15);
+  if (base.length < 3) {
+    base = `user${base}`;
+  }
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const candidate = attempt === 0 ? base : `${base}${crypto.randomInt(1000, 99999)}`;
+    const { data: taken } = await supabase
+      .from('users')
+      .select('id')
+      .eq('username', candidate)
+      .single();
+
+    if (!taken) {
+      return candidate;
+    }
+  }
+
+  return `user${crypto.randomBytes(6).toString('hex')}`;
+}
+
+/**
+ * Normalise a provider email the way registration and login do (express-validator's
+ * normalizeEmail defaults: lowercased, Gmail dots and +tags removed), so it matches stored emails
+ */
+function normalizeProviderEmail(email: string): string | null {
+  return validator.normalizeEmail(email) || null;
+}
+
+/**
+ * Map verified provider claims to a Petflix user:
+ * existing linked identity -> that user; verified email matching an account -> link it; otherwise create a passwordless account
+ * Registration doesn't prove email ownership, so linking drops the account's password and sessions:
+ * whoever registered the address can't keep access once its real owner signs in
+ * Returns null when the provider didn't share a verified email
+ */
+export async function findOrCreateUserForIdentity(
+  config: OidcConfig,
+  claims: OidcClaims
+): Promise<{ userId: string; created: boolean; linked: boolean } | null> {
+  const email = claims.email ? normalizeProviderEmail(claims.email) : null;
+
+  const { data: identity } = await supabase
+    .from('user_identities')
+    .select('id, user_id')
+    .eq('provider', config.issuer)
+    .eq('subject', claims.sub)
+    .single();
+
+  if (identity) {
+    await supabase
+      .from('user_identities')
+      .update({ last_login_at: new Date().toISOString(), email })
+      .eq('id', identity.id);
+
+    return { userId: identity.user_id, created: false, linked: false };
+  }
+
+  // Only a provider-verified email may be trusted to take over an existing account
+  if (!email || claims.email_verified !== true) {
+    return null;
+  }
+
+  const { data: existingUser } = await supabase
+    .from('users')
+    .select('id, password_hash')
+    .eq('email', email)
+    .single();
+
+  let userId: string;
+  let created = false;
+
+  if (existingUser) {
+    userId = existingUser.id;
+
+    if (existingUser.password_hash) {
+      const { error: clearError } = await supabase
+        .from('users')
+        .update({ password_hash: null, updated_at: new Date().toISOString() })
+        .eq('id', userId);
+
+      if (clearError) {
+        throw new Error(`Failed to clear password before linking: ${clearError.message}`);
+      }
+
+      await revokeUserSessions(userId, 'account_linked');
+    }
+  } else {
+    const username = await generateUsername(claims);
+
+    const { data: newUser, error: insertError } = await supabase
+      .from('users')
+      .insert({
+        username,
+        email,
+        password_hash: null,
+        profile_picture_url: claims.picture || null,
+      })
+      .select('id')
+      .single();
+
+    if (insertError || !newUser) {
+      throw new Error(`Failed to create account for identity: ${insertError?.message}`);
+    }
+
+    userId = newUser.id;
+    created = true;
+  }
+
+  const { error: linkError } = await supabase
+    .from('user_identities')
+    .insert({
+      user_id: userId,
+      provider: config.issuer,
+      subject: claims.sub,
+      email,
+      last_login_at: new Date().toISOString(),
+    });
+
+  if (linkError) {
+    throw new Error(`Failed to link identity: ${linkError.message}`);
+  }
+
+  return { userId, created, linked: !created };
+}
@@ -0,0 +1,70 @@
+/**
+ * Roles & Permissions
+ * Each user has one role; each role grants a fixed set of permissions.
+ * Routes check permissions (never roles) via requirePermission in middleware/admin.ts
+ */
+
+import { supabase } from '../config/supabase.js';
+
+export const ROLES = ['user', 'moderator', 'support', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = [
+  'reports.review',   // Work the video report queue
+  'users.read',       // Look up accounts in the admin console
+  'users.ban',        // Suspend / ban accounts
+  'users.manage',     // Unlock accounts, force password resets
+  'roles.assign',     // Change a user's role
+  'relevance.edit',   // View and tune search relevance weights
+  'experiments.manage', // Run A/B experiments on search and trending ranking
+  'errors.read',      // Error dashboard (read-only)
+  'errors.manage',    // Delete error logs
+  'system.manage',    // Anomaly detection thresholds, storage checks
+  'audit.read',       // Admin audit log
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: [],
+  moderator: ['reports.review', 'users.read', 'users.ban'],
+  support: ['users.read', 'users.manage', 'errors.read'],
+  admin: PERMISSIONS,
+};
+
+/**
+ * Narrow an arbitrary value (e.g. a DB column) to a known role, defaulting to 'user'
+ */
+export function toRole(value: unknown): Role {
+  return ROLES.includes(value as Role) ? (value as Role) : 'user';
+}
+
+/**
+ * Permissions granted by a role
+ */
+export function getRolePermissions(role: Role): Permission[] {
+  return [...ROLE_PERMISSIONS[role]];
+}
+
+/**
+ * Check whether a role grants a permission
+ */
+export function roleHasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Look up a user's current role
+ */
+export async function getUserRole(userId: string): Promise<Role> {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('role')
+    .eq('id', userId)
+    .single();
+
+  if (error || !user) {
+    throw new Error(`Failed to load user role: ${error?.message || 'user not found'}`);
+  }
+
+  return toRole(user.role);
+}
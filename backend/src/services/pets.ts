@@ -0,0 +1,185 @@
+/**
+ * Pets Service
+ * Pet profiles owned by users, and the pets tagged in shared videos
+ */
+
+import { supabase } from '../config/supabase.js';
+
+export const PET_SPECIES = [
+  'dog',
+  'cat',
+  'bird',
+  'rabbit',
+  'hamster',
+  'guinea_pig',
+  'fish',
+  'reptile',
+  'horse',
+  'other',
+] as const;
+export type PetSpecies = typeof PET_SPECIES[number];
+
+export const MAX_PETS_PER_VIDEO = 10;
+
+export interface Pet {
+  id: string;
+  owner_id: string;
+  name: string;
+  species: PetSpecies;
+  breed: string | null;
+  birthday: string | null;
+  photo_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PetSummary = Pick<Pet, 'id' | 'name' | 'species' | 'breed' | 'photo_url'>;
+
+export const PET_FIELDS = 'id, owner_id, name, species, breed, birthday, photo_url, created_at, updated_at';
+
+/**
+ * Load a single pet
+ */
+export async function getPet(petId: string): Promise<Pet | null> {
+  const { data, error } = await supabase
+    .from('pets')
+    .select(PET_FIELDS)
+    .eq('id', petId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load pet: ${error.message}`);
+  }
+
+  return (data as Pet | null) || null;
+}
+
+/**
+ * A user's pets, oldest first (the order they were added)
+ */
+export async function listUserPets(ownerId: string): Promise<Pet[]> {
+  const { data, error } = await supabase
+    .from('pets')
+    .select(PET_FIELDS)
+    .eq('owner_id', ownerId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load pets: ${error.message}`);
+  }
+
+  return (data || []) as Pet[];
+}
+
+/**
+ * Pets tagged in each of the given videos
+ */
+export async function getPetsForVideos(videoIds: string[]): Promise<Map<string, PetSummary[]>> {
+  const petsByVideo = new Map<string, PetSummary[]>();
+  if (videoIds.length === 0) return petsByVideo;
+
+  const { data, error } = await supabase
+    .from('video_pets')
+    .select('video_id, pets:pet_id (id, name, species, breed, photo_url)')
+    .in('video_id', videoIds);
+
+  if (error) {
+    throw new Error(`Failed to load video pets: ${error.message}`);
+  }
+
+  for (const row of (data || []) as any[]) {
+    const pet = Array.isArray(row.pets) ? row.pets[0] : row.pets;
+    if (!pet) continue;
+    const list = petsByVideo.get(row.video_id) || [];
+    list.push(pet);
+    petsByVideo.set(row.video_id, list);
+  }
+
+  return petsByVideo;
+}
+
+/**
+ * Whether every given pet belongs to the user
+ */
+export async function ownsAllPets(ownerId: string, petIds: string[]): Promise<boolean> {
+  const uniquePetIds = Array.from(new Set(petIds));
+  if (uniquePetIds.length === 0) return true;
+
+  const { data: ownedPets, error } = await supabase
+    .from('pets')
+    .select('id')
+    .eq('owner_id', ownerId)
+    .in('id', uniquePetIds);
+
+  if (error) {
+    throw new Error(`Failed to verify pets: ${error.message}`);
+  }
+
+  return (ownedPets || []).length === uniquePetIds.length;
+}
+
+/**
+ * Replace the pets tagged in a video
+ * Every pet must belong to the video's owner; returns false (and changes nothing) otherwise
+ */
+export async function setVideoPets(videoId: string, ownerId: string, petIds: string[]): Promise<boolean> {
+  const uniquePetIds = Array.from(new Set(petIds));
+
+  if (!(await ownsAllPets(ownerId, uniquePetIds))) {
+    return false;
+  }
+
+  const { error: deleteError } = await supabase
+    .from('video_pets')
+    .delete()
+    .eq('video_id', videoId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear video pets: ${deleteError.message}`);
+  }
+
+  if (uniquePetIds.length > 0) {
+    const { error: insertError } = await supabase
+      .from('video_pets')
+      .insert(uniquePetIds.map(petId => ({ video_id: videoId, pet_id: petId })));
+
+    if (insertError) {
+      throw new Error(`Failed to tag video pets: ${insertError.message}`);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * IDs of videos tagged with a pet whose name or breed contains the search text
+ * LIKE wildcards in the text match literally; name and breed are queried separately so the
+ * text never ends up inside a PostgREST filter expression
+ */
+export async function findVideoIdsByPet(text: string): Promise<string[]> {
+  const pattern = `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+  const [byName, byBreed] = await Promise.all([
+    supabase.from('pets').select('id').ilike('name', pattern).limit(500),
+    supabase.from('pets').select('id').ilike('breed', pattern).limit(500),
+  ]);
+
+  const error = byName.error || byBreed.error;
+  if (error) {
+    throw new Error(`Failed to search pets: ${error.message}`);
+  }
+
+  const petIds = Array.from(new Set([...(byName.data || []), ...(byBreed.data || [])].map(pet => pet.id as string)));
+  if (petIds.length === 0) return [];
+
+  const { data: tags, error: tagsError } = await supabase
+    .from('video_pets')
+    .select('video_id')
+    .in('pet_id', petIds)
+    .limit(1000);
+
+  if (tagsError) {
+    throw new Error(`Failed to search pets: ${tagsError.message}`);
+  }
+
+  return Array.from(new Set((tags || []).map(tag => tag.video_id as string)));
+}
@@ -0,0 +1,222 @@
+/**
+ * Private Accounts Service
+ * Follows of a private account start as pending requests the owner approves or denies.
+ * Only the owner and approved followers can see a private account's details, videos and playlists.
+ */
+
+import { supabase } from '../config/supabase.js';
+
+export interface ProfileAccess {
+  isPrivate: boolean;
+  canView: boolean;
+}
+
+/**
+ * Error body for content requests blocked by a private account
+ */
+export const PRIVATE_ACCOUNT_ERROR = {
+  error: 'Private account',
+  code: 'account_private',
+  message: 'This account is private. Follow it to see its videos and playlists.',
+};
+
+/**
+ * Whether a user has made their account private
+ */
+export async function isPrivateAccount(userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('is_private')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load account privacy: ${error.message}`);
+  }
+
+  return !!data?.is_private;
+}
+
+/**
+ * Whether a viewer may see an account's profile details and content
+ * Public accounts are open to everyone; private ones to the owner and approved followers
+ */
+export async function getProfileAccess(ownerId: string, viewerId?: string): Promise<ProfileAccess> {
+  const isPrivate = await isPrivateAccount(ownerId);
+  if (!isPrivate || viewerId === ownerId) {
+    return { isPrivate, canView: true };
+  }
+  if (!viewerId) {
+    return { isPrivate, canView: false };
+  }
+
+  const { data, error } = await supabase
+    .from('followers')
+    .select('follower_id')
+    .eq('follower_id', viewerId)
+    .eq('following_id', ownerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check follow: ${error.message}`);
+  }
+
+  return { isPrivate, canView: !!data };
+}
+
+/**
+ * Private accounts whose videos a viewer may not see (not the viewer, not followed by them)
+ * Used to filter listings that don't go through the search SQL functions
+ */
+export async function getHiddenPrivateAuthorIds(viewerId?: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id')
+    .eq('is_private', true);
+
+  if (error) {
+    throw new Error(`Failed to load private accounts: ${error.message}`);
+  }
+
+  const privateIds = (data || []).map(row => row.id as string).filter(id => id !== viewerId);
+  if (!viewerId || privateIds.length === 0) {
+    return privateIds;
+  }
+
+  const { data: follows, error: followsError } = await supabase
+    .from('followers')
+    .select('following_id')
+    .eq('follower_id', viewerId)
+    .in('following_id', privateIds);
+
+  if (followsError) {
+    throw new Error(`Failed to check follows: ${followsError.message}`);
+  }
+
+  const followed = new Set((follows || []).map(row => row.following_id as string));
+  return privateIds.filter(id => !followed.has(id));
+}
+
+/**
+ * Whether requesterId has a pending follow request to targetId
+ */
+export async function hasPendingFollowRequest(requesterId: string, targetId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('follow_requests')
+    .select('requester_id')
+    .eq('requester_id', requesterId)
+    .eq('target_id', targetId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check follow request: ${error.message}`);
+  }
+
+  return !!data;
+}
+
+/**
+ * Create a pending follow request
+ */
+export async function createFollowRequest(requesterId: string, targetId: string): Promise<{ created_at: string }> {
+  const { data, error } = await supabase
+    .from('follow_requests')
+    .insert({ requester_id: requesterId, target_id: targetId })
+    .select('created_at')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create follow request: ${error?.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Delete a pending follow request (cancel or deny)
+ * Returns false when there was no such request
+ */
+export async function deleteFollowRequest(requesterId: string, targetId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('follow_requests')
+    .delete()
+    .eq('requester_id', requesterId)
+    .eq('target_id', targetId)
+    .select('requester_id');
+
+  if (error) {
+    throw new Error(`Failed to delete follow request: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Approve a pending follow request: the request becomes a follow
+ * Returns false when there was no such request
+ */
+export async function approveFollowRequest(requesterId: string, targetId: string): Promise<boolean> {
+  const deleted = await deleteFollowRequest(requesterId, targetId);
+  if (!deleted) return false;
+
+  const { error } = await supabase
+    .from('followers')
+    .upsert(
+      { follower_id: requesterId, following_id: targetId },
+      { onConflict: 'follower_id,following_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    throw new Error(`Failed to create follow: ${error.message}`);
+  }
+
+  return true;
+}
+
+/**
+ * Approve every pending request to an account - used when it switches back to public
+ */
+export async function approveAllFollowRequests(targetId: string): Promise<number> {
+  const { data: requests, error } = await supabase
+    .from('follow_requests')
+    .select('requester_id')
+    .eq('target_id', targetId);
+
+  if (error) {
+    throw new Error(`Failed to load follow requests: ${error.message}`);
+  }
+
+  let approved = 0;
+  for (const request of requests || []) {
+    if (await approveFollowRequest(request.requester_id, targetId)) {
+      approved++;
+    }
+  }
+
+  return approved;
+}
+
+/**
+ * Pending follow requests to an account, newest first, with the requester's profile info
+ */
+export async function listFollowRequests(targetId: string) {
+  const { data, error } = await supabase
+    .from('follow_requests')
+    .select(`
+      requester_id,
+      created_at,
+      users:requester_id (
+        id,
+        username,
+        profile_picture_url
+      )
+    `)
+    .eq('target_id', targetId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load follow requests: ${error.message}`);
+  }
+
+  return data || [];
+}
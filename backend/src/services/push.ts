@@ -163,6 +163,22 @@ export async function notifyNewFollower(
   });
 }
 
+/**
+ * Send notification when someone requests to follow a private account
+ */
+export async function notifyFollowRequest(
+  userId: string,
+  requesterUsername: string,
+  requesterUserId: string
+): Promise<void> {
+  await sendNotificationToUser(userId, {
+    title: 'Follow Request 🔒',
+    body: `${requesterUsername} requested to follow you`,
+    tag: `follow-request-${requesterUserId}`,
+    url: `/profile/${requesterUserId}`,
+  });
+}
+
 /**
  * Send notification when followed user shares a new video
  */
@@ -219,11 +235,30 @@ export async function notifyVideoLike(
   });
 }
 
+/**
+ * Send notification when a newly shared video matches a saved search
+ */
+export async function notifySavedSearchMatch(
+  userId: string,
+  searchName: string,
+  videoTitle: string,
+  videoId: string
+): Promise<void> {
+  await sendNotificationToUser(userId, {
+    title: `New match for "${searchName}" 🔎`,
+    body: videoTitle,
+    tag: `saved-search-${videoId}`,
+    url: `/video/${videoId}`,
+  });
+}
+
 export default {
   sendNotificationToUser,
   notifyNewFollower,
+  notifyFollowRequest,
   notifyNewVideoFromFollowedUser,
   notifyNewComment,
   notifyVideoLike,
+  notifySavedSearchMatch,
 };
 
@@ -0,0 +1,94 @@
+/**
+ * Recommendations Service
+ * "For You" feed: recommend_videos (db/add-recommendations.sql) ranks unseen videos by the
+ * user's species/breed and creator affinity (likes, views, playlist additions), follows,
+ * popularity and freshness, with diversity across creators and species.
+ * Pages are addressed by an opaque cursor holding the ranking time and the last (score, id) of
+ * the previous page, so later pages of the same session are ranked as of the same moment and
+ * continue where it left off.
+ */
+
+import { supabase } from '../config/supabase.js';
+
+export const MAX_RECOMMENDATIONS_PAGE = 50;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type RecommendationReason = 'following' | 'species' | 'creator' | 'new' | 'popular';
+
+export interface Recommendation {
+  video_id: string;
+  score: number;
+  reason: RecommendationReason;
+}
+
+interface RecommendationCursor {
+  asOf: string;
+  // Last recommendation of the previous page
+  score: number;
+  id: string;
+}
+
+/**
+ * Encode a page position as an opaque cursor
+ */
+function encodeCursor(cursor: RecommendationCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from the client, or null if it is malformed
+ */
+export function decodeCursor(value: string): RecommendationCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      typeof parsed?.asOf !== 'string' || Number.isNaN(Date.parse(parsed.asOf)) ||
+      typeof parsed.score !== 'number' || !Number.isFinite(parsed.score) ||
+      typeof parsed.id !== 'string' || !UUID_PATTERN.test(parsed.id)
+    ) {
+      return null;
+    }
+    return { asOf: parsed.asOf, score: parsed.score, id: parsed.id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One page of recommendations for a user, plus the cursor of the next page (null at the end)
+ */
+export async function getRecommendations(
+  userId: string,
+  options: { cursor: RecommendationCursor | null; limit: number; excludedUserIds: string[] }
+): Promise<{ recommendations: Recommendation[]; nextCursor: string | null }> {
+  const asOf = options.cursor?.asOf || new Date().toISOString();
+
+  // One extra row tells whether there is a next page
+  const { data, error } = await supabase.rpc('recommend_videos', {
+    for_user: userId,
+    as_of: asOf,
+    excluded_user_ids: options.excludedUserIds,
+    result_limit: options.limit + 1,
+    after_score: options.cursor?.score ?? null,
+    after_id: options.cursor?.id ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load recommendations: ${error.message}`);
+  }
+
+  const rows = (data || []) as Recommendation[];
+  const hasMore = rows.length > options.limit;
+  const recommendations = rows.slice(0, options.limit).map(row => ({
+    video_id: row.video_id,
+    score: Number(row.score),
+    reason: row.reason,
+  }));
+  const last = recommendations[recommendations.length - 1];
+
+  return {
+    recommendations,
+    nextCursor: hasMore && last ? encodeCursor({ asOf, score: last.score, id: last.video_id }) : null,
+  };
+}
@@ -1,5 +1,7 @@
 // Search Result Relevance Algorithm
-// Implements configurable relevance scoring based on PRD requirements
+// Implements configurable relevance scoring based on PRD requirements.
+// The score itself is computed in Postgres (video_relevance_components in db/add-search-explain.sql)
+// from ts_rank and these weights; this module reads, versions and rolls back the weights.
 
 import { supabase } from '../config/supabase.js';
 
@@ -11,28 +13,30 @@ export interface RelevanceWeights {
   engagement: number;      // Weight for engagement (likes + comments + shares)
 }
 
-export interface VideoWithRelevance {
-  id: string;
-  youtube_video_id: string;
-  title: string;
-  description: string;
-  thumbnail_url: string;
+// Each component's normalised 0-1 score for one video (same keys as the weights)
+export type RelevanceComponents = Record<keyof RelevanceWeights, number>;
+
+export interface RelevanceExplanation {
+  components: { [K in keyof RelevanceWeights]: { score: number; weight: number; contribution: number } };
+  total: number;
+}
+
+export interface RelevanceWeightsVersion {
+  version: number;
+  weights: RelevanceWeights;
+  note: string | null;
+  rollback_of: number | null;
+  created_by: { id: string; username: string } | null;
   created_at: string;
-  view_count: number;
-  relevanceScore: number;
-  keywordMatchScore: number;
-  viewCountScore: number;
-  likeRatioScore: number;
-  recencyScore: number;
-  engagementScore: number;
-  user: any;
-  likes_count: number;
-  comments_count: number;
-  engagement: number;
-  is_available: boolean;
 }
 
-// Default weights (can be configured via admin interface)
+export interface RelevanceWeightsDiff {
+  from: number;
+  to: number;
+  changes: { [K in keyof RelevanceWeights]: { from: number; to: number; delta: number } };
+}
+
+// Default weights (can be configured via admin interface) - mirrored in search_videos()
 const DEFAULT_WEIGHTS: RelevanceWeights = {
   keywordMatch: 0.4,  // 40% - Most important for search relevance
   viewCount: 0.15,    // 15% - Popularity indicator
@@ -41,90 +45,6 @@ const DEFAULT_WEIGHTS: RelevanceWeights = {
   engagement: 0.15,   // 15% - User interaction
 };
 
-/**
- * Calculate relevance score for a video based on search query and weights
- */
-export async function calculateRelevanceScore(
-  video: any,
-  searchQuery: string,
-  weights: RelevanceWeights = DEFAULT_WEIGHTS
-): Promise<VideoWithRelevance> {
-  const queryLower = searchQuery.toLowerCase();
-  const titleLower = (video.title || '').toLowerCase();
-  const descLower = (video.description || '').toLowerCase();
-
-  // 1. Keyword Match Score (0-1)
-  let keywordMatchScore = 0;
-  const queryWords = queryLower.split(/\s+/).filter(w => w.length > 0);
-  
-  if (queryWords.length > 0) {
-    let titleMatches = 0;
-    let descMatches = 0;
-    
-    queryWords.forEach(word => {
-      if (titleLower.includes(word)) titleMatches++;
-      if (descLower.includes(word)) descMatches++;
-    });
-    
-    // Title matches are worth more than description matches
-    const titleScore = (titleMatches / queryWords.length) * 0.7;
-    const descScore = (descMatches / queryWords.length) * 0.3;
-    keywordMatchScore = Math.min(1, titleScore + descScore);
-    
-    // Bonus for exact phrase match
-    if (titleLower.includes(queryLower)) {
-      keywordMatchScore = Math.min(1, keywordMatchScore + 0.2);
-    }
-  } else {
-    // No query - all videos get same keyword score
-    keywordMatchScore = 0.5;
-  }
-
-  // 2. View Count Score (0-1) - Normalized using log scale
-  const viewCount = video.view_count || 0;
-  const viewCountScore = viewCount > 0 
-    ? Math.min(1, Math.log10(viewCount + 1) / 6) // Log scale: 1M views = ~1.0
-    : 0;
-
-  // 3. Like Ratio Score (0-1) - Likes per view
-  const likesCount = video.likes_count || 0;
-  const likeRatio = viewCount > 0 ? likesCount / viewCount : 0;
-  const likeRatioScore = Math.min(1, likeRatio * 100); // 1% like ratio = 1.0 score
-
-  // 4. Recency Score (0-1) - Newer videos score higher
-  const videoAge = Date.now() - new Date(video.created_at).getTime();
-  const daysOld = videoAge / (1000 * 60 * 60 * 24);
-  // Videos less than 7 days old get full score, then decay
-  const recencyScore = daysOld < 7 
-    ? 1 
-    : Math.max(0, 1 - (daysOld - 7) / 30); // Decay over 30 days
-
-  // 5. Engagement Score (0-1) - Normalized engagement
-  const engagement = video.engagement || 0;
-  // Normalize: 100 engagement = 1.0 score (using log scale)
-  const engagementScore = engagement > 0
-    ? Math.min(1, Math.log10(engagement + 1) / 3)
-    : 0;
-
-  // Calculate weighted relevance score
-  const relevanceScore = 
-    (keywordMatchScore * weights.keywordMatch) +
-    (viewCountScore * weights.viewCount) +
-    (likeRatioScore * weights.likeRatio) +
-    (recencyScore * weights.recency) +
-    (engagementScore * weights.engagement);
-
-  return {
-    ...video,
-    relevanceScore,
-    keywordMatchScore,
-    viewCountScore,
-    likeRatioScore,
-    recencyScore,
-    engagementScore,
-  };
-}
-
 /**
  * Get relevance weights from database (or use defaults)
  */
@@ -141,12 +61,13 @@ export async function getRelevanceWeights(): Promise<RelevanceWeights> {
       return DEFAULT_WEIGHTS;
     }
 
+    // A saved weight of 0 is a real setting (search_videos uses it as is), so only fill in missing ones
     return {
-      keywordMatch: data.keyword_match || DEFAULT_WEIGHTS.keywordMatch,
-      viewCount: data.view_count || DEFAULT_WEIGHTS.viewCount,
-      likeRatio: data.like_ratio || DEFAULT_WEIGHTS.likeRatio,
-      recency: data.recency || DEFAULT_WEIGHTS.recency,
-      engagement: data.engagement || DEFAULT_WEIGHTS.engagement,
+      keywordMatch: Number(data.keyword_match ?? DEFAULT_WEIGHTS.keywordMatch),
+      viewCount: Number(data.view_count ?? DEFAULT_WEIGHTS.viewCount),
+      likeRatio: Number(data.like_ratio ?? DEFAULT_WEIGHTS.likeRatio),
+      recency: Number(data.recency ?? DEFAULT_WEIGHTS.recency),
+      engagement: Number(data.engagement ?? DEFAULT_WEIGHTS.engagement),
     };
   } catch (error) {
     console.error('Failed to fetch relevance weights:', error);
@@ -154,12 +75,50 @@ export async function getRelevanceWeights(): Promise<RelevanceWeights> {
   }
 }
 
+const VERSION_FIELDS = `
+  version,
+  keyword_match,
+  view_count,
+  like_ratio,
+  recency,
+  engagement,
+  note,
+  rollback_of,
+  updated_at,
+  users!relevance_weights_created_by_fkey (
+    id,
+    username
+  )
+`;
+
+/**
+ * Map a relevance_weights row to a version
+ */
+function toVersion(row: any): RelevanceWeightsVersion {
+  const author = Array.isArray(row.users) ? row.users[0] : row.users;
+  return {
+    version: row.version,
+    weights: {
+      keywordMatch: Number(row.keyword_match),
+      viewCount: Number(row.view_count),
+      likeRatio: Number(row.like_ratio),
+      recency: Number(row.recency),
+      engagement: Number(row.engagement),
+    },
+    note: row.note || null,
+    rollback_of: row.rollback_of ?? null,
+    created_by: author ? { id: author.id, username: author.username } : null,
+    created_at: row.updated_at,
+  };
+}
+
 /**
- * Update relevance weights (admin only)
+ * Update relevance weights (admin only) - saves a new version, which becomes live
  */
 export async function updateRelevanceWeights(
-  weights: RelevanceWeights
-): Promise<void> {
+  weights: RelevanceWeights,
+  meta: { createdBy?: string; note?: string; rollbackOf?: number } = {}
+): Promise<RelevanceWeightsVersion> {
   try {
     // Ensure weights sum to 1.0
     const total = Object.values(weights).reduce((sum, w) => sum + (w || 0), 0);
@@ -167,7 +126,7 @@ export async function updateRelevanceWeights(
       throw new Error('Weights must sum to 1.0');
     }
 
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('relevance_weights')
       .insert({
         keyword_match: weights.keywordMatch,
@@ -175,15 +134,109 @@ export async function updateRelevanceWeights(
         like_ratio: weights.likeRatio,
         recency: weights.recency,
         engagement: weights.engagement,
+        created_by: meta.createdBy || null,
+        note: meta.note || null,
+        rollback_of: meta.rollbackOf ?? null,
         updated_at: new Date().toISOString(),
-      });
+      })
+      .select(VERSION_FIELDS)
+      .single();
 
     if (error) {
       throw error;
     }
+
+    return toVersion(data);
   } catch (error) {
     console.error('Failed to update relevance weights:', error);
     throw error;
   }
 }
 
+/**
+ * Saved weight versions, newest first
+ */
+export async function listRelevanceWeightVersions(limit: number = 50): Promise<RelevanceWeightsVersion[]> {
+  const { data, error } = await supabase
+    .from('relevance_weights')
+    .select(VERSION_FIELDS)
+    .order('updated_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load relevance weight versions: ${error.message}`);
+  }
+
+  return (data || []).map(toVersion);
+}
+
+/**
+ * One saved weight version, or null if it does not exist
+ */
+export async function getRelevanceWeightVersion(version: number): Promise<RelevanceWeightsVersion | null> {
+  const { data, error } = await supabase
+    .from('relevance_weights')
+    .select(VERSION_FIELDS)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load relevance weight version: ${error.message}`);
+  }
+
+  return data ? toVersion(data) : null;
+}
+
+/**
+ * Per-weight changes going from one version to another
+ */
+export function diffRelevanceWeights(from: RelevanceWeightsVersion, to: RelevanceWeightsVersion): RelevanceWeightsDiff {
+  const changes = {} as RelevanceWeightsDiff['changes'];
+  for (const key of Object.keys(from.weights) as (keyof RelevanceWeights)[]) {
+    changes[key] = {
+      from: from.weights[key],
+      to: to.weights[key],
+      delta: Math.round((to.weights[key] - from.weights[key]) * 100) / 100,
+    };
+  }
+
+  return { from: from.version, to: to.version, changes };
+}
+
+/**
+ * Restore an earlier version's weights (saved as a new version, so the history is kept)
+ * Returns null if the version does not exist.
+ */
+export async function rollbackRelevanceWeights(
+  version: number,
+  meta: { createdBy?: string; note?: string } = {}
+): Promise<RelevanceWeightsVersion | null> {
+  const target = await getRelevanceWeightVersion(version);
+  if (!target) {
+    return null;
+  }
+
+  return updateRelevanceWeights(target.weights, {
+    createdBy: meta.createdBy,
+    note: meta.note || `Rolled back to version ${version}`,
+    rollbackOf: version,
+  });
+}
+
+/**
+ * Break a relevance score down into weighted components (admin explain mode)
+ */
+export function explainRelevance(components: RelevanceComponents, weights: RelevanceWeights): RelevanceExplanation {
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  const keys = Object.keys(weights) as (keyof RelevanceWeights)[];
+
+  const breakdown = {} as RelevanceExplanation['components'];
+  let total = 0;
+  for (const key of keys) {
+    const contribution = components[key] * weights[key];
+    total += contribution;
+    breakdown[key] = { score: round(components[key]), weight: weights[key], contribution: round(contribution) };
+  }
+
+  return { components: breakdown, total: round(total) };
+}
@@ -0,0 +1,211 @@
+/**
+ * Account Sanctions Service
+ * Suspensions and bans block sign-in and every authenticated request;
+ * shadowbans hide a user's content from everyone but the user
+ */
+
+import { supabase } from '../config/supabase.js';
+import { logger } from './logger.js';
+
+const SHADOWBAN_CACHE_TTL_MS = 60 * 1000;
+
+export const SANCTION_TYPES = ['suspension', 'ban', 'shadowban'] as const;
+export type SanctionType = typeof SANCTION_TYPES[number];
+
+export interface Sanction {
+  id: string;
+  user_id: string;
+  type: SanctionType;
+  reason: string;
+  issued_by: string | null;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  revoke_reason: string | null;
+}
+
+const SANCTION_FIELDS = 'id, user_id, type, reason, issued_by, created_at, expires_at, revoked_at, revoked_by, revoke_reason';
+
+let shadowbanCache: { userIds: string[]; fetchedAt: number } | null = null;
+
+/**
+ * Whether a sanction is currently in force
+ */
+export function isSanctionActive(sanction: Pick<Sanction, 'revoked_at' | 'expires_at'>): boolean {
+  if (sanction.revoked_at) return false;
+  return !sanction.expires_at || new Date(sanction.expires_at) > new Date();
+}
+
+/**
+ * List a user's sanctions, newest first (including lifted and expired ones)
+ */
+export async function listUserSanctions(userId: string): Promise<Sanction[]> {
+  const { data, error } = await supabase
+    .from('user_sanctions')
+    .select(SANCTION_FIELDS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load sanctions: ${error.message}`);
+  }
+
+  return (data || []) as Sanction[];
+}
+
+/**
+ * Sanctions currently in force for a user
+ */
+export async function getActiveSanctions(userId: string): Promise<Sanction[]> {
+  const { data, error } = await supabase
+    .from('user_sanctions')
+    .select(SANCTION_FIELDS)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+  if (error) {
+    throw new Error(`Failed to load active sanctions: ${error.message}`);
+  }
+
+  return (data || []) as Sanction[];
+}
+
+/**
+ * Pick the sanction that keeps a user out of their account, if any
+ * A ban outranks a suspension; of several suspensions the one ending last wins
+ */
+export function findAccessBlockingSanction(sanctions: Sanction[]): Sanction | null {
+  const ban = sanctions.find(sanction => sanction.type === 'ban');
+  if (ban) return ban;
+
+  const suspensions = sanctions
+    .filter(sanction => sanction.type === 'suspension')
+    .sort((a, b) => new Date(b.expires_at!).getTime() - new Date(a.expires_at!).getTime());
+
+  return suspensions[0] || null;
+}
+
+/**
+ * Build the error body returned when a suspended or banned user tries to use their account
+ */
+export function sanctionErrorBody(sanction: Sanction) {
+  const isBan = sanction.type === 'ban';
+  const until = sanction.expires_at ? new Date(sanction.expires_at).toUTCString() : null;
+
+  return {
+    error: isBan ? 'Account banned' : 'Account suspended',
+    code: isBan ? 'account_banned' : 'account_suspended',
+    message: isBan
+      ? `This account has been permanently banned. Reason: ${sanction.reason}`
+      : `This account is suspended until ${until}. Reason: ${sanction.reason}`,
+    sanction: {
+      type: sanction.type,
+      reason: sanction.reason,
+      expires_at: sanction.expires_at,
+    },
+  };
+}
+
+/**
+ * IDs of users whose content is currently shadowbanned (cached briefly - this runs on every listing)
+ */
+async function getShadowbannedUserIds(): Promise<string[]> {
+  if (shadowbanCache && Date.now() - shadowbanCache.fetchedAt < SHADOWBAN_CACHE_TTL_MS) {
+    return shadowbanCache.userIds;
+  }
+
+  const { data, error } = await supabase
+    .from('user_sanctions')
+    .select('user_id')
+    .eq('type', 'shadowban')
+    .is('revoked_at', null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+  if (error) {
+    // Fail open: an outage here shouldn't take every listing down with it
+    logger.warn('Failed to load shadowbanned users:', error.message);
+    return shadowbanCache?.userIds || [];
+  }
+
+  const userIds = Array.from(new Set((data || []).map((row: any) => row.user_id as string)));
+  shadowbanCache = { userIds, fetchedAt: Date.now() };
+  return userIds;
+}
+
+/**
+ * Authors whose content must be hidden from a viewer - shadowbanned users see their own content
+ * Use as: query.not('user_id', 'in', `(${ids.join(',')})`) when the list is non-empty
+ */
+export async function getHiddenAuthorIds(viewerId?: string): Promise<string[]> {
+  const userIds = await getShadowbannedUserIds();
+  return viewerId ? userIds.filter(id => id !== viewerId) : userIds;
+}
+
+/**
+ * Issue a sanction
+ */
+export async function issueSanction(input: {
+  userId: string;
+  type: SanctionType;
+  reason: string;
+  issuedBy: string;
+  expiresAt: Date | null;
+}): Promise<Sanction> {
+  const { data, error } = await supabase
+    .from('user_sanctions')
+    .insert({
+      user_id: input.userId,
+      type: input.type,
+      reason: input.reason,
+      issued_by: input.issuedBy,
+      expires_at: input.expiresAt ? input.expiresAt.toISOString() : null,
+    })
+    .select(SANCTION_FIELDS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to issue sanction: ${error?.message}`);
+  }
+
+  if (input.type === 'shadowban') {
+    shadowbanCache = null;
+  }
+
+  return data as Sanction;
+}
+
+/**
+ * Lift a sanction early
+ * Returns null when the sanction doesn't exist for this user or was already lifted
+ */
+export async function revokeSanction(
+  userId: string,
+  sanctionId: string,
+  revokedBy: string,
+  revokeReason: string | null
+): Promise<Sanction | null> {
+  const { data, error } = await supabase
+    .from('user_sanctions')
+    .update({
+      revoked_at: new Date().toISOString(),
+      revoked_by: revokedBy,
+      revoke_reason: revokeReason,
+    })
+    .eq('id', sanctionId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select(SANCTION_FIELDS);
+
+  if (error) {
+    throw new Error(`Failed to lift sanction: ${error.message}`);
+  }
+
+  const sanction = (data?.[0] as Sanction | undefined) || null;
+  if (sanction?.type === 'shadowban') {
+    shadowbanCache = null;
+  }
+
+  return sanction;
+}
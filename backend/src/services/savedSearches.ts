@@ -0,0 +1,319 @@
+/**
+ * Saved Searches Service
+ * Users save a search (query, sort, facet filters) and can opt in to alerts. The alert job
+ * re-runs each alerting search against videos shared since it last checked, with the same
+ * matching and visibility rules as /videos/search, and queues a grouped 'saved_search'
+ * notification per new match (db/add-saved-searches.sql).
+ */
+
+import { supabase } from '../config/supabase.js';
+import { SearchFilters } from './searchFacets.js';
+import { SearchSort, searchVideoIds } from './videoSearch.js';
+import { parseSearchQuery } from './searchQuery.js';
+import { findVideoIdsByPet } from './pets.js';
+import { getHiddenAuthorIds } from './sanctions.js';
+import { getMutedUserIds } from './userBlocks.js';
+import { queueNotification } from './notificationGrouping.js';
+
+export const MAX_SAVED_SEARCHES = 25;
+
+const ALERT_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+// Searches checked per run, least recently checked first
+const ALERT_BATCH_SIZE = 200;
+// New matches alerted per search per run (the rest are picked up as "seen")
+const MAX_ALERTS_PER_SEARCH = 10;
+
+const FILTER_KEYS = ['species', 'breed', 'uploader', 'from', 'to'] as const;
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  search_query: string | null;
+  sort_option: SearchSort;
+  filters: SearchFilters;
+  alerts_enabled: boolean;
+  last_checked_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export const SAVED_SEARCH_FIELDS =
+  'id, user_id, name, search_query, sort_option, filters, alerts_enabled, last_checked_at, created_at, updated_at';
+
+/**
+ * Keep only known, non-empty filter values
+ */
+export function cleanFilters(filters: Record<string, unknown> | undefined): SearchFilters {
+  const cleaned: SearchFilters = {};
+  for (const key of FILTER_KEYS) {
+    const value = filters?.[key];
+    if (typeof value === 'string' && value.trim()) {
+      cleaned[key] = value.trim();
+    }
+  }
+  return cleaned;
+}
+
+/**
+ * Search page URL that reproduces a saved search
+ */
+export function savedSearchUrl(search: Pick<SavedSearch, 'search_query' | 'sort_option' | 'filters'>): string {
+  const params = new URLSearchParams();
+  if (search.search_query) params.set('q', search.search_query);
+  if (search.sort_option !== 'relevance') params.set('sort', search.sort_option);
+  for (const key of FILTER_KEYS) {
+    const value = search.filters[key];
+    if (value) params.set(key, value);
+  }
+  const query = params.toString();
+  return query ? `/search?${query}` : '/search';
+}
+
+/**
+ * A user's saved searches, newest first
+ */
+export async function listSavedSearches(userId: string): Promise<SavedSearch[]> {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select(SAVED_SEARCH_FIELDS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load saved searches: ${error.message}`);
+  }
+
+  return (data || []) as SavedSearch[];
+}
+
+/**
+ * Get a saved search by ID, or null if it doesn't exist
+ */
+export async function getSavedSearch(savedSearchId: string): Promise<SavedSearch | null> {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select(SAVED_SEARCH_FIELDS)
+    .eq('id', savedSearchId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load saved search: ${error.message}`);
+  }
+
+  return data as SavedSearch | null;
+}
+
+/**
+ * Save a search. Alerts only cover videos shared from now on.
+ */
+export async function createSavedSearch(
+  userId: string,
+  input: { name: string; query: string | null; sort: SearchSort; filters: SearchFilters; alertsEnabled: boolean }
+): Promise<SavedSearch> {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .insert({
+      user_id: userId,
+      name: input.name,
+      search_query: input.query,
+      sort_option: input.sort,
+      filters: input.filters,
+      alerts_enabled: input.alertsEnabled,
+      last_checked_at: new Date().toISOString(),
+    })
+    .select(SAVED_SEARCH_FIELDS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save search: ${error?.message}`);
+  }
+
+  return data as SavedSearch;
+}
+
+/**
+ * Rename a saved search or switch its alerts on/off.
+ * Turning alerts on starts from now, so older videos are never alerted.
+ */
+export async function updateSavedSearch(
+  search: SavedSearch,
+  changes: { name?: string; alertsEnabled?: boolean }
+): Promise<SavedSearch> {
+  const now = new Date().toISOString();
+  const update: Record<string, unknown> = { updated_at: now };
+  if (changes.name !== undefined) update.name = changes.name;
+  if (changes.alertsEnabled !== undefined) {
+    update.alerts_enabled = changes.alertsEnabled;
+    if (changes.alertsEnabled && !search.alerts_enabled) update.last_checked_at = now;
+  }
+
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .update(update)
+    .eq('id', search.id)
+    .select(SAVED_SEARCH_FIELDS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update saved search: ${error?.message}`);
+  }
+
+  return data as SavedSearch;
+}
+
+/**
+ * Delete a saved search (its match log goes with it)
+ */
+export async function deleteSavedSearch(savedSearchId: string): Promise<void> {
+  const { error } = await supabase
+    .from('saved_searches')
+    .delete()
+    .eq('id', savedSearchId);
+
+  if (error) {
+    throw new Error(`Failed to delete saved search: ${error.message}`);
+  }
+}
+
+/**
+ * Re-run one saved search over videos shared since it was last checked and queue alerts
+ * for matches not alerted before. Returns the number of alerts queued.
+ */
+async function checkSavedSearch(search: SavedSearch, checkedAt: string): Promise<number> {
+  // Same visibility as the owner's own search; their own uploads are never alerted
+  const [hiddenAuthorIds, mutedUserIds, petVideoIds, parsedQuery] = await Promise.all([
+    getHiddenAuthorIds(search.user_id),
+    getMutedUserIds(search.user_id),
+    search.search_query ? findVideoIdsByPet(search.search_query) : Promise.resolve([] as string[]),
+    parseSearchQuery(search.search_query),
+  ]);
+
+  const from = search.filters.from && search.filters.from > search.last_checked_at
+    ? search.filters.from
+    : search.last_checked_at;
+
+  const { results } = await searchVideoIds({
+    query: parsedQuery.tsquery,
+    includeUnavailable: false,
+    excludedUserIds: [...hiddenAuthorIds, ...mutedUserIds, search.user_id],
+    extraVideoIds: petVideoIds,
+    viewerId: search.user_id,
+    sort: 'recency',
+    filters: { ...search.filters, from },
+    limit: MAX_ALERTS_PER_SEARCH,
+    offset: 0,
+  });
+
+  let queued = 0;
+
+  if (results.length > 0) {
+    // ON CONFLICT DO NOTHING: only rows inserted now come back, so nothing is alerted twice
+    const { data: inserted, error: insertError } = await supabase
+      .from('saved_search_matches')
+      .upsert(
+        results.map(result => ({ saved_search_id: search.id, video_id: result.video_id })),
+        { onConflict: 'saved_search_id,video_id', ignoreDuplicates: true }
+      )
+      .select('video_id');
+
+    if (insertError) {
+      throw new Error(`Failed to record saved search matches: ${insertError.message}`);
+    }
+
+    const newVideoIds = (inserted || []).map(row => row.video_id as string);
+
+    if (newVideoIds.length > 0) {
+      const { data: videos, error: videosError } = await supabase
+        .from('videos')
+        .select('id, title')
+        .in('id', newVideoIds);
+
+      if (videosError) {
+        throw new Error(`Failed to load matched videos: ${videosError.message}`);
+      }
+
+      const searchUrl = savedSearchUrl(search);
+      for (const video of videos || []) {
+        await queueNotification(search.user_id, 'saved_search', {
+          savedSearchId: search.id,
+          searchName: search.name,
+          searchUrl,
+          videoId: video.id,
+          videoTitle: video.title,
+        });
+        queued++;
+      }
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('saved_searches')
+    .update({ last_checked_at: checkedAt })
+    .eq('id', search.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update saved search: ${updateError.message}`);
+  }
+
+  return queued;
+}
+
+/**
+ * Check all alerting saved searches for newly shared matches
+ */
+export async function processSavedSearchAlerts(): Promise<void> {
+  // Taken before searching, so videos shared mid-run are caught next time (the match log dedupes)
+  const checkedAt = new Date().toISOString();
+
+  const { data: searches, error } = await supabase
+    .from('saved_searches')
+    .select(SAVED_SEARCH_FIELDS)
+    .eq('alerts_enabled', true)
+    .order('last_checked_at', { ascending: true })
+    .limit(ALERT_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to load saved searches: ${error.message}`);
+  }
+
+  if (!searches || searches.length === 0) return;
+
+  // Nothing shared since the oldest check - nothing can match
+  const { count, error: countError } = await supabase
+    .from('videos')
+    .select('id', { count: 'exact', head: true })
+    .gt('created_at', searches[0].last_checked_at);
+
+  if (countError) {
+    throw new Error(`Failed to count new videos: ${countError.message}`);
+  }
+
+  if (!count) return;
+
+  let alerts = 0;
+  for (const search of searches as SavedSearch[]) {
+    try {
+      alerts += await checkSavedSearch(search, checkedAt);
+    } catch (err) {
+      console.error(`Saved search alert error (${search.id}):`, err);
+    }
+  }
+
+  if (alerts > 0) {
+    console.log(`🔎 [SAVED SEARCH] Queued ${alerts} alert(s) for ${searches.length} saved search(es)`);
+  }
+}
+
+/**
+ * Start the saved search alert job
+ */
+export function startSavedSearchAlerts(): void {
+  setInterval(() => {
+    processSavedSearchAlerts().catch(err => {
+      console.error('Saved search alerts error:', err);
+    });
+  }, ALERT_CHECK_INTERVAL_MS);
+
+  console.log('✅ Saved search alerts started');
+}
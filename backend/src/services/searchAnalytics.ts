@@ -0,0 +1,205 @@
+/**
+ * Search Analytics Service
+ * Logs search impressions and result clicks (db/add-search-analytics.sql) and builds the
+ * result-quality reports admins use when tuning relevance: zero-result queries, low
+ * click-through queries and mean reciprocal rank.
+ * Only committed searches are logged. As-you-type results carry a signed impression token
+ * instead, which the client commits once the results settle or one of them is clicked.
+ */
+
+import jwt from 'jsonwebtoken';
+import { supabase } from '../config/supabase.js';
+import { logger } from './logger.js';
+
+const IMPRESSION_TOKEN_EXPIRES_IN = '30m';
+const IMPRESSION_PURPOSE = 'search_impression';
+
+export interface SearchImpression {
+  id: string;
+  userId: string | null;
+  query: string;
+  sort: string;
+  resultsCount: number;
+  videoIds: string[];
+  offset: number;
+  // When the results were shown, if logged later (defaults to now)
+  searchedAt?: string;
+}
+
+export interface SearchQualityReport {
+  since: string;
+  summary: {
+    searches: number;
+    zero_result_searches: number;
+    zero_result_rate: number;
+    clicked_searches: number;
+    ctr: number;
+    mrr: number;
+  };
+  daily: {
+    day: string;
+    searches: number;
+    zero_result_searches: number;
+    clicked_searches: number;
+    ctr: number;
+    mrr: number;
+  }[];
+  zero_result_queries: { query: string; searches: number; last_searched_at: string }[];
+  low_ctr_queries: { query: string; searches: number; clicked_searches: number; ctr: number; mrr: number }[];
+}
+
+const round = (n: number) => Math.round(n * 10000) / 10000;
+
+function getJwtSecret(): string {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET not configured');
+  }
+  return jwtSecret;
+}
+
+/**
+ * Sign an impression that wasn't logged, so the client can commit it later without being able
+ * to alter the results it shows
+ */
+export function signImpressionToken(impression: SearchImpression): string {
+  return jwt.sign(
+    { impression: { ...impression, searchedAt: impression.searchedAt || new Date().toISOString() }, purpose: IMPRESSION_PURPOSE },
+    getJwtSecret(),
+    { expiresIn: IMPRESSION_TOKEN_EXPIRES_IN }
+  );
+}
+
+/**
+ * Verify an impression token and return the impression it carries
+ */
+export function verifyImpressionToken(token: string): SearchImpression | null {
+  try {
+    const decoded = jwt.verify(token, getJwtSecret()) as { impression?: SearchImpression; purpose?: string };
+    return decoded.purpose === IMPRESSION_PURPOSE && decoded.impression ? decoded.impression : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Log the page of results a search showed; never throws (analytics must not fail a search)
+ * Logging the same impression twice is a no-op; returns whether this call logged it.
+ */
+export async function recordSearchImpression(impression: SearchImpression): Promise<boolean> {
+  try {
+    const { data, error } = await supabase.from('search_impressions').upsert({
+      id: impression.id,
+      user_id: impression.userId,
+      search_query: impression.query,
+      sort_option: impression.sort,
+      results_count: impression.resultsCount,
+      result_video_ids: impression.videoIds,
+      result_offset: impression.offset,
+      ...(impression.searchedAt && { created_at: impression.searchedAt }),
+    }, { onConflict: 'id', ignoreDuplicates: true }).select('id');
+
+    if (error) {
+      logger.warn('Failed to record search impression:', error.message);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  } catch (err) {
+    logger.warn('Error recording search impression:', err);
+    return false;
+  }
+}
+
+/**
+ * Log a click on a search result. The position comes from the impression, not the client.
+ * Returns the 1-based position, or null if the video was not in that impression.
+ */
+export async function recordSearchClick(impressionId: string, videoId: string): Promise<number | null> {
+  const { data: impression, error } = await supabase
+    .from('search_impressions')
+    .select('result_video_ids, result_offset')
+    .eq('id', impressionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load search impression: ${error.message}`);
+  }
+
+  const index = ((impression?.result_video_ids || []) as string[]).indexOf(videoId);
+  if (!impression || index === -1) {
+    return null;
+  }
+
+  const position = impression.result_offset + index + 1;
+  const { error: insertError } = await supabase.from('search_clicks').insert({
+    impression_id: impressionId,
+    video_id: videoId,
+    position,
+  });
+
+  if (insertError) {
+    throw new Error(`Failed to record search click: ${insertError.message}`);
+  }
+
+  return position;
+}
+
+/**
+ * Result-quality report over the last `days` days
+ */
+export async function getSearchQualityReport(days: number): Promise<SearchQualityReport> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const [daily, zeroResults, lowCtr] = await Promise.all([
+    supabase.rpc('search_quality_daily', { since }),
+    supabase.rpc('search_zero_result_queries', { since, row_limit: 50 }),
+    supabase.rpc('search_query_ctr', { since, min_searches: 5, row_limit: 50 }),
+  ]);
+
+  const failed = daily.error || zeroResults.error || lowCtr.error;
+  if (failed) {
+    throw new Error(`Failed to build search quality report: ${failed.message}`);
+  }
+
+  const dailyRows = ((daily.data || []) as any[]).map(row => ({
+    day: row.day,
+    searches: Number(row.searches),
+    zero_result_searches: Number(row.zero_result_searches),
+    clicked_searches: Number(row.clicked_searches),
+    ctr: round(Number(row.ctr)),
+    mrr: round(Number(row.mrr)),
+  }));
+
+  // Period totals, weighting each day's MRR by its searches with results
+  const searches = dailyRows.reduce((sum, d) => sum + d.searches, 0);
+  const zeroResultSearches = dailyRows.reduce((sum, d) => sum + d.zero_result_searches, 0);
+  const clickedSearches = dailyRows.reduce((sum, d) => sum + d.clicked_searches, 0);
+  const searchesWithResults = searches - zeroResultSearches;
+  const mrrSum = dailyRows.reduce((sum, d) => sum + d.mrr * (d.searches - d.zero_result_searches), 0);
+
+  return {
+    since,
+    summary: {
+      searches,
+      zero_result_searches: zeroResultSearches,
+      zero_result_rate: searches > 0 ? round(zeroResultSearches / searches) : 0,
+      clicked_searches: clickedSearches,
+      ctr: searchesWithResults > 0 ? round(clickedSearches / searchesWithResults) : 0,
+      mrr: searchesWithResults > 0 ? round(mrrSum / searchesWithResults) : 0,
+    },
+    daily: dailyRows,
+    zero_result_queries: ((zeroResults.data || []) as any[]).map(row => ({
+      query: row.normalized_query,
+      searches: Number(row.searches),
+      last_searched_at: row.last_searched_at,
+    })),
+    low_ctr_queries: ((lowCtr.data || []) as any[]).map(row => ({
+      query: row.normalized_query,
+      searches: Number(row.searches),
+      clicked_searches: Number(row.clicked_searches),
+      ctr: round(Number(row.ctr)),
+      mrr: round(Number(row.mrr)),
+    })),
+  };
+}
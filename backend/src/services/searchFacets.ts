@@ -0,0 +1,150 @@
+/**
+ * Search Facets Service
+ * Facet filters (species, breed, uploader, date range) for /videos/search and the
+ * counts shown next to each facet value; the filtering itself happens in search_videos.
+ * Counts are disjunctive: each facet is counted with every *other* active filter applied,
+ * so switching between values stays meaningful.
+ */
+
+import { getSpeciesLabel, getBreedLabel } from './taxonomy.js';
+
+// Facets are computed from at most this many matching videos
+export const FACET_SCAN_LIMIT = 1000;
+
+const MAX_UPLOADER_FACETS = 10;
+
+export interface SearchFilters {
+  species?: string;
+  breed?: string;
+  uploader?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  species: FacetValue[];
+  breed: (FacetValue & { species: string })[];
+  uploader: FacetValue[];
+  date: FacetValue[];
+}
+
+// Row shape returned by search_video_facet_rows
+export interface FacetRow {
+  user_id: string;
+  username: string | null;
+  species: string | null;
+  breed: string | null;
+  created_at: string;
+}
+
+const DATE_BUCKETS: { value: string; label: string; days: number }[] = [
+  { value: 'day', label: 'Past 24 hours', days: 1 },
+  { value: 'week', label: 'Past week', days: 7 },
+  { value: 'month', label: 'Past month', days: 30 },
+  { value: 'year', label: 'Past year', days: 365 },
+];
+
+/**
+ * Read facet filters from a query string (values are validated by the route)
+ */
+export function parseSearchFilters(query: Record<string, unknown>): SearchFilters {
+  const pick = (key: string) =>
+    typeof query[key] === 'string' && (query[key] as string).trim() ? (query[key] as string).trim() : undefined;
+
+  return {
+    species: pick('species'),
+    breed: pick('breed'),
+    uploader: pick('uploader'),
+    from: pick('from'),
+    to: pick('to'),
+  };
+}
+
+/**
+ * Inclusive upper bound for a `to` filter - a bare date covers the whole day
+ */
+export function endOfRange(to: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to;
+}
+
+/**
+ * Whether a facet row passes the active filters, ignoring the given facet(s)
+ */
+function matches(row: FacetRow, filters: SearchFilters, ignore: (keyof SearchFilters)[]): boolean {
+  if (filters.species && !ignore.includes('species') && row.species !== filters.species) return false;
+  if (filters.breed && !ignore.includes('breed') && row.breed !== filters.breed) return false;
+  if (filters.uploader && !ignore.includes('uploader') && row.user_id !== filters.uploader) return false;
+  if (filters.from && !ignore.includes('from') && row.created_at < filters.from) return false;
+  if (filters.to && !ignore.includes('to') && row.created_at > endOfRange(filters.to)) return false;
+  return true;
+}
+
+/**
+ * Sort facet values by count (then label) and drop empty ones
+ */
+function rank<V extends FacetValue>(values: Iterable<V>): V[] {
+  return Array.from(values)
+    .filter(v => v.count > 0)
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+/**
+ * Facet counts over the videos matching the text query
+ * `rows` must already exclude hidden/unavailable videos and hidden authors, but not the facet filters.
+ */
+export function buildSearchFacets(rows: FacetRow[], filters: SearchFilters, now: Date = new Date()): SearchFacets {
+  const species = new Map<string, FacetValue>();
+  const breed = new Map<string, FacetValue & { species: string }>();
+  const uploader = new Map<string, FacetValue>();
+  const date = DATE_BUCKETS.map(bucket => ({
+    value: bucket.value,
+    label: bucket.label,
+    count: 0,
+    since: new Date(now.getTime() - bucket.days * 24 * 60 * 60 * 1000).toISOString(),
+  }));
+
+  for (const row of rows) {
+    if (row.species && matches(row, filters, ['species', 'breed'])) {
+      const entry = species.get(row.species) || { value: row.species, label: getSpeciesLabel(row.species), count: 0 };
+      entry.count++;
+      species.set(row.species, entry);
+    }
+
+    if (row.species && row.breed && matches(row, filters, ['breed'])) {
+      const key = `${row.species}:${row.breed}`;
+      const entry = breed.get(key) || {
+        value: row.breed,
+        label: getBreedLabel(row.species, row.breed),
+        species: row.species,
+        count: 0,
+      };
+      entry.count++;
+      breed.set(key, entry);
+    }
+
+    if (matches(row, filters, ['uploader'])) {
+      const entry = uploader.get(row.user_id) || { value: row.user_id, label: row.username || 'Unknown', count: 0 };
+      entry.count++;
+      uploader.set(row.user_id, entry);
+    }
+
+    if (matches(row, filters, ['from', 'to'])) {
+      for (const bucket of date) {
+        if (row.created_at >= bucket.since) bucket.count++;
+      }
+    }
+  }
+
+  return {
+    species: rank(species.values()),
+    breed: rank(breed.values()),
+    uploader: rank(uploader.values()).slice(0, MAX_UPLOADER_FACETS),
+    date: date.map(({ value, label, count }) => ({ value, label, count })),
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Search History Service
+ * The per-user search_history log and the autocomplete suggestions built from it
+ * (db/add-search-suggest.sql). Only committed searches are logged, the same ones that count as
+ * search impressions, so half-typed prefixes never become suggestions.
+ */
+
+import { supabase } from '../config/supabase.js';
+
+const POPULAR_QUERY_WINDOW_DAYS = 30;
+// A query is only suggested to others once this many different users have searched it
+const POPULAR_QUERY_MIN_USERS = 3;
+// Recent entries scanned when de-duplicating a user's own queries
+const RECENT_QUERY_SCAN = 50;
+
+export const MAX_SUGGESTIONS = 10;
+
+export interface SearchHistoryEntry {
+  id: string;
+  search_query: string;
+  search_results_count: number | null;
+  created_at: string;
+}
+
+export type SuggestionType = 'recent' | 'popular' | 'video';
+
+export interface SearchSuggestion {
+  type: SuggestionType;
+  text: string;
+  video_id?: string;
+}
+
+/**
+ * Lower-case a prefix and escape LIKE wildcards so it only ever matches literally
+ */
+function toLikePrefix(prefix: string): string {
+  return prefix.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * A user's searches, newest first
+ */
+export async function listSearchHistory(
+  userId: string,
+  limit: number,
+  offset: number
+): Promise<{ entries: SearchHistoryEntry[]; total: number }> {
+  const { data, error, count } = await supabase
+    .from('search_history')
+    .select('id, search_query, search_results_count, created_at', { count: 'exact' })
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    throw new Error(`Failed to load search history: ${error.message}`);
+  }
+
+  return { entries: (data || []) as SearchHistoryEntry[], total: count || 0 };
+}
+
+/**
+ * Log a committed search; never throws (history must not fail a search)
+ */
+export async function recordSearchHistory(userId: string, query: string, resultsCount: number): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('search_history')
+      .insert({
+        user_id: userId,
+        search_query: query,
+        search_results_count: resultsCount
+      });
+
+    if (error) {
+      console.error('Failed to track search history:', error.message);
+    }
+  } catch (err) {
+    console.error('Failed to track search history:', err);
+  }
+}
+
+/**
+ * Delete all of a user's searches; returns how many were removed
+ */
+export async function clearSearchHistory(userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('search_history')
+    .delete()
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to clear search history: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
+
+/**
+ * The user's own distinct queries starting with the prefix, most recent first
+ */
+async function getRecentQueries(userId: string, prefix: string, limit: number): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('search_history')
+    .select('search_query')
+    .eq('user_id', userId)
+    .ilike('search_query', `${toLikePrefix(prefix)}%`)
+    .order('created_at', { ascending: false })
+    .limit(RECENT_QUERY_SCAN);
+
+  if (error) {
+    throw new Error(`Failed to load recent searches: ${error.message}`);
+  }
+
+  const seen = new Set<string>();
+  const queries: string[] = [];
+  for (const row of data || []) {
+    const text = row.search_query.trim();
+    const key = text.toLowerCase();
+    if (!text || seen.has(key)) continue;
+    seen.add(key);
+    queries.push(text);
+    if (queries.length >= limit) break;
+  }
+
+  return queries;
+}
+
+/**
+ * Popular queries (across users) starting with the prefix
+ */
+async function getPopularQueries(prefix: string, limit: number): Promise<string[]> {
+  const since = new Date(Date.now() - POPULAR_QUERY_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase.rpc('popular_search_queries', {
+    prefix: toLikePrefix(prefix),
+    since,
+    min_users: POPULAR_QUERY_MIN_USERS,
+    row_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load popular searches: ${error.message}`);
+  }
+
+  return ((data || []) as { query: string }[]).map(row => row.query);
+}
+
+/**
+ * Video titles visible to the viewer with a word starting with the prefix
+ */
+async function getMatchingTitles(
+  prefix: string,
+  viewerId: string | undefined,
+  excludedUserIds: string[],
+  limit: number
+): Promise<{ video_id: string; title: string }[]> {
+  const { data, error } = await supabase.rpc('suggest_video_titles', {
+    prefix: toLikePrefix(prefix),
+    excluded_user_ids: excludedUserIds,
+    row_limit: limit,
+    viewer_id: viewerId || null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load matching titles: ${error.message}`);
+  }
+
+  return (data || []) as { video_id: string; title: string }[];
+}
+
+/**
+ * Autocomplete suggestions for a prefix: the user's recent queries first, then popular queries,
+ * then video titles. Queries are de-duplicated case-insensitively across sources.
+ */
+export async function getSearchSuggestions(options: {
+  prefix: string;
+  userId?: string;
+  excludedUserIds: string[];
+  limit: number;
+}): Promise<SearchSuggestion[]> {
+  const { prefix, userId, excludedUserIds, limit } = options;
+
+  const [recent, popular, titles] = await Promise.all([
+    userId ? getRecentQueries(userId, prefix, Math.ceil(limit / 2)) : Promise.resolve([] as string[]),
+    getPopularQueries(prefix, limit),
+    getMatchingTitles(prefix, userId, excludedUserIds, limit),
+  ]);
+
+  const seen = new Set<string>();
+  const suggestions: SearchSuggestion[] = [];
+  const add = (suggestion: SearchSuggestion) => {
+    const key = suggestion.text.toLowerCase();
+    if (suggestions.length >= limit || seen.has(key)) return;
+    seen.add(key);
+    suggestions.push(suggestion);
+  };
+
+  recent.forEach(text => add({ type: 'recent', text }));
+  // Leave room for at least a couple of titles when there are plenty of queries
+  const queryLimit = Math.max(suggestions.length, limit - Math.min(titles.length, 3));
+  for (const text of popular) {
+    if (suggestions.length >= queryLimit) break;
+    add({ type: 'popular', text });
+  }
+  titles.forEach(row => add({ type: 'video', text: row.title, video_id: row.video_id }));
+
+  return suggestions;
+}
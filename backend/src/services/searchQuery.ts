@@ -0,0 +1,96 @@
+/**
+ * Search Query Pipeline
+ * Turns raw search input into the to_tsquery expression match_videos() expects:
+ * words are normalised, expanded with pet synonyms and, when a word is not in the
+ * search vocabulary, OR'ed with the closest known words (trigram similarity).
+ * Stemming happens in Postgres (english config), so "puppies" still matches "puppy".
+ */
+
+import { supabase } from '../config/supabase.js';
+import { logger } from './logger.js';
+import { getSynonyms, isKnownPetTerm } from './searchSynonyms.js';
+
+const MAX_QUERY_WORDS = 10;
+const MIN_SIMILARITY = 0.3;
+const CORRECTIONS_PER_WORD = 3;
+// Words shorter than this are not corrected (trigrams are too noisy)
+const MIN_CORRECTABLE_LENGTH = 4;
+
+export interface ParsedSearchQuery {
+  // to_tsquery('english', ...) expression, or null to browse
+  tsquery: string | null;
+  // Query with misspelt words replaced, when any were corrected
+  didYouMean: string | null;
+}
+
+interface TermMatch {
+  word: string;
+  known: boolean;
+  term: string | null;
+  similarity: number | null;
+}
+
+/**
+ * Lowercase alphanumeric words of the query - the only characters that reach to_tsquery
+ */
+export function normalizeQueryWords(raw: string): string[] {
+  return (raw.toLowerCase().match(/[a-z0-9]+/g) || []).slice(0, MAX_QUERY_WORDS);
+}
+
+/**
+ * Closest known terms for each query word that is not itself in the vocabulary
+ */
+async function findCorrections(words: string[]): Promise<Map<string, string[]>> {
+  const corrections = new Map<string, string[]>();
+  const candidates = Array.from(new Set(
+    words.filter(w => w.length >= MIN_CORRECTABLE_LENGTH && /^[a-z]+$/.test(w) && !isKnownPetTerm(w))
+  ));
+  if (candidates.length === 0) return corrections;
+
+  const { data, error } = await supabase.rpc('match_search_terms', {
+    words: candidates,
+    min_similarity: MIN_SIMILARITY,
+    per_word: CORRECTIONS_PER_WORD,
+  });
+
+  if (error) {
+    // Fail open: search still works, just without typo tolerance
+    logger.warn(`Search term matching failed, skipping typo correction: ${error.message}`);
+    return corrections;
+  }
+
+  for (const row of (data || []) as TermMatch[]) {
+    if (row.known || !row.term) continue;
+    const terms = corrections.get(row.word) || [];
+    terms.push(row.term);
+    corrections.set(row.word, terms);
+  }
+
+  return corrections;
+}
+
+/**
+ * Build the tsquery expression and "did you mean" suggestion for a raw search query
+ */
+export async function parseSearchQuery(raw: string | null): Promise<ParsedSearchQuery> {
+  const words = raw ? normalizeQueryWords(raw) : [];
+  if (words.length === 0) {
+    return { tsquery: null, didYouMean: null };
+  }
+
+  const corrections = await findCorrections(words);
+
+  const groups = words.map(word => {
+    const alternatives = new Set(getSynonyms(word));
+    // A corrected word brings its own synonyms ("kiten" -> kitten, kitty, cat, ...)
+    for (const term of corrections.get(word) || []) {
+      getSynonyms(term).forEach(alternative => alternatives.add(alternative));
+    }
+    return `(${Array.from(alternatives).join(' | ')})`;
+  });
+
+  const corrected = words.map(word => corrections.get(word)?.[0] || word);
+  const didYouMean = corrected.some((word, i) => word !== words[i]) ? corrected.join(' ') : null;
+
+  return { tsquery: groups.join(' & '), didYouMean };
+}
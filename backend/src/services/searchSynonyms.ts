@@ -0,0 +1,68 @@
+/**
+ * Search Synonyms
+ * Pet vocabulary that should match each other in video search. Each group is a set of
+ * interchangeable words: searching for any of them matches videos using any other.
+ *
+ * To add a synonym, put it in the right group (or start a new group). Use lowercase,
+ * letters only; plurals are covered by stemming, so list the singular form.
+ */
+
+export const SYNONYM_GROUPS: string[][] = [
+  ['cat', 'kitty', 'kitten', 'kitteh', 'feline', 'moggy'],
+  ['dog', 'puppy', 'pup', 'doggo', 'doggy', 'pupper', 'pooch', 'canine', 'hound'],
+  ['rabbit', 'bunny', 'bun'],
+  ['bird', 'birdie', 'parrot', 'budgie', 'parakeet'],
+  ['hamster', 'hammy'],
+  ['horse', 'pony', 'foal', 'stallion', 'mare'],
+  ['fish', 'goldfish'],
+  ['reptile', 'lizard', 'gecko'],
+  ['snake', 'serpent'],
+  ['turtle', 'tortoise'],
+  ['funny', 'hilarious', 'comedy'],
+  ['cute', 'adorable', 'aww'],
+  ['sleep', 'nap', 'snooze', 'sleepy'],
+  ['play', 'playful', 'zoomies'],
+  ['trick', 'training'],
+  ['rescue', 'adopt', 'adoption', 'shelter'],
+  ['vet', 'veterinarian'],
+];
+
+const groupByWord = new Map<string, string[]>();
+for (const group of SYNONYM_GROUPS) {
+  for (const word of group) {
+    groupByWord.set(word, group);
+  }
+}
+
+/**
+ * Singular-ish forms to try when looking a word up ("puppies" -> "puppy", "cats" -> "cat")
+ */
+function lookupForms(word: string): string[] {
+  const forms = [word];
+  if (word.endsWith('ies') && word.length > 4) forms.push(`${word.slice(0, -3)}y`);
+  if (word.endsWith('es') && word.length > 3) forms.push(word.slice(0, -2));
+  if (word.endsWith('s') && word.length > 3) forms.push(word.slice(0, -1));
+  // Common misspelt plural: "puppys" -> "puppy"
+  if (word.endsWith('ys') && word.length > 3) forms.push(word.slice(0, -1));
+  return forms;
+}
+
+/**
+ * Synonyms for a (lowercase) word, including the word itself; [word] when it has none
+ */
+export function getSynonyms(word: string): string[] {
+  for (const form of lookupForms(word)) {
+    const group = groupByWord.get(form);
+    if (group) {
+      return Array.from(new Set([word, ...group]));
+    }
+  }
+  return [word];
+}
+
+/**
+ * Whether the word (or its singular form) is in the synonym dictionary
+ */
+export function isKnownPetTerm(word: string): boolean {
+  return lookupForms(word).some(form => groupByWord.has(form));
+}
@@ -0,0 +1,322 @@
+/**
+ * Session Service
+ * Short-lived access tokens backed by server-side sessions and rotating refresh tokens
+ */
+
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { supabase } from '../config/supabase.js';
+import { logger } from './logger.js';
+
+const ACCESS_TOKEN_EXPIRES_IN = (process.env.JWT_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'];
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+
+// Two tabs refreshing at the same moment both present the same token;
+// only treat a rotated token as stolen once this window has passed
+const REUSE_GRACE_PERIOD_MS = 10 * 1000;
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'device_revoked'
+  | 'password_change'
+  | 'password_reset'
+  | 'account_locked'
+  | 'admin_action'
+  | 'token_reuse'
+  | 'account_linked';
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+export type RefreshResult =
+  | { status: 'ok'; userId: string; tokens: SessionTokens }
+  | { status: 'invalid' | 'expired' | 'revoked' | 'stale' | 'reused' };
+
+function getJwtSecret(): string {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET not configured');
+  }
+  return jwtSecret;
+}
+
+/**
+ * Turn a user agent string into a short device label, e.g. "Chrome on macOS"
+ */
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /CrOS/.test(userAgent) ? 'ChromeOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+/**
+ * Hash a refresh token for storage and lookup
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function refreshExpiry(): Date {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+  return expiresAt;
+}
+
+/**
+ * Sign a short-lived access token bound to a session
+ */
+export function signAccessToken(userId: string, sessionId: string): string {
+  return jwt.sign(
+    { userId, sessionId },
+    getJwtSecret(),
+    { expiresIn: ACCESS_TOKEN_EXPIRES_IN }
+  );
+}
+
+/**
+ * Issue a new refresh token for a session
+ */
+async function issueRefreshToken(sessionId: string, expiresAt: Date): Promise<string> {
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+
+  const { error } = await supabase
+    .from('refresh_tokens')
+    .insert({
+      session_id: sessionId,
+      token_hash: hashToken(refreshToken),
+      expires_at: expiresAt.toISOString(),
+    });
+
+  if (error) {
+    throw new Error(`Failed to store refresh token: ${error.message}`);
+  }
+
+  return refreshToken;
+}
+
+/**
+ * Start a new session for a user (login / registration)
+ */
+export async function createSession(req: Request, userId: string): Promise<SessionTokens> {
+  const expiresAt = refreshExpiry();
+
+  const { data: session, error } = await supabase
+    .from('user_sessions')
+    .insert({
+      user_id: userId,
+      user_agent: req.get('user-agent')?.slice(0, 500) || null,
+      ip_address: req.ip || null,
+      expires_at: expiresAt.toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error || !session) {
+    throw new Error(`Failed to create session: ${error?.message}`);
+  }
+
+  const refreshToken = await issueRefreshToken(session.id, expiresAt);
+
+  return {
+    token: signAccessToken(userId, session.id),
+    refreshToken,
+    sessionId: session.id,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * Presenting an already-rotated token revokes the whole session
+ */
+export async function rotateRefreshToken(req: Request, refreshToken: string): Promise<RefreshResult> {
+  const { data: stored } = await supabase
+    .from('refresh_tokens')
+    .select('id, session_id, expires_at, rotated_at, user_sessions!inner(id, user_id, revoked_at, expires_at)')
+    .eq('token_hash', hashToken(refreshToken))
+    .single();
+
+  if (!stored) {
+    return { status: 'invalid' };
+  }
+
+  const session: any = Array.isArray(stored.user_sessions) ? stored.user_sessions[0] : stored.user_sessions;
+
+  if (!session || session.revoked_at) {
+    return { status: 'revoked' };
+  }
+
+  if (stored.rotated_at) {
+    const rotatedAgo = Date.now() - new Date(stored.rotated_at).getTime();
+    if (rotatedAgo <= REUSE_GRACE_PERIOD_MS) {
+      return { status: 'stale' };
+    }
+
+    logger.warn(`Refresh token reuse detected for session ${session.id} - revoking`);
+    await revokeSession(session.id, 'token_reuse');
+    return { status: 'reused' };
+  }
+
+  const now = new Date();
+  if (new Date(stored.expires_at) < now || new Date(session.expires_at) < now) {
+    return { status: 'expired' };
+  }
+
+  // Mark as rotated only if nobody else rotated it first
+  const { data: claimed } = await supabase
+    .from('refresh_tokens')
+    .update({ rotated_at: now.toISOString() })
+    .eq('id', stored.id)
+    .is('rotated_at', null)
+    .select('id');
+
+  if (!claimed || claimed.length === 0) {
+    return { status: 'stale' };
+  }
+
+  const expiresAt = refreshExpiry();
+  const newRefreshToken = await issueRefreshToken(session.id, expiresAt);
+
+  await supabase
+    .from('user_sessions')
+    .update({
+      last_used_at: now.toISOString(),
+      expires_at: expiresAt.toISOString(),
+      ip_address: req.ip || null,
+    })
+    .eq('id', session.id);
+
+  return {
+    status: 'ok',
+    userId: session.user_id,
+    tokens: {
+      token: signAccessToken(session.user_id, session.id),
+      refreshToken: newRefreshToken,
+      sessionId: session.id,
+    },
+  };
+}
+
+/**
+ * Look up the session a refresh token belongs to (without rotating it)
+ */
+export async function findSessionIdByRefreshToken(refreshToken: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('refresh_tokens')
+    .select('session_id')
+    .eq('token_hash', hashToken(refreshToken))
+    .single();
+
+  return data?.session_id || null;
+}
+
+/**
+ * Check that a session exists, belongs to the user and has not been revoked or expired
+ */
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const { data: session } = await supabase
+    .from('user_sessions')
+    .select('user_id, revoked_at, expires_at')
+    .eq('id', sessionId)
+    .single();
+
+  if (!session || session.user_id !== userId || session.revoked_at) {
+    return false;
+  }
+
+  return new Date(session.expires_at) > new Date();
+}
+
+/**
+ * Remove push subscriptions registered by revoked sessions
+ * so a signed-out device stops receiving notifications
+ */
+async function removeSessionPushSubscriptions(sessionIds: string[]): Promise<void> {
+  if (sessionIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .in('session_id', sessionIds);
+
+  if (error) {
+    logger.warn('Failed to remove push subscriptions for revoked sessions:', error.message);
+  }
+}
+
+/**
+ * Revoke a single session
+ */
+export async function revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+  const { error } = await supabase
+    .from('user_sessions')
+    .update({
+      revoked_at: new Date().toISOString(),
+      revoked_reason: reason,
+    })
+    .eq('id', sessionId)
+    .is('revoked_at', null);
+
+  if (error) {
+    logger.error('Failed to revoke session:', error);
+    return;
+  }
+
+  await removeSessionPushSubscriptions([sessionId]);
+}
+
+/**
+ * Revoke every active session for a user, optionally keeping the current one
+ * Returns the number of sessions revoked
+ */
+export async function revokeUserSessions(
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  let query = supabase
+    .from('user_sessions')
+    .update({
+      revoked_at: new Date().toISOString(),
+      revoked_reason: reason,
+    })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (exceptSessionId) {
+    query = query.neq('id', exceptSessionId);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    logger.error('Failed to revoke user sessions:', error);
+    return 0;
+  }
+
+  const revokedIds = (data || []).map((session: any) => session.id);
+  await removeSessionPushSubscriptions(revokedIds);
+
+  return revokedIds.length;
+}
@@ -0,0 +1,107 @@
+/**
+ * Video Taxonomy Service
+ * Curated species -> breed list used to categorise shared videos and drive search facets.
+ * Species keys match pet profiles; breed keys are stable slugs, labels are for display.
+ */
+
+import { PET_SPECIES, PetSpecies } from './pets.js';
+
+export interface TaxonomyBreed {
+  key: string;
+  label: string;
+}
+
+export interface TaxonomySpecies {
+  key: PetSpecies;
+  label: string;
+  breeds: TaxonomyBreed[];
+}
+
+const breeds = (...labels: string[]): TaxonomyBreed[] =>
+  labels.map(label => ({
+    key: label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, ''),
+    label,
+  }));
+
+// Keyed by species so the compiler catches a pet species without a taxonomy entry
+const TAXONOMY: Record<PetSpecies, Omit<TaxonomySpecies, 'key'>> = {
+  dog: {
+    label: 'Dogs',
+    breeds: breeds(
+      'Beagle', 'Border Collie', 'Boxer', 'Chihuahua', 'Dachshund', 'French Bulldog',
+      'German Shepherd', 'Golden Retriever', 'Husky', 'Labrador Retriever', 'Pomeranian',
+      'Poodle', 'Pug', 'Shiba Inu', 'Corgi', 'Mixed Breed'
+    ),
+  },
+  cat: {
+    label: 'Cats',
+    breeds: breeds(
+      'Bengal', 'British Shorthair', 'Maine Coon', 'Persian', 'Ragdoll', 'Scottish Fold',
+      'Siamese', 'Sphynx', 'Domestic Shorthair', 'Domestic Longhair', 'Mixed Breed'
+    ),
+  },
+  bird: {
+    label: 'Birds',
+    breeds: breeds('Budgie', 'Cockatiel', 'Cockatoo', 'African Grey', 'Macaw', 'Lovebird', 'Canary', 'Chicken', 'Duck'),
+  },
+  rabbit: {
+    label: 'Rabbits',
+    breeds: breeds('Holland Lop', 'Netherland Dwarf', 'Lionhead', 'Mini Rex', 'Flemish Giant', 'Mixed Breed'),
+  },
+  hamster: {
+    label: 'Hamsters',
+    breeds: breeds('Syrian', 'Dwarf Campbell', 'Winter White', 'Roborovski', 'Chinese'),
+  },
+  guinea_pig: {
+    label: 'Guinea Pigs',
+    breeds: breeds('American', 'Abyssinian', 'Peruvian', 'Teddy', 'Skinny Pig'),
+  },
+  fish: {
+    label: 'Fish',
+    breeds: breeds('Betta', 'Goldfish', 'Guppy', 'Koi', 'Tetra', 'Axolotl'),
+  },
+  reptile: {
+    label: 'Reptiles',
+    breeds: breeds('Bearded Dragon', 'Leopard Gecko', 'Ball Python', 'Corn Snake', 'Tortoise', 'Turtle', 'Chameleon'),
+  },
+  horse: {
+    label: 'Horses',
+    breeds: breeds('Arabian', 'Thoroughbred', 'Quarter Horse', 'Shetland Pony', 'Donkey', 'Mixed Breed'),
+  },
+  other: {
+    label: 'Other Animals',
+    breeds: breeds('Ferret', 'Hedgehog', 'Rat', 'Mouse', 'Chinchilla', 'Goat', 'Pig', 'Alpaca'),
+  },
+};
+
+export const VIDEO_TAXONOMY: TaxonomySpecies[] = PET_SPECIES.map(key => ({ key, ...TAXONOMY[key] }));
+
+const speciesByKey = new Map(VIDEO_TAXONOMY.map(species => [species.key as string, species]));
+
+/**
+ * Whether a species key is in the taxonomy
+ */
+export function isValidSpecies(species: string): species is PetSpecies {
+  return speciesByKey.has(species);
+}
+
+/**
+ * Whether a breed key belongs to the given species
+ */
+export function isValidBreed(species: string, breed: string): boolean {
+  return !!speciesByKey.get(species)?.breeds.some(b => b.key === breed);
+}
+
+/**
+ * Display label for a species key (falls back to the key itself)
+ */
+export function getSpeciesLabel(species: string): string {
+  return speciesByKey.get(species)?.label || species;
+}
+
+/**
+ * Display label for a breed key within a species (falls back to the key itself)
+ */
+export function getBreedLabel(species: string, breed: string): string {
+  return speciesByKey.get(species)?.breeds.find(b => b.key === breed)?.label || breed;
+}
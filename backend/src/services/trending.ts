@@ -0,0 +1,158 @@
+/**
+ * Trending Service
+ * Trending per time window (1h, 24h, 7d, 30d) from views, likes and comments with time decay,
+ * stored as periodic snapshots by refresh_trending_snapshot (db/add-trending-snapshots.sql).
+ * Requests read the latest snapshot and re-rank it with the caller's trending formula.
+ */
+
+import { supabase } from '../config/supabase.js';
+import { DEFAULT_TRENDING_FORMULA, TrendingFormula } from './experiments.js';
+
+export const TRENDING_WINDOWS = ['1h', '24h', '7d', '30d'] as const;
+export type TrendingWindow = typeof TRENDING_WINDOWS[number];
+
+export const DEFAULT_TRENDING_WINDOW: TrendingWindow = '24h';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Window length and how often its snapshot is recomputed (short windows move faster)
+const WINDOW_CONFIG: Record<TrendingWindow, { seconds: number; refreshMs: number }> = {
+  '1h': { seconds: 60 * 60, refreshMs: 5 * 60 * 1000 },
+  '24h': { seconds: 24 * 60 * 60, refreshMs: 15 * 60 * 1000 },
+  '7d': { seconds: 7 * 24 * 60 * 60, refreshMs: HOUR_MS },
+  '30d': { seconds: 30 * 24 * 60 * 60, refreshMs: 6 * HOUR_MS },
+};
+
+const REFRESH_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+// Candidates kept per snapshot - enough for a variant formula to re-rank the top of the list
+const SNAPSHOT_SIZE = 200;
+
+export interface TrendingSnapshot {
+  id: string;
+  time_window: TrendingWindow;
+  computed_at: string;
+  video_count: number;
+}
+
+export interface TrendingEntry {
+  video_id: string;
+  rank: number;
+  view_score: number;
+  engagement_score: number;
+  recent_views: number;
+  recent_likes: number;
+  recent_comments: number;
+  trending_score: number;
+}
+
+/**
+ * Compute and store a new snapshot for a window
+ */
+export async function refreshTrendingSnapshot(window: TrendingWindow): Promise<void> {
+  const { error } = await supabase.rpc('refresh_trending_snapshot', {
+    window_name: window,
+    window_seconds: WINDOW_CONFIG[window].seconds,
+    view_weight: DEFAULT_TRENDING_FORMULA.viewVelocityWeight,
+    engagement_weight: DEFAULT_TRENDING_FORMULA.engagementWeight,
+    max_videos: SNAPSHOT_SIZE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to refresh trending snapshot: ${error.message}`);
+  }
+}
+
+/**
+ * Latest snapshot for a window, or null if none has been computed yet
+ */
+async function getLatestSnapshot(window: TrendingWindow): Promise<TrendingSnapshot | null> {
+  const { data, error } = await supabase
+    .from('trending_snapshots')
+    .select('id, time_window, computed_at, video_count')
+    .eq('time_window', window)
+    .order('computed_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load trending snapshot: ${error.message}`);
+  }
+
+  return data as TrendingSnapshot | null;
+}
+
+function isStale(snapshot: TrendingSnapshot | null, window: TrendingWindow): boolean {
+  return !snapshot || Date.now() - new Date(snapshot.computed_at).getTime() > WINDOW_CONFIG[window].refreshMs;
+}
+
+/**
+ * Latest snapshot for a window, computing one first when it is missing or well overdue
+ * (e.g. serverless deployments, where the refresh job doesn't run)
+ */
+export async function getTrendingSnapshot(window: TrendingWindow): Promise<TrendingSnapshot | null> {
+  const snapshot = await getLatestSnapshot(window);
+  if (snapshot && Date.now() - new Date(snapshot.computed_at).getTime() <= 2 * WINDOW_CONFIG[window].refreshMs) {
+    return snapshot;
+  }
+
+  await refreshTrendingSnapshot(window);
+  return getLatestSnapshot(window);
+}
+
+/**
+ * Entries of a snapshot ranked by a trending formula, best first
+ */
+export async function rankTrendingSnapshot(
+  snapshotId: string,
+  formula: TrendingFormula
+): Promise<TrendingEntry[]> {
+  const { data, error } = await supabase
+    .from('trending_snapshot_videos')
+    .select('video_id, rank, view_score, engagement_score, recent_views, recent_likes, recent_comments')
+    .eq('snapshot_id', snapshotId)
+    .order('rank', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load trending videos: ${error.message}`);
+  }
+
+  return ((data || []) as Omit<TrendingEntry, 'trending_score'>[])
+    .map(entry => ({
+      ...entry,
+      trending_score: entry.view_score * formula.viewVelocityWeight + entry.engagement_score * formula.engagementWeight,
+    }))
+    // Stable sort: ties keep the snapshot's rank
+    .sort((a, b) => b.trending_score - a.trending_score);
+}
+
+/**
+ * Recompute the snapshots that are due
+ */
+export async function refreshDueTrendingSnapshots(): Promise<void> {
+  for (const window of TRENDING_WINDOWS) {
+    try {
+      if (isStale(await getLatestSnapshot(window), window)) {
+        await refreshTrendingSnapshot(window);
+      }
+    } catch (err) {
+      console.error(`Trending snapshot error (${window}):`, err);
+    }
+  }
+}
+
+/**
+ * Start the trending snapshot job (computes missing snapshots right away)
+ */
+export function startTrendingSnapshots(): void {
+  refreshDueTrendingSnapshots().catch(err => {
+    console.error('Trending snapshots error:', err);
+  });
+
+  setInterval(() => {
+    refreshDueTrendingSnapshots().catch(err => {
+      console.error('Trending snapshots error:', err);
+    });
+  }, REFRESH_CHECK_INTERVAL_MS);
+
+  console.log('✅ Trending snapshots started');
+}
@@ -0,0 +1,252 @@
+/**
+ * Two-Factor Authentication Service
+ * RFC 6238 TOTP codes, one-time recovery codes and the short-lived login challenge token
+ */
+
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { supabase } from '../config/supabase.js';
+
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Accept one step either side for clock drift
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TOKEN_EXPIRES_IN = '5m';
+const CHALLENGE_PURPOSE = '2fa_challenge';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function getJwtSecret(): string {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET not configured');
+  }
+  return jwtSecret;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in TOTP secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * HOTP value for a counter (RFC 4226)
+ */
+function generateHotp(secret: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+function currentStep(): number {
+  return Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Generate a new random TOTP secret (base32)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Build the otpauth:// URI that authenticator apps read from the QR code
+ */
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const issuer = process.env.TOTP_ISSUER || 'Petflix';
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Verify a TOTP code against a secret
+ * Returns the matched time step, or null if the code is wrong
+ */
+export function verifyTotpCode(secret: string, code: string): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const step = currentStep();
+
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const candidate = generateHotp(key, step + offset);
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+      return step + offset;
+    }
+  }
+
+  return null;
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * Replace a user's recovery codes with a fresh set
+ * Returns the plain codes - they are only ever shown once
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  const { error: deleteError } = await supabase
+    .from('user_recovery_codes')
+    .delete()
+    .eq('user_id', userId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear recovery codes: ${deleteError.message}`);
+  }
+
+  const { error: insertError } = await supabase
+    .from('user_recovery_codes')
+    .insert(codes.map(code => ({ user_id: userId, code_hash: hashRecoveryCode(code) })));
+
+  if (insertError) {
+    throw new Error(`Failed to store recovery codes: ${insertError.message}`);
+  }
+
+  return codes;
+}
+
+/**
+ * Count recovery codes that have not been used yet
+ */
+export async function countRemainingRecoveryCodes(userId: string): Promise<number> {
+  const { count } = await supabase
+    .from('user_recovery_codes')
+    .select('*', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('used_at', null);
+
+  return count || 0;
+}
+
+/**
+ * Check a second factor for a user with 2FA enabled
+ * Accepts either a current TOTP code or an unused recovery code (which is then consumed)
+ */
+export async function verifySecondFactor(
+  user: { id: string; totp_secret: string | null; totp_last_used_step: number | null },
+  code: string
+): Promise<{ valid: boolean; usedRecoveryCode: boolean }> {
+  if (!user.totp_secret || !code) {
+    return { valid: false, usedRecoveryCode: false };
+  }
+
+  const step = verifyTotpCode(user.totp_secret, code);
+  if (step !== null) {
+    // Each code is single-use: reject anything at or before the last accepted step
+    if (user.totp_last_used_step !== null && step <= user.totp_last_used_step) {
+      return { valid: false, usedRecoveryCode: false };
+    }
+
+    await supabase
+      .from('users')
+      .update({ totp_last_used_step: step })
+      .eq('id', user.id);
+
+    return { valid: true, usedRecoveryCode: false };
+  }
+
+  // Not a TOTP code - try it as a recovery code
+  const { data: consumed } = await supabase
+    .from('user_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', user.id)
+    .eq('code_hash', hashRecoveryCode(code))
+    .is('used_at', null)
+    .select('id');
+
+  if (consumed && consumed.length > 0) {
+    return { valid: true, usedRecoveryCode: true };
+  }
+
+  return { valid: false, usedRecoveryCode: false };
+}
+
+/**
+ * Issue the short-lived token that proves the password step succeeded
+ * It carries no session, so authenticateToken rejects it for normal API calls
+ */
+export function signChallengeToken(userId: string): string {
+  return jwt.sign(
+    { userId, purpose: CHALLENGE_PURPOSE },
+    getJwtSecret(),
+    { expiresIn: CHALLENGE_TOKEN_EXPIRES_IN }
+  );
+}
+
+/**
+ * Verify a login challenge token and return the user it belongs to
+ */
+export function verifyChallengeToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, getJwtSecret()) as { userId: string; purpose?: string };
+    return decoded.purpose === CHALLENGE_PURPOSE ? decoded.userId : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * User Blocks & Mutes Service
+ * A block cuts all contact: no follows either way, no comments on the blocker's videos,
+ * no notifications to the blocker. A mute only hides the muted user's content from the muter.
+ */
+
+import { supabase } from '../config/supabase.js';
+import { logger } from './logger.js';
+
+/**
+ * Whether blockerId has blocked blockedId
+ */
+export async function isBlocked(blockerId: string, blockedId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select('blocker_id')
+    .eq('blocker_id', blockerId)
+    .eq('blocked_id', blockedId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check block: ${error.message}`);
+  }
+
+  return !!data;
+}
+
+/**
+ * Whether either user has blocked the other
+ */
+export async function isBlockedEitherWay(userA: string, userB: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_blocks')
+    .select('blocker_id')
+    .or(`and(blocker_id.eq.${userA},blocked_id.eq.${userB}),and(blocker_id.eq.${userB},blocked_id.eq.${userA})`)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to check block: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Block a user and drop any follow or pending follow request between the two accounts (idempotent)
+ */
+export async function blockUser(blockerId: string, blockedId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_blocks')
+    .upsert({ blocker_id: blockerId, blocked_id: blockedId }, { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to block user: ${error.message}`);
+  }
+
+  const { error: followError } = await supabase
+    .from('followers')
+    .delete()
+    .or(`and(follower_id.eq.${blockerId},following_id.eq.${blockedId}),and(follower_id.eq.${blockedId},following_id.eq.${blockerId})`);
+
+  if (followError) {
+    throw new Error(`Failed to remove follows: ${followError.message}`);
+  }
+
+  const { error: requestError } = await supabase
+    .from('follow_requests')
+    .delete()
+    .or(`and(requester_id.eq.${blockerId},target_id.eq.${blockedId}),and(requester_id.eq.${blockedId},target_id.eq.${blockerId})`);
+
+  if (requestError) {
+    throw new Error(`Failed to remove follow requests: ${requestError.message}`);
+  }
+}
+
+/**
+ * Unblock a user (idempotent). Follows removed by the block are not restored.
+ */
+export async function unblockUser(blockerId: string, blockedId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_blocks')
+    .delete()
+    .eq('blocker_id', blockerId)
+    .eq('blocked_id', blockedId);
+
+  if (error) {
+    throw new Error(`Failed to unblock user: ${error.message}`);
+  }
+}
+
+/**
+ * Mute a user (idempotent)
+ */
+export async function muteUser(muterId: string, mutedId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_mutes')
+    .upsert({ muter_id: muterId, muted_id: mutedId }, { onConflict: 'muter_id,muted_id', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to mute user: ${error.message}`);
+  }
+}
+
+/**
+ * Unmute a user (idempotent)
+ */
+export async function unmuteUser(muterId: string, mutedId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_mutes')
+    .delete()
+    .eq('muter_id', muterId)
+    .eq('muted_id', mutedId);
+
+  if (error) {
+    throw new Error(`Failed to unmute user: ${error.message}`);
+  }
+}
+
+/**
+ * IDs of users a viewer has muted - empty for anonymous viewers
+ * Fails open: a lookup error shows muted content rather than breaking the listing
+ */
+export async function getMutedUserIds(viewerId?: string): Promise<string[]> {
+  if (!viewerId) return [];
+
+  const { data, error } = await supabase
+    .from('user_mutes')
+    .select('muted_id')
+    .eq('muter_id', viewerId);
+
+  if (error) {
+    logger.warn('Failed to load muted users:', error.message);
+    return [];
+  }
+
+  return (data || []).map((row: any) => row.muted_id as string);
+}
+
+/**
+ * Users a viewer has blocked or muted, newest first, with basic profile info
+ */
+export async function listBlockedOrMuted(kind: 'blocks' | 'mutes', userId: string) {
+  const table = kind === 'blocks' ? 'user_blocks' : 'user_mutes';
+  const ownerColumn = kind === 'blocks' ? 'blocker_id' : 'muter_id';
+  const targetColumn = kind === 'blocks' ? 'blocked_id' : 'muted_id';
+
+  const { data: rows, error } = await supabase
+    .from(table)
+    .select(`${targetColumn}, created_at`)
+    .eq(ownerColumn, userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load ${kind}: ${error.message}`);
+  }
+
+  const targetIds = (rows || []).map((row: any) => row[targetColumn] as string);
+  if (targetIds.length === 0) return [];
+
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('id, username, profile_picture_url')
+    .in('id', targetIds);
+
+  if (usersError) {
+    throw new Error(`Failed to load ${kind}: ${usersError.message}`);
+  }
+
+  const usersById = new Map((users || []).map((user: any) => [user.id, user]));
+  return (rows || [])
+    .filter((row: any) => usersById.has(row[targetColumn]))
+    .map((row: any) => ({
+      ...usersById.get(row[targetColumn]),
+      since: row.created_at as string,
+    }));
+}
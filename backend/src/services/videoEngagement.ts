@@ -0,0 +1,65 @@
+/**
+ * Video Engagement Service
+ * Likes, comments, shares and recent views for a page of videos in a single round-trip
+ * (video_engagement_counts in db/add-video-engagement.sql). Listings use this instead of
+ * counting per video.
+ */
+
+import { supabase } from '../config/supabase.js';
+
+export interface EngagementCounts {
+  likes_count: number;
+  comments_count: number;
+  shares_count: number;
+  // Views since `recentViewsSince`; 0 when not requested
+  recent_views: number;
+}
+
+export const EMPTY_ENGAGEMENT: EngagementCounts = {
+  likes_count: 0,
+  comments_count: 0,
+  shares_count: 0,
+  recent_views: 0,
+};
+
+/**
+ * Engagement counts keyed by video ID (videos without any engagement map to zeros)
+ */
+export async function getEngagementCounts(
+  videoIds: string[],
+  options: { recentViewsSince?: Date } = {}
+): Promise<Map<string, EngagementCounts>> {
+  const counts = new Map<string, EngagementCounts>();
+  if (videoIds.length === 0) return counts;
+
+  const { data, error } = await supabase.rpc('video_engagement_counts', {
+    video_ids: videoIds,
+    views_since: options.recentViewsSince ? options.recentViewsSince.toISOString() : null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load engagement counts: ${error.message}`);
+  }
+
+  for (const row of (data || []) as ({ video_id: string } & EngagementCounts)[]) {
+    counts.set(row.video_id, {
+      likes_count: Number(row.likes_count),
+      comments_count: Number(row.comments_count),
+      shares_count: Number(row.shares_count),
+      recent_views: Number(row.recent_views),
+    });
+  }
+
+  return counts;
+}
+
+/**
+ * The likes/comments/shares fields listings add to each video
+ */
+export function engagementFields(
+  counts: Map<string, EngagementCounts>,
+  videoId: string
+): Pick<EngagementCounts, 'likes_count' | 'comments_count' | 'shares_count'> {
+  const { likes_count, comments_count, shares_count } = counts.get(videoId) || EMPTY_ENGAGEMENT;
+  return { likes_count, comments_count, shares_count };
+}
@@ -0,0 +1,160 @@
+/**
+ * Video Search Service
+ * Wraps the search SQL functions from add-video-search.sql and add-search-explain.sql. Matching
+ * (full-text), facet filters, relevance scoring and sorting all run in Postgres, so pages are cut
+ * from one global ordering.
+ */
+
+import { supabase } from '../config/supabase.js';
+import { SearchFilters, FacetRow, FACET_SCAN_LIMIT, endOfRange } from './searchFacets.js';
+import { RelevanceWeights, RelevanceComponents } from './relevanceAlgorithm.js';
+
+const SEARCH_TERMS_REFRESH_MS = 60 * 60 * 1000;
+
+export const SEARCH_SORTS = ['relevance', 'recency', 'view_count', 'engagement'] as const;
+export type SearchSort = typeof SEARCH_SORTS[number];
+
+export interface VideoSearchOptions {
+  // to_tsquery expression from parseSearchQuery (null to browse)
+  query: string | null;
+  includeUnavailable: boolean;
+  // Authors whose videos the viewer must not see (shadowbanned, muted)
+  excludedUserIds: string[];
+  // Searching user; private accounts' videos only match for the owner and approved followers
+  viewerId?: string | null;
+  // Videos that match regardless of text, e.g. tagged with a pet matching the query
+  extraVideoIds: string[];
+}
+
+export interface RankedVideo {
+  video_id: string;
+  relevance_score: number;
+  keyword_score: number;
+  components: RelevanceComponents;
+  likes_count: number;
+  comments_count: number;
+  shares_count: number;
+}
+
+// Row shape returned by search_videos
+interface SearchVideosRow {
+  video_id: string;
+  relevance_score: number;
+  keyword_score: number;
+  view_count_score: number;
+  like_ratio_score: number;
+  recency_score: number;
+  engagement_score: number;
+  likes_count: number;
+  comments_count: number;
+  shares_count: number;
+  total_count: number;
+}
+
+/**
+ * One page of matching video IDs in final order, with engagement counts and the total match count
+ * `weights` ranks with draft weights instead of the saved ones (admin what-if preview).
+ */
+export async function searchVideoIds(
+  options: VideoSearchOptions & {
+    sort: SearchSort;
+    filters: SearchFilters;
+    limit: number;
+    offset: number;
+    weights?: RelevanceWeights;
+  }
+): Promise<{ results: RankedVideo[]; total: number }> {
+  const { data, error } = await supabase.rpc('search_videos', {
+    search_query: options.query,
+    sort_option: options.sort,
+    include_unavailable: options.includeUnavailable,
+    excluded_user_ids: options.excludedUserIds,
+    extra_video_ids: options.extraVideoIds,
+    viewer_id: options.viewerId || null,
+    filter_species: options.filters.species || null,
+    filter_breed: options.filters.breed || null,
+    filter_uploader: options.filters.uploader || null,
+    filter_from: options.filters.from || null,
+    filter_to: options.filters.to ? endOfRange(options.filters.to) : null,
+    result_limit: options.limit,
+    result_offset: options.offset,
+    override_weights: options.weights
+      ? {
+          keyword_match: options.weights.keywordMatch,
+          view_count: options.weights.viewCount,
+          like_ratio: options.weights.likeRatio,
+          recency: options.weights.recency,
+          engagement: options.weights.engagement,
+        }
+      : null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to search videos: ${error.message}`);
+  }
+
+  const rows = (data || []) as SearchVideosRow[];
+
+  return {
+    results: rows.map(row => ({
+      video_id: row.video_id,
+      relevance_score: Number(row.relevance_score),
+      keyword_score: Number(row.keyword_score),
+      components: {
+        keywordMatch: Number(row.keyword_score),
+        viewCount: Number(row.view_count_score),
+        likeRatio: Number(row.like_ratio_score),
+        recency: Number(row.recency_score),
+        engagement: Number(row.engagement_score),
+      },
+      likes_count: Number(row.likes_count),
+      comments_count: Number(row.comments_count),
+      shares_count: Number(row.shares_count),
+    })),
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+  };
+}
+
+/**
+ * Matching videos before facet filters, for facet counts (newest FACET_SCAN_LIMIT only)
+ */
+export async function getFacetRows(options: VideoSearchOptions): Promise<FacetRow[]> {
+  const { data, error } = await supabase.rpc('search_video_facet_rows', {
+    search_query: options.query,
+    include_unavailable: options.includeUnavailable,
+    excluded_user_ids: options.excludedUserIds,
+    extra_video_ids: options.extraVideoIds,
+    row_limit: FACET_SCAN_LIMIT,
+    viewer_id: options.viewerId || null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load search facets: ${error.message}`);
+  }
+
+  return (data || []) as FacetRow[];
+}
+
+/**
+ * Rebuild the search vocabulary used for typo correction
+ */
+export async function refreshSearchTerms(): Promise<void> {
+  const { error } = await supabase.rpc('refresh_search_terms');
+
+  if (error) {
+    throw new Error(`Failed to refresh search terms: ${error.message}`);
+  }
+}
+
+/**
+ * Keep the search vocabulary current (hourly; new words are still searchable, just not suggested)
+ */
+export function startSearchTermsRefresher(): void {
+  setInterval(() => {
+    refreshSearchTerms().catch(err => {
+      console.error('Search terms refresh error:', err);
+    });
+  }, SEARCH_TERMS_REFRESH_MS);
+
+  console.log('✅ Search vocabulary refresher started');
+}
@@ -22,10 +22,14 @@ const Register = lazy(() => import('./pages/Register').then(m => ({ default: m.R
 const ForgotPassword = lazy(() => import('./pages/ForgotPassword').then(m => ({ default: m.ForgotPassword })));
 const ResetPassword = lazy(() => import('./pages/ResetPassword').then(m => ({ default: m.ResetPassword })));
 const VerifyEmailChange = lazy(() => import('./pages/VerifyEmailChange').then(m => ({ default: m.VerifyEmailChange })));
+const MagicLinkLogin = lazy(() => import('./pages/MagicLinkLogin').then(m => ({ default: m.MagicLinkLogin })));
+const OidcCallback = lazy(() => import('./pages/OidcCallback').then(m => ({ default: m.OidcCallback })));
 const Search = lazy(() => import('./pages/Search').then(m => ({ default: m.Search })));
 const Feed = lazy(() => import('./pages/Feed').then(m => ({ default: m.Feed })));
 const VideoDetail = lazy(() => import('./pages/VideoDetail').then(m => ({ default: m.VideoDetail })));
 const Profile = lazy(() => import('./pages/Profile').then(m => ({ default: m.Profile })));
+const PetProfile = lazy(() => import('./pages/PetProfile').then(m => ({ default: m.PetProfile })));
+const PetForm = lazy(() => import('./pages/PetForm').then(m => ({ default: m.PetForm })));
 const ShareVideo = lazy(() => import('./pages/ShareVideo').then(m => ({ default: m.ShareVideo })));
 const Playlists = lazy(() => import('./pages/Playlists').then(m => ({ default: m.Playlists })));
 const PlaylistDetail = lazy(() => import('./pages/PlaylistDetail').then(m => ({ default: m.PlaylistDetail })));
@@ -33,6 +37,11 @@ const Settings = lazy(() => import('./pages/Settings').then(m => ({ default: m.S
 const ShareRedirect = lazy(() => import('./pages/ShareRedirect').then(m => ({ default: m.ShareRedirect })));
 const RecentlyViewed = lazy(() => import('./pages/RecentlyViewed').then(m => ({ default: m.RecentlyViewed })));
 const YouTubeWatch = lazy(() => import('./pages/YouTubeWatch').then(m => ({ default: m.YouTubeWatch })));
+const AdminSettings = lazy(() => import('./pages/AdminSettings').then(m => ({ default: m.AdminSettings })));
+const AdminErrorDashboard = lazy(() => import('./pages/AdminErrorDashboard').then(m => ({ default: m.AdminErrorDashboard })));
+const ModerationQueue = lazy(() => import('./pages/ModerationQueue').then(m => ({ default: m.ModerationQueue })));
+const AdminExperiments = lazy(() => import('./pages/AdminExperiments').then(m => ({ default: m.AdminExperiments })));
+const AdminSearchAnalytics = lazy(() => import('./pages/AdminSearchAnalytics').then(m => ({ default: m.AdminSearchAnalytics })));
 
 function App() {
   return (
@@ -63,6 +72,8 @@ function App() {
             <Route path="/forgot-password" element={<ForgotPassword />} />
             <Route path="/reset-password" element={<ResetPassword />} />
             <Route path="/verify-email" element={<VerifyEmailChange />} />
+            <Route path="/magic-link" element={<MagicLinkLogin />} />
+            <Route path="/auth/oidc/callback" element={<OidcCallback />} />
             <Route path="/search" element={<Search />} />
             <Route path="/watch/:videoId" element={<YouTubeWatch />} />
             <Route path="/s/:shareCode" element={<ShareRedirect />} />
@@ -84,6 +95,30 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/pets/new"
+              element={
+                <ProtectedRoute>
+                  <PetForm />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/pet/:petId"
+              element={
+                <ProtectedRoute>
+                  <PetProfile />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/pet/:petId/edit"
+              element={
+                <ProtectedRoute>
+                  <PetForm />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/feed"
               element={
@@ -141,6 +176,48 @@ function App() {
                 </ProtectedRoute>
               }
             />
+
+            {/* Admin Routes - pages redirect users without the required permission themselves */}
+            <Route
+              path="/admin/settings"
+              element={
+                <ProtectedRoute>
+                  <AdminSettings />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/errors"
+              element={
+                <ProtectedRoute>
+                  <AdminErrorDashboard />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/reports"
+              element={
+                <ProtectedRoute>
+                  <ModerationQueue />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/experiments"
+              element={
+                <ProtectedRoute>
+                  <AdminExperiments />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/search-analytics"
+              element={
+                <ProtectedRoute>
+                  <AdminSearchAnalytics />
+                </ProtectedRoute>
+              }
+            />
                 </Routes>
               </Suspense>
               </div>
@@ -5,7 +5,7 @@ import { useTheme } from '../contexts/ThemeContext';
 import { NotificationBell } from './NotificationBell';
 
 export const Navbar = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
   const { theme, toggleTheme } = useTheme();
   const navigate = useNavigate();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -13,6 +13,14 @@ export const Navbar = () => {
   const [userMenuOpen, setUserMenuOpen] = useState(false);
   const userMenuRef = useRef<HTMLDivElement>(null);
 
+  // Staff land on the first admin page their role can open
+  const adminPath =
+    hasPermission('relevance.edit') ? '/admin/settings' :
+    hasPermission('reports.review') ? '/admin/reports' :
+    hasPermission('errors.read') ? '/admin/errors' :
+    hasPermission('experiments.manage') ? '/admin/experiments' :
+    null;
+
   useEffect(() => {
     const handleOnline = () => setIsOffline(false);
     const handleOffline = () => setIsOffline(true);
@@ -168,6 +176,15 @@ export const Navbar = () => {
                       >
                         Settings
                       </Link>
+                      {adminPath && (
+                        <Link
+                          to={adminPath}
+                          onClick={() => setUserMenuOpen(false)}
+                          className="block px-4 py-3 text-sm text-charcoal dark:text-white hover:bg-gray-100 dark:hover:bg-petflix-gray transition"
+                        >
+                          Admin
+                        </Link>
+                      )}
                       <div className="border-t border-gray-200 dark:border-gray-700">
                         <button
                           onClick={() => {
@@ -271,6 +288,11 @@ export const Navbar = () => {
                   <Link to="/settings" onClick={() => setMobileMenuOpen(false)} className="px-4 py-2 text-charcoal dark:text-white hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition">
                     Settings
                   </Link>
+                  {adminPath && (
+                    <Link to={adminPath} onClick={() => setMobileMenuOpen(false)} className="px-4 py-2 text-charcoal dark:text-white hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition">
+                      Admin
+                    </Link>
+                  )}
                   <button
                     onClick={handleLogout}
                     className="px-4 py-2 bg-petflix-orange dark:bg-petflix-orange text-white dark:text-white font-bold rounded-lg transition text-left"
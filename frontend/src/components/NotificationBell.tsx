@@ -2,11 +2,11 @@ import { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { formatRelativeTime } from '../lib/dateUtils';
-import { api } from '../services/api';
+import { api, followsAPI } from '../services/api';
 
 interface Notification {
   id: string;
-  type: 'follow' | 'video' | 'comment' | 'video_like' | 'general';
+  type: 'follow' | 'follow_request' | 'video' | 'comment' | 'video_like' | 'saved_search' | 'general';
   title: string;
   body: string;
   link: string | null;
@@ -14,11 +14,23 @@ interface Notification {
   created_at: string;
 }
 
+interface FollowRequest {
+  requester_id: string;
+  created_at: string;
+  users: {
+    id: string;
+    username: string;
+    profile_picture_url: string | null;
+  } | null;
+}
+
 export const NotificationBell = () => {
   const { user } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
+  const [followRequests, setFollowRequests] = useState<FollowRequest[]>([]);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
   const [dropdownPosition, setDropdownPosition] = useState({ top: 0, right: 0 });
   const dropdownRef = useRef<HTMLDivElement>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
@@ -72,16 +84,49 @@ export const NotificationBell = () => {
     }
   };
 
+  // Pending follow requests (private accounts) - shown above notifications until answered
+  const fetchFollowRequests = async () => {
+    if (!user) return;
+
+    try {
+      const response = await followsAPI.getRequests();
+      setFollowRequests(response.data.requests || []);
+    } catch (error) {
+      console.error('🔔 [BELL] Failed to fetch follow requests:', error);
+    }
+  };
+
+  const refresh = () => {
+    fetchNotifications();
+    fetchFollowRequests();
+  };
+
   useEffect(() => {
     if (!user) return;
     
-    fetchNotifications();
+    refresh();
     
     // Poll for new notifications every 60 seconds (reasonable for production)
-    const interval = setInterval(fetchNotifications, 60000);
+    const interval = setInterval(refresh, 60000);
     return () => clearInterval(interval);
   }, [user]);
 
+  const handleRespondToRequest = async (requesterId: string, approve: boolean) => {
+    setRespondingTo(requesterId);
+    try {
+      if (approve) {
+        await followsAPI.approveRequest(requesterId);
+      } else {
+        await followsAPI.denyRequest(requesterId);
+      }
+      setFollowRequests(prev => prev.filter(r => r.requester_id !== requesterId));
+    } catch (error) {
+      console.error('Failed to respond to follow request:', error);
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
   const handleMarkAsRead = async (notificationId: string) => {
     try {
       await api.patch(`/push/notifications/${notificationId}/read`);
@@ -165,9 +210,9 @@ export const NotificationBell = () => {
             d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
           />
         </svg>
-        {unreadCount > 0 && (
+        {unreadCount + followRequests.length > 0 && (
           <span className="absolute top-0 right-0 block h-5 w-5 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center">
-            {unreadCount > 9 ? '9+' : unreadCount}
+            {unreadCount + followRequests.length > 9 ? '9+' : unreadCount + followRequests.length}
           </span>
         )}
       </button>
@@ -185,7 +230,7 @@ export const NotificationBell = () => {
             <h3 className="font-bold text-charcoal dark:text-white">Notifications</h3>
             <div className="flex items-center gap-2">
               <button
-                onClick={fetchNotifications}
+                onClick={refresh}
                 className="text-sm text-gray-500 dark:text-gray-400 hover:text-charcoal dark:hover:text-white transition"
                 title="Refresh notifications"
               >
@@ -205,11 +250,52 @@ export const NotificationBell = () => {
           </div>
 
           <div className="overflow-y-auto flex-1">
-            {notifications.length === 0 ? (
-              <div className="p-8 text-center text-gray-500 dark:text-gray-400">
-                <p>No notifications yet</p>
-                <p className="text-sm mt-2">You'll see notifications here when someone follows you, comments on your videos, or likes your content.</p>
+            {followRequests.length > 0 && (
+              <div className="border-b border-gray-200 dark:border-gray-700">
+                <p className="px-4 pt-3 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                  Follow requests
+                </p>
+                <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {followRequests.map((request) => (
+                    <div key={request.requester_id} className="flex items-center gap-3 p-4">
+                      <Link
+                        to={`/profile/${request.requester_id}`}
+                        onClick={() => setIsOpen(false)}
+                        className="flex-1 min-w-0"
+                      >
+                        <p className="text-sm font-semibold text-charcoal dark:text-white truncate">
+                          {request.users?.username || 'Someone'}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                          Requested {formatRelativeTime(request.created_at)}
+                        </p>
+                      </Link>
+                      <button
+                        onClick={() => handleRespondToRequest(request.requester_id, true)}
+                        disabled={respondingTo === request.requester_id}
+                        className="px-3 py-1.5 text-sm font-semibold rounded bg-petflix-orange hover:bg-petflix-orange/80 text-white transition disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleRespondToRequest(request.requester_id, false)}
+                        disabled={respondingTo === request.requester_id}
+                        className="px-3 py-1.5 text-sm font-semibold rounded bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-charcoal dark:text-white transition disabled:opacity-50"
+                      >
+                        Deny
+                      </button>
+                    </div>
+                  ))}
+                </div>
               </div>
+            )}
+            {notifications.length === 0 ? (
+              followRequests.length === 0 && (
+                <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+                  <p>No notifications yet</p>
+                  <p className="text-sm mt-2">You'll see notifications here when someone follows you, comments on your videos, or likes your content.</p>
+                </div>
+              )
             ) : (
               <div className="divide-y divide-gray-200 dark:divide-gray-700">
                 {notifications.map((notification) => (
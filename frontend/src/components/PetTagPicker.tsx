@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { petsAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { Pet, getSpeciesInfo } from '../lib/pets';
+
+const MAX_PETS_PER_VIDEO = 10;
+
+interface PetTagPickerProps {
+  selectedIds: string[];
+  onChange: (petIds: string[]) => void;
+}
+
+/**
+ * Toggleable chips for the current user's pets, used when sharing or editing a video
+ */
+export const PetTagPicker = ({ selectedIds, onChange }: PetTagPickerProps) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [pets, setPets] = useState<Pet[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    petsAPI.getUserPets(userId)
+      .then((response) => setPets(response.data.pets || []))
+      .catch((err) => console.log('Could not load pets', err))
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const togglePet = (petId: string) => {
+    if (selectedIds.includes(petId)) {
+      onChange(selectedIds.filter(id => id !== petId));
+    } else if (selectedIds.length < MAX_PETS_PER_VIDEO) {
+      onChange([...selectedIds, petId]);
+    }
+  };
+
+  if (loading) return null;
+
+  if (pets.length === 0) {
+    return (
+      <p className="text-sm text-gray-700 dark:text-gray-400">
+        <Link to="/pets/new" className="text-petflix-orange hover:underline font-medium">
+          Add a pet
+        </Link>
+        {' '}to tag them in your videos
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {pets.map((pet) => {
+        const selected = selectedIds.includes(pet.id);
+        return (
+          <button
+            key={pet.id}
+            type="button"
+            onClick={() => togglePet(pet.id)}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition ${
+              selected
+                ? 'bg-petflix-orange text-white'
+                : 'bg-gray-200 dark:bg-[#272727] text-charcoal dark:text-white hover:bg-gray-300 dark:hover:bg-[#333333]'
+            }`}
+          >
+            {pet.photo_url ? (
+              <img src={pet.photo_url} alt="" className="w-5 h-5 rounded-full object-cover" />
+            ) : (
+              <span>{getSpeciesInfo(pet.species).emoji}</span>
+            )}
+            {pet.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { SearchFacets, SearchFilters, FacetValue } from '../lib/taxonomy';
+
+interface SearchFacetFiltersProps {
+  facets: SearchFacets;
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+}
+
+const DATE_PRESET_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+const chipClassName = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-medium transition ${
+    active
+      ? 'bg-petflix-orange text-white'
+      : 'bg-white dark:bg-petflix-dark-gray text-charcoal dark:text-white border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-800'
+  }`;
+
+const dateInputClassName = 'px-2 py-1 rounded-md text-xs bg-white dark:bg-petflix-dark-gray text-charcoal dark:text-white border border-gray-300 dark:border-gray-600';
+
+/**
+ * Facet chips (species, breed, uploader, date) with result counts for Petflix search
+ */
+export const SearchFacetFilters = ({ facets, filters, onChange }: SearchFacetFiltersProps) => {
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  // Breeds are only listed for the selected species (or all species when none is selected)
+  const breeds = facets.breed.filter(b => !filters.species || b.species === filters.species);
+
+  const renderChips = (
+    values: FacetValue[],
+    selected: string | undefined,
+    onSelect: (value: string | undefined) => void
+  ) =>
+    values.map((facet) => (
+      <button
+        key={facet.value}
+        type="button"
+        onClick={() => onSelect(selected === facet.value ? undefined : facet.value)}
+        className={chipClassName(selected === facet.value)}
+      >
+        {facet.label} <span className="opacity-70">({facet.count})</span>
+      </button>
+    ));
+
+  const selectDatePreset = (preset: string) => {
+    const since = new Date(Date.now() - DATE_PRESET_DAYS[preset] * 24 * 60 * 60 * 1000);
+    onChange({ ...filters, from: since.toISOString(), to: undefined });
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-white/60 dark:bg-petflix-dark rounded-lg border border-gray-200 dark:border-gray-700 space-y-3 text-sm">
+      {facets.species.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-semibold text-charcoal dark:text-white w-20">Species</span>
+          {renderChips(facets.species, filters.species, (species) =>
+            onChange({ ...filters, species, breed: undefined })
+          )}
+        </div>
+      )}
+
+      {breeds.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-semibold text-charcoal dark:text-white w-20">Breed</span>
+          {breeds.map((facet) => {
+            const active = filters.breed === facet.value && (!filters.species || filters.species === facet.species);
+            return (
+              <button
+                key={`${facet.species}:${facet.value}`}
+                type="button"
+                onClick={() => onChange(active
+                  ? { ...filters, breed: undefined }
+                  : { ...filters, species: facet.species, breed: facet.value })}
+                className={chipClassName(active)}
+              >
+                {facet.label} <span className="opacity-70">({facet.count})</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {facets.uploader.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-semibold text-charcoal dark:text-white w-20">Uploader</span>
+          {renderChips(
+            facets.uploader.map(u => ({ ...u, label: `@${u.label}` })),
+            filters.uploader,
+            (uploader) => onChange({ ...filters, uploader })
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold text-charcoal dark:text-white w-20">Date</span>
+        {facets.date.map((facet) => (
+          <button
+            key={facet.value}
+            type="button"
+            onClick={() => selectDatePreset(facet.value)}
+            disabled={facet.count === 0}
+            className={`${chipClassName(false)} disabled:opacity-40`}
+          >
+            {facet.label} <span className="opacity-70">({facet.count})</span>
+          </button>
+        ))}
+        <input
+          type="date"
+          value={filters.from?.slice(0, 10) || ''}
+          onChange={(e) => onChange({ ...filters, from: e.target.value || undefined })}
+          className={dateInputClassName}
+          aria-label="From date"
+        />
+        <span className="text-gray-500 dark:text-gray-400">to</span>
+        <input
+          type="date"
+          value={filters.to?.slice(0, 10) || ''}
+          onChange={(e) => onChange({ ...filters, to: e.target.value || undefined })}
+          className={dateInputClassName}
+          aria-label="To date"
+        />
+      </div>
+
+      {hasFilters && (
+        <button
+          type="button"
+          onClick={() => onChange({})}
+          className="text-xs font-medium text-petflix-orange hover:underline"
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+};
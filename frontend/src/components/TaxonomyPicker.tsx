@@ -0,0 +1,51 @@
+import { useVideoTaxonomy } from '../hooks/useVideoTaxonomy';
+
+interface TaxonomyPickerProps {
+  species: string;
+  breed: string;
+  onChange: (species: string, breed: string) => void;
+  selectClassName?: string;
+}
+
+const defaultSelectClassName = 'w-full px-4 py-3 rounded-md bg-white dark:bg-petflix-dark-gray text-charcoal dark:text-white border border-gray-300 dark:border-gray-700 focus:ring-2 focus:ring-petflix-orange';
+
+/**
+ * Species + breed selects for categorising a video (empty string = not set)
+ */
+export const TaxonomyPicker = ({ species, breed, onChange, selectClassName = defaultSelectClassName }: TaxonomyPickerProps) => {
+  const taxonomy = useVideoTaxonomy();
+  const breeds = taxonomy.find(s => s.key === species)?.breeds || [];
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <select
+        value={species}
+        // Breeds belong to a species, so switching species clears the breed
+        onChange={(e) => onChange(e.target.value, '')}
+        className={selectClassName}
+        aria-label="Species"
+      >
+        <option value="">No species</option>
+        {taxonomy.map((option) => (
+          <option key={option.key} value={option.key}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={breed}
+        onChange={(e) => onChange(species, e.target.value)}
+        disabled={!species}
+        className={`${selectClassName} disabled:opacity-50`}
+        aria-label="Breed"
+      >
+        <option value="">{species ? 'Any / unknown breed' : 'Pick a species first'}</option>
+        {breeds.map((option) => (
+          <option key={option.key} value={option.key}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
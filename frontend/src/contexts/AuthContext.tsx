@@ -8,16 +8,61 @@ interface User {
   profile_picture_url?: string;
   bio?: string;
   user_number?: number;
+  role?: UserRole;
+  permissions?: Permission[];
+}
+
+export type UserRole = 'user' | 'moderator' | 'support' | 'admin';
+
+// Mirrors backend services/permissions.ts
+export type Permission =
+  | 'reports.review'
+  | 'users.read'
+  | 'users.ban'
+  | 'users.manage'
+  | 'roles.assign'
+  | 'relevance.edit'
+  | 'experiments.manage'
+  | 'errors.read'
+  | 'errors.manage'
+  | 'system.manage'
+  | 'audit.read';
+
+// Suspension or ban returned by the API when the account may not sign in
+export interface AccountSanction {
+  type: 'suspension' | 'ban';
+  reason: string;
+  expires_at: string | null;
+}
+
+export class AccountSanctionError extends Error {
+  sanction: AccountSanction;
+
+  constructor(message: string, sanction: AccountSanction) {
+    super(message);
+    this.name = 'AccountSanctionError';
+    this.sanction = sanction;
+  }
+}
+
+// Login either completes or asks for a second factor
+export interface LoginResult {
+  requires2FA: boolean;
+  challengeToken?: string;
 }
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  loginWithMagicLink: (token: string) => Promise<LoginResult>;
+  loginWithOidc: (code: string, state: string) => Promise<LoginResult>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<{ recoveryCodesRemaining?: number }>;
   register: (username: string, email: string, password: string) => Promise<void>;
   logout: () => void;
   updateUser: (user: User) => void;
+  hasPermission: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -52,6 +97,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             if (validationError.response?.status === 401) {
               console.log('❌ Token validation failed (401), clearing auth state');
               localStorage.removeItem('token');
+              localStorage.removeItem('refreshToken');
               localStorage.removeItem('user');
               setToken(null);
               setUser(null);
@@ -64,6 +110,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           // Failed to parse user data
           console.error('❌ Failed to parse stored user data, clearing auth state');
           localStorage.removeItem('token');
+          localStorage.removeItem('refreshToken');
           localStorage.removeItem('user');
           setToken(null);
           setUser(null);
@@ -81,27 +128,50 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setUser(null);
     };
 
+    // Keep context in sync when the API interceptor silently refreshes the token
+    const handleTokenRefreshed = (event: Event) => {
+      const { token: refreshedToken } = (event as CustomEvent<{ token: string }>).detail;
+      setToken(refreshedToken);
+    };
+
     window.addEventListener('auth:token-expired', handleTokenExpired);
+    window.addEventListener('auth:token-refreshed', handleTokenRefreshed);
 
     return () => {
       window.removeEventListener('auth:token-expired', handleTokenExpired);
+      window.removeEventListener('auth:token-refreshed', handleTokenRefreshed);
     };
   }, []);
 
-  const login = async (email: string, password: string) => {
+  // Persist a new session from a login/register response
+  const startSession = (data: { token?: string; refreshToken?: string; user?: User }) => {
+    const { token: newToken, refreshToken, user: newUser } = data;
+
+    if (!newToken || !newUser) {
+      throw new Error('Invalid response from server');
+    }
+
+    localStorage.setItem('token', newToken);
+    if (refreshToken) {
+      localStorage.setItem('refreshToken', refreshToken);
+    }
+    localStorage.setItem('user', JSON.stringify(newUser));
+
+    setToken(newToken);
+    setUser(newUser);
+  };
+
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       const response = await authAPI.login({ email, password });
-      const { token: newToken, user: newUser } = response.data;
 
-      if (!newToken || !newUser) {
-        throw new Error('Invalid response from server');
+      // Password accepted, but the account has 2FA - caller collects the code
+      if (response.data.requires2FA) {
+        return { requires2FA: true, challengeToken: response.data.challengeToken };
       }
 
-      localStorage.setItem('token', newToken);
-      localStorage.setItem('user', JSON.stringify(newUser));
-
-      setToken(newToken);
-      setUser(newUser);
+      startSession(response.data);
+      return { requires2FA: false };
     } catch (error: any) {
       console.error('❌ Login error:', error);
       console.error('❌ Error response:', error.response?.data);
@@ -111,6 +181,11 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         throw new Error('Too many login attempts. Please try again in 15 minutes.');
       }
       
+      // Suspended or banned - surface the details, not just the message
+      if (error.response?.status === 403 && error.response?.data?.sanction) {
+        throw new AccountSanctionError(error.response.data.message, error.response.data.sanction);
+      }
+
       // Handle 403 account lock specifically
       if (error.response?.status === 403) {
         throw new Error(error.response?.data?.message || 'Account temporarily locked');
@@ -127,23 +202,72 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const register = async (username: string, email: string, password: string) => {
+  const loginWithMagicLink = async (magicToken: string): Promise<LoginResult> => {
     try {
-      const response = await authAPI.register({ username, email, password });
-      const { token: newToken, user: newUser } = response.data;
+      const response = await authAPI.verifyMagicLink(magicToken);
+
+      if (response.data.requires2FA) {
+        return { requires2FA: true, challengeToken: response.data.challengeToken };
+      }
 
-      localStorage.setItem('token', newToken);
-      localStorage.setItem('user', JSON.stringify(newUser));
+      startSession(response.data);
+      return { requires2FA: false };
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || 'This sign-in link is invalid or has expired');
+    }
+  };
+
+  const loginWithOidc = async (code: string, state: string): Promise<LoginResult> => {
+    try {
+      const response = await authAPI.completeOidcLogin({ code, state });
+
+      if (response.data.requires2FA) {
+        return { requires2FA: true, challengeToken: response.data.challengeToken };
+      }
+
+      startSession(response.data);
+      return { requires2FA: false };
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || 'Single sign-on failed. Please try again.');
+    }
+  };
+
+  const completeTwoFactorLogin = async (challengeToken: string, code: string) => {
+    try {
+      const response = await authAPI.verifyTwoFactor({ challengeToken, code });
+      startSession(response.data);
+      return { recoveryCodesRemaining: response.data.recoveryCodesRemaining };
+    } catch (error: any) {
+      if (error.response?.status === 429) {
+        throw new Error('Too many login attempts. Please try again in 15 minutes.');
+      }
+      if (error.response?.status === 403 && error.response?.data?.sanction) {
+        throw new AccountSanctionError(error.response.data.message, error.response.data.sanction);
+      }
+      throw new Error(error.response?.data?.message || 'Invalid verification code');
+    }
+  };
 
-      setToken(newToken);
-      setUser(newUser);
+  const register = async (username: string, email: string, password: string) => {
+    try {
+      const response = await authAPI.register({ username, email, password });
+      startSession(response.data);
     } catch (error: any) {
       throw new Error(error.response?.data?.message || 'Registration failed');
     }
   };
 
   const logout = () => {
+    // Revoke the session server-side (fire and forget - local sign-out shouldn't wait on the network)
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      authAPI.logout(refreshToken).catch(err => {
+        console.warn('⚠️ Failed to revoke session on logout:', err.message);
+      });
+    }
+
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
     setToken(null);
     setUser(null);
@@ -154,8 +278,11 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setUser(updatedUser);
   };
 
+  // UI gating only - the API enforces permissions on every request
+  const hasPermission = (permission: Permission) => !!user?.permissions?.includes(permission);
+
   return (
-    <AuthContext.Provider value={{ user, token, loading, login, register, logout, updateUser }}>
+    <AuthContext.Provider value={{ user, token, loading, login, loginWithMagicLink, loginWithOidc, completeTwoFactorLogin, register, logout, updateUser, hasPermission }}>
       {children}
     </AuthContext.Provider>
   );
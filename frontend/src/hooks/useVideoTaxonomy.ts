@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { videosAPI } from '../services/api';
+import { TaxonomySpecies } from '../lib/taxonomy';
+
+// The taxonomy is static for the lifetime of the page, so fetch it once and share it
+let cachedTaxonomy: Promise<TaxonomySpecies[]> | null = null;
+
+/**
+ * Custom hook for the curated species/breed taxonomy
+ * Returns an empty list until loaded (or if loading fails)
+ */
+export function useVideoTaxonomy(): TaxonomySpecies[] {
+  const [taxonomy, setTaxonomy] = useState<TaxonomySpecies[]>([]);
+
+  useEffect(() => {
+    if (!cachedTaxonomy) {
+      cachedTaxonomy = videosAPI.getTaxonomy()
+        .then(response => response.data.species || [])
+        .catch(error => {
+          console.error('Failed to load taxonomy:', error);
+          cachedTaxonomy = null; // Retry on next mount
+          return [];
+        });
+    }
+
+    let active = true;
+    cachedTaxonomy.then(species => {
+      if (active) setTaxonomy(species);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return taxonomy;
+}
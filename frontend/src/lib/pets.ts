@@ -0,0 +1,59 @@
+// Pet profile types and display helpers
+
+export const PET_SPECIES = [
+  { value: 'dog', label: 'Dog', emoji: '🐶' },
+  { value: 'cat', label: 'Cat', emoji: '🐱' },
+  { value: 'bird', label: 'Bird', emoji: '🐦' },
+  { value: 'rabbit', label: 'Rabbit', emoji: '🐰' },
+  { value: 'hamster', label: 'Hamster', emoji: '🐹' },
+  { value: 'guinea_pig', label: 'Guinea Pig', emoji: '🐹' },
+  { value: 'fish', label: 'Fish', emoji: '🐠' },
+  { value: 'reptile', label: 'Reptile', emoji: '🦎' },
+  { value: 'horse', label: 'Horse', emoji: '🐴' },
+  { value: 'other', label: 'Other', emoji: '🐾' },
+] as const;
+
+export type PetSpecies = typeof PET_SPECIES[number]['value'];
+
+export interface Pet {
+  id: string;
+  owner_id: string;
+  name: string;
+  species: PetSpecies;
+  breed: string | null;
+  birthday: string | null;
+  photo_url: string | null;
+  created_at: string;
+  updated_at: string;
+  owner?: {
+    id: string;
+    username: string;
+    profile_picture_url: string | null;
+  } | null;
+}
+
+export type PetSummary = Pick<Pet, 'id' | 'name' | 'species' | 'breed' | 'photo_url'>;
+
+/**
+ * Label and emoji for a species value (unknown values fall back to "Other")
+ */
+export function getSpeciesInfo(species: string) {
+  return PET_SPECIES.find(s => s.value === species) || PET_SPECIES[PET_SPECIES.length - 1];
+}
+
+/**
+ * Human-readable age from a YYYY-MM-DD birthday, e.g. "3 years" or "5 months"
+ */
+export function formatPetAge(birthday: string | null): string | null {
+  if (!birthday) return null;
+
+  const born = new Date(birthday);
+  const now = new Date();
+  let months = (now.getFullYear() - born.getFullYear()) * 12 + (now.getMonth() - born.getMonth());
+  if (now.getDate() < born.getDate()) months--;
+
+  if (months < 1) return 'Under a month';
+  if (months < 12) return `${months} ${months === 1 ? 'month' : 'months'}`;
+  const years = Math.floor(months / 12);
+  return `${years} ${years === 1 ? 'year' : 'years'}`;
+}
@@ -0,0 +1,46 @@
+// Video taxonomy (species -> breeds) and search facet types, as served by the backend
+
+export interface TaxonomyBreed {
+  key: string;
+  label: string;
+}
+
+export interface TaxonomySpecies {
+  key: string;
+  label: string;
+  breeds: TaxonomyBreed[];
+}
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  species: FacetValue[];
+  breed: (FacetValue & { species: string })[];
+  uploader: FacetValue[];
+  date: FacetValue[];
+}
+
+export interface SearchFilters {
+  species?: string;
+  breed?: string;
+  uploader?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * "Golden Retriever · Dogs"-style label for a video's category, or null if uncategorised
+ */
+export function formatVideoCategory(taxonomy: TaxonomySpecies[], species: string | null | undefined, breed: string | null | undefined): string | null {
+  if (!species) return null;
+
+  const speciesEntry = taxonomy.find(s => s.key === species);
+  const speciesLabel = speciesEntry?.label || species;
+  const breedLabel = breed ? speciesEntry?.breeds.find(b => b.key === breed)?.label || breed : null;
+
+  return breedLabel ? `${breedLabel} · ${speciesLabel}` : speciesLabel;
+}
@@ -41,7 +41,7 @@ interface ErrorStats {
 }
 
 export const AdminErrorDashboard = () => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const toast = useToast();
   const navigate = useNavigate();
 
@@ -56,9 +56,9 @@ export const AdminErrorDashboard = () => {
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
 
-  // Check if user is admin
+  // The dashboard is read-only for roles without errors.manage
   useEffect(() => {
-    if (!user?.is_admin) {
+    if (!hasPermission('errors.read')) {
       toast.error('Admin access required');
       navigate('/');
     } else {
@@ -257,15 +257,17 @@ export const AdminErrorDashboard = () => {
               >
                 📥 Export CSV
               </button>
-              <button
-                onClick={handleClearOldLogs}
-                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded transition flex items-center gap-2"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                </svg>
-                Clear Old
-              </button>
+              {hasPermission('errors.manage') && (
+                <button
+                  onClick={handleClearOldLogs}
+                  className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded transition flex items-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                  Clear Old
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,469 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useNavigate } from 'react-router-dom';
+import { adminAPI } from '../services/api';
+import { formatRelativeTime } from '../lib/dateUtils';
+
+type ExperimentSurface = 'search' | 'trending';
+
+interface ExperimentVariant {
+  key: string;
+  name: string;
+  allocation: number;
+  config: Record<string, unknown>;
+}
+
+interface Experiment {
+  id: string;
+  key: string;
+  name: string;
+  description: string | null;
+  surface: ExperimentSurface;
+  status: 'draft' | 'running' | 'stopped';
+  created_at: string;
+  started_at: string | null;
+  stopped_at: string | null;
+  variants: ExperimentVariant[];
+}
+
+interface VariantMetrics {
+  variant_key: string;
+  subjects: number;
+  exposures: number;
+  clicks: number;
+  likes: number;
+  watch_starts: number;
+  click_rate: number;
+  like_rate: number;
+  watch_rate: number;
+  clicks_per_exposure: number;
+}
+
+interface VariantDraft {
+  key: string;
+  name: string;
+  allocation: string;
+  config: string;
+}
+
+// Example variant config per surface, shown as the placeholder
+const CONFIG_EXAMPLES: Record<ExperimentSurface, string> = {
+  search: '{"weights": {"keywordMatch": 0.5, "viewCount": 0.1, "likeRatio": 0.1, "recency": 0.2, "engagement": 0.1}}',
+  trending: '{"viewVelocityWeight": 1, "engagementWeight": 3}',
+};
+
+const STATUS_STYLES: Record<Experiment['status'], string> = {
+  draft: 'bg-gray-200 dark:bg-gray-700 text-charcoal dark:text-white',
+  running: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400',
+  stopped: 'bg-red-100 dark:bg-red-900/20 text-red-600 dark:text-red-400',
+};
+
+const emptyVariants = (): VariantDraft[] => [
+  { key: 'control', name: 'Control', allocation: '50', config: '' },
+  { key: 'treatment', name: 'Treatment', allocation: '50', config: '' },
+];
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-100 dark:bg-gray-800 text-charcoal dark:text-white rounded border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-petflix-orange dark:focus:ring-petflix-orange';
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+export const AdminExperiments = () => {
+  const { user, hasPermission } = useAuth();
+  const toast = useToast();
+  const navigate = useNavigate();
+
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actingOn, setActingOn] = useState<string | null>(null);
+  const [reports, setReports] = useState<Record<string, VariantMetrics[]>>({});
+
+  const [showForm, setShowForm] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [key, setKey] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [surface, setSurface] = useState<ExperimentSurface>('search');
+  const [variants, setVariants] = useState<VariantDraft[]>(emptyVariants);
+
+  // Experiments require the experiments.manage permission
+  useEffect(() => {
+    if (!hasPermission('experiments.manage')) {
+      toast.error('Admin access required');
+      navigate('/');
+    } else {
+      loadExperiments();
+    }
+  }, [user, navigate, toast]);
+
+  const loadExperiments = async () => {
+    setLoading(true);
+    try {
+      const response = await adminAPI.getExperiments();
+      setExperiments(response.data.experiments || []);
+    } catch (error: any) {
+      console.error('Failed to load experiments:', error);
+      toast.error('Failed to load experiments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    setVariants(prev => prev.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const totalAllocation = variants.reduce((sum, v) => sum + (parseInt(v.allocation) || 0), 0);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let parsedVariants;
+    try {
+      parsedVariants = variants.map(variant => ({
+        key: variant.key.trim(),
+        name: variant.name.trim(),
+        allocation: parseInt(variant.allocation) || 0,
+        config: variant.config.trim() ? JSON.parse(variant.config) : {},
+      }));
+    } catch {
+      toast.error('Variant config must be valid JSON');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      await adminAPI.createExperiment({
+        key: key.trim(),
+        name: name.trim(),
+        description: description.trim() || null,
+        surface,
+        variants: parsedVariants,
+      });
+      toast.success('Experiment created');
+      setShowForm(false);
+      setKey('');
+      setName('');
+      setDescription('');
+      setVariants(emptyVariants());
+      loadExperiments();
+    } catch (error: any) {
+      const data = error.response?.data;
+      toast.error(data?.message || data?.details?.[0]?.msg || data?.error || 'Failed to create experiment');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleStatus = async (experiment: Experiment, action: 'start' | 'stop') => {
+    if (action === 'stop' && !confirm(`Stop "${experiment.name}"? Everyone goes back to the default ranking. A stopped experiment cannot be restarted.`)) return;
+
+    setActingOn(experiment.id);
+    try {
+      if (action === 'start') {
+        await adminAPI.startExperiment(experiment.id);
+        toast.success('Experiment started');
+      } else {
+        await adminAPI.stopExperiment(experiment.id);
+        toast.success('Experiment stopped');
+      }
+      loadExperiments();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || error.response?.data?.error || `Failed to ${action} experiment`);
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  const handleReport = async (experiment: Experiment) => {
+    if (reports[experiment.id]) {
+      setReports(({ [experiment.id]: _hidden, ...rest }) => rest);
+      return;
+    }
+
+    setActingOn(experiment.id);
+    try {
+      const response = await adminAPI.getExperimentReport(experiment.id);
+      setReports(prev => ({ ...prev, [experiment.id]: response.data.metrics || [] }));
+    } catch (error: any) {
+      toast.error('Failed to load report');
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-cream-light dark:bg-petflix-black pt-24 px-8 md:px-16 pb-12">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-charcoal dark:text-white mb-2">
+              Experiments
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              A/B test search ranking and trending formulas on real traffic
+            </p>
+          </div>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="px-4 py-2 bg-petflix-orange hover:opacity-90 text-white font-bold rounded-lg transition"
+          >
+            {showForm ? 'Cancel' : '+ New Experiment'}
+          </button>
+        </div>
+
+        {/* Create Form */}
+        {showForm && (
+          <form onSubmit={handleCreate} className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-6 mb-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-charcoal dark:text-white mb-1">Key</label>
+                <input
+                  type="text"
+                  value={key}
+                  onChange={(e) => setKey(e.target.value.toLowerCase())}
+                  placeholder="search-recency-boost"
+                  maxLength={50}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-charcoal dark:text-white mb-1">Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Boost recency in search"
+                  maxLength={100}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-charcoal dark:text-white mb-1">Surface</label>
+                <select
+                  value={surface}
+                  onChange={(e) => setSurface(e.target.value as ExperimentSurface)}
+                  className={inputClassName}
+                >
+                  <option value="search">Search ranking</option>
+                  <option value="trending">Trending formula</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-charcoal dark:text-white mb-1">Description</label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What are we testing, and what result would make us ship it?"
+                maxLength={1000}
+                rows={2}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="font-bold text-charcoal dark:text-white">Variants</h2>
+                <span className={`text-sm font-medium ${totalAllocation === 100 ? 'text-green-600 dark:text-green-400' : 'text-yellow-600 dark:text-yellow-400'}`}>
+                  Allocation: {totalAllocation}% / 100%
+                </span>
+              </div>
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                Leave config empty for the current ranking (control). Example: <code>{CONFIG_EXAMPLES[surface]}</code>
+              </p>
+              {variants.map((variant, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-start">
+                  <input
+                    type="text"
+                    value={variant.key}
+                    onChange={(e) => updateVariant(index, { key: e.target.value.toLowerCase() })}
+                    placeholder="key"
+                    required
+                    className={`${inputClassName} md:col-span-2`}
+                  />
+                  <input
+                    type="text"
+                    value={variant.name}
+                    onChange={(e) => updateVariant(index, { name: e.target.value })}
+                    placeholder="Name"
+                    required
+                    className={`${inputClassName} md:col-span-3`}
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={variant.allocation}
+                    onChange={(e) => updateVariant(index, { allocation: e.target.value })}
+                    className={`${inputClassName} md:col-span-1`}
+                    aria-label="Allocation %"
+                  />
+                  <input
+                    type="text"
+                    value={variant.config}
+                    onChange={(e) => updateVariant(index, { config: e.target.value })}
+                    placeholder="{} (control)"
+                    className={`${inputClassName} md:col-span-5 font-mono text-xs`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}
+                    disabled={variants.length <= 2}
+                    className="md:col-span-1 px-2 py-2 text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-40 disabled:no-underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              {variants.length < 5 && (
+                <button
+                  type="button"
+                  onClick={() => setVariants(prev => [...prev, { key: '', name: '', allocation: '0', config: '' }])}
+                  className="text-sm font-medium text-petflix-orange hover:underline"
+                >
+                  + Add variant
+                </button>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={creating || totalAllocation !== 100}
+              className="px-6 py-2 rounded-lg font-bold text-white bg-petflix-orange hover:opacity-90 transition disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              {creating ? 'Creating...' : 'Create Draft'}
+            </button>
+          </form>
+        )}
+
+        {/* Experiments */}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-4 border-petflix-orange dark:border-petflix-orange border-t-transparent"></div>
+          </div>
+        ) : experiments.length === 0 ? (
+          <div className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-12 text-center text-gray-600 dark:text-gray-400">
+            No experiments yet
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {experiments.map((experiment) => {
+              const report = reports[experiment.id];
+              return (
+                <div key={experiment.id} className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-6">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <h2 className="text-lg font-bold text-charcoal dark:text-white">{experiment.name}</h2>
+                        <span className={`px-2 py-0.5 text-xs font-bold rounded ${STATUS_STYLES[experiment.status]}`}>
+                          {experiment.status}
+                        </span>
+                        <span className="px-2 py-0.5 text-xs font-medium rounded bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">
+                          {experiment.surface}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        <code>{experiment.key}</code> · created {formatRelativeTime(experiment.created_at)}
+                        {experiment.started_at && ` · started ${formatRelativeTime(experiment.started_at)}`}
+                        {experiment.stopped_at && ` · stopped ${formatRelativeTime(experiment.stopped_at)}`}
+                      </p>
+                      {experiment.description && (
+                        <p className="text-sm text-charcoal dark:text-white mt-1">{experiment.description}</p>
+                      )}
+                    </div>
+
+                    <div className="flex gap-2 flex-shrink-0">
+                      {experiment.status === 'draft' && (
+                        <button
+                          onClick={() => handleStatus(experiment, 'start')}
+                          disabled={actingOn === experiment.id}
+                          className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded transition disabled:opacity-50"
+                        >
+                          Start
+                        </button>
+                      )}
+                      {experiment.status === 'running' && (
+                        <button
+                          onClick={() => handleStatus(experiment, 'stop')}
+                          disabled={actingOn === experiment.id}
+                          className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded transition disabled:opacity-50"
+                        >
+                          Stop
+                        </button>
+                      )}
+                      {experiment.status !== 'draft' && (
+                        <button
+                          onClick={() => handleReport(experiment)}
+                          disabled={actingOn === experiment.id}
+                          className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-charcoal dark:text-white rounded transition disabled:opacity-50"
+                        >
+                          {report ? 'Hide Report' : 'Report'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {experiment.variants.map((variant) => (
+                      <span
+                        key={variant.key}
+                        title={JSON.stringify(variant.config)}
+                        className="px-2 py-1 text-xs font-medium rounded bg-gray-100 dark:bg-gray-800 text-charcoal dark:text-white"
+                      >
+                        {variant.name} ({variant.key}) · {variant.allocation}%
+                        {Object.keys(variant.config).length === 0 && ' · control'}
+                      </span>
+                    ))}
+                  </div>
+
+                  {report && (
+                    <div className="mt-4 overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-600 dark:text-gray-400">
+                            <th className="font-medium py-1">Variant</th>
+                            <th className="font-medium">Subjects</th>
+                            <th className="font-medium">Exposures</th>
+                            <th className="font-medium">Clicks</th>
+                            <th className="font-medium">Clicks / exposure</th>
+                            <th className="font-medium">Click rate</th>
+                            <th className="font-medium">Like rate</th>
+                            <th className="font-medium">Watch rate</th>
+                          </tr>
+                        </thead>
+                        <tbody className="text-charcoal dark:text-white">
+                          {report.map((metrics) => (
+                            <tr key={metrics.variant_key} className="border-t border-gray-200 dark:border-gray-700">
+                              <td className="py-1 font-medium">{metrics.variant_key}</td>
+                              <td>{metrics.subjects.toLocaleString()}</td>
+                              <td>{metrics.exposures.toLocaleString()}</td>
+                              <td>{metrics.clicks.toLocaleString()}</td>
+                              <td>{percent(metrics.clicks_per_exposure)}</td>
+                              <td>{percent(metrics.click_rate)}</td>
+                              <td>{percent(metrics.like_rate)} <span className="opacity-60">({metrics.likes})</span></td>
+                              <td>{percent(metrics.watch_rate)} <span className="opacity-60">({metrics.watch_starts})</span></td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                        Rates are the share of exposed subjects (users or anonymous visitors) with at least one such outcome after their first exposure.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminExperiments;
@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useNavigate, Link } from 'react-router-dom';
+import { adminAPI } from '../services/api';
+import { formatRelativeTime } from '../lib/dateUtils';
+
+interface QualityTotals {
+  searches: number;
+  zero_result_searches: number;
+  clicked_searches: number;
+  ctr: number;
+  mrr: number;
+}
+
+interface SearchQualityReport {
+  since: string;
+  summary: QualityTotals & { zero_result_rate: number };
+  daily: (QualityTotals & { day: string })[];
+  zero_result_queries: { query: string; searches: number; last_searched_at: string }[];
+  low_ctr_queries: { query: string; searches: number; clicked_searches: number; ctr: number; mrr: number }[];
+}
+
+const PERIODS = [7, 30, 90];
+
+const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+export const AdminSearchAnalytics = () => {
+  const { user, hasPermission } = useAuth();
+  const toast = useToast();
+  const navigate = useNavigate();
+
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<SearchQualityReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Search analytics are part of relevance tuning (relevance.edit)
+  useEffect(() => {
+    if (!hasPermission('relevance.edit')) {
+      toast.error('Admin access required');
+      navigate('/');
+    } else {
+      loadReport();
+    }
+  }, [user, navigate, toast, days]);
+
+  const loadReport = async () => {
+    setLoading(true);
+    try {
+      const response = await adminAPI.getSearchAnalytics(days);
+      setReport(response.data);
+    } catch (error: any) {
+      console.error('Failed to load search analytics:', error);
+      toast.error('Failed to load search analytics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const maxDailySearches = Math.max(1, ...(report?.daily || []).map(d => d.searches));
+
+  return (
+    <div className="min-h-screen bg-cream-light dark:bg-petflix-black pt-24 px-8 md:px-16 pb-12">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-charcoal dark:text-white mb-2">
+              Search Analytics
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              How well search results match what people are looking for
+            </p>
+          </div>
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value))}
+            className="px-4 py-2 bg-white dark:bg-gray-800 text-charcoal dark:text-white rounded border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-petflix-orange"
+          >
+            {PERIODS.map((period) => (
+              <option key={period} value={period}>Last {period} days</option>
+            ))}
+          </select>
+        </div>
+
+        {loading || !report ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-4 border-petflix-orange dark:border-petflix-orange border-t-transparent"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <SummaryCard label="Searches" value={report.summary.searches.toLocaleString()} />
+              <SummaryCard
+                label="Zero results"
+                value={percent(report.summary.zero_result_rate)}
+                hint={`${report.summary.zero_result_searches.toLocaleString()} searches`}
+              />
+              <SummaryCard
+                label="Click-through rate"
+                value={percent(report.summary.ctr)}
+                hint="Searches with results that got a click"
+              />
+              <SummaryCard
+                label="Mean reciprocal rank"
+                value={report.summary.mrr.toFixed(3)}
+                hint="1.0 = the first result is always the one clicked"
+              />
+            </div>
+
+            {/* Daily */}
+            {report.daily.length > 0 && (
+              <div className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-6">
+                <h2 className="text-xl font-bold text-charcoal dark:text-white mb-4">Daily</h2>
+                <div className="space-y-1 text-sm">
+                  {report.daily.map((day) => (
+                    <div key={day.day} className="flex items-center gap-3">
+                      <span className="w-24 text-gray-600 dark:text-gray-400">{new Date(day.day).toLocaleDateString('en-GB')}</span>
+                      <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-800 rounded">
+                        <div
+                          className="h-3 bg-petflix-orange rounded"
+                          style={{ width: `${(day.searches / maxDailySearches) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-16 text-right text-charcoal dark:text-white">{day.searches}</span>
+                      <span className="w-20 text-right text-gray-600 dark:text-gray-400">CTR {percent(day.ctr)}</span>
+                      <span className="w-20 text-right text-gray-600 dark:text-gray-400">MRR {day.mrr.toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Zero-result queries */}
+            <div className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-6">
+              <h2 className="text-xl font-bold text-charcoal dark:text-white mb-1">Zero-result queries</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                Candidates for new synonyms, or content nobody has shared yet
+              </p>
+              {report.zero_result_queries.length === 0 ? (
+                <p className="text-gray-600 dark:text-gray-400">Every search found something 🎉</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 dark:text-gray-400">
+                      <th className="font-medium py-1">Query</th>
+                      <th className="font-medium">Searches</th>
+                      <th className="font-medium">Last searched</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-charcoal dark:text-white">
+                    {report.zero_result_queries.map((row) => (
+                      <tr key={row.query} className="border-t border-gray-200 dark:border-gray-700">
+                        <td className="py-1">
+                          <Link to={`/search?q=${encodeURIComponent(row.query)}`} className="hover:underline">{row.query}</Link>
+                        </td>
+                        <td>{row.searches}</td>
+                        <td>{formatRelativeTime(row.last_searched_at)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Low-CTR queries */}
+            <div className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-6">
+              <h2 className="text-xl font-bold text-charcoal dark:text-white mb-1">Low click-through queries</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                Queries with results (searched at least 5 times) where people rarely click - try them in the{' '}
+                <Link to="/admin/settings" className="text-petflix-orange hover:underline">what-if preview</Link>
+              </p>
+              {report.low_ctr_queries.length === 0 ? (
+                <p className="text-gray-600 dark:text-gray-400">Not enough searches yet</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 dark:text-gray-400">
+                      <th className="font-medium py-1">Query</th>
+                      <th className="font-medium">Searches</th>
+                      <th className="font-medium">With a click</th>
+                      <th className="font-medium">CTR</th>
+                      <th className="font-medium">MRR</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-charcoal dark:text-white">
+                    {report.low_ctr_queries.map((row) => (
+                      <tr key={row.query} className="border-t border-gray-200 dark:border-gray-700">
+                        <td className="py-1">
+                          <Link to={`/search?q=${encodeURIComponent(row.query)}`} className="hover:underline">{row.query}</Link>
+                        </td>
+                        <td>{row.searches}</td>
+                        <td>{row.clicked_searches}</td>
+                        <td>{percent(row.ctr)}</td>
+                        <td>{row.mrr.toFixed(3)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Summary Card Component
+interface SummaryCardProps {
+  label: string;
+  value: string;
+  hint?: string;
+}
+
+const SummaryCard = ({ label, value, hint }: SummaryCardProps) => (
+  <div className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-4">
+    <p className="text-sm text-gray-600 dark:text-gray-400">{label}</p>
+    <p className="text-2xl font-bold text-charcoal dark:text-white">{value}</p>
+    {hint && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{hint}</p>}
+  </div>
+);
+
+export default AdminSearchAnalytics;
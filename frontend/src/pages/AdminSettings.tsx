@@ -12,8 +12,52 @@ interface RelevanceWeights {
   engagement: number;
 }
 
+interface RelevanceExplanation {
+  components: Record<keyof RelevanceWeights, { score: number; weight: number; contribution: number }>;
+  total: number;
+}
+
+interface PreviewResult {
+  id: string;
+  title: string;
+  thumbnail_url: string | null;
+  rank: number;
+  current_rank?: number | null;
+  explain: RelevanceExplanation;
+}
+
+interface WeightsPreview {
+  query: string | null;
+  did_you_mean: string | null;
+  results: PreviewResult[];
+  dropped: PreviewResult[];
+}
+
+interface WeightsVersion {
+  version: number;
+  weights: RelevanceWeights;
+  note: string | null;
+  rollback_of: number | null;
+  created_by: { id: string; username: string } | null;
+  created_at: string;
+}
+
+interface WeightsDiff {
+  from: number;
+  to: number;
+  changes: Record<keyof RelevanceWeights, { from: number; to: number; delta: number }>;
+}
+
+const COMPONENT_LABELS: Record<keyof RelevanceWeights, string> = {
+  keywordMatch: 'Keyword',
+  viewCount: 'Views',
+  likeRatio: 'Likes',
+  recency: 'Recency',
+  engagement: 'Engagement',
+};
+
 export const AdminSettings = () => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const toast = useToast();
   const navigate = useNavigate();
 
@@ -26,14 +70,22 @@ export const AdminSettings = () => {
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [previewQuery, setPreviewQuery] = useState('');
+  const [preview, setPreview] = useState<WeightsPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [note, setNote] = useState('');
+  const [versions, setVersions] = useState<WeightsVersion[]>([]);
+  const [diff, setDiff] = useState<WeightsDiff | null>(null);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
 
-  // Check if user is admin
+  // Tuning search requires the relevance.edit permission
   useEffect(() => {
-    if (!user?.is_admin) {
+    if (!hasPermission('relevance.edit')) {
       toast.error('Admin access required');
       navigate('/');
     } else {
       loadWeights();
+      loadVersions();
     }
   }, [user, navigate, toast]);
 
@@ -50,6 +102,15 @@ export const AdminSettings = () => {
     }
   };
 
+  const loadVersions = async () => {
+    try {
+      const response = await api.get('/admin/relevance-weights/versions');
+      setVersions(response.data.versions || []);
+    } catch (error: any) {
+      console.error('Failed to load weight history:', error);
+    }
+  };
+
   const handleWeightChange = (key: keyof RelevanceWeights, value: string) => {
     const numValue = parseFloat(value);
     if (!isNaN(numValue) && numValue >= 0 && numValue <= 1) {
@@ -73,8 +134,11 @@ export const AdminSettings = () => {
 
     setSaving(true);
     try {
-      await api.patch('/admin/relevance-weights', weights);
+      await api.patch('/admin/relevance-weights', { ...weights, note: note.trim() || undefined });
       toast.success('Relevance weights updated successfully!');
+      setNote('');
+      setDiff(null);
+      loadVersions();
     } catch (error: any) {
       console.error('Failed to update weights:', error);
       toast.error(error.response?.data?.message || 'Failed to update settings');
@@ -83,6 +147,57 @@ export const AdminSettings = () => {
     }
   };
 
+  // Rank a sample query with the draft (unsaved) weights and compare with the saved ones
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPreviewing(true);
+    try {
+      const response = await api.post('/admin/relevance-weights/preview', {
+        query: previewQuery,
+        weights,
+      });
+      setPreview(response.data);
+    } catch (error: any) {
+      console.error('Failed to preview weights:', error);
+      toast.error(error.response?.data?.message || 'Failed to preview ranking');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  // Toggle the comparison between a past version and the live one
+  const handleCompare = async (version: number) => {
+    if (diff?.from === version) {
+      setDiff(null);
+      return;
+    }
+    try {
+      const response = await api.get(`/admin/relevance-weights/versions/diff?from=${version}`);
+      setDiff(response.data.diff);
+    } catch (error: any) {
+      console.error('Failed to compare versions:', error);
+      toast.error(error.response?.data?.error || 'Failed to compare versions');
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    if (!confirm(`Roll back to version ${version}? Its weights go live immediately.`)) return;
+
+    setRollingBack(version);
+    try {
+      const response = await api.post(`/admin/relevance-weights/versions/${version}/rollback`, {});
+      setWeights(response.data.weights);
+      setDiff(null);
+      toast.success(`Rolled back to version ${version}`);
+      loadVersions();
+    } catch (error: any) {
+      console.error('Failed to roll back weights:', error);
+      toast.error(error.response?.data?.error || 'Failed to roll back');
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
   const handleReset = () => {
     setWeights({
       keywordMatch: 0.40,
@@ -200,6 +315,16 @@ export const AdminSettings = () => {
             />
           </div>
 
+          {/* Change Note */}
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Change note (optional), e.g. boost recency for launch week"
+            maxLength={500}
+            className="w-full mb-4 px-4 py-2 bg-gray-100 dark:bg-gray-800 text-charcoal dark:text-white rounded border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-petflix-orange dark:focus:ring-petflix-orange"
+          />
+
           {/* Action Buttons */}
           <div className="flex gap-4">
             <button
@@ -246,6 +371,153 @@ export const AdminSettings = () => {
           </div>
         </div>
 
+        {/* Change History */}
+        {versions.length > 0 && (
+          <div className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-8 mt-6">
+            <h2 className="text-2xl font-bold text-charcoal dark:text-white mb-4">
+              Change History
+            </h2>
+            <ol className="relative border-l-2 border-gray-200 dark:border-gray-700 ml-2 space-y-6">
+              {versions.map((version, index) => {
+                const isLive = index === 0;
+                return (
+                  <li key={version.version} className="ml-6">
+                    <span className={`absolute -left-[9px] mt-1.5 w-4 h-4 rounded-full ${isLive ? 'bg-petflix-orange' : 'bg-gray-300 dark:bg-gray-600'}`} />
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-bold text-charcoal dark:text-white">Version {version.version}</span>
+                      {isLive && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-petflix-orange text-white">Live</span>
+                      )}
+                      {version.rollback_of && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 dark:bg-gray-700 text-charcoal dark:text-white">
+                          Rollback to v{version.rollback_of}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {version.created_by ? `@${version.created_by.username}` : 'System'} · {new Date(version.created_at).toLocaleString()}
+                    </p>
+                    {version.note && (
+                      <p className="text-sm text-charcoal dark:text-white mt-1">{version.note}</p>
+                    )}
+                    <div className="flex flex-wrap gap-x-3 text-xs text-gray-600 dark:text-gray-400 mt-1">
+                      {(Object.keys(COMPONENT_LABELS) as (keyof RelevanceWeights)[]).map((key) => (
+                        <span key={key}>
+                          {COMPONENT_LABELS[key]} {(version.weights[key] * 100).toFixed(0)}%
+                        </span>
+                      ))}
+                    </div>
+
+                    {!isLive && (
+                      <div className="flex gap-3 mt-2">
+                        <button
+                          type="button"
+                          onClick={() => handleCompare(version.version)}
+                          className="text-xs font-medium text-petflix-orange hover:underline"
+                        >
+                          {diff?.from === version.version ? 'Hide comparison' : 'Compare with live'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleRollback(version.version)}
+                          disabled={rollingBack !== null}
+                          className="text-xs font-medium text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                        >
+                          {rollingBack === version.version ? 'Rolling back...' : 'Roll back to this version'}
+                        </button>
+                      </div>
+                    )}
+
+                    {diff?.from === version.version && (
+                      <table className="mt-3 text-sm w-full max-w-md">
+                        <thead>
+                          <tr className="text-left text-gray-600 dark:text-gray-400">
+                            <th className="font-medium">Weight</th>
+                            <th className="font-medium">v{diff.from}</th>
+                            <th className="font-medium">Live (v{diff.to})</th>
+                            <th className="font-medium">Change</th>
+                          </tr>
+                        </thead>
+                        <tbody className="text-charcoal dark:text-white">
+                          {(Object.keys(COMPONENT_LABELS) as (keyof RelevanceWeights)[]).map((key) => {
+                            const change = diff.changes[key];
+                            return (
+                              <tr key={key}>
+                                <td>{COMPONENT_LABELS[key]}</td>
+                                <td>{change.from.toFixed(2)}</td>
+                                <td>{change.to.toFixed(2)}</td>
+                                <td className={change.delta > 0 ? 'text-green-600 dark:text-green-400' : change.delta < 0 ? 'text-red-600 dark:text-red-400' : ''}>
+                                  {change.delta > 0 ? '+' : ''}{change.delta.toFixed(2)}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+
+        {/* What-if Preview */}
+        <div className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-8 mt-6">
+          <h2 className="text-2xl font-bold text-charcoal dark:text-white mb-2">
+            What-if Preview
+          </h2>
+          <p className="text-gray-600 dark:text-gray-400 mb-4">
+            See how the top results for a sample query would move with the weights above, before saving them.
+          </p>
+
+          <form onSubmit={handlePreview} className="flex gap-3 mb-6">
+            <input
+              type="text"
+              value={previewQuery}
+              onChange={(e) => setPreviewQuery(e.target.value)}
+              placeholder="Sample query, e.g. funny cats (leave empty to browse)"
+              maxLength={200}
+              className="flex-1 px-4 py-2 bg-gray-100 dark:bg-gray-800 text-charcoal dark:text-white rounded border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-petflix-orange dark:focus:ring-petflix-orange"
+            />
+            <button
+              type="submit"
+              disabled={!isValid || previewing}
+              className="px-6 py-2 rounded-lg font-bold text-white bg-petflix-orange hover:opacity-90 transition disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              {previewing ? 'Ranking...' : 'Preview'}
+            </button>
+          </form>
+
+          {preview && (
+            <div className="space-y-3">
+              {preview.did_you_mean && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Query was corrected to: <strong>{preview.did_you_mean}</strong>
+                </p>
+              )}
+              {preview.results.length === 0 ? (
+                <p className="text-gray-600 dark:text-gray-400">No videos match this query.</p>
+              ) : (
+                preview.results.map((result) => (
+                  <PreviewRow key={result.id} result={result} />
+                ))
+              )}
+
+              {preview.dropped.length > 0 && (
+                <div className="pt-4">
+                  <h3 className="font-bold text-charcoal dark:text-white mb-2">
+                    Dropped out of the top {preview.results.length}
+                  </h3>
+                  {preview.dropped.map((result) => (
+                    <PreviewRow key={result.id} result={result} dropped />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Quick Links */}
         <div className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-8 mt-6">
           <h2 className="text-2xl font-bold text-charcoal dark:text-white mb-4">
@@ -268,6 +540,58 @@ export const AdminSettings = () => {
                 <span className="text-2xl">→</span>
               </div>
             </a>
+            <a
+              href="/admin/search-analytics"
+              className="block p-4 bg-gray-50 dark:bg-gray-800 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="font-bold text-charcoal dark:text-white">
+                    🔎 Search Analytics
+                  </h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Zero-result queries, click-through rate and mean reciprocal rank
+                  </p>
+                </div>
+                <span className="text-2xl">→</span>
+              </div>
+            </a>
+            {hasPermission('experiments.manage') && (
+              <a
+                href="/admin/experiments"
+                className="block p-4 bg-gray-50 dark:bg-gray-800 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="font-bold text-charcoal dark:text-white">
+                      🧪 Experiments
+                    </h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      A/B test alternative search weights and trending formulas
+                    </p>
+                  </div>
+                  <span className="text-2xl">→</span>
+                </div>
+              </a>
+            )}
+            {hasPermission('reports.review') && (
+              <a
+                href="/admin/reports"
+                className="block p-4 bg-gray-50 dark:bg-gray-800 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="font-bold text-charcoal dark:text-white">
+                      🚩 Moderation Queue
+                    </h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      Review videos reported by the community
+                    </p>
+                  </div>
+                  <span className="text-2xl">→</span>
+                </div>
+              </a>
+            )}
           </div>
         </div>
       </div>
@@ -325,5 +649,56 @@ const WeightInput = ({ label, description, value, onChange, percentage }: Weight
   );
 };
 
+// What-if Preview Row Component
+interface PreviewRowProps {
+  result: PreviewResult;
+  dropped?: boolean;
+}
+
+const PreviewRow = ({ result, dropped = false }: PreviewRowProps) => {
+  const renderMovement = () => {
+    if (dropped) {
+      return <span className="text-red-600 dark:text-red-400">was #{result.rank}</span>;
+    }
+    if (result.current_rank == null) {
+      return <span className="text-green-600 dark:text-green-400">new</span>;
+    }
+    const moved = result.current_rank - result.rank;
+    if (moved > 0) return <span className="text-green-600 dark:text-green-400">▲ {moved}</span>;
+    if (moved < 0) return <span className="text-red-600 dark:text-red-400">▼ {-moved}</span>;
+    return <span className="text-gray-500 dark:text-gray-400">—</span>;
+  };
+
+  return (
+    <div className="flex items-center gap-4 p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+      {!dropped && (
+        <span className="w-8 text-lg font-bold text-charcoal dark:text-white">#{result.rank}</span>
+      )}
+      {result.thumbnail_url && (
+        <img src={result.thumbnail_url} alt="" className="w-20 h-12 object-cover rounded" loading="lazy" />
+      )}
+      <div className="flex-1 min-w-0">
+        <a
+          href={`/video/${result.id}`}
+          className="block font-medium text-charcoal dark:text-white truncate hover:underline"
+        >
+          {result.title}
+        </a>
+        <div className="flex flex-wrap gap-x-3 text-xs text-gray-600 dark:text-gray-400">
+          {(Object.keys(COMPONENT_LABELS) as (keyof RelevanceWeights)[]).map((key) => (
+            <span key={key} title={`score ${result.explain.components[key].score} × weight ${result.explain.components[key].weight}`}>
+              {COMPONENT_LABELS[key]} {result.explain.components[key].contribution.toFixed(3)}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="text-right text-sm">
+        <div className="font-bold text-charcoal dark:text-white">{result.explain.total.toFixed(3)}</div>
+        {renderMovement()}
+      </div>
+    </div>
+  );
+};
+
 export default AdminSettings;
 
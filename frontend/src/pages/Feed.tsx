@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { api } from '../services/api';
+import { api, videosAPI } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { usePullToRefresh } from '../hooks/usePullToRefresh';
 import { VideoGridSkeleton } from '../components/LoadingSkeleton';
@@ -32,30 +32,53 @@ interface Video {
   username?: string;
   profile_picture_url?: string;
   created_at: string;
+  reason?: RecommendationReason;
 }
 
-type FeedMode = 'all' | 'following';
+type FeedMode = 'all' | 'following' | 'for-you';
+
+type RecommendationReason = 'following' | 'species' | 'creator' | 'new' | 'popular';
+
+// Why a "For You" video was picked
+const REASON_LABELS: Record<RecommendationReason, string> = {
+  following: 'From someone you follow',
+  species: 'Pets you like',
+  creator: 'Creator you watch',
+  new: 'New',
+  popular: 'Popular',
+};
 
 export const Feed = () => {
   const [videos, setVideos] = useState<Video[]>([]);
   const [loading, setLoading] = useState(true);
   const [feedMode, setFeedMode] = useState<FeedMode>('all');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const { user } = useAuth();
 
+  const loadFeed = async () => {
+    setNextCursor(null);
+    if (feedMode === 'for-you' && user) {
+      // Personalised recommendations, paged by cursor
+      const response = await videosAPI.getForYou();
+      setVideos(response.data.videos || []);
+      setNextCursor(response.data.next_cursor || null);
+    } else if (feedMode === 'following' && user) {
+      // Fetch videos from followed users
+      const response = await api.get(`/follows/${user.id}/feed`);
+      setVideos(response.data.videos || []);
+    } else {
+      // Fetch all videos
+      const response = await api.get('/videos?limit=20');
+      setVideos(response.data.videos || []);
+    }
+  };
+
   useEffect(() => {
     const fetchFeed = async () => {
       setLoading(true);
       try {
-        let response;
-        if (feedMode === 'following' && user) {
-          // Fetch videos from followed users
-          response = await api.get(`/follows/${user.id}/feed`);
-          setVideos(response.data.videos || []);
-        } else {
-          // Fetch all videos
-          response = await api.get('/videos?limit=20');
-          setVideos(response.data.videos || []);
-        }
+        await loadFeed();
       } catch (error) {
         console.error('Failed to load feed:', error);
         setVideos([]);
@@ -71,14 +94,7 @@ export const Feed = () => {
   const handleRefresh = async () => {
     setLoading(true);
     try {
-      let response;
-      if (feedMode === 'following' && user) {
-        response = await api.get(`/follows/${user.id}/feed`);
-        setVideos(response.data.videos || []);
-      } else {
-        response = await api.get('/videos?limit=20');
-        setVideos(response.data.videos || []);
-      }
+      await loadFeed();
     } catch (error) {
       console.error('Failed to refresh feed:', error);
     } finally {
@@ -86,6 +102,21 @@ export const Feed = () => {
     }
   };
 
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const response = await videosAPI.getForYou(nextCursor);
+      const more: Video[] = response.data.videos || [];
+      setVideos((prev) => [...prev, ...more]);
+      setNextCursor(response.data.next_cursor || null);
+    } catch (error) {
+      console.error('Failed to load more recommendations:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const containerRef = usePullToRefresh({
     onRefresh: handleRefresh,
     enabled: !loading
@@ -100,14 +131,18 @@ export const Feed = () => {
               <svg className="w-8 h-8 sm:w-10 sm:h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
               </svg>
-              {feedMode === 'following' ? 'Following' : 'Explore'}
+              {feedMode === 'following' ? 'Following' : feedMode === 'for-you' ? 'For You' : 'Explore'}
             </h1>
             <p className="text-sm sm:text-base text-gray-700 dark:text-gray-400">
-              {feedMode === 'following' ? 'Videos from users you follow' : 'Discover videos from the community'}
+              {feedMode === 'following'
+                ? 'Videos from users you follow'
+                : feedMode === 'for-you'
+                  ? "Picked for you from what you watch, like and follow"
+                  : 'Discover videos from the community'}
             </p>
           </div>
           
-          {/* Toggle between All and Following */}
+          {/* Toggle between All, For You and Following */}
           <div className="flex gap-2 bg-white dark:bg-petflix-dark-gray rounded-lg p-1 border border-gray-300 dark:border-gray-700 shadow-sm">
             <Button
               onClick={() => setFeedMode('all')}
@@ -123,6 +158,21 @@ export const Feed = () => {
               </svg>
               All Videos
             </Button>
+            <Button
+              onClick={() => setFeedMode('for-you')}
+              variant={feedMode === 'for-you' ? 'default' : 'ghost'}
+              className={`px-6 py-2 font-medium flex items-center gap-2 ${
+                feedMode === 'for-you'
+                  ? 'bg-petflix-orange text-white dark:text-white hover:bg-petflix-orange/90'
+                  : ''
+              }`}
+              disabled={!user}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z" />
+              </svg>
+              For You
+            </Button>
             <Button
               onClick={() => setFeedMode('following')}
               variant={feedMode === 'following' ? 'default' : 'ghost'}
@@ -158,12 +208,18 @@ export const Feed = () => {
             )}
           </div>
           <h2 className="text-3xl font-bold text-charcoal dark:text-white mb-4">
-            {feedMode === 'following' ? 'No Videos from Followed Users' : 'No Videos Yet'}
+            {feedMode === 'following'
+              ? 'No Videos from Followed Users'
+              : feedMode === 'for-you'
+                ? "You're All Caught Up"
+                : 'No Videos Yet'}
           </h2>
           <p className="text-gray-600 dark:text-gray-400 text-lg mb-8">
             {feedMode === 'following'
               ? 'Follow other users to see their shared videos here!'
-              : 'Be the first to share a video from YouTube to get the community started!'}
+              : feedMode === 'for-you'
+                ? "You've seen everything we'd recommend right now. Check back later!"
+                : 'Be the first to share a video from YouTube to get the community started!'}
           </p>
           <Link
             to="/search"
@@ -206,6 +262,12 @@ export const Feed = () => {
                       {video.title}
                     </h3>
                     
+                    {video.reason && (
+                      <div className="text-xs font-medium text-petflix-orange mb-1 truncate">
+                        {REASON_LABELS[video.reason]}
+                      </div>
+                    )}
+
                     {/* Username and Time */}
                     <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
                       <span className="truncate">
@@ -222,6 +284,18 @@ export const Feed = () => {
           ))}
         </div>
       )}
+
+      {!loading && feedMode === 'for-you' && nextCursor && (
+        <div className="flex justify-center py-8">
+          <Button
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            className="px-8 py-2 bg-petflix-orange text-white hover:bg-petflix-orange/90"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
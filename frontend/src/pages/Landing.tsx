@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { api } from '../services/api';
+import { api, videosAPI, experimentsAPI } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -15,16 +15,27 @@ interface Video {
   created_at: string;
 }
 
+type TrendingWindow = '1h' | '24h' | '7d' | '30d';
+
+const TRENDING_WINDOWS: { value: TrendingWindow; label: string }[] = [
+  { value: '1h', label: 'Past hour' },
+  { value: '24h', label: 'Today' },
+  { value: '7d', label: 'This week' },
+  { value: '30d', label: 'This month' },
+];
+
 export const Landing = () => {
   const { user } = useAuth();
   const [videos, setVideos] = useState<Video[]>([]);
   const [loading, setLoading] = useState(true);
+  const [trendingWindow, setTrendingWindow] = useState<TrendingWindow>('24h');
 
   useEffect(() => {
     const fetchVideos = async () => {
+      setLoading(true);
       try {
         // Use trending endpoint for landing page
-        const response = await api.get('/videos/trending?limit=12');
+        const response = await videosAPI.getTrending(trendingWindow, 12);
         setVideos(response.data.videos || []);
       } catch (error) {
         console.error('Failed to load trending videos:', error);
@@ -41,7 +52,7 @@ export const Landing = () => {
     };
 
     fetchVideos();
-  }, []);
+  }, [trendingWindow]);
 
   return (
     <div className="min-h-screen bg-cream-light dark:bg-petflix-black">
@@ -116,9 +127,26 @@ export const Landing = () => {
 
       {/* Trending Section */}
       <div className="px-4 sm:px-6 md:px-8 lg:px-16 pt-2 pb-8 sm:pt-4 sm:pb-12 md:pt-6">
-        <h2 className="text-2xl sm:text-3xl font-bold text-charcoal dark:text-white mb-4 sm:mb-6">
-          Trending Now
-        </h2>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4 sm:mb-6">
+          <h2 className="text-2xl sm:text-3xl font-bold text-charcoal dark:text-white">
+            Trending Now
+          </h2>
+          <div className="flex gap-1 sm:gap-2">
+            {TRENDING_WINDOWS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setTrendingWindow(option.value)}
+                className={`px-3 py-1 rounded-full text-xs sm:text-sm font-medium transition ${
+                  trendingWindow === option.value
+                    ? 'bg-petflix-orange text-white'
+                    : 'bg-white dark:bg-petflix-dark text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-800 hover:border-petflix-orange'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
 
         {loading ? (
           <div className="text-center py-12">
@@ -139,6 +167,7 @@ export const Landing = () => {
                 <Link
                   to={`/video/${video.id}`}
                   className="block h-full"
+                  onClick={() => experimentsAPI.recordClick(video.id).catch(() => {})}
                 >
                   <CardContent className="p-0 h-full">
                     <img
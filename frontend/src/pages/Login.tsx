@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
+import { useAuth, AccountSanction, AccountSanctionError } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { authAPI } from '../services/api';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 
@@ -10,7 +12,24 @@ export const Login = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
-  const { login, user } = useAuth();
+  // Second step for accounts with two-factor authentication
+  const location = useLocation();
+  // A magic link for a 2FA account lands here with the challenge already issued
+  const [challengeToken, setChallengeToken] = useState<string | null>(
+    (location.state as { challengeToken?: string } | null)?.challengeToken || null
+  );
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  // Passwordless sign-in
+  const [magicLinkMode, setMagicLinkMode] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+  // Single sign-on (OIDC) - only shown when the backend has a provider configured
+  const [ssoProviderName, setSsoProviderName] = useState<string | null>(null);
+  const [redirectingToSso, setRedirectingToSso] = useState(false);
+  // Suspension/ban details - from a failed sign-in or a session ended by the API
+  const [sanction, setSanction] = useState<AccountSanction | null>(null);
+  const { login, completeTwoFactorLogin, user } = useAuth();
+  const toast = useToast();
   const navigate = useNavigate();
 
   // Redirect to home if already logged in
@@ -20,6 +39,31 @@ export const Login = () => {
     }
   }, [user, navigate]);
 
+  useEffect(() => {
+    authAPI.getOidcConfig()
+      .then((response) => {
+        if (response.data.enabled) {
+          setSsoProviderName(response.data.providerName);
+        }
+      })
+      .catch(() => {
+        // SSO is optional - just hide the button
+      });
+  }, []);
+
+  // A session cut off by a suspension or ban leaves its details behind for this page
+  useEffect(() => {
+    const storedSanction = localStorage.getItem('account_sanction');
+    if (storedSanction) {
+      try {
+        setSanction(JSON.parse(storedSanction));
+      } catch {
+        // Ignore malformed data
+      }
+      localStorage.removeItem('account_sanction');
+    }
+  }, []);
+
   // Check for persisted error from previous attempt
   useEffect(() => {
     const persistedError = localStorage.getItem('login_error');
@@ -36,17 +80,31 @@ export const Login = () => {
     
     // Clear any previous errors
     setError('');
+    setSanction(null);
     setLoading(true);
 
     try {
       console.log('🔐 Attempting login...');
-      await login(email, password);
+      const result = await login(email, password);
+
+      if (result.requires2FA && result.challengeToken) {
+        console.log('🔑 Two-factor code required');
+        setChallengeToken(result.challengeToken);
+        setPassword('');
+        return;
+      }
+
       console.log('✅ Login successful, navigating to home...');
       localStorage.removeItem('login_error'); // Clear any old errors
       // Always redirect to home after login
       navigate('/', { replace: true });
     } catch (err: any) {
       console.error('❌ Login failed:', err);
+      if (err instanceof AccountSanctionError) {
+        setSanction(err.sanction);
+        return;
+      }
+
       const errorMessage = err.message || 'Invalid email or password. Please try again.';
       console.log('📢 Setting error message:', errorMessage);
       
@@ -59,6 +117,226 @@ export const Login = () => {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+
+    setError('');
+    setLoading(true);
+
+    try {
+      const { recoveryCodesRemaining } = await completeTwoFactorLogin(challengeToken, twoFactorCode.trim());
+      localStorage.removeItem('login_error');
+
+      if (recoveryCodesRemaining !== undefined) {
+        toast.info(`Recovery code used. You have ${recoveryCodesRemaining} left - generate new ones in Settings if you're running low.`);
+      }
+      navigate('/', { replace: true });
+    } catch (err: any) {
+      if (err instanceof AccountSanctionError) {
+        setSanction(err.sanction);
+        setChallengeToken(null);
+        return;
+      }
+
+      const errorMessage = err.message || 'Invalid verification code';
+      setError(errorMessage);
+      setTwoFactorCode('');
+
+      // Challenge expired - start over from the password step
+      if (errorMessage.includes('expired') || errorMessage.includes('locked')) {
+        setChallengeToken(null);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMagicLinkSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email) {
+      setError('Please enter your email address');
+      return;
+    }
+
+    setError('');
+    setLoading(true);
+
+    try {
+      await authAPI.requestMagicLink(email);
+      setMagicLinkSent(true);
+    } catch (err: any) {
+      if (err.response?.status === 429) {
+        setError('Too many sign-in link requests. Please try again in 15 minutes.');
+      } else {
+        setError(err.response?.data?.message || 'Failed to send sign-in link. Please try again.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSsoLogin = async () => {
+    setError('');
+    setRedirectingToSso(true);
+
+    try {
+      const response = await authAPI.startOidcLogin();
+      window.location.href = response.data.authorizationUrl;
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Could not reach the sign-in provider. Please try again later.');
+      setRedirectingToSso(false);
+    }
+  };
+
+  const handleToggleMagicLink = () => {
+    setMagicLinkMode(!magicLinkMode);
+    setMagicLinkSent(false);
+    setError('');
+  };
+
+  const handleCancelTwoFactor = () => {
+    setChallengeToken(null);
+    setTwoFactorCode('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
+  if (challengeToken) {
+    return (
+      <div className="min-h-screen bg-cream-light dark:bg-petflix-black flex items-center justify-center px-4 pt-20">
+        <div className="max-w-md w-full bg-white dark:bg-petflix-dark rounded-lg p-16 backdrop-blur-sm shadow-xl border border-gray-200 dark:border-gray-700">
+          <h1 className="text-4xl font-bold text-charcoal dark:text-white mb-4">
+            Two-Step Verification
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mb-8">
+            {useRecoveryCode
+              ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </p>
+
+          {error && (
+            <div className="bg-red-600 text-white px-4 py-3 rounded mb-6 font-medium">
+              ⚠️ {error}
+            </div>
+          )}
+
+          <form onSubmit={handleTwoFactorSubmit} noValidate className="space-y-5">
+            <Input
+              type="text"
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
+              autoFocus
+              value={twoFactorCode}
+              onChange={(e) => setTwoFactorCode(e.target.value)}
+              maxLength={useRecoveryCode ? 11 : 6}
+              className="w-full px-5 py-4 bg-gray-100 dark:bg-petflix-dark-gray text-charcoal dark:text-white border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-petflix-orange dark:focus:ring-petflix-orange tracking-widest text-center text-lg"
+              placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+              required
+            />
+
+            <Button
+              type="submit"
+              disabled={loading || !twoFactorCode.trim()}
+              className="w-full bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white dark:text-white font-bold py-4"
+            >
+              {loading ? 'Verifying...' : 'Verify'}
+            </Button>
+          </form>
+
+          <div className="mt-6 flex items-center justify-between text-sm">
+            <button
+              type="button"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setTwoFactorCode('');
+              }}
+              className="text-gray-600 dark:text-gray-400 hover:text-petflix-orange transition"
+            >
+              {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+            </button>
+            <button
+              type="button"
+              onClick={handleCancelTwoFactor}
+              className="text-gray-600 dark:text-gray-400 hover:text-petflix-orange transition"
+            >
+              Back to sign in
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (magicLinkMode) {
+    return (
+      <div className="min-h-screen bg-cream-light dark:bg-petflix-black flex items-center justify-center px-4 pt-20">
+        <div className="max-w-md w-full bg-white dark:bg-petflix-dark rounded-lg p-16 backdrop-blur-sm shadow-xl border border-gray-200 dark:border-gray-700">
+          <h1 className="text-4xl font-bold text-charcoal dark:text-white mb-4">
+            Email Me a Link
+          </h1>
+
+          {magicLinkSent ? (
+            <div className="space-y-6">
+              <div className="bg-green-100 dark:bg-green-900/20 border border-green-500 text-green-800 dark:text-green-300 px-4 py-3 rounded">
+                ✉️ Check your inbox! If an account exists for <strong>{email}</strong>, we've sent a sign-in link. It can be used once and expires soon.
+              </div>
+              <button
+                type="button"
+                onClick={() => setMagicLinkSent(false)}
+                className="text-sm text-gray-600 dark:text-gray-400 hover:text-petflix-orange transition"
+              >
+                Didn't get it? Send another link
+              </button>
+            </div>
+          ) : (
+            <>
+              <p className="text-gray-600 dark:text-gray-400 mb-8">
+                We'll email you a one-time link that signs you in without a password.
+              </p>
+
+              {error && (
+                <div className="bg-red-600 text-white px-4 py-3 rounded mb-6 font-medium">
+                  ⚠️ {error}
+                </div>
+              )}
+
+              <form onSubmit={handleMagicLinkSubmit} noValidate className="space-y-5">
+                <Input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full px-5 py-4 bg-gray-100 dark:bg-petflix-dark-gray text-charcoal dark:text-white border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-petflix-orange dark:focus:ring-petflix-orange"
+                  placeholder="Email"
+                  required
+                />
+
+                <Button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white dark:text-white font-bold py-4"
+                >
+                  {loading ? 'Sending...' : 'Send Sign-In Link'}
+                </Button>
+              </form>
+            </>
+          )}
+
+          <div className="mt-8 text-center">
+            <button
+              type="button"
+              onClick={handleToggleMagicLink}
+              className="text-charcoal dark:text-white hover:underline font-medium"
+            >
+              Sign in with password instead
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-cream-light dark:bg-petflix-black flex items-center justify-center px-4 pt-20">
       <div className="max-w-md w-full bg-white dark:bg-petflix-dark rounded-lg p-16 backdrop-blur-sm shadow-xl border border-gray-200 dark:border-gray-700">
@@ -66,6 +344,22 @@ export const Login = () => {
           Sign In
         </h1>
 
+        {sanction && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-600 text-charcoal dark:text-white px-4 py-4 rounded mb-6">
+            <p className="font-bold text-red-600 dark:text-red-400 mb-1">
+              {sanction.type === 'ban' ? '🚫 This account has been banned' : '⏸️ This account is suspended'}
+            </p>
+            {sanction.type === 'suspension' && sanction.expires_at && (
+              <p className="text-sm mb-1">
+                You can sign in again after {new Date(sanction.expires_at).toLocaleString()}.
+              </p>
+            )}
+            <p className="text-sm">
+              <span className="font-medium">Reason:</span> {sanction.reason}
+            </p>
+          </div>
+        )}
+
         {error && (
           <div className="bg-red-600 text-white px-4 py-3 rounded mb-6 font-medium">
             ⚠️ {error}
@@ -131,6 +425,25 @@ export const Login = () => {
           </Button>
         </form>
 
+        <button
+          type="button"
+          onClick={handleToggleMagicLink}
+          className="w-full mt-4 py-3 border border-gray-300 dark:border-gray-600 rounded-md text-charcoal dark:text-white hover:bg-gray-100 dark:hover:bg-petflix-dark-gray transition font-medium"
+        >
+          ✉️ Email me a sign-in link
+        </button>
+
+        {ssoProviderName && (
+          <button
+            type="button"
+            onClick={handleSsoLogin}
+            disabled={redirectingToSso}
+            className="w-full mt-3 py-3 border border-gray-300 dark:border-gray-600 rounded-md text-charcoal dark:text-white hover:bg-gray-100 dark:hover:bg-petflix-dark-gray transition font-medium disabled:opacity-50"
+          >
+            {redirectingToSso ? 'Redirecting...' : `Sign in with ${ssoProviderName}`}
+          </button>
+        )}
+
         <div className="mt-8 text-center">
           <span className="text-gray-600 dark:text-gray-400">New to Petflix? </span>
           <Link to="/register" className="text-charcoal dark:text-white hover:underline font-medium">
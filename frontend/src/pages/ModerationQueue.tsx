@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useNavigate, Link } from 'react-router-dom';
+import { reportsAPI } from '../services/api';
+import { formatRelativeTime } from '../lib/dateUtils';
+
+type ReportStatus = 'pending' | 'approved' | 'rejected' | 'all';
+
+interface VideoReport {
+  id: string;
+  reason: string;
+  details: string | null;
+  status: 'pending' | 'approved' | 'rejected';
+  created_at: string;
+  reporter: { id: string; username: string } | null;
+}
+
+interface ReportGroup {
+  video_id: string;
+  video: {
+    id: string;
+    title: string;
+    is_hidden: boolean;
+    thumbnail_url: string;
+  } | null;
+  report_count: number;
+  reasons: Record<string, number>;
+  latest_report_at: string;
+  reports: VideoReport[];
+}
+
+const formatReason = (reason: string) =>
+  reason.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+export const ModerationQueue = () => {
+  const { user, hasPermission } = useAuth();
+  const toast = useToast();
+  const navigate = useNavigate();
+
+  const [groups, setGroups] = useState<ReportGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<ReportStatus>('pending');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [actingOn, setActingOn] = useState<string | null>(null);
+
+  // The queue requires the reports.review permission (moderators and admins)
+  useEffect(() => {
+    if (!hasPermission('reports.review')) {
+      toast.error('Moderator access required');
+      navigate('/');
+    } else {
+      loadReports();
+    }
+  }, [user, navigate, toast, status, page]);
+
+  const loadReports = async () => {
+    setLoading(true);
+    try {
+      const response = await reportsAPI.getReports(status, page);
+      setGroups(response.data.reports || []);
+      setTotalPages(response.data.pagination?.totalPages || 1);
+    } catch (error: any) {
+      console.error('Failed to load reports:', error);
+      toast.error('Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const firstPendingReport = (group: ReportGroup) =>
+    group.reports.find(report => report.status === 'pending');
+
+  const handleApprove = async (group: ReportGroup) => {
+    const report = firstPendingReport(group);
+    if (!report) return;
+
+    setActingOn(group.video_id);
+    try {
+      await reportsAPI.approveReport(report.id);
+      toast.success('Video hidden and reports resolved');
+      loadReports();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to approve report');
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  const handleDismiss = async (group: ReportGroup) => {
+    const report = firstPendingReport(group);
+    if (!report) return;
+
+    setActingOn(group.video_id);
+    try {
+      await reportsAPI.rejectReport(report.id, true);
+      toast.success('Reports dismissed');
+      loadReports();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to dismiss reports');
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  const handleRestore = async (group: ReportGroup) => {
+    setActingOn(group.video_id);
+    try {
+      await reportsAPI.restoreVideo(group.video_id);
+      toast.success('Video restored');
+      loadReports();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to restore video');
+    } finally {
+      setActingOn(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-cream-light dark:bg-petflix-black pt-24 px-8 md:px-16 pb-12">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-charcoal dark:text-white mb-2">
+            Moderation Queue
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Review videos reported by the community
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex items-center gap-2">
+            <label className="font-medium text-charcoal dark:text-white">Status:</label>
+            <select
+              value={status}
+              onChange={(e) => {
+                setStatus(e.target.value as ReportStatus);
+                setPage(1);
+              }}
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-800 text-charcoal dark:text-white rounded border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-petflix-orange dark:focus:ring-petflix-orange"
+            >
+              <option value="pending">Pending</option>
+              <option value="approved">Approved</option>
+              <option value="rejected">Dismissed</option>
+              <option value="all">All</option>
+            </select>
+          </div>
+        </div>
+
+        {/* Report Groups */}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-4 border-petflix-orange dark:border-petflix-orange border-t-transparent"></div>
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-12 text-center text-gray-600 dark:text-gray-400">
+            No reports to review 🎉
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.map((group) => (
+              <div key={group.video_id} className="bg-white dark:bg-petflix-dark-gray rounded-lg shadow-lg p-6">
+                <div className="flex flex-col md:flex-row gap-4">
+                  {group.video && (
+                    <Link to={`/video/${group.video.id}`} className="flex-shrink-0">
+                      <img
+                        src={group.video.thumbnail_url}
+                        alt={group.video.title}
+                        className="w-full md:w-48 aspect-video object-cover rounded"
+                      />
+                    </Link>
+                  )}
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <h2 className="text-lg font-bold text-charcoal dark:text-white truncate">
+                          {group.video?.title || 'Deleted video'}
+                        </h2>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          {group.report_count} {group.report_count === 1 ? 'report' : 'reports'} · latest {formatRelativeTime(group.latest_report_at)}
+                          {group.video?.is_hidden && ' · hidden'}
+                        </p>
+                      </div>
+
+                      {!firstPendingReport(group) && group.video?.is_hidden && (
+                        <button
+                          onClick={() => handleRestore(group)}
+                          disabled={actingOn === group.video_id}
+                          className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-charcoal dark:text-white rounded transition disabled:opacity-50 flex-shrink-0"
+                        >
+                          Restore Video
+                        </button>
+                      )}
+
+                      {firstPendingReport(group) && (
+                        <div className="flex gap-2 flex-shrink-0">
+                          <button
+                            onClick={() => handleApprove(group)}
+                            disabled={actingOn === group.video_id}
+                            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded transition disabled:opacity-50"
+                          >
+                            Hide Video
+                          </button>
+                          <button
+                            onClick={() => handleDismiss(group)}
+                            disabled={actingOn === group.video_id}
+                            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-charcoal dark:text-white rounded transition disabled:opacity-50"
+                          >
+                            Dismiss
+                          </button>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      {Object.entries(group.reasons).map(([reason, count]) => (
+                        <span key={reason} className="px-2 py-1 text-xs font-bold rounded text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/20">
+                          {formatReason(reason)} × {count}
+                        </span>
+                      ))}
+                    </div>
+
+                    <ul className="mt-3 space-y-1 text-sm text-gray-600 dark:text-gray-400">
+                      {group.reports.slice(0, 5).map((report) => (
+                        <li key={report.id}>
+                          <span className="font-medium text-charcoal dark:text-white">
+                            {report.reporter?.username || 'Unknown'}
+                          </span>
+                          {' '}· {formatReason(report.reason)}
+                          {report.details && <>: “{report.details}”</>}
+                          {' '}· {formatRelativeTime(report.created_at)}
+                        </li>
+                      ))}
+                      {group.reports.length > 5 && (
+                        <li>and {group.reports.length - 5} more</li>
+                      )}
+                    </ul>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex justify-center items-center gap-4 mt-6">
+            <button
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-charcoal dark:text-white rounded disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="text-gray-600 dark:text-gray-400">
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-charcoal dark:text-white rounded disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+
+export const OidcCallback = () => {
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<'verifying' | 'error'>('verifying');
+  const [message, setMessage] = useState('');
+  const navigate = useNavigate();
+  const toast = useToast();
+  const { loginWithOidc } = useAuth();
+  // Authorization codes are single-use - make sure StrictMode's double effect doesn't burn the code
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (attempted.current) return;
+    attempted.current = true;
+
+    const providerError = searchParams.get('error');
+    if (providerError) {
+      setStatus('error');
+      setMessage(providerError === 'access_denied'
+        ? 'Sign-in was cancelled.'
+        : searchParams.get('error_description') || 'Sign-in with your provider failed.');
+      return;
+    }
+
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+    if (!code || !state) {
+      setStatus('error');
+      setMessage('Invalid sign-in response. Please try again.');
+      return;
+    }
+
+    completeLogin(code, state);
+  }, [searchParams]);
+
+  const completeLogin = async (code: string, state: string) => {
+    try {
+      const result = await loginWithOidc(code, state);
+
+      if (result.requires2FA && result.challengeToken) {
+        // Finish on the login page's code-entry step
+        navigate('/login', { replace: true, state: { challengeToken: result.challengeToken } });
+        return;
+      }
+
+      toast.success('Signed in successfully!');
+      navigate('/', { replace: true });
+    } catch (error: any) {
+      console.error('Single sign-on failed:', error);
+      setStatus('error');
+      setMessage(error.message || 'Single sign-on failed. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-cream-light dark:bg-petflix-black px-4 py-12">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-charcoal dark:text-white mb-2">
+            {status === 'verifying' ? '🔐' : '❌'}
+          </h1>
+          <h2 className="text-2xl font-bold text-charcoal dark:text-white mb-2">
+            {status === 'verifying' ? 'Signing You In' : 'Sign-In Failed'}
+          </h2>
+        </div>
+
+        <div className="bg-white dark:bg-petflix-dark rounded-lg p-8 border border-gray-200 dark:border-transparent">
+          {status === 'verifying' ? (
+            <div className="text-center">
+              <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-petflix-orange dark:border-petflix-orange border-t-transparent mb-4"></div>
+              <p className="text-charcoal dark:text-white">Completing sign-in with your provider...</p>
+            </div>
+          ) : (
+            <div className="text-center">
+              <p className="text-red-600 dark:text-red-400 mb-4 font-medium">
+                {message}
+              </p>
+              <div className="space-y-3">
+                <Link
+                  to="/login"
+                  className="block px-6 py-3 bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-charcoal dark:text-white font-bold rounded-lg transition text-center"
+                >
+                  Back to Sign In
+                </Link>
+                <Link
+                  to="/"
+                  className="block px-6 py-3 bg-gray-200 dark:bg-petflix-gray hover:bg-gray-300 dark:hover:bg-gray-700 text-charcoal dark:text-white font-medium rounded-lg transition text-center"
+                >
+                  Go Home
+                </Link>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
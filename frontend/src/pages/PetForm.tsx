@@ -0,0 +1,299 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { petsAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { PET_SPECIES, PetSpecies, getSpeciesInfo } from '../lib/pets';
+
+const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+const inputClassName = 'w-full px-5 py-3 bg-white dark:bg-petflix-dark-gray text-charcoal dark:text-white placeholder-gray-500 dark:placeholder-gray-400 border border-gray-300 dark:border-gray-700 focus:ring-2 focus:ring-petflix-orange dark:focus:ring-petflix-orange';
+
+// Create (/pets/new) and edit (/pet/:petId/edit) a pet profile
+export const PetForm = () => {
+  const { petId } = useParams<{ petId: string }>();
+  const isEdit = !!petId;
+  const { user } = useAuth();
+  const toast = useToast();
+  const navigate = useNavigate();
+
+  const [name, setName] = useState('');
+  const [species, setSpecies] = useState<PetSpecies>('dog');
+  const [breed, setBreed] = useState('');
+  const [birthday, setBirthday] = useState('');
+  const [currentPhotoUrl, setCurrentPhotoUrl] = useState<string | null>(null);
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [loading, setLoading] = useState(isEdit);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!petId) return;
+
+    const fetchPet = async () => {
+      try {
+        const response = await petsAPI.getPet(petId);
+        const pet = response.data.pet;
+        if (pet.owner_id !== user?.id) {
+          navigate(`/pet/${petId}`, { replace: true });
+          return;
+        }
+        setName(pet.name);
+        setSpecies(pet.species);
+        setBreed(pet.breed || '');
+        setBirthday(pet.birthday || '');
+        setCurrentPhotoUrl(pet.photo_url);
+      } catch (err: any) {
+        console.error('Failed to load pet:', err);
+        setError(err.response?.data?.error || 'Failed to load pet');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPet();
+  }, [petId, user?.id, navigate]);
+
+  const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!ALLOWED_PHOTO_TYPES.includes(file.type)) {
+      toast.error('Only JPEG, PNG, GIF, and WebP images are allowed');
+      return;
+    }
+
+    if (file.size > MAX_PHOTO_BYTES) {
+      toast.error('Photo must be less than 5MB');
+      return;
+    }
+
+    setPhotoFile(file);
+    const reader = new FileReader();
+    reader.onloadend = () => setPhotoPreview(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const uploadPhoto = async (id: string, file: File) => {
+    const reader = new FileReader();
+    const base64Promise = new Promise<string>((resolve, reject) => {
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+    });
+    reader.readAsDataURL(file);
+
+    const base64Image = await base64Promise;
+    await petsAPI.uploadPhoto(id, base64Image, file.type);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+
+    const data = {
+      name: name.trim(),
+      species,
+      breed: breed.trim() || null,
+      birthday: birthday || null,
+    };
+
+    try {
+      const response = isEdit
+        ? await petsAPI.updatePet(petId!, data)
+        : await petsAPI.createPet(data);
+      const savedPetId = response.data.pet.id;
+
+      if (photoFile) {
+        try {
+          await uploadPhoto(savedPetId, photoFile);
+        } catch (uploadErr: any) {
+          // The pet itself is saved - let the user retry the photo from the edit page
+          console.error('Pet photo upload error:', uploadErr);
+          toast.error(uploadErr.response?.data?.message || 'Pet saved, but the photo could not be uploaded');
+          navigate(`/pet/${savedPetId}`);
+          return;
+        }
+      }
+
+      toast.success(isEdit ? 'Pet updated!' : 'Pet added!');
+      navigate(`/pet/${savedPetId}`);
+    } catch (err: any) {
+      console.error('Save pet error:', err);
+      setError(err.response?.data?.details?.[0]?.msg || err.response?.data?.message || err.response?.data?.error || 'Failed to save pet');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!petId || !confirm(`Delete ${name}'s profile? Their video tags will be removed too.`)) return;
+
+    setDeleting(true);
+    try {
+      await petsAPI.deletePet(petId);
+      toast.success('Pet deleted');
+      navigate(user ? `/profile/${user.id}` : '/');
+    } catch (err: any) {
+      console.error('Delete pet error:', err);
+      toast.error(err.response?.data?.error || 'Failed to delete pet');
+      setDeleting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-cream-light dark:bg-petflix-black pt-24 flex justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-petflix-orange dark:border-petflix-orange border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  const photoSrc = photoPreview || currentPhotoUrl;
+
+  return (
+    <div className="min-h-screen bg-cream-light dark:bg-petflix-black pt-20 sm:pt-24 px-4 sm:px-6 md:px-8 lg:px-16 pb-8 sm:pb-12">
+      <div className="max-w-3xl mx-auto">
+        <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-charcoal dark:text-white mb-2">
+          {isEdit ? 'Edit Pet' : 'Add a Pet'}
+        </h1>
+        <p className="text-gray-700 dark:text-gray-400 mb-8">
+          {isEdit ? 'Update your pet\'s profile' : 'Create a profile for your pet and tag them in the videos you share'}
+        </p>
+
+        {error && (
+          <div className="bg-red-600/90 text-white px-6 py-4 rounded-lg mb-6">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Photo */}
+          <div className="bg-gray-50 dark:bg-petflix-dark rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+            <label className="block text-charcoal dark:text-white font-bold mb-3">
+              Photo <span className="text-gray-600 dark:text-gray-400 font-normal">(Optional)</span>
+            </label>
+            <div className="flex items-center gap-6">
+              {photoSrc ? (
+                <img src={photoSrc} alt="Pet photo" className="w-24 h-24 rounded-full object-cover flex-shrink-0" />
+              ) : (
+                <div className="w-24 h-24 rounded-full bg-petflix-orange flex items-center justify-center text-5xl flex-shrink-0">
+                  {getSpeciesInfo(species).emoji}
+                </div>
+              )}
+              <div>
+                <input
+                  type="file"
+                  accept={ALLOWED_PHOTO_TYPES.join(',')}
+                  onChange={handlePhotoSelect}
+                  className="text-sm text-gray-700 dark:text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:bg-petflix-orange file:text-white file:font-medium hover:file:bg-petflix-orange/80"
+                />
+                <p className="text-sm text-gray-700 dark:text-gray-400 mt-2">
+                  JPEG, PNG, GIF or WebP, up to 5MB
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* Name */}
+          <div className="bg-gray-50 dark:bg-petflix-dark rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+            <label className="block text-charcoal dark:text-white font-bold mb-3">
+              Name <span className="text-red-600 dark:text-petflix-orange">*</span>
+            </label>
+            <Input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+              placeholder="e.g. Biscuit"
+              maxLength={50}
+              required
+            />
+          </div>
+
+          {/* Species & Breed */}
+          <div className="bg-gray-50 dark:bg-petflix-dark rounded-lg p-6 border border-gray-200 dark:border-gray-700 grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-charcoal dark:text-white font-bold mb-3">
+                Species <span className="text-red-600 dark:text-petflix-orange">*</span>
+              </label>
+              <select
+                value={species}
+                onChange={(e) => setSpecies(e.target.value as PetSpecies)}
+                className="w-full px-4 py-3 rounded-md bg-white dark:bg-petflix-dark-gray text-charcoal dark:text-white border border-gray-300 dark:border-gray-700 focus:ring-2 focus:ring-petflix-orange"
+              >
+                {PET_SPECIES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.emoji} {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-charcoal dark:text-white font-bold mb-3">
+                Breed <span className="text-gray-600 dark:text-gray-400 font-normal">(Optional)</span>
+              </label>
+              <Input
+                type="text"
+                value={breed}
+                onChange={(e) => setBreed(e.target.value)}
+                className={inputClassName}
+                placeholder="e.g. Golden Retriever"
+                maxLength={100}
+              />
+            </div>
+          </div>
+
+          {/* Birthday */}
+          <div className="bg-gray-50 dark:bg-petflix-dark rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+            <label className="block text-charcoal dark:text-white font-bold mb-3">
+              Birthday <span className="text-gray-600 dark:text-gray-400 font-normal">(Optional)</span>
+            </label>
+            <Input
+              type="date"
+              value={birthday}
+              onChange={(e) => setBirthday(e.target.value)}
+              max={new Date().toISOString().split('T')[0]}
+              className={inputClassName}
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-4">
+            <Button
+              type="submit"
+              disabled={saving || !name.trim()}
+              className="flex-1 bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white dark:text-white font-bold py-4 text-lg"
+            >
+              {saving ? 'Saving...' : isEdit ? 'Save Changes' : 'Add Pet'}
+            </Button>
+            <Button
+              type="button"
+              onClick={() => navigate(isEdit ? `/pet/${petId}` : `/profile/${user?.id}`)}
+              variant="outline"
+              className="px-8 py-4 bg-gray-300 hover:bg-gray-400 dark:bg-petflix-gray dark:hover:bg-opacity-80 text-charcoal dark:text-white font-medium"
+            >
+              Cancel
+            </Button>
+          </div>
+
+          {isEdit && (
+            <Button
+              type="button"
+              onClick={handleDelete}
+              disabled={deleting}
+              className="w-full bg-red-600 hover:bg-red-700 text-white font-medium py-3"
+            >
+              {deleting ? 'Deleting...' : 'Delete Pet'}
+            </Button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { petsAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Pet, getSpeciesInfo, formatPetAge } from '../lib/pets';
+
+interface PetVideo {
+  id: string;
+  youtube_video_id: string;
+  title: string;
+  created_at: string;
+}
+
+export const PetProfile = () => {
+  const { petId } = useParams<{ petId: string }>();
+  const { user } = useAuth();
+  const [pet, setPet] = useState<Pet | null>(null);
+  const [videos, setVideos] = useState<PetVideo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!petId) return;
+
+    const fetchPet = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [petRes, videosRes] = await Promise.all([
+          petsAPI.getPet(petId),
+          petsAPI.getPetVideos(petId)
+        ]);
+        setPet(petRes.data.pet);
+        setVideos(videosRes.data.videos || []);
+      } catch (err: any) {
+        console.error('Failed to load pet:', err);
+        setError(err.response?.data?.message || err.response?.data?.error || 'Failed to load pet');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPet();
+  }, [petId]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-cream-light dark:bg-petflix-black pt-24 flex justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-4 border-petflix-orange dark:border-petflix-orange border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (error || !pet) {
+    return (
+      <div className="min-h-screen bg-cream-light dark:bg-petflix-black pt-24 px-4 text-center">
+        <p className="text-gray-600 dark:text-gray-400 text-lg">{error || 'Pet not found'}</p>
+      </div>
+    );
+  }
+
+  const species = getSpeciesInfo(pet.species);
+  const age = formatPetAge(pet.birthday);
+  const isOwner = user?.id === pet.owner_id;
+
+  return (
+    <div className="min-h-screen bg-cream-light dark:bg-petflix-black pt-20 sm:pt-24 px-4 sm:px-6 md:px-8 lg:px-16 pb-12">
+      <div className="max-w-7xl mx-auto">
+        {/* Pet Header */}
+        <div className="bg-white dark:bg-petflix-dark rounded-lg p-6 sm:p-8 mb-8 border border-gray-200 dark:border-transparent">
+          <div className="flex flex-col sm:flex-row items-center sm:items-start gap-6">
+            {pet.photo_url ? (
+              <img
+                src={pet.photo_url}
+                alt={pet.name}
+                className="w-32 h-32 rounded-full object-cover flex-shrink-0"
+              />
+            ) : (
+              <div className="w-32 h-32 rounded-full bg-petflix-orange flex items-center justify-center text-6xl flex-shrink-0">
+                {species.emoji}
+              </div>
+            )}
+
+            <div className="flex-1 text-center sm:text-left">
+              <h1 className="text-3xl sm:text-4xl font-bold text-charcoal dark:text-white mb-2">
+                {pet.name}
+              </h1>
+              <p className="text-gray-600 dark:text-gray-400 mb-1">
+                {species.emoji} {species.label}{pet.breed && ` · ${pet.breed}`}{age && ` · ${age}`}
+              </p>
+              {pet.birthday && (
+                <p className="text-sm text-gray-500 dark:text-gray-500 mb-3">
+                  Birthday: {new Date(pet.birthday).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}
+                </p>
+              )}
+              {pet.owner && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Owned by{' '}
+                  <Link to={`/profile/${pet.owner.id}`} className="font-semibold text-petflix-orange hover:underline">
+                    {pet.owner.username}
+                  </Link>
+                </p>
+              )}
+
+              {isOwner && (
+                <Button
+                  asChild
+                  className="mt-4 px-6 py-2 bg-gray-300 hover:bg-gray-400 dark:bg-petflix-gray dark:hover:bg-opacity-80 text-charcoal dark:text-white font-bold"
+                >
+                  <Link to={`/pet/${pet.id}/edit`}>Edit Pet</Link>
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Videos */}
+        <h2 className="text-xl sm:text-2xl md:text-3xl font-bold text-charcoal dark:text-white mb-4 sm:mb-6">
+          Videos with {pet.name} ({videos.length})
+        </h2>
+
+        {videos.length === 0 ? (
+          <div className="bg-white dark:bg-petflix-dark rounded-lg p-12 text-center border border-gray-200 dark:border-transparent">
+            <p className="text-gray-600 dark:text-gray-400 text-lg">
+              {isOwner
+                ? `Tag ${pet.name} when you share or edit a video to show it here`
+                : `No videos with ${pet.name} yet`}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-2 sm:gap-3 md:gap-4">
+            {videos.map((video) => (
+              <Card
+                key={video.id}
+                className="group relative overflow-hidden transition-transform duration-300 hover:scale-110 hover:z-10 border-gray-200/50 dark:border-gray-800/30 shadow-md hover:shadow-xl p-0 aspect-video"
+              >
+                <Link to={`/video/${video.id}`} className="block h-full">
+                  <CardContent className="p-0 h-full">
+                    <img
+                      src={`https://img.youtube.com/vi/${video.youtube_video_id}/hqdefault.jpg`}
+                      alt={video.title}
+                      className="w-full h-full object-cover"
+                    />
+                    <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition">
+                      <div className="absolute bottom-0 left-0 right-0 p-3">
+                        <h3 className="font-semibold text-white text-sm line-clamp-2">
+                          {video.title}
+                        </h3>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Link>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
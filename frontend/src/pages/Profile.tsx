@@ -1,11 +1,12 @@
 import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { api } from '../services/api';
+import { api, petsAPI } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ProfileHeaderSkeleton, VideoGridSkeleton } from '../components/LoadingSkeleton';
+import { Pet, getSpeciesInfo } from '../lib/pets';
 
 interface User {
   id: string;
@@ -14,6 +15,10 @@ interface User {
   profile_picture_url: string | null;
   bio: string | null;
   created_at: string;
+  is_private?: boolean;
+  // False when the account is private and the viewer isn't an approved follower
+  can_view?: boolean;
+  follow_request_pending?: boolean;
 }
 
 interface FollowStats {
@@ -45,16 +50,22 @@ export const Profile = () => {
   const [profileUser, setProfileUser] = useState<User | null>(null);
   const [videos, setVideos] = useState<Video[]>([]);
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [pets, setPets] = useState<Pet[]>([]);
   const [isFollowing, setIsFollowing] = useState(false);
+  const [followRequested, setFollowRequested] = useState(false);
   const [followStats, setFollowStats] = useState<FollowStats>({ followersCount: 0, followingCount: 0 });
   const [loading, setLoading] = useState(true);
   const [loadingPlaylists, setLoadingPlaylists] = useState(true);
   const [followLoading, setFollowLoading] = useState(false);
+  const [isBlocked, setIsBlocked] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
+  const [restrictLoading, setRestrictLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { user: currentUser } = useAuth();
   const toast = useToast();
 
   const isOwnProfile = currentUser?.id === userId;
+  const isLockedProfile = !isOwnProfile && profileUser?.can_view === false;
 
   useEffect(() => {
     const fetchProfile = async () => {
@@ -88,6 +99,7 @@ export const Profile = () => {
           const fetchedUser = userRes.data.user || userRes.data;
           console.log('✅ Fetched user profile:', fetchedUser);
           setProfileUser(fetchedUser);
+          setFollowRequested(!!fetchedUser.follow_request_pending);
         } catch (apiError) {
           console.error('❌ Failed to fetch user profile:', apiError);
           // If API fails and it's own profile, keep using current user data
@@ -119,6 +131,14 @@ export const Profile = () => {
           console.log('Could not load videos');
         }
 
+        // Try to fetch pets
+        try {
+          const petsRes = await petsAPI.getUserPets(userId);
+          setPets(petsRes.data.pets || []);
+        } catch (err) {
+          console.log('Could not load pets');
+        }
+
         // Try to fetch playlists
         try {
           setLoadingPlaylists(true);
@@ -140,6 +160,17 @@ export const Profile = () => {
           } catch (err) {
             console.log('Could not check follow status');
           }
+
+          try {
+            const [blocksRes, mutesRes] = await Promise.all([
+              api.get(`/users/${currentUser.id}/blocks`),
+              api.get(`/users/${currentUser.id}/mutes`)
+            ]);
+            setIsBlocked((blocksRes.data.users || []).some((u: any) => u.id === userId));
+            setIsMuted((mutesRes.data.users || []).some((u: any) => u.id === userId));
+          } catch (err) {
+            console.log('Could not check block/mute status');
+          }
         }
       } catch (error: any) {
         console.error('Failed to load profile:', error);
@@ -161,10 +192,20 @@ export const Profile = () => {
         await api.delete(`/follows/${userId}`);
         setIsFollowing(false);
         setFollowStats(prev => ({ ...prev, followersCount: Math.max(0, prev.followersCount - 1) }));
+      } else if (followRequested) {
+        // Cancels the pending request
+        await api.delete(`/follows/${userId}`);
+        setFollowRequested(false);
       } else {
-        await api.post(`/follows/${userId}`);
-        setIsFollowing(true);
-        setFollowStats(prev => ({ ...prev, followersCount: prev.followersCount + 1 }));
+        const response = await api.post(`/follows/${userId}`);
+        // Private accounts answer with a pending request instead of a follow
+        if (response.data?.status === 'requested') {
+          setFollowRequested(true);
+          toast.success('Follow request sent');
+        } else {
+          setIsFollowing(true);
+          setFollowStats(prev => ({ ...prev, followersCount: prev.followersCount + 1 }));
+        }
       }
     } catch (error: any) {
       console.error('❌ Follow error:', error);
@@ -178,6 +219,57 @@ export const Profile = () => {
     }
   };
 
+  const handleBlock = async () => {
+    if (!userId || restrictLoading) return;
+
+    if (!isBlocked && !window.confirm(`Block ${profileUser?.username}? They won't be able to follow you, comment on your videos or notify you, and any follows between you will be removed.`)) {
+      return;
+    }
+
+    setRestrictLoading(true);
+    try {
+      if (isBlocked) {
+        await api.delete(`/users/${userId}/block`);
+        setIsBlocked(false);
+        toast.success('User unblocked');
+      } else {
+        await api.post(`/users/${userId}/block`);
+        setIsBlocked(true);
+        setFollowRequested(false);
+        // The block removes follows in both directions
+        if (isFollowing) {
+          setIsFollowing(false);
+          setFollowStats(prev => ({ ...prev, followersCount: Math.max(0, prev.followersCount - 1) }));
+        }
+        toast.success('User blocked');
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update block');
+    } finally {
+      setRestrictLoading(false);
+    }
+  };
+
+  const handleMute = async () => {
+    if (!userId || restrictLoading) return;
+
+    setRestrictLoading(true);
+    try {
+      if (isMuted) {
+        await api.delete(`/users/${userId}/mute`);
+        setIsMuted(false);
+        toast.success('User unmuted');
+      } else {
+        await api.post(`/users/${userId}/mute`);
+        setIsMuted(true);
+        toast.success('User muted - their videos and comments are hidden from you');
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update mute');
+    } finally {
+      setRestrictLoading(false);
+    }
+  };
 
   if (loading) {
     return (
@@ -290,13 +382,13 @@ export const Profile = () => {
               </div>
 
               {currentUser && !isOwnProfile && (
-                <div className="flex justify-center sm:justify-start">
+                <div className="flex flex-wrap justify-center sm:justify-start gap-2">
                   <Button
                     onClick={handleFollow}
-                    disabled={followLoading}
-                    variant={isFollowing ? "outline" : "default"}
+                    disabled={followLoading || isBlocked}
+                    variant={isFollowing || followRequested ? "outline" : "default"}
                     className={`px-6 py-2.5 sm:py-3 font-bold text-sm sm:text-base ${
-                      isFollowing
+                      isFollowing || followRequested
                         ? 'bg-gray-300 hover:bg-gray-400 dark:bg-petflix-gray dark:hover:bg-opacity-80 text-charcoal dark:text-white'
                         : 'bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white dark:text-white'
                     }`}
@@ -304,195 +396,286 @@ export const Profile = () => {
                     {followLoading ? (
                       <span className="flex items-center gap-2">
                         <span className="inline-block w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></span>
-                        {isFollowing ? 'Unfollowing...' : 'Following...'}
+                        {isFollowing ? 'Unfollowing...' : followRequested ? 'Cancelling...' : 'Following...'}
                       </span>
                     ) : (
-                      isFollowing ? 'Unfollow' : 'Follow'
+                      isFollowing ? 'Unfollow' : followRequested ? 'Requested' : 'Follow'
                     )}
                   </Button>
+                  <Button
+                    onClick={handleMute}
+                    disabled={restrictLoading}
+                    variant="outline"
+                    className="px-4 py-2.5 sm:py-3 font-semibold text-sm sm:text-base text-charcoal dark:text-white"
+                  >
+                    {isMuted ? 'Unmute' : 'Mute'}
+                  </Button>
+                  <Button
+                    onClick={handleBlock}
+                    disabled={restrictLoading}
+                    variant="outline"
+                    className="px-4 py-2.5 sm:py-3 font-semibold text-sm sm:text-base text-red-600 dark:text-red-400"
+                  >
+                    {isBlocked ? 'Unblock' : 'Block'}
+                  </Button>
                 </div>
               )}
             </div>
           </div>
         </div>
 
-        {/* Videos Section */}
-        <div className="mb-6 sm:mb-8">
-          <h2 className="text-xl sm:text-2xl md:text-3xl font-bold text-charcoal dark:text-white mb-4 sm:mb-6">
-            Shared Videos ({videos.length})
-          </h2>
-
-          {videos.length === 0 ? (
-            <div className="bg-white dark:bg-petflix-dark rounded-lg p-12 text-center border border-gray-200 dark:border-transparent">
-              <div className="flex justify-center mb-4">
-                <svg className="w-16 h-16 text-charcoal dark:text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                </svg>
-              </div>
-              <p className="text-gray-600 dark:text-gray-400 text-lg mb-4">
-                {isOwnProfile ? 'You haven\'t shared any videos yet' : 'No videos shared yet'}
-              </p>
-              {isOwnProfile && (
-                <Link
-                  to="/share"
-                  className="inline-block px-6 py-3 bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white dark:text-white font-bold rounded transition"
-                >
-                  Share Your First Video
-                </Link>
-              )}
+        {isLockedProfile ? (
+          <div className="bg-white dark:bg-petflix-dark rounded-lg p-12 mb-16 text-center border border-gray-200 dark:border-transparent">
+            <div className="flex justify-center mb-4">
+              <svg className="w-16 h-16 text-charcoal dark:text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+              </svg>
             </div>
-          ) : (
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-2 sm:gap-3 md:gap-4">
-              {videos.map((video) => (
-                <Card
-                  key={video.id}
-                  className="group relative overflow-hidden transition-transform duration-300 hover:scale-110 hover:z-10 border-gray-200/50 dark:border-gray-800/30 shadow-md hover:shadow-xl p-0 aspect-video"
-                >
-                  <Link
-                    to={`/video/${video.id}`}
-                    className="block h-full"
+            <p className="text-charcoal dark:text-white text-lg font-bold mb-2">
+              This account is private
+            </p>
+            <p className="text-gray-600 dark:text-gray-400">
+              {followRequested
+                ? 'Your follow request is waiting for approval'
+                : 'Follow this account to see their videos and playlists'}
+            </p>
+          </div>
+        ) : (
+          <>
+          {/* Pets Section */}
+          {(pets.length > 0 || isOwnProfile) && (
+            <div className="mb-6 sm:mb-8">
+              <div className="flex items-center justify-between mb-4 sm:mb-6">
+                <h2 className="text-xl sm:text-2xl md:text-3xl font-bold text-charcoal dark:text-white">
+                  Pets ({pets.length})
+                </h2>
+                {isOwnProfile && (
+                  <Button
+                    asChild
+                    className="px-6 py-3 bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white dark:text-white font-bold"
                   >
-                    <CardContent className="p-0 h-full">
-                      <img
-                        src={`https://img.youtube.com/vi/${video.youtube_video_id}/hqdefault.jpg`}
-                        alt={video.title}
-                        className="w-full h-full object-cover"
-                        onError={(e) => {
-                          const target = e.target as HTMLImageElement;
-                          if (target.src.includes('hqdefault')) {
-                            target.src = `https://img.youtube.com/vi/${video.youtube_video_id}/mqdefault.jpg`;
-                          }
-                        }}
-                      />
-                      <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition">
-                        <div className="absolute bottom-0 left-0 right-0 p-3">
-                          <h3 className="font-semibold text-white text-sm line-clamp-2">
-                            {video.title}
-                          </h3>
+                    <Link to="/pets/new">
+                      + Add Pet
+                    </Link>
+                  </Button>
+                )}
+              </div>
+
+              {pets.length === 0 ? (
+                <p className="text-gray-600 dark:text-gray-400">
+                  Add your pets to tag them in the videos you share
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-4">
+                  {pets.map((pet) => (
+                    <Link
+                      key={pet.id}
+                      to={`/pet/${pet.id}`}
+                      className="flex flex-col items-center w-24 group"
+                    >
+                      {pet.photo_url ? (
+                        <img
+                          src={pet.photo_url}
+                          alt={pet.name}
+                          className="w-20 h-20 rounded-full object-cover mb-2"
+                        />
+                      ) : (
+                        <div className="w-20 h-20 rounded-full bg-petflix-orange flex items-center justify-center text-4xl mb-2">
+                          {getSpeciesInfo(pet.species).emoji}
                         </div>
-                      </div>
-                    </CardContent>
-                  </Link>
-                </Card>
-              ))}
+                      )}
+                      <span className="font-semibold text-charcoal dark:text-white text-sm text-center truncate w-full group-hover:text-petflix-orange transition">
+                        {pet.name}
+                      </span>
+                      <span className="text-xs text-gray-600 dark:text-gray-400 text-center truncate w-full">
+                        {pet.breed || getSpeciesInfo(pet.species).label}
+                      </span>
+                    </Link>
+                  ))}
+                </div>
+              )}
             </div>
           )}
-        </div>
 
-        {/* Playlists Section */}
-        <div className="mb-16">
-          <div className="flex items-center justify-between mb-6">
-            <h2 className="text-3xl font-bold text-charcoal dark:text-white">
-              Playlists ({playlists.length})
+          {/* Videos Section */}
+          <div className="mb-6 sm:mb-8">
+            <h2 className="text-xl sm:text-2xl md:text-3xl font-bold text-charcoal dark:text-white mb-4 sm:mb-6">
+              Shared Videos ({videos.length})
             </h2>
-            {isOwnProfile && (
-              <Button
-                asChild
-                className="px-6 py-3 bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white dark:text-white font-bold"
-              >
-                <Link to="/playlists/create">
-                  + Create Playlist
-                </Link>
-              </Button>
-            )}
-          </div>
 
-          {loadingPlaylists ? (
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 md:gap-4">
-              {Array.from({ length: 6 }).map((_, i) => (
-                <div key={i} className="animate-pulse">
-                  <div className="w-full pb-[56.25%] bg-gray-200 dark:bg-gray-700 rounded-lg mb-3"></div>
-                  <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-3/4 mb-2"></div>
-                  <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+            {videos.length === 0 ? (
+              <div className="bg-white dark:bg-petflix-dark rounded-lg p-12 text-center border border-gray-200 dark:border-transparent">
+                <div className="flex justify-center mb-4">
+                  <svg className="w-16 h-16 text-charcoal dark:text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                  </svg>
                 </div>
-              ))}
-            </div>
-          ) : playlists.length === 0 ? (
-            <div className="bg-white dark:bg-petflix-dark rounded-lg p-12 text-center border border-gray-200 dark:border-transparent">
-              <div className="flex justify-center mb-4">
-                <svg className="w-16 h-16 text-charcoal dark:text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
-                </svg>
+                <p className="text-gray-600 dark:text-gray-400 text-lg mb-4">
+                  {isOwnProfile ? 'You haven\'t shared any videos yet' : 'No videos shared yet'}
+                </p>
+                {isOwnProfile && (
+                  <Link
+                    to="/share"
+                    className="inline-block px-6 py-3 bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white dark:text-white font-bold rounded transition"
+                  >
+                    Share Your First Video
+                  </Link>
+                )}
               </div>
-              <p className="text-gray-600 dark:text-gray-400 text-lg mb-4">
-                {isOwnProfile ? 'You haven\'t created any playlists yet' : 'No playlists yet'}
-              </p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-2 sm:gap-3 md:gap-4">
+                {videos.map((video) => (
+                  <Card
+                    key={video.id}
+                    className="group relative overflow-hidden transition-transform duration-300 hover:scale-110 hover:z-10 border-gray-200/50 dark:border-gray-800/30 shadow-md hover:shadow-xl p-0 aspect-video"
+                  >
+                    <Link
+                      to={`/video/${video.id}`}
+                      className="block h-full"
+                    >
+                      <CardContent className="p-0 h-full">
+                        <img
+                          src={`https://img.youtube.com/vi/${video.youtube_video_id}/hqdefault.jpg`}
+                          alt={video.title}
+                          className="w-full h-full object-cover"
+                          onError={(e) => {
+                            const target = e.target as HTMLImageElement;
+                            if (target.src.includes('hqdefault')) {
+                              target.src = `https://img.youtube.com/vi/${video.youtube_video_id}/mqdefault.jpg`;
+                            }
+                          }}
+                        />
+                        <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition">
+                          <div className="absolute bottom-0 left-0 right-0 p-3">
+                            <h3 className="font-semibold text-white text-sm line-clamp-2">
+                              {video.title}
+                            </h3>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Link>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Playlists Section */}
+          <div className="mb-16">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-3xl font-bold text-charcoal dark:text-white">
+                Playlists ({playlists.length})
+              </h2>
               {isOwnProfile && (
-                <Link
-                  to="/playlists/create"
-                  className="inline-block px-6 py-3 bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white dark:text-white font-bold rounded transition"
+                <Button
+                  asChild
+                  className="px-6 py-3 bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white dark:text-white font-bold"
                 >
-                  Create Your First Playlist
-                </Link>
+                  <Link to="/playlists/create">
+                    + Create Playlist
+                  </Link>
+                </Button>
               )}
             </div>
-          ) : (
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 md:gap-4">
-              {playlists.map((playlist) => (
-                <Link
-                  key={playlist.id}
-                  to={`/playlists/${playlist.id}`}
-                  className="block group"
-                >
-                  {/* Thumbnail with count overlay - YouTube style */}
-                  <div className="relative w-full pb-[56.25%] bg-gray-200 dark:bg-petflix-dark-gray rounded-lg overflow-hidden mb-3">
-                    {playlist.latest_video_thumbnail ? (
-                      <img
-                        src={playlist.latest_video_thumbnail}
-                        alt={playlist.name}
-                        className="absolute inset-0 w-full h-full object-cover"
-                      />
-                    ) : (
-                      <div className="absolute inset-0 flex items-center justify-center">
-                        <svg className="w-12 h-12 text-gray-400 dark:text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+
+            {loadingPlaylists ? (
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 md:gap-4">
+                {Array.from({ length: 6 }).map((_, i) => (
+                  <div key={i} className="animate-pulse">
+                    <div className="w-full pb-[56.25%] bg-gray-200 dark:bg-gray-700 rounded-lg mb-3"></div>
+                    <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-3/4 mb-2"></div>
+                    <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-1/2"></div>
+                  </div>
+                ))}
+              </div>
+            ) : playlists.length === 0 ? (
+              <div className="bg-white dark:bg-petflix-dark rounded-lg p-12 text-center border border-gray-200 dark:border-transparent">
+                <div className="flex justify-center mb-4">
+                  <svg className="w-16 h-16 text-charcoal dark:text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+                  </svg>
+                </div>
+                <p className="text-gray-600 dark:text-gray-400 text-lg mb-4">
+                  {isOwnProfile ? 'You haven\'t created any playlists yet' : 'No playlists yet'}
+                </p>
+                {isOwnProfile && (
+                  <Link
+                    to="/playlists/create"
+                    className="inline-block px-6 py-3 bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white dark:text-white font-bold rounded transition"
+                  >
+                    Create Your First Playlist
+                  </Link>
+                )}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 md:gap-4">
+                {playlists.map((playlist) => (
+                  <Link
+                    key={playlist.id}
+                    to={`/playlists/${playlist.id}`}
+                    className="block group"
+                  >
+                    {/* Thumbnail with count overlay - YouTube style */}
+                    <div className="relative w-full pb-[56.25%] bg-gray-200 dark:bg-petflix-dark-gray rounded-lg overflow-hidden mb-3">
+                      {playlist.latest_video_thumbnail ? (
+                        <img
+                          src={playlist.latest_video_thumbnail}
+                          alt={playlist.name}
+                          className="absolute inset-0 w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="absolute inset-0 flex items-center justify-center">
+                          <svg className="w-12 h-12 text-gray-400 dark:text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                          </svg>
+                        </div>
+                      )}
+                    
+                      {/* Video count overlay - bottom right */}
+                      <div className="absolute bottom-2 right-2 bg-black/80 text-white text-xs font-semibold px-2 py-1 rounded flex items-center gap-1">
+                        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+                          <path d="M2 6a2 2 0 012-2h6a2 2 0 012 2v8a2 2 0 01-2 2H4a2 2 0 01-2-2V6zM14.553 7.106A1 1 0 0014 8v4a1 1 0 00.553.894l2 1A1 1 0 0018 13V7a1 1 0 00-1.447-.894l-2 1z" />
                         </svg>
+                        {playlist.video_count || 0}
                       </div>
-                    )}
-                    
-                    {/* Video count overlay - bottom right */}
-                    <div className="absolute bottom-2 right-2 bg-black/80 text-white text-xs font-semibold px-2 py-1 rounded flex items-center gap-1">
-                      <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
-                        <path d="M2 6a2 2 0 012-2h6a2 2 0 012 2v8a2 2 0 01-2 2H4a2 2 0 01-2-2V6zM14.553 7.106A1 1 0 0014 8v4a1 1 0 00.553.894l2 1A1 1 0 0018 13V7a1 1 0 00-1.447-.894l-2 1z" />
-                      </svg>
-                      {playlist.video_count || 0}
                     </div>
-                  </div>
 
-                  {/* Playlist info */}
-                  <div className="px-1">
-                    <h3 className="font-semibold text-charcoal dark:text-white text-sm line-clamp-2 group-hover:text-petflix-orange transition mb-1">
-                      {playlist.name}
-                    </h3>
-                    <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
-                      <span className={`flex items-center gap-1 ${
-                        playlist.visibility === 'public' 
-                          ? 'text-green-600 dark:text-green-400' 
-                          : 'text-gray-500 dark:text-gray-500'
-                      }`}>
-                        {playlist.visibility === 'public' ? (
-                          <>
-                            <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
-                              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM4.332 8.027a6.012 6.012 0 011.912-2.706C6.512 5.73 6.974 6 7.5 6A1.5 1.5 0 019 7.5V8a2 2 0 004 0 2 2 0 011.523-1.943A5.977 5.977 0 0116 10c0 .34-.028.675-.083 1H15a2 2 0 00-2 2v2.197A5.973 5.973 0 0110 16v-2a2 2 0 00-2-2 2 2 0 01-2-2 2 2 0 00-1.668-1.973z" clipRule="evenodd" />
-                            </svg>
-                            Public
-                          </>
-                        ) : (
-                          <>
-                            <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
-                              <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
-                            </svg>
-                            Private
-                          </>
-                        )}
-                      </span>
+                    {/* Playlist info */}
+                    <div className="px-1">
+                      <h3 className="font-semibold text-charcoal dark:text-white text-sm line-clamp-2 group-hover:text-petflix-orange transition mb-1">
+                        {playlist.name}
+                      </h3>
+                      <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                        <span className={`flex items-center gap-1 ${
+                          playlist.visibility === 'public' 
+                            ? 'text-green-600 dark:text-green-400' 
+                            : 'text-gray-500 dark:text-gray-500'
+                        }`}>
+                          {playlist.visibility === 'public' ? (
+                            <>
+                              <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM4.332 8.027a6.012 6.012 0 011.912-2.706C6.512 5.73 6.974 6 7.5 6A1.5 1.5 0 019 7.5V8a2 2 0 004 0 2 2 0 011.523-1.943A5.977 5.977 0 0116 10c0 .34-.028.675-.083 1H15a2 2 0 00-2 2v2.197A5.973 5.973 0 0110 16v-2a2 2 0 00-2-2 2 2 0 01-2-2 2 2 0 00-1.668-1.973z" clipRule="evenodd" />
+                              </svg>
+                              Public
+                            </>
+                          ) : (
+                            <>
+                              <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
+                              </svg>
+                              Private
+                            </>
+                          )}
+                        </span>
+                      </div>
                     </div>
-                  </div>
-                </Link>
-              ))}
-            </div>
-          )}
-        </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -1,12 +1,14 @@
 import { useState, useEffect, useRef } from 'react';
-import { Link, useSearchParams } from 'react-router-dom';
-import { api } from '../services/api';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { api, videosAPI, experimentsAPI, savedSearchesAPI } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { useDebounce } from '../hooks/useDebounce';
 import { usePullToRefresh } from '../hooks/usePullToRefresh';
 import { VideoGridSkeleton, VideoCardSkeleton } from '../components/LoadingSkeleton';
 import { EmptyState } from '../components/EmptyState';
+import { SearchFacetFilters } from '../components/SearchFacetFilters';
+import { SearchFacets, SearchFilters } from '../lib/taxonomy';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -33,9 +35,37 @@ interface Video {
   };
 }
 
+interface SearchSuggestion {
+  type: 'recent' | 'popular' | 'video';
+  text: string;
+  video_id?: string;
+}
+
+interface SavedSearch {
+  id: string;
+  name: string;
+  query: string | null;
+  sort: SortOption;
+  filters: SearchFilters;
+  alerts_enabled: boolean;
+}
+
 type SortOption = 'relevance' | 'recency' | 'view_count' | 'engagement';
 type SearchSource = 'petflix' | 'youtube';
 
+const FILTER_PARAMS = ['species', 'breed', 'uploader', 'from', 'to'] as const;
+// As-you-type results count as a search once the query stays put this long
+const SEARCH_SETTLE_MS = 3000;
+
+const readFilters = (params: URLSearchParams): SearchFilters => {
+  const filters: SearchFilters = {};
+  FILTER_PARAMS.forEach((key) => {
+    const value = params.get(key);
+    if (value) filters[key] = value;
+  });
+  return filters;
+};
+
 export const Search = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   
@@ -43,7 +73,13 @@ export const Search = () => {
   const [query, setQuery] = useState(searchParams.get('q') || '');
   const [videos, setVideos] = useState<Video[]>([]);
   const [loading, setLoading] = useState(false);
-  const [searched, setSearched] = useState(!!searchParams.get('q'));
+  const [filters, setFilters] = useState<SearchFilters>(() => readFilters(searchParams));
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [didYouMean, setDidYouMean] = useState<string | null>(null);
+  const [searchId, setSearchId] = useState<string | null>(null);
+  // Set while the shown results come from an as-you-type search that isn't logged yet
+  const [impressionToken, setImpressionToken] = useState<string | null>(null);
+  const [searched, setSearched] = useState(!!searchParams.get('q') || Object.keys(readFilters(searchParams)).length > 0);
   const [sortBy, setSortBy] = useState<SortOption>((searchParams.get('sort') as SortOption) || 'relevance');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [searchSource, setSearchSource] = useState<SearchSource>((searchParams.get('source') as SearchSource) || 'petflix');
@@ -52,13 +88,28 @@ export const Search = () => {
   const [followedVideos, setFollowedVideos] = useState<Video[]>([]);
   const [loadingFollowed, setLoadingFollowed] = useState(false);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [suggestOpen, setSuggestOpen] = useState(false);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(-1);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [savePanelOpen, setSavePanelOpen] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [saveAlerts, setSaveAlerts] = useState(true);
+  const [savingSearch, setSavingSearch] = useState(false);
   const { user } = useAuth();
   const toast = useToast();
+  const navigate = useNavigate();
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const searchBoxRef = useRef<HTMLDivElement>(null);
   const sortDropdownRef = useRef<HTMLDivElement>(null);
+  // Committed searches are logged right away; ones run while typing only once their results settle
+  const commitNextSearch = useRef(false);
+  const lastAutoSearchQuery = useRef(query);
   
   // Debounce search query to reduce API calls
   const debouncedQuery = useDebounce(query, 500);
+  // Suggestions react faster than the search itself
+  const debouncedSuggestQuery = useDebounce(query, 200);
 
   // Track window size for responsive placeholder
   useEffect(() => {
@@ -90,6 +141,21 @@ export const Search = () => {
     fetchFollowedVideos();
   }, [user]);
 
+  // Saved searches for the chips under the search bar
+  useEffect(() => {
+    if (!user) {
+      setSavedSearches([]);
+      return;
+    }
+
+    savedSearchesAPI.list()
+      .then((response) => setSavedSearches(response.data.saved_searches || []))
+      .catch((error) => {
+        console.error('Failed to load saved searches:', error);
+        // Silently fail - not critical
+      });
+  }, [user]);
+
   // Close dropdowns when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -99,25 +165,76 @@ export const Search = () => {
       if (sortDropdownRef.current && !sortDropdownRef.current.contains(event.target as Node)) {
         setSortDropdownOpen(false);
       }
+      if (searchBoxRef.current && !searchBoxRef.current.contains(event.target as Node)) {
+        setSuggestOpen(false);
+      }
     };
 
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Autocomplete suggestions while typing (Petflix search only)
+  useEffect(() => {
+    const prefix = debouncedSuggestQuery.trim();
+    if (!suggestOpen || searchSource !== 'petflix' || !prefix) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    videosAPI.getSuggestions(prefix)
+      .then((response) => {
+        if (cancelled) return;
+        setSuggestions(response.data.suggestions || []);
+        setHighlightedSuggestion(-1);
+      })
+      .catch((error) => {
+        // Suggestions are optional; keep the search box usable
+        console.error('Failed to load search suggestions:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSuggestQuery, suggestOpen, searchSource]);
+
   // Auto-search when debounced query, sort, filters, or source change
   // Also allow browsing all videos when sort changes (even without query)
   useEffect(() => {
+    // A new query from typing isn't committed; the initial URL query, a picked suggestion or a
+    // sort / filter / source change is
+    const typed = debouncedQuery !== lastAutoSearchQuery.current;
+    const commit = commitNextSearch.current || !typed;
+    lastAutoSearchQuery.current = debouncedQuery;
+    commitNextSearch.current = false;
+
     if (debouncedQuery.trim()) {
-      performSearch(debouncedQuery);
+      performSearch(debouncedQuery, commit);
     } else if (searched && searchSource === 'petflix') {
       // Only browse all videos for Petflix source
       performSearch('');
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [debouncedQuery, sortBy, selectedTags.join(','), searchSource]);
+  }, [debouncedQuery, sortBy, selectedTags.join(','), searchSource, JSON.stringify(filters)]);
 
-  const performSearch = async (searchQuery: string) => {
+  // Log as-you-type results once the user stops typing; another keystroke starts over
+  useEffect(() => {
+    if (!impressionToken) return;
+
+    const timer = setTimeout(() => {
+      commitImpression(impressionToken);
+    }, SEARCH_SETTLE_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [impressionToken, query]);
+
+  const commitImpression = (token: string) => {
+    setImpressionToken((current) => (current === token ? null : current));
+    return videosAPI.commitSearchImpression(token).catch(() => {});
+  };
+
+  const performSearch = async (searchQuery: string, commit = true) => {
     setLoading(true);
     setSearched(true);
 
@@ -126,6 +243,11 @@ export const Search = () => {
     if (searchQuery) params.set('q', searchQuery);
     if (sortBy !== 'relevance') params.set('sort', sortBy);
     if (searchSource !== 'petflix') params.set('source', searchSource);
+    if (searchSource === 'petflix') {
+      FILTER_PARAMS.forEach((key) => {
+        if (filters[key]) params.set(key, filters[key]!);
+      });
+    }
     setSearchParams(params);
 
     try {
@@ -161,6 +283,9 @@ export const Search = () => {
         }));
         
         setVideos(youtubeVideos);
+        setDidYouMean(null);
+        setSearchId(null);
+        setImpressionToken(null);
       } else {
         // Petflix search
         const params = new URLSearchParams({
@@ -171,13 +296,25 @@ export const Search = () => {
         if (searchQuery.trim()) {
           params.append('q', searchQuery);
         }
+
+        if (commit) {
+          params.append('log', 'true');
+        }
         
         if (selectedTags.length > 0) {
           params.append('tags', selectedTags.join(','));
         }
 
+        FILTER_PARAMS.forEach((key) => {
+          if (filters[key]) params.append(key, filters[key]!);
+        });
+
         const response = await api.get(`/videos/search?${params.toString()}`);
         setVideos(response.data.videos || []);
+        setFacets(response.data.facets || null);
+        setDidYouMean(response.data.did_you_mean || null);
+        setSearchId(response.data.search_id || null);
+        setImpressionToken(response.data.impression_token || null);
       }
     } catch (error) {
       console.error('Search failed:', error);
@@ -189,6 +326,7 @@ export const Search = () => {
 
   const handleClearFilters = () => {
     setSelectedTags([]);
+    setFilters({});
     if (query.trim()) {
       performSearch(query);
     }
@@ -196,10 +334,106 @@ export const Search = () => {
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
+    setSuggestOpen(false);
     // Allow searching even with empty query (browse all videos)
     performSearch(query);
   };
 
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    setSuggestOpen(false);
+    setSuggestions([]);
+    if (suggestion.type === 'video' && suggestion.video_id) {
+      navigate(`/video/${suggestion.video_id}`);
+    } else {
+      commitNextSearch.current = true;
+      setQuery(suggestion.text);
+    }
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestOpen || suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedSuggestion((index) => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedSuggestion((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && highlightedSuggestion >= 0) {
+      e.preventDefault();
+      selectSuggestion(suggestions[highlightedSuggestion]);
+    } else if (e.key === 'Escape') {
+      setSuggestOpen(false);
+    }
+  };
+
+  const hasActiveFilters = Object.values(filters).some(Boolean);
+  const currentSavedSearch = savedSearches.find((saved) =>
+    (saved.query || '') === query.trim() &&
+    saved.sort === sortBy &&
+    FILTER_PARAMS.every((key) => (saved.filters[key] || '') === (filters[key] || ''))
+  );
+
+  const openSavePanel = () => {
+    setSaveName(query.trim() || 'My search');
+    setSaveAlerts(true);
+    setSavePanelOpen(true);
+  };
+
+  const handleSaveSearch = async () => {
+    if (!saveName.trim()) return;
+
+    setSavingSearch(true);
+    try {
+      const response = await savedSearchesAPI.create({
+        name: saveName.trim(),
+        query: query.trim() || null,
+        sort: sortBy,
+        filters: filters as Record<string, string>,
+        alerts_enabled: saveAlerts,
+      });
+      setSavedSearches((prev) => [response.data.saved_search, ...prev]);
+      setSavePanelOpen(false);
+      toast.success(saveAlerts ? 'Search saved - we\'ll let you know about new matches 🔔' : 'Search saved');
+    } catch (error: any) {
+      console.error('Failed to save search:', error);
+      toast.error(error.response?.data?.error || 'Failed to save search');
+    } finally {
+      setSavingSearch(false);
+    }
+  };
+
+  const applySavedSearch = (saved: SavedSearch) => {
+    setSearchSource('petflix');
+    commitNextSearch.current = true;
+    setQuery(saved.query || '');
+    setSortBy(saved.sort);
+    setFilters(saved.filters);
+    setSearched(true);
+  };
+
+  const toggleSavedSearchAlerts = async (saved: SavedSearch) => {
+    try {
+      const response = await savedSearchesAPI.update(saved.id, { alerts_enabled: !saved.alerts_enabled });
+      setSavedSearches((prev) => prev.map((s) => (s.id === saved.id ? response.data.saved_search : s)));
+      toast.success(saved.alerts_enabled ? 'Alerts turned off' : 'Alerts turned on 🔔');
+    } catch (error: any) {
+      console.error('Failed to update saved search:', error);
+      toast.error('Failed to update saved search');
+    }
+  };
+
+  const deleteSavedSearch = async (saved: SavedSearch) => {
+    try {
+      await savedSearchesAPI.remove(saved.id);
+      setSavedSearches((prev) => prev.filter((s) => s.id !== saved.id));
+      toast.success('Saved search removed');
+    } catch (error: any) {
+      console.error('Failed to delete saved search:', error);
+      toast.error('Failed to remove saved search');
+    }
+  };
+
   const handleRefresh = async () => {
     if (query.trim()) {
       await performSearch(query);
@@ -224,7 +458,7 @@ export const Search = () => {
         <form onSubmit={handleSearch}>
           {/* Search Bar with Integrated Dropdown */}
           <div className="flex flex-col sm:flex-row gap-3 mb-4 sm:mb-6">
-            <div className="flex-1 relative">
+            <div className="flex-1 relative" ref={searchBoxRef}>
               <div className="flex items-center bg-white dark:bg-petflix-dark-gray rounded-lg border border-gray-300 dark:border-gray-700 shadow-sm focus-within:ring-2 focus-within:ring-petflix-orange dark:focus-within:ring-petflix-orange">
                 {/* Custom Dropdown inside search bar */}
                 <div className="relative" ref={dropdownRef}>
@@ -306,7 +540,14 @@ export const Search = () => {
                 <Input
                   type="text"
                   value={query}
-                  onChange={(e) => setQuery(e.target.value)}
+                  onChange={(e) => {
+                    commitNextSearch.current = false;
+                    setQuery(e.target.value);
+                    setSuggestOpen(true);
+                  }}
+                  onFocus={() => setSuggestOpen(true)}
+                  onKeyDown={handleSearchKeyDown}
+                  autoComplete="off"
                   placeholder={
                     searchSource === 'petflix'
                       ? isMobile ? 'Search Petflix...' : 'Search for cute cats, funny dogs, adorable bunnies...'
@@ -315,6 +556,32 @@ export const Search = () => {
                   className="flex-1 px-6 py-4 bg-transparent border-0 text-charcoal dark:text-white placeholder-gray-400 dark:placeholder-gray-500 focus-visible:ring-0 focus-visible:ring-offset-0 text-base shadow-none h-full"
                 />
               </div>
+
+              {/* Autocomplete Suggestions */}
+              {suggestOpen && suggestions.length > 0 && (
+                <ul className="absolute left-0 right-0 top-full mt-1 bg-white dark:bg-petflix-dark-gray border border-gray-300 dark:border-gray-600 rounded-lg shadow-xl z-40 overflow-hidden">
+                  {suggestions.map((suggestion, index) => (
+                    <li key={`${suggestion.type}:${suggestion.video_id || suggestion.text}`}>
+                      <button
+                        type="button"
+                        onMouseEnter={() => setHighlightedSuggestion(index)}
+                        onClick={() => selectSuggestion(suggestion)}
+                        className={`w-full flex items-center gap-3 px-4 py-2 text-left text-sm transition-colors ${
+                          index === highlightedSuggestion ? 'bg-gray-100 dark:bg-gray-800' : ''
+                        }`}
+                      >
+                        <span className="w-5 text-center text-gray-400" aria-hidden="true">
+                          {suggestion.type === 'recent' ? '🕘' : suggestion.type === 'popular' ? '🔥' : '🎬'}
+                        </span>
+                        <span className="flex-1 truncate text-charcoal dark:text-white">{suggestion.text}</span>
+                        {suggestion.type === 'video' && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">Video</span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
             
             <Button
@@ -376,8 +643,123 @@ export const Search = () => {
                 )}
               </div>
 
+              {/* Save Search */}
+              {user && (query.trim() || hasActiveFilters) && (
+                currentSavedSearch ? (
+                  <span className="px-4 py-2 text-sm text-petflix-orange font-medium">★ Saved as "{currentSavedSearch.name}"</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => (savePanelOpen ? setSavePanelOpen(false) : openSavePanel())}
+                    className="px-4 py-2 bg-white dark:bg-petflix-dark-gray text-charcoal dark:text-white rounded-lg border border-gray-300 dark:border-gray-600 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors text-sm"
+                  >
+                    ☆ Save search
+                  </button>
+                )
+              )}
             </div>
           )}
+
+          {searchSource === 'petflix' && savePanelOpen && !currentSavedSearch && (
+            <div className="mt-3 p-4 bg-white dark:bg-petflix-dark-gray rounded-lg border border-gray-300 dark:border-gray-600 flex flex-col sm:flex-row sm:items-center gap-3">
+              <Input
+                type="text"
+                value={saveName}
+                maxLength={100}
+                onChange={(e) => setSaveName(e.target.value)}
+                onKeyDown={(e) => {
+                  // Don't submit the search form
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleSaveSearch();
+                  }
+                }}
+                placeholder="Name this search"
+                className="flex-1 bg-transparent text-charcoal dark:text-white"
+              />
+              <label className="flex items-center gap-2 text-sm text-charcoal dark:text-white">
+                <input
+                  type="checkbox"
+                  checked={saveAlerts}
+                  onChange={(e) => setSaveAlerts(e.target.checked)}
+                  className="accent-petflix-orange"
+                />
+                Alert me about new videos
+              </label>
+              <Button
+                type="button"
+                onClick={handleSaveSearch}
+                disabled={savingSearch || !saveName.trim()}
+                className="px-4 py-2 bg-petflix-orange hover:bg-orange-500 text-white text-sm font-semibold"
+              >
+                {savingSearch ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          )}
+
+          {/* Saved Searches */}
+          {searchSource === 'petflix' && savedSearches.length > 0 && (
+            <div className="mt-4 flex flex-wrap items-center gap-2">
+              <span className="text-sm text-gray-600 dark:text-gray-400">Saved:</span>
+              {savedSearches.map((saved) => (
+                <span
+                  key={saved.id}
+                  className={`inline-flex items-center rounded-full border text-sm ${
+                    currentSavedSearch?.id === saved.id
+                      ? 'border-petflix-orange bg-petflix-orange/10'
+                      : 'border-gray-300 dark:border-gray-600 bg-white dark:bg-petflix-dark-gray'
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => applySavedSearch(saved)}
+                    className="pl-3 pr-1 py-1 text-charcoal dark:text-white hover:text-petflix-orange"
+                  >
+                    {saved.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => toggleSavedSearchAlerts(saved)}
+                    title={saved.alerts_enabled ? 'Alerts on - click to turn off' : 'Alerts off - click to turn on'}
+                    className={`px-1 py-1 ${saved.alerts_enabled ? '' : 'opacity-40'}`}
+                  >
+                    {saved.alerts_enabled ? '🔔' : '🔕'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteSavedSearch(saved)}
+                    title="Remove saved search"
+                    className="pl-1 pr-3 py-1 text-gray-400 hover:text-red-500"
+                  >
+                    ✕
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* Spelling suggestion - Only for Petflix search */}
+          {searchSource === 'petflix' && searched && didYouMean && (
+            <p className="mt-4 text-sm text-charcoal dark:text-white">
+              Did you mean:{' '}
+              <button
+                type="button"
+                onClick={() => {
+                  commitNextSearch.current = true;
+                  setQuery(didYouMean);
+                }}
+                className="font-semibold text-petflix-orange hover:underline"
+              >
+                {didYouMean}
+              </button>
+              ?
+            </p>
+          )}
+
+          {/* Facet Filters - Only for Petflix search */}
+          {searchSource === 'petflix' && searched && facets && (
+            <SearchFacetFilters facets={facets} filters={filters} onChange={setFilters} />
+          )}
         </form>
       </div>
 
@@ -498,6 +880,20 @@ export const Search = () => {
                 <Component
                   to={linkProps.to}
                   className="block"
+                  onClick={() => {
+                    if (isYouTubeResult) return;
+                    // Text searches log the click with its position (also counted for A/B experiments);
+                    // browsing only reports the click to experiments
+                    if (searchId) {
+                      // A click settles an as-you-type search: log its impression first
+                      const clickedSearchId = searchId;
+                      (impressionToken ? commitImpression(impressionToken) : Promise.resolve())
+                        .then(() => videosAPI.recordSearchClick(clickedSearchId, video.id))
+                        .catch(() => {});
+                    } else {
+                      experimentsAPI.recordClick(video.id).catch(() => {});
+                    }
+                  }}
                 >
                   <CardContent className="p-0">
                     {/* YouTube Badge for YouTube results */}
@@ -2,18 +2,45 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useToast } from '../contexts/ToastContext';
-import { api } from '../services/api';
+import { api, authAPI, usersAPI } from '../services/api';
+import { formatRelativeTime } from '../lib/dateUtils';
 import { useNavigate } from 'react-router-dom';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { QRCodeSVG } from 'qrcode.react';
 import {
   subscribeToPushNotifications,
   unsubscribeFromPushNotifications,
   isPushSubscribed,
 } from '../services/pushNotifications';
 
+interface RestrictedUser {
+  id: string;
+  username: string;
+  profile_picture_url: string | null;
+  since: string;
+}
+
+interface SearchHistoryEntry {
+  id: string;
+  search_query: string;
+  search_results_count: number | null;
+  created_at: string;
+}
+
+interface DeviceSession {
+  id: string;
+  device: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  is_current: boolean;
+  push_enabled: boolean;
+}
+
 export const Settings = () => {
   const { user, logout, updateUser } = useAuth();
   const { theme, toggleTheme } = useTheme();
@@ -43,6 +70,39 @@ export const Settings = () => {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [changingPassword, setChangingPassword] = useState(false);
 
+  // Two-factor authentication
+  const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
+  const [recoveryCodesRemaining, setRecoveryCodesRemaining] = useState(0);
+  const [loadingTwoFactor, setLoadingTwoFactor] = useState(true);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [twoFactorPassword, setTwoFactorPassword] = useState('');
+  const [showDisableTwoFactor, setShowDisableTwoFactor] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [savingTwoFactor, setSavingTwoFactor] = useState(false);
+
+  // Active sessions (devices)
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [loadingSessions, setLoadingSessions] = useState(true);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+  const [revokingOthers, setRevokingOthers] = useState(false);
+
+  // Privacy
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [savingPrivacy, setSavingPrivacy] = useState(false);
+
+  // Blocked & muted users
+  const [blockedUsers, setBlockedUsers] = useState<RestrictedUser[]>([]);
+  const [mutedUsers, setMutedUsers] = useState<RestrictedUser[]>([]);
+  const [loadingRestricted, setLoadingRestricted] = useState(true);
+  const [updatingRestrictedId, setUpdatingRestrictedId] = useState<string | null>(null);
+
+  // Search history
+  const [searchHistory, setSearchHistory] = useState<SearchHistoryEntry[]>([]);
+  const [searchHistoryTotal, setSearchHistoryTotal] = useState(0);
+  const [loadingSearchHistory, setLoadingSearchHistory] = useState(true);
+  const [clearingSearchHistory, setClearingSearchHistory] = useState(false);
+
   // Account deletion
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
@@ -53,9 +113,260 @@ export const Settings = () => {
     if (user) {
       loadUserData();
       checkNotificationStatus();
+      loadSessions();
+      loadTwoFactorStatus();
+      loadRestrictedUsers();
+      loadSearchHistory();
     }
   }, [user]);
 
+  const loadTwoFactorStatus = async () => {
+    try {
+      setLoadingTwoFactor(true);
+      const response = await authAPI.getTwoFactorStatus();
+      setTwoFactorEnabled(response.data.enabled);
+      setRecoveryCodesRemaining(response.data.recoveryCodesRemaining || 0);
+    } catch (error) {
+      console.error('Failed to load 2FA status:', error);
+    } finally {
+      setLoadingTwoFactor(false);
+    }
+  };
+
+  const resetTwoFactorForm = () => {
+    setTwoFactorSetup(null);
+    setTwoFactorCode('');
+    setTwoFactorPassword('');
+    setShowDisableTwoFactor(false);
+  };
+
+  const handleStartTwoFactorSetup = async () => {
+    setSavingTwoFactor(true);
+    try {
+      const response = await authAPI.setupTwoFactor();
+      setTwoFactorSetup(response.data);
+      setTwoFactorCode('');
+      setRecoveryCodes(null);
+    } catch (error: any) {
+      console.error('Failed to start 2FA setup:', error);
+      toast.error(error.response?.data?.message || 'Failed to start two-factor setup');
+    } finally {
+      setSavingTwoFactor(false);
+    }
+  };
+
+  const handleEnableTwoFactor = async () => {
+    if (!twoFactorCode.trim()) {
+      toast.error('Enter the code from your authenticator app');
+      return;
+    }
+
+    setSavingTwoFactor(true);
+    try {
+      const response = await authAPI.enableTwoFactor(twoFactorCode.trim());
+      setRecoveryCodes(response.data.recoveryCodes);
+      setRecoveryCodesRemaining(response.data.recoveryCodes.length);
+      setTwoFactorEnabled(true);
+      resetTwoFactorForm();
+      toast.success('Two-factor authentication enabled! 🔐');
+    } catch (error: any) {
+      console.error('Failed to enable 2FA:', error);
+      toast.error(error.response?.data?.message || 'Failed to enable two-factor authentication');
+    } finally {
+      setSavingTwoFactor(false);
+    }
+  };
+
+  const handleDisableTwoFactor = async () => {
+    if (!twoFactorCode.trim()) {
+      toast.error('Enter a verification code');
+      return;
+    }
+
+    setSavingTwoFactor(true);
+    try {
+      await authAPI.disableTwoFactor({ password: twoFactorPassword, code: twoFactorCode.trim() });
+      setTwoFactorEnabled(false);
+      setRecoveryCodesRemaining(0);
+      setRecoveryCodes(null);
+      resetTwoFactorForm();
+      toast.success('Two-factor authentication disabled');
+    } catch (error: any) {
+      console.error('Failed to disable 2FA:', error);
+      toast.error(error.response?.data?.message || 'Failed to disable two-factor authentication');
+    } finally {
+      setSavingTwoFactor(false);
+    }
+  };
+
+  const handleRegenerateRecoveryCodes = async () => {
+    const code = window.prompt('Enter a code from your authenticator app to generate new recovery codes:');
+    if (!code) return;
+
+    setSavingTwoFactor(true);
+    try {
+      const response = await authAPI.regenerateRecoveryCodes(code.trim());
+      setRecoveryCodes(response.data.recoveryCodes);
+      setRecoveryCodesRemaining(response.data.recoveryCodes.length);
+      toast.success('New recovery codes generated - your old codes no longer work');
+    } catch (error: any) {
+      console.error('Failed to regenerate recovery codes:', error);
+      toast.error(error.response?.data?.message || 'Failed to generate recovery codes');
+    } finally {
+      setSavingTwoFactor(false);
+    }
+  };
+
+  const loadSessions = async () => {
+    if (!user) return;
+
+    try {
+      setLoadingSessions(true);
+      const response = await api.get(`/users/${user.id}/sessions`);
+      setSessions(response.data.sessions || []);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    } finally {
+      setLoadingSessions(false);
+    }
+  };
+
+  const handleRevokeSession = async (session: DeviceSession) => {
+    if (!user) return;
+
+    // Revoking this device is just a logout
+    if (session.is_current) {
+      logout();
+      navigate('/login');
+      return;
+    }
+
+    setRevokingSessionId(session.id);
+    try {
+      await api.delete(`/users/${user.id}/sessions/${session.id}`);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      toast.success(`Signed out of ${session.device}`);
+    } catch (error: any) {
+      console.error('Failed to revoke session:', error);
+      toast.error(error.response?.data?.message || 'Failed to sign out device');
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    if (!user) return;
+
+    setRevokingOthers(true);
+    try {
+      const response = await api.delete(`/users/${user.id}/sessions`);
+      setSessions(prev => prev.filter(s => s.is_current));
+      toast.success(response.data?.message || 'Signed out of all other devices');
+    } catch (error: any) {
+      console.error('Failed to revoke sessions:', error);
+      toast.error(error.response?.data?.message || 'Failed to sign out other devices');
+    } finally {
+      setRevokingOthers(false);
+    }
+  };
+
+  const handleTogglePrivate = async () => {
+    if (!user || savingPrivacy) return;
+
+    const nextValue = !isPrivate;
+    setSavingPrivacy(true);
+    try {
+      await api.patch(`/users/${user.id}`, { is_private: nextValue });
+      setIsPrivate(nextValue);
+      toast.success(nextValue
+        ? 'Your account is now private'
+        : 'Your account is now public - pending follow requests were approved');
+    } catch (error: any) {
+      console.error('Failed to update privacy:', error);
+      toast.error(error.response?.data?.message || 'Failed to update privacy setting');
+    } finally {
+      setSavingPrivacy(false);
+    }
+  };
+
+  const loadRestrictedUsers = async () => {
+    if (!user) return;
+
+    try {
+      setLoadingRestricted(true);
+      const [blocksResponse, mutesResponse] = await Promise.all([
+        usersAPI.getBlocks(user.id),
+        usersAPI.getMutes(user.id),
+      ]);
+      setBlockedUsers(blocksResponse.data.users || []);
+      setMutedUsers(mutesResponse.data.users || []);
+    } catch (error) {
+      console.error('Failed to load blocked/muted users:', error);
+    } finally {
+      setLoadingRestricted(false);
+    }
+  };
+
+  const handleUnblock = async (target: RestrictedUser) => {
+    setUpdatingRestrictedId(target.id);
+    try {
+      await usersAPI.unblock(target.id);
+      setBlockedUsers(prev => prev.filter(u => u.id !== target.id));
+      toast.success(`Unblocked ${target.username}`);
+    } catch (error: any) {
+      console.error('Failed to unblock user:', error);
+      toast.error(error.response?.data?.message || 'Failed to unblock user');
+    } finally {
+      setUpdatingRestrictedId(null);
+    }
+  };
+
+  const handleUnmute = async (target: RestrictedUser) => {
+    setUpdatingRestrictedId(target.id);
+    try {
+      await usersAPI.unmute(target.id);
+      setMutedUsers(prev => prev.filter(u => u.id !== target.id));
+      toast.success(`Unmuted ${target.username}`);
+    } catch (error: any) {
+      console.error('Failed to unmute user:', error);
+      toast.error(error.response?.data?.message || 'Failed to unmute user');
+    } finally {
+      setUpdatingRestrictedId(null);
+    }
+  };
+
+  const loadSearchHistory = async () => {
+    if (!user) return;
+
+    try {
+      setLoadingSearchHistory(true);
+      const response = await usersAPI.getSearchHistory(user.id);
+      setSearchHistory(response.data.searches || []);
+      setSearchHistoryTotal(response.data.pagination?.total || 0);
+    } catch (error) {
+      console.error('Failed to load search history:', error);
+    } finally {
+      setLoadingSearchHistory(false);
+    }
+  };
+
+  const handleClearSearchHistory = async () => {
+    if (!user) return;
+
+    setClearingSearchHistory(true);
+    try {
+      await usersAPI.clearSearchHistory(user.id);
+      setSearchHistory([]);
+      setSearchHistoryTotal(0);
+      toast.success('Search history cleared');
+    } catch (error: any) {
+      console.error('Failed to clear search history:', error);
+      toast.error(error.response?.data?.message || 'Failed to clear search history');
+    } finally {
+      setClearingSearchHistory(false);
+    }
+  };
+
   const checkNotificationStatus = async () => {
     try {
       // Force reset toggling state in case it got stuck
@@ -78,6 +389,7 @@ export const Settings = () => {
       const response = await api.get(`/users/${user.id}`);
       const userData = response.data.user;
       setBio(userData.bio || '');
+      setIsPrivate(!!userData.is_private);
       // Add cache-busting timestamp to profile picture URL when loading from database
       const baseUrl = userData.profile_picture_url || '';
       const urlWithCacheBust = baseUrl ? `${baseUrl.split('?')[0]}?t=${Date.now()}` : '';
@@ -254,7 +566,8 @@ export const Settings = () => {
     if (!user) return;
 
     // Validation
-    if (!currentPassword || !newPassword || !confirmPassword) {
+    // Current password may be blank for single sign-on accounts setting their first password
+    if (!newPassword || !confirmPassword) {
       toast.error('Please fill in all password fields');
       return;
     }
@@ -272,10 +585,11 @@ export const Settings = () => {
     setChangingPassword(true);
     try {
       await api.patch(`/users/${user.id}/password`, {
-        currentPassword,
+        currentPassword: currentPassword || undefined,
         newPassword,
       });
-      toast.success('Password changed successfully!');
+      toast.success('Password changed successfully! Other devices have been signed out.');
+      loadSessions();
       setCurrentPassword('');
       setNewPassword('');
       setConfirmPassword('');
@@ -558,7 +872,7 @@ export const Settings = () => {
                 value={currentPassword}
                 onChange={(e) => setCurrentPassword(e.target.value)}
                 className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-petflix-dark-gray text-charcoal dark:text-white focus:ring-2 focus:ring-petflix-orange dark:focus:ring-petflix-orange"
-                placeholder="Enter current password"
+                placeholder="Enter current password (leave blank if you only use single sign-on)"
               />
             </div>
 
@@ -598,6 +912,384 @@ export const Settings = () => {
           </div>
         </div>
 
+        {/* Two-Factor Authentication */}
+        <div className="bg-white dark:bg-petflix-dark rounded-lg p-6 mb-6 border border-gray-200 dark:border-transparent">
+          <h2 className="text-2xl font-bold text-charcoal dark:text-white mb-4">
+            Two-Factor Authentication
+          </h2>
+
+          {loadingTwoFactor ? (
+            <p className="text-sm text-gray-500 dark:text-gray-500">Checking two-factor status...</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex-1">
+                  <h3 className="font-semibold text-charcoal dark:text-white mb-1">
+                    Authenticator App {twoFactorEnabled ? '✅' : ''}
+                  </h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {twoFactorEnabled
+                      ? `Sign-in requires a code from your authenticator app. ${recoveryCodesRemaining} recovery code(s) remaining.`
+                      : 'Require a code from an authenticator app (Google Authenticator, 1Password, Authy...) when signing in.'}
+                  </p>
+                </div>
+                {!twoFactorSetup && !showDisableTwoFactor && (
+                  <Button
+                    onClick={twoFactorEnabled ? () => setShowDisableTwoFactor(true) : handleStartTwoFactorSetup}
+                    disabled={savingTwoFactor}
+                    className={twoFactorEnabled
+                      ? 'px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm font-semibold'
+                      : 'px-4 py-2 bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white text-sm font-semibold'}
+                  >
+                    {twoFactorEnabled ? 'Disable' : 'Enable'}
+                  </Button>
+                )}
+              </div>
+
+              {/* Enrollment: scan QR, then confirm with a code */}
+              {twoFactorSetup && (
+                <div className="border border-gray-300 dark:border-gray-700 rounded-lg p-4 space-y-4">
+                  <p className="text-sm text-charcoal dark:text-white">
+                    1. Scan this QR code with your authenticator app, or enter the key manually.
+                  </p>
+                  <div className="flex flex-col sm:flex-row items-center gap-4">
+                    <div className="bg-white p-3 rounded">
+                      <QRCodeSVG value={twoFactorSetup.otpauthUri} size={160} />
+                    </div>
+                    <code className="text-sm break-all bg-gray-100 dark:bg-petflix-dark-gray text-charcoal dark:text-white px-3 py-2 rounded">
+                      {twoFactorSetup.secret}
+                    </code>
+                  </div>
+                  <p className="text-sm text-charcoal dark:text-white">
+                    2. Enter the 6-digit code the app shows to finish setup.
+                  </p>
+                  <div className="flex gap-3">
+                    <Input
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      maxLength={6}
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      className="w-40 px-4 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-petflix-dark-gray text-charcoal dark:text-white tracking-widest focus:ring-2 focus:ring-petflix-orange dark:focus:ring-petflix-orange"
+                      placeholder="123456"
+                    />
+                    <Button
+                      onClick={handleEnableTwoFactor}
+                      disabled={savingTwoFactor}
+                      className="px-6 py-2 bg-petflix-orange hover:bg-petflix-orange/80 dark:bg-petflix-orange dark:hover:bg-petflix-red text-white font-bold"
+                    >
+                      {savingTwoFactor ? 'Verifying...' : 'Verify & Enable'}
+                    </Button>
+                    <Button
+                      onClick={resetTwoFactorForm}
+                      disabled={savingTwoFactor}
+                      className="px-4 py-2 bg-gray-200 dark:bg-petflix-dark-gray hover:bg-gray-300 dark:hover:bg-gray-700 text-charcoal dark:text-white"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {/* Disable: confirm with password + code */}
+              {showDisableTwoFactor && (
+                <div className="border border-red-200 dark:border-red-800 rounded-lg p-4 space-y-3">
+                  <p className="text-sm text-charcoal dark:text-white">
+                    Confirm your password and enter a code from your authenticator app (or a recovery code).
+                  </p>
+                  <Input
+                    type="password"
+                    value={twoFactorPassword}
+                    onChange={(e) => setTwoFactorPassword(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-petflix-dark-gray text-charcoal dark:text-white focus:ring-2 focus:ring-petflix-orange dark:focus:ring-petflix-orange"
+                    placeholder="Current password (leave blank if you only use single sign-on)"
+                  />
+                  <Input
+                    type="text"
+                    autoComplete="one-time-code"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-petflix-dark-gray text-charcoal dark:text-white focus:ring-2 focus:ring-petflix-orange dark:focus:ring-petflix-orange"
+                    placeholder="Verification code"
+                  />
+                  <div className="flex gap-3">
+                    <Button
+                      onClick={handleDisableTwoFactor}
+                      disabled={savingTwoFactor}
+                      className="px-6 py-2 bg-red-600 hover:bg-red-700 text-white font-bold"
+                    >
+                      {savingTwoFactor ? 'Disabling...' : 'Disable 2FA'}
+                    </Button>
+                    <Button
+                      onClick={resetTwoFactorForm}
+                      disabled={savingTwoFactor}
+                      className="px-4 py-2 bg-gray-200 dark:bg-petflix-dark-gray hover:bg-gray-300 dark:hover:bg-gray-700 text-charcoal dark:text-white"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {/* Recovery codes are only ever shown once */}
+              {recoveryCodes && (
+                <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-400 dark:border-yellow-700 rounded-lg p-4">
+                  <h3 className="font-semibold text-charcoal dark:text-white mb-2">
+                    Save your recovery codes
+                  </h3>
+                  <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
+                    Each code can be used once to sign in if you lose your authenticator. They won't be shown again.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2 font-mono text-sm text-charcoal dark:text-white mb-3">
+                    {recoveryCodes.map((code) => (
+                      <span key={code}>{code}</span>
+                    ))}
+                  </div>
+                  <div className="flex gap-3">
+                    <Button
+                      onClick={() => {
+                        navigator.clipboard.writeText(recoveryCodes.join('\n'));
+                        toast.success('Recovery codes copied');
+                      }}
+                      className="px-4 py-2 bg-gray-200 dark:bg-petflix-dark-gray hover:bg-gray-300 dark:hover:bg-gray-700 text-charcoal dark:text-white text-sm"
+                    >
+                      Copy codes
+                    </Button>
+                    <Button
+                      onClick={() => setRecoveryCodes(null)}
+                      className="px-4 py-2 bg-petflix-orange hover:bg-petflix-orange/80 text-white text-sm font-semibold"
+                    >
+                      I've saved them
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {twoFactorEnabled && !recoveryCodes && !showDisableTwoFactor && (
+                <button
+                  onClick={handleRegenerateRecoveryCodes}
+                  disabled={savingTwoFactor}
+                  className="text-sm text-gray-600 dark:text-gray-400 hover:text-petflix-orange transition disabled:opacity-50"
+                >
+                  Generate new recovery codes
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Devices */}
+        <div className="bg-white dark:bg-petflix-dark rounded-lg p-6 mb-6 border border-gray-200 dark:border-transparent">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold text-charcoal dark:text-white">
+              Devices
+            </h2>
+            {sessions.filter(s => !s.is_current).length > 0 && (
+              <Button
+                onClick={handleRevokeOtherSessions}
+                disabled={revokingOthers}
+                className="px-4 py-2 bg-gray-200 dark:bg-petflix-dark-gray hover:bg-gray-300 dark:hover:bg-gray-700 text-charcoal dark:text-white text-sm font-semibold"
+              >
+                {revokingOthers ? 'Signing out...' : 'Sign out all other devices'}
+              </Button>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            Places where you're currently signed in. Signing out a device also stops push notifications to it.
+          </p>
+
+          {loadingSessions ? (
+            <p className="text-sm text-gray-500 dark:text-gray-500">Loading devices...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-500">No active sessions found.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {sessions.map((session) => (
+                <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-charcoal dark:text-white">
+                        {session.device}
+                      </span>
+                      {session.is_current && (
+                        <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                          This device
+                        </span>
+                      )}
+                      {session.push_enabled && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400" title="Push notifications enabled">
+                          🔔
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={session.user_agent || undefined}>
+                      {session.ip_address || 'Unknown IP'} · Last active {formatRelativeTime(session.last_seen_at)} · Signed in {new Date(session.created_at).toLocaleDateString('en-GB')}
+                    </p>
+                  </div>
+                  <Button
+                    onClick={() => handleRevokeSession(session)}
+                    disabled={revokingSessionId === session.id}
+                    className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-sm font-semibold shrink-0"
+                  >
+                    {revokingSessionId === session.id ? 'Signing out...' : 'Sign out'}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Privacy */}
+        <div className="bg-white dark:bg-petflix-dark rounded-lg p-6 mb-6 border border-gray-200 dark:border-transparent">
+          <h2 className="text-2xl font-bold text-charcoal dark:text-white mb-4">
+            Privacy
+          </h2>
+
+          <div className="flex items-center justify-between">
+            <div className="flex-1">
+              <h3 className="font-semibold text-charcoal dark:text-white mb-1">
+                Private Account
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                New followers need your approval, and only your followers can see your bio, videos and playlists
+              </p>
+            </div>
+            <button
+              onClick={handleTogglePrivate}
+              disabled={savingPrivacy}
+              aria-pressed={isPrivate}
+              className={`relative w-16 h-8 rounded-full transition disabled:opacity-50 ${
+                isPrivate ? 'bg-petflix-orange' : 'bg-gray-300'
+              }`}
+            >
+              <div
+                className={`absolute top-1 left-1 w-6 h-6 bg-white rounded-full transition-transform ${
+                  isPrivate ? 'translate-x-8' : 'translate-x-0'
+                }`}
+              />
+            </button>
+          </div>
+        </div>
+
+        {/* Blocked & Muted Users */}
+        <div className="bg-white dark:bg-petflix-dark rounded-lg p-6 mb-6 border border-gray-200 dark:border-transparent">
+          <h2 className="text-2xl font-bold text-charcoal dark:text-white mb-4">
+            Blocked & Muted Users
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            Blocked users can't follow you, comment on your videos or send you notifications. Muted users' videos and comments are hidden from your feed, search and comment threads.
+          </p>
+
+          {loadingRestricted ? (
+            <p className="text-sm text-gray-500 dark:text-gray-500">Loading...</p>
+          ) : (
+            <div className="space-y-6">
+              {([
+                { title: 'Blocked', users: blockedUsers, actionLabel: 'Unblock', onAction: handleUnblock },
+                { title: 'Muted', users: mutedUsers, actionLabel: 'Unmute', onAction: handleUnmute },
+              ] as const).map(({ title, users, actionLabel, onAction }) => (
+                <div key={title}>
+                  <h3 className="font-semibold text-charcoal dark:text-white mb-2">
+                    {title} ({users.length})
+                  </h3>
+                  {users.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-500">
+                      You haven't {title.toLowerCase()} anyone.
+                    </p>
+                  ) : (
+                    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {users.map((restricted) => (
+                        <li key={restricted.id} className="py-3 flex items-center justify-between gap-4">
+                          <button
+                            onClick={() => navigate(`/profile/${restricted.id}`)}
+                            className="flex items-center gap-3 min-w-0 text-left"
+                          >
+                            {restricted.profile_picture_url ? (
+                              <img
+                                src={restricted.profile_picture_url}
+                                alt={restricted.username}
+                                className="w-8 h-8 rounded-full object-cover"
+                              />
+                            ) : (
+                              <div className="w-8 h-8 rounded-full bg-petflix-orange flex items-center justify-center text-white text-sm font-bold">
+                                {restricted.username.charAt(0).toUpperCase()}
+                              </div>
+                            )}
+                            <div className="min-w-0">
+                              <span className="font-semibold text-charcoal dark:text-white">
+                                {restricted.username}
+                              </span>
+                              <p className="text-xs text-gray-500 dark:text-gray-400">
+                                Since {new Date(restricted.since).toLocaleDateString('en-GB')}
+                              </p>
+                            </div>
+                          </button>
+                          <Button
+                            onClick={() => onAction(restricted)}
+                            disabled={updatingRestrictedId === restricted.id}
+                            className="px-4 py-2 bg-gray-200 dark:bg-petflix-dark-gray hover:bg-gray-300 dark:hover:bg-gray-700 text-charcoal dark:text-white text-sm font-semibold shrink-0"
+                          >
+                            {actionLabel}
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Search History */}
+        <div className="bg-white dark:bg-petflix-dark rounded-lg p-6 mb-6 border border-gray-200 dark:border-transparent">
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <h2 className="text-2xl font-bold text-charcoal dark:text-white">
+              Search History
+            </h2>
+            <Button
+              onClick={handleClearSearchHistory}
+              disabled={clearingSearchHistory || searchHistory.length === 0}
+              className="px-4 py-2 bg-gray-200 dark:bg-petflix-dark-gray hover:bg-gray-300 dark:hover:bg-gray-700 text-charcoal dark:text-white text-sm font-semibold shrink-0"
+            >
+              {clearingSearchHistory ? 'Clearing...' : 'Clear history'}
+            </Button>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            Your recent searches are suggested as you type in the search box. Only you can see them.
+          </p>
+
+          {loadingSearchHistory ? (
+            <p className="text-sm text-gray-500 dark:text-gray-500">Loading...</p>
+          ) : searchHistory.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-500">No searches yet.</p>
+          ) : (
+            <>
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {searchHistory.map((entry) => (
+                  <li key={entry.id} className="py-2 flex items-center justify-between gap-4">
+                    <button
+                      onClick={() => navigate(`/search?q=${encodeURIComponent(entry.search_query)}`)}
+                      className="text-left text-charcoal dark:text-white hover:text-petflix-orange truncate"
+                    >
+                      {entry.search_query}
+                    </button>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">
+                      {formatRelativeTime(entry.created_at)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {searchHistoryTotal > searchHistory.length && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  Showing the latest {searchHistory.length} of {searchHistoryTotal} searches
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
         {/* Notification Preferences */}
         <div className="bg-white dark:bg-petflix-dark rounded-lg p-6 mb-6 border border-gray-200 dark:border-transparent">
           <h2 className="text-2xl font-bold text-charcoal dark:text-white mb-4">
@@ -4,12 +4,17 @@ import { api } from '../services/api';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { PetTagPicker } from '../components/PetTagPicker';
+import { TaxonomyPicker } from '../components/TaxonomyPicker';
 
 export const ShareVideo = () => {
   const [searchParams] = useSearchParams();
   const [youtubeUrl, setYoutubeUrl] = useState('');
   const [customTitle, setCustomTitle] = useState('');
   const [customDescription, setCustomDescription] = useState('');
+  const [petIds, setPetIds] = useState<string[]>([]);
+  const [species, setSpecies] = useState('');
+  const [breed, setBreed] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [existingVideoId, setExistingVideoId] = useState<string | null>(null);
@@ -77,6 +82,9 @@ export const ShareVideo = () => {
         youtubeUrl: url,
         title: customTitle || undefined,
         description: customDescription || undefined,
+        pet_ids: petIds.length > 0 ? petIds : undefined,
+        species: species || undefined,
+        breed: breed || undefined,
       });
 
       // Backend returns { message, video: { id, ... } }
@@ -232,6 +240,32 @@ export const ShareVideo = () => {
             </p>
           </div>
 
+          {/* Category */}
+          <div className="bg-gray-50 dark:bg-petflix-dark rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+            <label className="block text-charcoal dark:text-white font-bold mb-3">
+              Category <span className="text-gray-600 dark:text-gray-400 font-normal">(Optional)</span>
+            </label>
+            <TaxonomyPicker
+              species={species}
+              breed={breed}
+              onChange={(newSpecies, newBreed) => {
+                setSpecies(newSpecies);
+                setBreed(newBreed);
+              }}
+            />
+            <p className="text-sm text-gray-700 dark:text-gray-400 mt-2">
+              Helps people find your video when browsing by animal or breed.
+            </p>
+          </div>
+
+          {/* Pet Tags */}
+          <div className="bg-gray-50 dark:bg-petflix-dark rounded-lg p-6 border border-gray-200 dark:border-gray-700">
+            <label className="block text-charcoal dark:text-white font-bold mb-3">
+              Pets in this Video <span className="text-gray-600 dark:text-gray-400 font-normal">(Optional)</span>
+            </label>
+            <PetTagPicker selectedIds={petIds} onChange={setPetIds} />
+          </div>
+
           {/* Submit Button */}
           <div className="flex gap-4">
             <Button
@@ -9,6 +9,11 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { PetTagPicker } from '../components/PetTagPicker';
+import { TaxonomyPicker } from '../components/TaxonomyPicker';
+import { useVideoTaxonomy } from '../hooks/useVideoTaxonomy';
+import { formatVideoCategory } from '../lib/taxonomy';
+import { PetSummary, getSpeciesInfo } from '../lib/pets';
 
 interface Video {
   id: string;
@@ -20,6 +25,9 @@ interface Video {
   username?: string;
   created_at: string;
   view_count?: number;
+  pets?: PetSummary[];
+  species?: string | null;
+  breed?: string | null;
 }
 
 interface Comment {
@@ -71,6 +79,9 @@ export const VideoDetail = () => {
   const [showEditModal, setShowEditModal] = useState(false);
   const [editTitle, setEditTitle] = useState('');
   const [editDescription, setEditDescription] = useState('');
+  const [editPetIds, setEditPetIds] = useState<string[]>([]);
+  const [editSpecies, setEditSpecies] = useState('');
+  const [editBreed, setEditBreed] = useState('');
   const [savingEdit, setSavingEdit] = useState(false);
   const [titleExpanded, setTitleExpanded] = useState(false);
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
@@ -85,6 +96,7 @@ export const VideoDetail = () => {
   const [commentToDelete, setCommentToDelete] = useState<string | null>(null);
   const { user } = useAuth();
   const toast = useToast();
+  const taxonomy = useVideoTaxonomy();
 
   useEffect(() => {
     const fetchVideoDetails = async () => {
@@ -628,6 +640,9 @@ export const VideoDetail = () => {
     if (!video) return;
     setEditTitle(video.title);
     setEditDescription(video.description);
+    setEditPetIds((video.pets || []).map(pet => pet.id));
+    setEditSpecies(video.species || '');
+    setEditBreed(video.breed || '');
     setShowEditModal(true);
   };
 
@@ -640,12 +655,18 @@ export const VideoDetail = () => {
       const response = await api.patch(`/videos/${id}`, {
         title: editTitle,
         description: editDescription,
+        pet_ids: editPetIds,
+        species: editSpecies || null,
+        breed: editBreed || null,
       });
 
       setVideo(prev => prev ? {
         ...prev,
         title: editTitle,
-        description: editDescription
+        description: editDescription,
+        species: editSpecies || null,
+        breed: editBreed || null,
+        pets: response.data.video?.pets ?? prev.pets
       } : null);
 
       setShowEditModal(false);
@@ -794,6 +815,36 @@ export const VideoDetail = () => {
                 </Link>
               )}
 
+              {/* Category */}
+              {video.species && (
+                <Link
+                  to={`/search?species=${encodeURIComponent(video.species)}${video.breed ? `&breed=${encodeURIComponent(video.breed)}` : ''}`}
+                  className="inline-block mb-3 px-3 py-1 rounded-full text-xs font-semibold bg-petflix-orange/10 text-petflix-orange hover:bg-petflix-orange/20 transition"
+                >
+                  {formatVideoCategory(taxonomy, video.species, video.breed)}
+                </Link>
+              )}
+
+              {/* Tagged Pets */}
+              {video.pets && video.pets.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {video.pets.map((pet) => (
+                    <Link
+                      key={pet.id}
+                      to={`/pet/${pet.id}`}
+                      className="flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium bg-gray-200 dark:bg-[#272727] text-charcoal dark:text-white hover:bg-gray-300 dark:hover:bg-[#333333] transition"
+                    >
+                      {pet.photo_url ? (
+                        <img src={pet.photo_url} alt="" className="w-5 h-5 rounded-full object-cover" />
+                      ) : (
+                        <span>{getSpeciesInfo(pet.species).emoji}</span>
+                      )}
+                      {pet.name}
+                    </Link>
+                  ))}
+                </div>
+              )}
+
               {/* Like and Playlist Buttons */}
               <div className="flex gap-2 mb-4">
                 <button
@@ -1650,6 +1701,28 @@ export const VideoDetail = () => {
               </p>
             </div>
 
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-charcoal dark:text-white mb-3">
+                Category
+              </label>
+              <TaxonomyPicker
+                species={editSpecies}
+                breed={editBreed}
+                onChange={(species, breed) => {
+                  setEditSpecies(species);
+                  setEditBreed(breed);
+                }}
+                selectClassName="w-full px-3 py-2 rounded-md bg-white dark:bg-petflix-dark-gray text-charcoal dark:text-white border border-gray-300 dark:border-gray-700 text-sm"
+              />
+            </div>
+
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-charcoal dark:text-white mb-3">
+                Pets in this Video
+              </label>
+              <PetTagPicker selectedIds={editPetIds} onChange={setEditPetIds} />
+            </div>
+
             <div className="flex gap-3">
               <Button
                 type="button"
@@ -4,6 +4,8 @@ const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5002/api/
 
 const api = axios.create({
   baseURL: API_BASE_URL,
+  // Sends the anonymous visitor cookie, which keeps signed-out visitors in the same A/B experiment variant
+  withCredentials: true,
   headers: {
     'Content-Type': 'application/json',
   },
@@ -23,27 +25,90 @@ api.interceptors.request.use(
   }
 );
 
+// Clear auth state and let AuthContext know the session is over
+const expireSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+
+  // Only notify if we're not already on login/register page
+  const currentPath = window.location.pathname;
+  if (!currentPath.includes('/login') && !currentPath.includes('/register')) {
+    // Dispatch a custom event that AuthContext can listen to
+    window.dispatchEvent(new CustomEvent('auth:token-expired'));
+  }
+};
+
+// Single in-flight refresh shared by every request that hit a 401 at the same time
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshAccessToken = async (): Promise<string | null> => {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    return null;
+  }
+
+  try {
+    // Use bare axios so a failed refresh doesn't re-enter this interceptor
+    const response = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+    const { token, refreshToken: newRefreshToken } = response.data;
+
+    localStorage.setItem('token', token);
+    localStorage.setItem('refreshToken', newRefreshToken);
+    window.dispatchEvent(new CustomEvent('auth:token-refreshed', { detail: { token } }));
+
+    return token;
+  } catch (error: any) {
+    // Another tab rotated the token first - pick up the pair it stored
+    const currentRefreshToken = localStorage.getItem('refreshToken');
+    if (error.response?.data?.reason === 'stale' && currentRefreshToken && currentRefreshToken !== refreshToken) {
+      return localStorage.getItem('token');
+    }
+    return null;
+  }
+};
+
 // Response interceptor for error handling
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      // Don't clear auth state for auth endpoints (login/register) - those 401s are expected
-      const isAuthEndpoint = error.config?.url?.includes('/auth/login') || 
-                            error.config?.url?.includes('/auth/register');
-      
+  async (error) => {
+    const originalRequest = error.config;
+
+    // Don't touch auth state for auth endpoints (login/register) - those 401s/403s are expected
+    // (/auth/login also covers the /auth/login/2fa second step)
+    const isAuthEndpoint = originalRequest?.url?.includes('/auth/login') || 
+                          originalRequest?.url?.includes('/auth/register') ||
+                          originalRequest?.url?.includes('/auth/magic-link') ||
+                          originalRequest?.url?.includes('/auth/oidc');
+
+    // Account suspended or banned mid-session - sign out and let the login page explain why
+    if (error.response?.status === 403 && error.response.data?.sanction && !isAuthEndpoint) {
+      localStorage.setItem('account_sanction', JSON.stringify(error.response.data.sanction));
+      expireSession();
+      return Promise.reject(error);
+    }
+
+    if (error.response?.status === 401 && originalRequest) {
       if (!isAuthEndpoint) {
-        // Token expired or invalid for protected endpoints
-        // Clear auth state but don't redirect - let AuthContext handle it
-        localStorage.removeItem('token');
-        localStorage.removeItem('user');
-        
-        // Only redirect if we're not already on login/register page
-        const currentPath = window.location.pathname;
-        if (!currentPath.includes('/login') && !currentPath.includes('/register')) {
-          // Dispatch a custom event that AuthContext can listen to
-          window.dispatchEvent(new CustomEvent('auth:token-expired'));
+        // Access token expired or revoked - refresh silently and retry once
+        if (!originalRequest._retry) {
+          originalRequest._retry = true;
+
+          if (!refreshPromise) {
+            refreshPromise = refreshAccessToken().finally(() => {
+              refreshPromise = null;
+            });
+          }
+
+          const newToken = await refreshPromise;
+          if (newToken) {
+            originalRequest.headers.Authorization = `Bearer ${newToken}`;
+            return api(originalRequest);
+          }
         }
+
+        // Refresh failed - the session is gone
+        expireSession();
       }
     }
     return Promise.reject(error);
@@ -56,6 +121,26 @@ export const authAPI = {
     api.post('/auth/register', data),
   login: (data: { email: string; password: string }) =>
     api.post('/auth/login', data),
+  requestMagicLink: (email: string) =>
+    api.post('/auth/magic-link', { email }),
+  verifyMagicLink: (token: string) =>
+    api.post('/auth/magic-link/verify', { token }),
+  getOidcConfig: () => api.get('/auth/oidc/config'),
+  startOidcLogin: () => api.get('/auth/oidc/authorize'),
+  completeOidcLogin: (data: { code: string; state: string }) =>
+    api.post('/auth/oidc/callback', data),
+  verifyTwoFactor: (data: { challengeToken: string; code: string }) =>
+    api.post('/auth/login/2fa', data),
+  getTwoFactorStatus: () => api.get('/auth/2fa'),
+  setupTwoFactor: () => api.post('/auth/2fa/setup'),
+  enableTwoFactor: (code: string) => api.post('/auth/2fa/enable', { code }),
+  disableTwoFactor: (data: { password: string; code: string }) =>
+    api.post('/auth/2fa/disable', data),
+  regenerateRecoveryCodes: (code: string) =>
+    api.post('/auth/2fa/recovery-codes', { code }),
+  logout: (refreshToken: string) =>
+    api.post('/auth/logout', { refreshToken }),
+  logoutAll: () => api.post('/auth/logout-all'),
 };
 
 // Users API
@@ -69,15 +154,37 @@ export const usersAPI = {
     api.patch(`/users/${userId}/password`, data),
   deleteAccount: (userId: string) =>
     api.delete(`/users/${userId}`),
+  block: (userId: string) => api.post(`/users/${userId}/block`),
+  unblock: (userId: string) => api.delete(`/users/${userId}/block`),
+  mute: (userId: string) => api.post(`/users/${userId}/mute`),
+  unmute: (userId: string) => api.delete(`/users/${userId}/mute`),
+  getBlocks: (userId: string) => api.get(`/users/${userId}/blocks`),
+  getMutes: (userId: string) => api.get(`/users/${userId}/mutes`),
+  getSearchHistory: (userId: string, page = 1, limit = 20) =>
+    api.get(`/users/${userId}/search-history`, { params: { page, limit } }),
+  clearSearchHistory: (userId: string) => api.delete(`/users/${userId}/search-history`),
 };
 
 // Videos API
 export const videosAPI = {
-  shareVideo: (data: { youtubeUrl: string; title?: string; description?: string }) =>
+  shareVideo: (data: { youtubeUrl: string; title?: string; description?: string; pet_ids?: string[]; species?: string | null; breed?: string | null }) =>
     api.post('/videos', data),
   getVideo: (videoId: string) => api.get(`/videos/${videoId}`),
-  updateVideo: (videoId: string, data: { title?: string; description?: string }) =>
+  getTrending: (window: '1h' | '24h' | '7d' | '30d', limit = 12) =>
+    api.get('/videos/trending', { params: { window, limit } }),
+  getForYou: (cursor?: string | null, limit = 20) =>
+    api.get('/videos/for-you', { params: { cursor: cursor || undefined, limit } }),
+  // Search result click beacon (failures are ignored by callers)
+  recordSearchClick: (searchId: string, videoId: string) =>
+    api.post('/videos/search/clicks', { search_id: searchId, video_id: videoId }),
+  // Log an as-you-type search once its results settled (failures are ignored by callers)
+  commitSearchImpression: (impressionToken: string) =>
+    api.post('/videos/search/impressions', { impression_token: impressionToken }),
+  getSuggestions: (query: string, limit = 8) =>
+    api.get('/videos/search/suggest', { params: { q: query, limit } }),
+  updateVideo: (videoId: string, data: { title?: string; description?: string; pet_ids?: string[]; species?: string | null; breed?: string | null }) =>
     api.patch(`/videos/${videoId}`, data),
+  getTaxonomy: () => api.get('/videos/taxonomy'),
   deleteVideo: (videoId: string) => api.delete(`/videos/${videoId}`),
   searchYouTube: (query: string, maxResults = 10, pageToken?: string) =>
     api.get('/videos/search/youtube', { params: { q: query, maxResults, pageToken } }),
@@ -91,6 +198,9 @@ export const followsAPI = {
   getFollowers: (userId: string) => api.get(`/follows/${userId}/followers`),
   getFollowing: (userId: string) => api.get(`/follows/${userId}/following`),
   getFeed: (userId: string) => api.get(`/follows/${userId}/feed`),
+  getRequests: () => api.get('/follows/requests'),
+  approveRequest: (userId: string) => api.post(`/follows/requests/${userId}/approve`),
+  denyRequest: (userId: string) => api.delete(`/follows/requests/${userId}`),
 };
 
 // Comments API
@@ -126,17 +236,78 @@ export const playlistsAPI = {
     api.get(`/playlists/${playlistId}/videos/filter`, { params: { tag } }),
 };
 
+// Pets API
+export const petsAPI = {
+  createPet: (data: { name: string; species: string; breed?: string | null; birthday?: string | null }) =>
+    api.post('/pets', data),
+  getPet: (petId: string) => api.get(`/pets/${petId}`),
+  getUserPets: (userId: string) => api.get(`/pets/user/${userId}`),
+  getPetVideos: (petId: string) => api.get(`/pets/${petId}/videos`),
+  updatePet: (petId: string, data: { name?: string; species?: string; breed?: string | null; birthday?: string | null }) =>
+    api.patch(`/pets/${petId}`, data),
+  uploadPhoto: (petId: string, image: string, imageType: string) =>
+    api.post(`/pets/${petId}/photo`, { image, imageType }),
+  deletePet: (petId: string) => api.delete(`/pets/${petId}`),
+};
+
+// Saved Searches API
+export const savedSearchesAPI = {
+  list: () => api.get('/saved-searches'),
+  create: (data: { name: string; query?: string | null; sort?: string; filters?: Record<string, string>; alerts_enabled?: boolean }) =>
+    api.post('/saved-searches', data),
+  update: (savedSearchId: string, data: { name?: string; alerts_enabled?: boolean }) =>
+    api.patch(`/saved-searches/${savedSearchId}`, data),
+  remove: (savedSearchId: string) => api.delete(`/saved-searches/${savedSearchId}`),
+};
+
 // Reports API
 export const reportsAPI = {
   reportVideo: (data: { video_id: string; reason: string; details?: string }) =>
     api.post('/reports', data),
-  getReports: (status = 'pending', page = 1, limit = 20) =>
-    api.get('/reports', { params: { status, page, limit } }),
+  getReports: (status = 'pending', page = 1, limit = 20, reason?: string) =>
+    api.get('/reports', { params: { status, page, limit, reason } }),
   approveReport: (reportId: string) => api.patch(`/reports/${reportId}/approve`),
-  rejectReport: (reportId: string) => api.patch(`/reports/${reportId}/reject`),
+  rejectReport: (reportId: string, all = false) => api.patch(`/reports/${reportId}/reject`, { all }),
+  restoreVideo: (videoId: string) => api.patch(`/reports/videos/${videoId}/restore`),
   getReportReasons: () => api.get('/reports/reasons'),
 };
 
+// Admin API
+export const adminAPI = {
+  searchUsers: (params: { q?: string; locked?: boolean; role?: string; page?: number; limit?: number } = {}) =>
+    api.get('/admin/users', { params }),
+  getUser: (userId: string) => api.get(`/admin/users/${userId}`),
+  unlockUser: (userId: string) => api.post(`/admin/users/${userId}/unlock`),
+  setRole: (userId: string, role: string) =>
+    api.patch(`/admin/users/${userId}/role`, { role }),
+  forcePasswordReset: (userId: string) =>
+    api.post(`/admin/users/${userId}/force-password-reset`),
+  getSanctions: (userId: string) => api.get(`/admin/users/${userId}/sanctions`),
+  issueSanction: (userId: string, data: { type: 'suspension' | 'ban' | 'shadowban'; reason: string; expires_at?: string | null }) =>
+    api.post(`/admin/users/${userId}/sanctions`, data),
+  liftSanction: (userId: string, sanctionId: string, reason?: string) =>
+    api.delete(`/admin/users/${userId}/sanctions/${sanctionId}`, { data: { reason } }),
+  getAuditLog: (params: { action?: string; adminId?: string; targetType?: string; targetId?: string; page?: number; limit?: number } = {}) =>
+    api.get('/admin/audit-log', { params }),
+  getExperiments: () => api.get('/admin/experiments'),
+  createExperiment: (data: {
+    key: string;
+    name: string;
+    description?: string | null;
+    surface: 'search' | 'trending';
+    variants: { key: string; name: string; allocation: number; config?: Record<string, unknown> }[];
+  }) => api.post('/admin/experiments', data),
+  startExperiment: (experimentId: string) => api.post(`/admin/experiments/${experimentId}/start`),
+  stopExperiment: (experimentId: string) => api.post(`/admin/experiments/${experimentId}/stop`),
+  getExperimentReport: (experimentId: string) => api.get(`/admin/experiments/${experimentId}/report`),
+  getSearchAnalytics: (days = 30) => api.get('/admin/search-analytics', { params: { days } }),
+};
+
+// Experiments API (outcome beacons; failures are ignored by callers)
+export const experimentsAPI = {
+  recordClick: (videoId: string) => api.post('/experiments/events', { event_type: 'click', video_id: videoId }),
+};
+
 // Video Likes API
 export const videoLikesAPI = {
   like: (videoId: string) => api.post(`/video-likes/${videoId}`),